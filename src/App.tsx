@@ -13,10 +13,14 @@ const Dashboard = lazy(() => import("./pages/Dashboard"));
 const Profile = lazy(() => import("./pages/Profile"));
 const Admin = lazy(() => import("./pages/Admin"));
 const LearningHub = lazy(() => import("./pages/LearningHub"));
+const Course = lazy(() => import("./pages/Course"));
 const CommunityChat = lazy(() => import("./pages/CommunityChat"));
 const LabAccess = lazy(() => import("./pages/LabAccess"));
 const Leaderboard = lazy(() => import("./pages/Leaderboard"));
+const LiveQuiz = lazy(() => import("./pages/LiveQuiz"));
+const LiveHost = lazy(() => import("./pages/LiveHost"));
 const AboutUs = lazy(() => import("./pages/AboutUs"));
+const VerifyCertificate = lazy(() => import("./pages/VerifyCertificate"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const queryClient = new QueryClient();
@@ -53,6 +57,7 @@ function AppRoutes() {
     <Suspense fallback={<PageLoader />}>
       <Routes>
         <Route path="/auth" element={<Auth />} />
+        <Route path="/verify/:certificateId" element={<VerifyCertificate />} />
         <Route
           path="/"
           element={
@@ -85,6 +90,14 @@ function AppRoutes() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/learn/courses/:courseId"
+          element={
+            <ProtectedRoute>
+              <Course />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/chat"
           element={
@@ -109,6 +122,22 @@ function AppRoutes() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/live/host/:sessionId"
+          element={
+            <ProtectedRoute>
+              <LiveHost />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/live/:code?"
+          element={
+            <ProtectedRoute>
+              <LiveQuiz />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/about"
           element={
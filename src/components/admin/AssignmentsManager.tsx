@@ -0,0 +1,437 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from 'sonner';
+import { CalendarClock, ClipboardCheck, Edit, Loader2, Plus, Trash2, X, Zap } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { GradingQueue } from '@/components/admin/GradingQueue';
+import type { Json } from '@/integrations/supabase/types';
+import { fromDateTimeLocal, toDateTimeLocal } from '@/lib/quiz';
+import { lateRules, rubricTotal, toAssignment, type Assignment, type RubricCriterion } from '@/lib/assignments';
+import { format } from 'date-fns';
+
+interface AssignmentForm {
+  title: string;
+  description: string;
+  rubric: RubricCriterion[];
+  due_at: string;
+  xp_reward: number;
+  max_submissions: number;
+  late_penalty_percent: number;
+  // Blank accepts late work any time
+  late_cutoff_days: string;
+  is_published: boolean;
+}
+
+const newCriterion = (): RubricCriterion => ({ id: crypto.randomUUID(), title: '', description: '', points: 10 });
+
+const EMPTY_FORM: AssignmentForm = {
+  title: '',
+  description: '',
+  rubric: [],
+  due_at: '',
+  xp_reward: 100,
+  max_submissions: 1,
+  late_penalty_percent: 10,
+  late_cutoff_days: '3',
+  is_published: false,
+};
+
+export function AssignmentsManager() {
+  const { user } = useAuth();
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AssignmentForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const fetchAssignments = async () => {
+    const [{ data }, { count }] = await Promise.all([
+      supabase
+        .from('assignments')
+        .select('id, title, description, rubric, due_at, xp_reward, max_submissions, late_penalty_percent, late_cutoff_days, is_published')
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('assignment_submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'submitted'),
+    ]);
+
+    if (data) setAssignments(data.map(toAssignment));
+    setPendingCount(count ?? 0);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAssignments();
+  }, []);
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, rubric: [newCriterion()] });
+  };
+
+  const updateCriterion = (id: string, changes: Partial<RubricCriterion>) => {
+    setForm({ ...form, rubric: form.rubric.map(c => (c.id === id ? { ...c, ...changes } : c)) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.title.trim()) {
+      toast.error('Please fill in the title');
+      return;
+    }
+    if (form.rubric.length === 0 || form.rubric.some(c => !c.title.trim())) {
+      toast.error('Give every rubric criterion a title');
+      return;
+    }
+    if (form.rubric.some(c => c.points <= 0)) {
+      toast.error('Each rubric criterion needs some points');
+      return;
+    }
+
+    setSaving(true);
+
+    const details = {
+      title: form.title.trim(),
+      description: form.description.trim(),
+      rubric: form.rubric.map(c => ({ ...c, title: c.title.trim(), description: c.description.trim() })) as unknown as Json,
+      due_at: fromDateTimeLocal(form.due_at),
+      xp_reward: form.xp_reward,
+      max_submissions: form.max_submissions,
+      late_penalty_percent: form.late_penalty_percent,
+      late_cutoff_days: form.late_cutoff_days === '' ? null : parseInt(form.late_cutoff_days),
+      is_published: form.is_published,
+    };
+
+    if (editingId) {
+      const { error } = await supabase
+        .from('assignments')
+        .update(details)
+        .eq('id', editingId);
+
+      if (error) {
+        toast.error('Failed to update assignment');
+      } else {
+        toast.success('Assignment updated');
+        closeDialog();
+        fetchAssignments();
+      }
+    } else {
+      const { error } = await supabase
+        .from('assignments')
+        .insert({ ...details, created_by: user?.id });
+
+      if (error) {
+        toast.error('Failed to add assignment');
+      } else {
+        toast.success('Assignment added');
+        closeDialog();
+        fetchAssignments();
+      }
+    }
+    setSaving(false);
+  };
+
+  const handleEdit = (assignment: Assignment) => {
+    setEditingId(assignment.id);
+    setForm({
+      title: assignment.title,
+      description: assignment.description,
+      rubric: assignment.rubric,
+      due_at: toDateTimeLocal(assignment.due_at),
+      xp_reward: assignment.xp_reward,
+      max_submissions: assignment.max_submissions,
+      late_penalty_percent: assignment.late_penalty_percent,
+      late_cutoff_days: assignment.late_cutoff_days === null ? '' : String(assignment.late_cutoff_days),
+      is_published: assignment.is_published,
+    });
+    setDialogOpen(true);
+  };
+
+  const togglePublished = async (assignment: Assignment) => {
+    const { error } = await supabase
+      .from('assignments')
+      .update({ is_published: !assignment.is_published })
+      .eq('id', assignment.id);
+
+    if (error) {
+      toast.error('Failed to update assignment');
+    } else {
+      fetchAssignments();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('assignments').delete().eq('id', id);
+    if (error) {
+      toast.error('Failed to delete assignment');
+    } else {
+      toast.success('Assignment deleted');
+      fetchAssignments();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue="assignments" className="space-y-4">
+      <TabsList>
+        <TabsTrigger value="assignments">Assignments</TabsTrigger>
+        <TabsTrigger value="queue" className="flex items-center gap-2">
+          Grading Queue
+          {pendingCount > 0 && <Badge variant="secondary">{pendingCount}</Badge>}
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="assignments" className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-medium">{assignments.length} Assignments</h3>
+          <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+            <DialogTrigger asChild>
+              <Button onClick={() => setForm({ ...EMPTY_FORM, rubric: [newCriterion()] })}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Assignment
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingId ? 'Edit Assignment' : 'Add Assignment'}</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="assignment_title">Title</Label>
+                  <Input
+                    id="assignment_title"
+                    value={form.title}
+                    onChange={(e) => setForm({ ...form, title: e.target.value })}
+                    placeholder="e.g. Build a line-following robot"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="assignment_description">Task</Label>
+                  <Textarea
+                    id="assignment_description"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    placeholder="What students should build and what to hand in"
+                    rows={4}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Rubric</Label>
+                    <span className="text-xs text-muted-foreground">{rubricTotal(form.rubric)} points total</span>
+                  </div>
+                  {form.rubric.map((criterion, index) => (
+                    <div key={criterion.id} className="rounded-md border p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground w-5">{index + 1}.</span>
+                        <Input
+                          value={criterion.title}
+                          onChange={(e) => updateCriterion(criterion.id, { title: e.target.value })}
+                          placeholder="Criterion, e.g. Wiring"
+                          className="flex-1"
+                        />
+                        <Input
+                          type="number"
+                          min={1}
+                          value={criterion.points}
+                          onChange={(e) => updateCriterion(criterion.id, { points: Math.max(0, parseInt(e.target.value) || 0) })}
+                          className="w-20"
+                          title="Points"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setForm({ ...form, rubric: form.rubric.filter(c => c.id !== criterion.id) })}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <Input
+                        value={criterion.description}
+                        onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+                        placeholder="What full marks look like (optional)"
+                        className="text-sm"
+                      />
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm({ ...form, rubric: [...form.rubric, newCriterion()] })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Criterion
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="due_at">Due</Label>
+                    <Input
+                      id="due_at"
+                      type="datetime-local"
+                      value={form.due_at}
+                      onChange={(e) => setForm({ ...form, due_at: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="assignment_xp" className="flex items-center gap-2">
+                      <Zap className="w-4 h-4 text-yellow-500" />
+                      XP for Full Marks
+                    </Label>
+                    <Input
+                      id="assignment_xp"
+                      type="number"
+                      min={0}
+                      value={form.xp_reward}
+                      onChange={(e) => setForm({ ...form, xp_reward: Math.max(0, parseInt(e.target.value) || 0) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="max_submissions">Submissions Allowed</Label>
+                    <Input
+                      id="max_submissions"
+                      type="number"
+                      min={1}
+                      value={form.max_submissions}
+                      onChange={(e) => setForm({ ...form, max_submissions: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="late_penalty">Late Penalty (% per day)</Label>
+                    <Input
+                      id="late_penalty"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={form.late_penalty_percent}
+                      onChange={(e) => setForm({ ...form, late_penalty_percent: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+                      disabled={!form.due_at}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="late_cutoff">Accept Late Work For (days)</Label>
+                    <Input
+                      id="late_cutoff"
+                      type="number"
+                      min={0}
+                      value={form.late_cutoff_days}
+                      onChange={(e) => setForm({ ...form, late_cutoff_days: e.target.value === '' ? '' : String(Math.max(0, parseInt(e.target.value) || 0)) })}
+                      placeholder="No limit"
+                      disabled={!form.due_at}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 pt-6">
+                    <Switch
+                      id="assignment_published"
+                      checked={form.is_published}
+                      onCheckedChange={(checked) => setForm({ ...form, is_published: checked })}
+                    />
+                    <Label htmlFor="assignment_published">Published</Label>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Students earn the rubric score's share of the XP, less the late penalty. A resubmission is only
+                  allowed once the previous one is graded, and only pays out if it beats the earlier grade.
+                </p>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={closeDialog}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saving}>
+                    {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {editingId ? 'Update' : 'Add Assignment'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {assignments.map((assignment) => (
+            <Card key={assignment.id}>
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="text-base truncate">{assignment.title}</CardTitle>
+                      {!assignment.is_published && <Badge variant="secondary">Draft</Badge>}
+                      {assignment.xp_reward > 0 && (
+                        <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20 shrink-0">
+                          <Zap className="w-3 h-3" />
+                          +{assignment.xp_reward}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                      <CalendarClock className="w-3 h-3" />
+                      {assignment.due_at ? `Due ${format(new Date(assignment.due_at), 'MMM d, yyyy h:mm a')}` : 'No due date'}
+                      {assignment.due_at && ` · ${lateRules(assignment)}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {assignment.rubric.length} criteria · {rubricTotal(assignment.rubric)} points ·{' '}
+                      {assignment.max_submissions === 1 ? 'one submission' : `up to ${assignment.max_submissions} submissions`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 ml-2">
+                    <Switch
+                      checked={assignment.is_published}
+                      onCheckedChange={() => togglePublished(assignment)}
+                      title={assignment.is_published ? 'Unpublish' : 'Publish'}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(assignment)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(assignment.id)}>
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {assignments.length === 0 && (
+            <div className="col-span-full text-center text-muted-foreground py-8">
+              <ClipboardCheck className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>No assignments added yet</p>
+            </div>
+          )}
+        </div>
+      </TabsContent>
+
+      <TabsContent value="queue">
+        <GradingQueue onGraded={fetchAssignments} />
+      </TabsContent>
+    </Tabs>
+  );
+}
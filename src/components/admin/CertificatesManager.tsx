@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { ExternalLink, Loader2, RotateCcw, Search, ShieldX } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+interface CertificateRow {
+  id: string;
+  code: string;
+  recipient_name: string;
+  course_title: string;
+  issued_at: string;
+  revoked_at: string | null;
+  revoke_reason: string | null;
+}
+
+export function CertificatesManager() {
+  const [certificates, setCertificates] = useState<CertificateRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [revokeReason, setRevokeReason] = useState('');
+
+  const fetchCertificates = async () => {
+    const { data } = await supabase
+      .from('certificates')
+      .select('id, code, recipient_name, course_title, issued_at, revoked_at, revoke_reason')
+      .order('issued_at', { ascending: false });
+
+    if (data) setCertificates(data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchCertificates();
+  }, []);
+
+  const setRevoked = async (certificate: CertificateRow, revoked: boolean) => {
+    const { error } = revoked
+      ? await supabase.rpc('revoke_certificate', { _certificate_id: certificate.id, _reason: revokeReason.trim() || undefined })
+      : await supabase.rpc('restore_certificate', { _certificate_id: certificate.id });
+
+    if (error) {
+      toast.error(revoked ? 'Failed to revoke certificate' : 'Failed to restore certificate');
+    } else {
+      toast.success(revoked ? 'Certificate revoked' : 'Certificate restored');
+      fetchCertificates();
+    }
+    setRevokeReason('');
+  };
+
+  const needle = search.trim().toLowerCase();
+  const filtered = certificates.filter(c =>
+    !needle ||
+    c.code.toLowerCase().includes(needle) ||
+    c.recipient_name.toLowerCase().includes(needle) ||
+    c.course_title.toLowerCase().includes(needle)
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative flex-1 min-w-[200px] max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by name, course, certificate ID..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Badge variant="secondary">{filtered.length} certificates</Badge>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Certificate ID</TableHead>
+              <TableHead>Awarded to</TableHead>
+              <TableHead>Course</TableHead>
+              <TableHead>Issued</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.map((certificate) => (
+              <TableRow key={certificate.id}>
+                <TableCell className="font-mono text-sm">{certificate.code}</TableCell>
+                <TableCell className="font-medium">{certificate.recipient_name}</TableCell>
+                <TableCell>{certificate.course_title}</TableCell>
+                <TableCell>{new Date(certificate.issued_at).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  {certificate.revoked_at ? (
+                    <Badge variant="destructive" title={certificate.revoke_reason ?? undefined}>
+                      Revoked {new Date(certificate.revoked_at).toLocaleDateString()}
+                    </Badge>
+                  ) : (
+                    <Badge className="bg-green-500/10 text-green-600">Valid</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex items-center justify-end gap-1">
+                    <Button variant="ghost" size="sm" asChild title="Open verification page">
+                      <a href={`/verify/${certificate.code}`} target="_blank" rel="noreferrer">
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </Button>
+                    {certificate.revoked_at ? (
+                      <Button variant="outline" size="sm" onClick={() => setRevoked(certificate, false)}>
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    ) : (
+                      <AlertDialog onOpenChange={(open) => !open && setRevokeReason('')}>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="destructive" size="sm">
+                            <ShieldX className="w-4 h-4 mr-1" />
+                            Revoke
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Revoke Certificate</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {certificate.recipient_name}'s certificate for {certificate.course_title} will show as
+                              revoked to anyone who verifies it. You can restore it later.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <div className="space-y-2">
+                            <Label htmlFor="revoke_reason">Reason (only visible to admins)</Label>
+                            <Input
+                              id="revoke_reason"
+                              value={revokeReason}
+                              onChange={(e) => setRevokeReason(e.target.value)}
+                              placeholder="Optional"
+                            />
+                          </div>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => setRevoked(certificate, true)}>
+                              Revoke
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {filtered.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  No certificates found
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
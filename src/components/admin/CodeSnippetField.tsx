@@ -0,0 +1,127 @@
+import { useRef, type KeyboardEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Code2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { QuizText } from '@/components/quiz/QuizText';
+import {
+  CODE_LANGUAGES,
+  CODE_LANGUAGE_LABELS,
+  codeFence,
+  hasCodeBlock,
+  isInCodeBlock,
+  type CodeLanguage,
+} from '@/lib/codeSnippets';
+
+const INDENT = '    ';
+
+interface CodeSnippetFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  inputClassName?: string;
+  // One-line look for options and steps; grows once it holds a code block
+  compact?: boolean;
+}
+
+// A textarea for question text that can carry fenced code blocks. Tab indents inside a block,
+// and a live preview shows the highlighting students will see.
+export function CodeSnippetField({ value, onChange, placeholder, rows = 2, className, inputClassName, compact }: CodeSnippetFieldProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const withCode = hasCodeBlock(value);
+
+  const replaceSelection = (text: string, caretOffset: number) => {
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    onChange(value.slice(0, start) + text + value.slice(end));
+
+    requestAnimationFrame(() => {
+      if (!textareaRef.current) return;
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(start + caretOffset, start + caretOffset);
+    });
+  };
+
+  const insertBlock = (language: CodeLanguage) => {
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    const selected = value.slice(start, end);
+
+    // Fences have to sit on their own lines
+    const before = start > 0 && value[start - 1] !== '\n' ? '\n' : '';
+    const after = end < value.length && value[end] !== '\n' ? '\n' : '';
+    const block = codeFence(language, selected);
+    const caret = before.length + language.length + 4 + selected.length;
+
+    replaceSelection(before + block + after, caret);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    // Outside code, Tab keeps moving focus as usual
+    if (e.key !== 'Tab' || e.shiftKey || !isInCodeBlock(value, e.currentTarget.selectionStart)) return;
+    e.preventDefault();
+    replaceSelection(INDENT, INDENT.length);
+  };
+
+  const insertMenu = (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant={compact ? 'ghost' : 'outline'}
+          size="sm"
+          title="Insert code block"
+        >
+          <Code2 className={cn('w-4 h-4', !compact && 'mr-1')} />
+          {!compact && 'Insert code'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {CODE_LANGUAGES.map(language => (
+          <DropdownMenuItem key={language} onClick={() => insertBlock(language)}>
+            {CODE_LANGUAGE_LABELS[language]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  const lineCount = value.split('\n').length;
+
+  return (
+    <div className={cn('space-y-2 min-w-0', className)}>
+      <div className="flex items-start gap-2">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          rows={compact ? Math.min(Math.max(lineCount, 1), 12) : Math.max(rows, Math.min(lineCount, 16))}
+          spellCheck={!withCode}
+          className={cn(compact && 'min-h-10 resize-none py-2', withCode && 'font-mono text-sm', inputClassName)}
+        />
+        {compact && insertMenu}
+      </div>
+      {!compact && (
+        <div className="flex justify-end">{insertMenu}</div>
+      )}
+      {withCode && (
+        <div className="rounded-md border border-dashed p-3">
+          <p className="text-xs text-muted-foreground mb-2">Preview</p>
+          <QuizText text={value} className="text-sm" />
+        </div>
+      )}
+    </div>
+  );
+}
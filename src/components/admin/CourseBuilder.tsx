@@ -0,0 +1,303 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BookOpen, Edit, FileText, GripVertical, Plus, Trash2, Video, X } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  contentItem,
+  itemContentId,
+  itemKey,
+  itemKind,
+  moveItem,
+  moveModule,
+  type CourseItemKind,
+  type CourseModuleDraft,
+} from '@/lib/courses';
+import { EMPTY_LESSON, type LessonDraft } from '@/lib/lessons';
+import { LessonEditorDialog, type SavedLesson } from '@/components/admin/LessonEditorDialog';
+
+interface ContentOption {
+  id: string;
+  title: string;
+}
+
+interface LessonEditing {
+  lesson: LessonDraft;
+  // Module a new lesson is added to once saved
+  moduleId: string | null;
+}
+
+interface CourseBuilderProps {
+  value: CourseModuleDraft[];
+  onChange: (modules: CourseModuleDraft[]) => void;
+}
+
+const KIND_ICONS: Record<CourseItemKind, typeof Video> = {
+  video: Video,
+  quiz: BookOpen,
+  lesson: FileText,
+};
+
+type Dragged = { type: 'item' | 'module'; id: string };
+
+// The modules of a course and the content in each, rearranged by dragging items within and
+// between modules, and modules by their handles. Lessons can also be written here as they are
+// needed, with the same editor as the Lessons tab.
+export function CourseBuilder({ value, onChange }: CourseBuilderProps) {
+  const [videos, setVideos] = useState<ContentOption[]>([]);
+  const [quizzes, setQuizzes] = useState<ContentOption[]>([]);
+  const [lessons, setLessons] = useState<SavedLesson[]>([]);
+  const dragged = useRef<Dragged | null>(null);
+  // Where the dragged item or module would land: `${moduleId}:${index}`, or a module index
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [editingLesson, setEditingLesson] = useState<LessonEditing | null>(null);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      const [videosRes, quizzesRes, lessonsRes] = await Promise.all([
+        supabase.from('videos').select('id, title').order('title'),
+        supabase.from('quizzes').select('id, title').order('title'),
+        supabase.from('lessons').select('id, title, body, xp_reward, is_published').order('title'),
+      ]);
+
+      setVideos(videosRes.data || []);
+      setQuizzes(quizzesRes.data || []);
+      setLessons(lessonsRes.data || []);
+    };
+
+    fetchOptions();
+  }, []);
+
+  const options: Record<CourseItemKind, ContentOption[]> = { video: videos, quiz: quizzes, lesson: lessons };
+  const used = new Set(value.flatMap(m => m.items.map(itemKey)));
+
+  const titleOf = (kind: CourseItemKind, id: string) =>
+    options[kind].find(o => o.id === id)?.title ?? 'Loading...';
+
+  const updateModule = (moduleId: string, patch: Partial<CourseModuleDraft>) => {
+    onChange(value.map(m => (m.id === moduleId ? { ...m, ...patch } : m)));
+  };
+
+  const addItem = (moduleId: string, kind: CourseItemKind, contentId: string) => {
+    const module = value.find(m => m.id === moduleId);
+    if (!module) return;
+    updateModule(moduleId, { items: [...module.items, { id: crypto.randomUUID(), ...contentItem(kind, contentId) }] });
+  };
+
+  const startDrag = (e: React.DragEvent, item: Dragged) => {
+    e.stopPropagation();
+    dragged.current = item;
+    e.dataTransfer.effectAllowed = 'move';
+    // Firefox won't start a drag without some data
+    e.dataTransfer.setData('text/plain', item.id);
+  };
+
+  const endDrag = () => {
+    dragged.current = null;
+    setDropTarget(null);
+  };
+
+  const dragOver = (e: React.DragEvent, type: Dragged['type'], target: string) => {
+    if (dragged.current?.type !== type) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTarget(target);
+  };
+
+  const dropItem = (e: React.DragEvent, moduleId: string, index: number) => {
+    if (dragged.current?.type !== 'item') return;
+    e.preventDefault();
+    e.stopPropagation();
+    onChange(moveItem(value, dragged.current.id, moduleId, index));
+    endDrag();
+  };
+
+  const dropModule = (e: React.DragEvent, index: number) => {
+    if (dragged.current?.type !== 'module') return;
+    e.preventDefault();
+    onChange(moveModule(value, dragged.current.id, index));
+    endDrag();
+  };
+
+  const lessonSaved = (lesson: SavedLesson) => {
+    setLessons(prev => [...prev.filter(l => l.id !== lesson.id), lesson].sort((a, b) => a.title.localeCompare(b.title)));
+    if (!editingLesson?.lesson.id && editingLesson?.moduleId) addItem(editingLesson.moduleId, 'lesson', lesson.id);
+    setEditingLesson(null);
+  };
+
+  const renderOptions = (kind: CourseItemKind, label: string) =>
+    options[kind].length > 0 && (
+      <SelectGroup>
+        <SelectLabel>{label}</SelectLabel>
+        {options[kind].map(option => (
+          <SelectItem key={option.id} value={`${kind}:${option.id}`} disabled={used.has(`${kind}:${option.id}`)}>
+            {option.title}
+          </SelectItem>
+        ))}
+      </SelectGroup>
+    );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Modules</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, { id: crypto.randomUUID(), title: '', items: [] }])}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Module
+        </Button>
+      </div>
+
+      {value.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-4 border border-dashed rounded-md">
+          Add a module, then fill it with videos, quizzes and lessons
+        </p>
+      )}
+
+      {value.map((module, moduleIndex) => (
+        <div
+          key={module.id}
+          onDragOver={(e) => dragOver(e, 'module', String(moduleIndex))}
+          onDrop={(e) => dropModule(e, moduleIndex)}
+          className={`rounded-md border p-3 space-y-2 ${dropTarget === String(moduleIndex) ? 'border-t-4 border-t-primary' : 'border-border'}`}
+        >
+          <div className="flex items-center gap-2">
+            <span
+              draggable
+              onDragStart={(e) => startDrag(e, { type: 'module', id: module.id })}
+              onDragEnd={endDrag}
+              className="cursor-grab text-muted-foreground"
+              title="Drag to reorder modules"
+            >
+              <GripVertical className="w-4 h-4" />
+            </span>
+            <span className="text-xs text-muted-foreground shrink-0">Module {moduleIndex + 1}</span>
+            <Input
+              value={module.title}
+              onChange={(e) => updateModule(module.id, { title: e.target.value })}
+              placeholder="Module title"
+              className="h-8"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(value.filter(m => m.id !== module.id))}
+            >
+              <Trash2 className="w-4 h-4 text-destructive" />
+            </Button>
+          </div>
+
+          <ul
+            onDragOver={(e) => dragOver(e, 'item', `${module.id}:${module.items.length}`)}
+            onDrop={(e) => dropItem(e, module.id, module.items.length)}
+            className={`space-y-1 min-h-10 rounded-md p-1 ${dropTarget === `${module.id}:${module.items.length}` ? 'bg-primary/10' : ''}`}
+          >
+            {module.items.map((item, index) => {
+              const kind = itemKind(item);
+              const Icon = KIND_ICONS[kind];
+              const lesson = kind === 'lesson' ? lessons.find(l => l.id === item.lesson_id) : undefined;
+              return (
+                <li
+                  key={item.id}
+                  draggable
+                  onDragStart={(e) => startDrag(e, { type: 'item', id: item.id })}
+                  onDragEnd={endDrag}
+                  onDragOver={(e) => dragOver(e, 'item', `${module.id}:${index}`)}
+                  onDrop={(e) => dropItem(e, module.id, index)}
+                  className={`flex items-center gap-2 rounded-md border bg-card px-2 py-1.5 text-sm cursor-grab ${dropTarget === `${module.id}:${index}` ? 'border-t-2 border-t-primary' : 'border-border/50'}`}
+                >
+                  <GripVertical className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <Icon className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <span className="flex-1 truncate">{titleOf(kind, itemContentId(item))}</span>
+                  {lesson && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => setEditingLesson({ lesson, moduleId: null })}
+                    >
+                      <Edit className="w-3.5 h-3.5" />
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => updateModule(module.id, { items: module.items.filter(i => i.id !== item.id) })}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </li>
+              );
+            })}
+            {module.items.length === 0 && (
+              <li className="text-xs text-muted-foreground text-center py-2">Drop content here or add some below</li>
+            )}
+          </ul>
+
+          <div className="flex gap-2">
+            <Select
+              value=""
+              onValueChange={(key) => {
+                const [kind, id] = key.split(':');
+                addItem(module.id, kind as CourseItemKind, id);
+              }}
+            >
+              <SelectTrigger className="h-8 flex-1">
+                <SelectValue placeholder="Add a video, quiz or lesson" />
+              </SelectTrigger>
+              <SelectContent>
+                {renderOptions('video', 'Videos')}
+                {renderOptions('quiz', 'Quizzes')}
+                {renderOptions('lesson', 'Lessons')}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setEditingLesson({ lesson: EMPTY_LESSON, moduleId: module.id })}
+            >
+              <FileText className="w-4 h-4 mr-1" />
+              New Lesson
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {value.length > 1 && (
+        <div
+          onDragOver={(e) => dragOver(e, 'module', String(value.length))}
+          onDrop={(e) => dropModule(e, value.length)}
+          className={`h-3 rounded-md ${dropTarget === String(value.length) ? 'bg-primary/30' : ''}`}
+        />
+      )}
+
+      {editingLesson && (
+        <LessonEditorDialog
+          lesson={editingLesson.lesson}
+          onClose={() => setEditingLesson(null)}
+          onSaved={lessonSaved}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Loader2, Plus, Trash2, Edit, GraduationCap, Zap } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { CourseBuilder } from '@/components/admin/CourseBuilder';
+import type { CourseModuleDraft } from '@/lib/courses';
+
+interface CourseItemRow {
+  id: string;
+  position: number;
+  video_id: string | null;
+  quiz_id: string | null;
+  lesson_id: string | null;
+}
+
+interface CourseRow {
+  id: string;
+  title: string;
+  description: string | null;
+  completion_xp: number;
+  is_published: boolean;
+  created_at: string;
+  course_modules: {
+    id: string;
+    title: string;
+    position: number;
+    course_items: CourseItemRow[];
+  }[];
+}
+
+interface CourseForm {
+  title: string;
+  description: string;
+  completion_xp: number;
+  is_published: boolean;
+}
+
+const EMPTY_FORM: CourseForm = {
+  title: '',
+  description: '',
+  completion_xp: 50,
+  is_published: false,
+};
+
+const toDrafts = (course: CourseRow): CourseModuleDraft[] =>
+  [...course.course_modules]
+    .sort((a, b) => a.position - b.position)
+    .map(module => ({
+      id: module.id,
+      title: module.title,
+      items: [...module.course_items]
+        .sort((a, b) => a.position - b.position)
+        .map(({ id, video_id, quiz_id, lesson_id }) => ({ id, video_id, quiz_id, lesson_id })),
+    }));
+
+// A PostgREST list, for filtering with not('id', 'in', ...)
+const notIn = (ids: string[]) => `(${ids.join(',')})`;
+
+export function CoursesManager() {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<CourseRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CourseForm>(EMPTY_FORM);
+  const [modules, setModules] = useState<CourseModuleDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCourses = async () => {
+    const { data } = await supabase
+      .from('courses')
+      .select('id, title, description, completion_xp, is_published, created_at, course_modules(id, title, position, course_items(id, position, video_id, quiz_id, lesson_id))')
+      .order('created_at', { ascending: false });
+
+    if (data) setCourses(data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchCourses();
+  }, []);
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setModules([]);
+  };
+
+  // Writes the modules and items as laid out in the builder, then drops whatever was taken out
+  const saveStructure = async (courseId: string) => {
+    const moduleRows = modules.map((m, position) => ({ id: m.id, course_id: courseId, title: m.title.trim(), position }));
+    const itemRows = modules.flatMap(m => m.items.map((item, position) => ({ ...item, module_id: m.id, position })));
+
+    if (moduleRows.length > 0) {
+      const { error } = await supabase.from('course_modules').upsert(moduleRows);
+      if (error) return error;
+    }
+
+    if (itemRows.length > 0) {
+      const { error } = await supabase.from('course_items').upsert(itemRows);
+      if (error) return error;
+    }
+
+    if (moduleRows.length > 0) {
+      const staleItems = supabase.from('course_items').delete().in('module_id', moduleRows.map(m => m.id));
+      const { error } = itemRows.length > 0
+        ? await staleItems.not('id', 'in', notIn(itemRows.map(i => i.id)))
+        : await staleItems;
+      if (error) return error;
+    }
+
+    const staleModules = supabase.from('course_modules').delete().eq('course_id', courseId);
+    const { error } = moduleRows.length > 0
+      ? await staleModules.not('id', 'in', notIn(moduleRows.map(m => m.id)))
+      : await staleModules;
+    return error;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.title.trim()) {
+      toast.error('Please fill in the title');
+      return;
+    }
+    if (modules.some(m => !m.title.trim())) {
+      toast.error('Please give every module a title');
+      return;
+    }
+    if (form.is_published && !modules.some(m => m.items.length > 0)) {
+      toast.error('Add some content before publishing the course');
+      return;
+    }
+
+    setSaving(true);
+
+    const details = {
+      title: form.title.trim(),
+      description: form.description || null,
+      completion_xp: form.completion_xp,
+      is_published: form.is_published,
+    };
+
+    if (editingId) {
+      const { error } = await supabase
+        .from('courses')
+        .update(details)
+        .eq('id', editingId);
+
+      if (error || await saveStructure(editingId)) {
+        toast.error('Failed to update course');
+      } else {
+        toast.success('Course updated');
+        closeDialog();
+        fetchCourses();
+      }
+    } else {
+      const { data: course, error } = await supabase
+        .from('courses')
+        .insert({ ...details, created_by: user?.id })
+        .select('id')
+        .single();
+
+      if (error || await saveStructure(course.id)) {
+        toast.error('Failed to add course');
+      } else {
+        toast.success('Course added');
+        closeDialog();
+        fetchCourses();
+      }
+    }
+    setSaving(false);
+  };
+
+  const handleEdit = (course: CourseRow) => {
+    setEditingId(course.id);
+    setForm({
+      title: course.title,
+      description: course.description || '',
+      completion_xp: course.completion_xp,
+      is_published: course.is_published,
+    });
+    setModules(toDrafts(course));
+    setDialogOpen(true);
+  };
+
+  const togglePublished = async (course: CourseRow) => {
+    const { error } = await supabase
+      .from('courses')
+      .update({ is_published: !course.is_published })
+      .eq('id', course.id);
+
+    if (error) {
+      toast.error('Failed to update course');
+    } else {
+      fetchCourses();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('courses').delete().eq('id', id);
+    if (error) {
+      toast.error('Failed to delete course');
+    } else {
+      toast.success('Course deleted');
+      fetchCourses();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">{courses.length} Courses</h3>
+        <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Course
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingId ? 'Edit Course' : 'Add Course'}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="course_title">Title</Label>
+                <Input
+                  id="course_title"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="e.g. Robotics 101"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="course_description">Description</Label>
+                <Textarea
+                  id="course_description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="What students will learn (optional)"
+                  rows={2}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="completion_xp" className="flex items-center gap-2">
+                    <Zap className="w-4 h-4 text-yellow-500" />
+                    Completion Bonus XP
+                  </Label>
+                  <Input
+                    id="completion_xp"
+                    type="number"
+                    min={0}
+                    value={form.completion_xp}
+                    onChange={(e) => setForm({ ...form, completion_xp: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                </div>
+                <div className="flex items-center gap-2 pt-6">
+                  <Switch
+                    id="course_published"
+                    checked={form.is_published}
+                    onCheckedChange={(checked) => setForm({ ...form, is_published: checked })}
+                  />
+                  <Label htmlFor="course_published">Published</Label>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The bonus is paid once a student has watched every video, passed every quiz and read every lesson,
+                on top of the XP each of those earns
+              </p>
+              <CourseBuilder value={modules} onChange={setModules} />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {editingId ? 'Update' : 'Add Course'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {courses.map((course) => {
+          const itemCount = course.course_modules.reduce((sum, m) => sum + m.course_items.length, 0);
+          return (
+            <Card key={course.id}>
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="text-base truncate">{course.title}</CardTitle>
+                      {!course.is_published && <Badge variant="secondary">Draft</Badge>}
+                      {course.completion_xp > 0 && (
+                        <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20 shrink-0">
+                          <Zap className="w-3 h-3" />
+                          +{course.completion_xp}
+                        </Badge>
+                      )}
+                    </div>
+                    {course.description && (
+                      <p className="text-sm text-muted-foreground truncate">{course.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {course.course_modules.length} {course.course_modules.length === 1 ? 'module' : 'modules'} · {itemCount} {itemCount === 1 ? 'item' : 'items'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 ml-2">
+                    <Switch
+                      checked={course.is_published}
+                      onCheckedChange={() => togglePublished(course)}
+                      disabled={itemCount === 0 && !course.is_published}
+                      title={course.is_published ? 'Unpublish' : 'Publish'}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(course)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(course.id)}>
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+        {courses.length === 0 && (
+          <div className="col-span-full text-center text-muted-foreground py-8">
+            <GraduationCap className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p>No courses added yet</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
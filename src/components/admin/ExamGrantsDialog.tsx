@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { fromDateTimeLocal } from '@/lib/quiz';
+
+interface Grant {
+  id: string;
+  user_id: string;
+  extra_attempts: number;
+  extra_minutes: number;
+  closes_at: string | null;
+  note: string | null;
+}
+
+interface Student {
+  user_id: string;
+  full_name: string;
+  enrollment_id: string;
+}
+
+interface ExamGrantsDialogProps {
+  quiz: { id: string; title: string; closes_at: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyGrantForm = {
+  user_id: '',
+  extra_attempts: 0,
+  extra_minutes: 0,
+  closes_at: '',
+  note: '',
+};
+
+// Per-student exceptions to an exam: extra attempts, extra minutes or a later closing time.
+// Saving for a student who already has a grant replaces it.
+export function ExamGrantsDialog({ quiz, onOpenChange }: ExamGrantsDialogProps) {
+  const { user } = useAuth();
+  const [grants, setGrants] = useState<Grant[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyGrantForm);
+
+  const quizId = quiz?.id;
+
+  const fetchGrants = async (id: string) => {
+    const { data, error } = await supabase
+      .from('quiz_exam_grants')
+      .select('id, user_id, extra_attempts, extra_minutes, closes_at, note')
+      .eq('quiz_id', id)
+      .order('created_at');
+
+    if (error) {
+      toast.error('Failed to load exam grants');
+      return;
+    }
+    setGrants(data || []);
+  };
+
+  useEffect(() => {
+    if (!quizId) return;
+
+    const load = async () => {
+      setLoading(true);
+      setForm(emptyGrantForm);
+      const [studentsRes] = await Promise.all([
+        supabase.from('profiles').select('user_id, full_name, enrollment_id').order('full_name'),
+        fetchGrants(quizId),
+      ]);
+      if (studentsRes.data) setStudents(studentsRes.data);
+      setLoading(false);
+    };
+
+    load();
+  }, [quizId]);
+
+  const studentName = (userId: string) => {
+    const student = students.find(s => s.user_id === userId);
+    return student ? `${student.full_name} (${student.enrollment_id})` : 'Unknown student';
+  };
+
+  const handleSave = async () => {
+    if (!quiz || !user) return;
+
+    if (!form.user_id) {
+      toast.error('Please choose a student');
+      return;
+    }
+
+    const closesAt = fromDateTimeLocal(form.closes_at);
+    if (closesAt && quiz.closes_at && new Date(closesAt) <= new Date(quiz.closes_at)) {
+      toast.error('A granted closing time must be later than the exam closes');
+      return;
+    }
+
+    if (form.extra_attempts === 0 && form.extra_minutes === 0 && !closesAt) {
+      toast.error('Grant extra attempts, extra minutes or a later closing time');
+      return;
+    }
+
+    setSaving(true);
+
+    const { error } = await supabase
+      .from('quiz_exam_grants')
+      .upsert({
+        quiz_id: quiz.id,
+        user_id: form.user_id,
+        extra_attempts: form.extra_attempts,
+        extra_minutes: form.extra_minutes,
+        closes_at: closesAt,
+        note: form.note.trim() || null,
+        created_by: user.id,
+      }, { onConflict: 'quiz_id,user_id' });
+
+    setSaving(false);
+
+    if (error) {
+      toast.error('Failed to save grant');
+      return;
+    }
+
+    toast.success(`Saved grant for ${studentName(form.user_id)}`);
+    setForm(emptyGrantForm);
+    fetchGrants(quiz.id);
+  };
+
+  const handleDelete = async (grant: Grant) => {
+    const { error } = await supabase.from('quiz_exam_grants').delete().eq('id', grant.id);
+    if (error) {
+      toast.error('Failed to remove grant');
+    } else if (quiz) {
+      fetchGrants(quiz.id);
+    }
+  };
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exam Grants: {quiz?.title}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {grants.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No students have been granted exceptions for this exam
+                </p>
+              )}
+              {grants.map(grant => (
+                <div key={grant.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">{studentName(grant.user_id)}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {grant.extra_attempts > 0 && <Badge variant="outline">+{grant.extra_attempts} attempts</Badge>}
+                      {grant.extra_minutes > 0 && <Badge variant="outline">+{grant.extra_minutes} min</Badge>}
+                      {grant.closes_at && (
+                        <Badge variant="outline">Closes {format(new Date(grant.closes_at), 'MMM d, yyyy h:mm a')}</Badge>
+                      )}
+                    </div>
+                    {grant.note && <p className="text-sm text-muted-foreground">{grant.note}</p>}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(grant)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-4 border-t pt-4">
+              <h4 className="font-medium">Add or Update a Grant</h4>
+              <div className="space-y-2">
+                <Label>Student</Label>
+                <Select value={form.user_id} onValueChange={(v) => setForm({ ...form, user_id: v })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a student" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {students.map(student => (
+                      <SelectItem key={student.user_id} value={student.user_id}>
+                        {student.full_name} ({student.enrollment_id})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="grant_extra_attempts">Extra Attempts</Label>
+                  <Input
+                    id="grant_extra_attempts"
+                    type="number"
+                    min={0}
+                    value={form.extra_attempts}
+                    onChange={(e) => setForm({ ...form, extra_attempts: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="grant_extra_minutes">Extra Minutes</Label>
+                  <Input
+                    id="grant_extra_minutes"
+                    type="number"
+                    min={0}
+                    value={form.extra_minutes}
+                    onChange={(e) => setForm({ ...form, extra_minutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="grant_closes_at">Closes At</Label>
+                  <Input
+                    id="grant_closes_at"
+                    type="datetime-local"
+                    value={form.closes_at}
+                    onChange={(e) => setForm({ ...form, closes_at: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="grant_note">Note</Label>
+                <Input
+                  id="grant_note"
+                  value={form.note}
+                  onChange={(e) => setForm({ ...form, note: e.target.value })}
+                  placeholder="e.g., Medical leave on exam day"
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                  Save Grant
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,338 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from 'sonner';
+import { FileIcon, Loader2, Zap } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  ASSIGNMENT_BUCKET,
+  formatFileSize,
+  gradeResult,
+  latePenalty,
+  toAssignment,
+  toSubmission,
+  type Assignment,
+  type CriterionScore,
+  type Submission,
+} from '@/lib/assignments';
+import { format } from 'date-fns';
+
+type QueueEntry = Submission & { assignment: Assignment };
+
+interface GradingQueueProps {
+  onGraded?: () => void;
+}
+
+// Signed links to private submission files last this long (seconds)
+const FILE_LINK_TTL = 60 * 60;
+
+export function GradingQueue({ onGraded }: GradingQueueProps) {
+  const [view, setView] = useState<'submitted' | 'graded'>('submitted');
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [studentNames, setStudentNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [grading, setGrading] = useState<QueueEntry | null>(null);
+  const [fileUrls, setFileUrls] = useState<Record<string, string>>({});
+  const [scores, setScores] = useState<CriterionScore[]>([]);
+  const [feedback, setFeedback] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('assignment_submissions')
+      .select('id, assignment_id, user_id, attempt_number, write_up, files, submitted_at, days_late, status, scores, feedback, score_percent, xp_awarded, graded_at, assignments(id, title, description, rubric, due_at, xp_reward, max_submissions, late_penalty_percent, late_cutoff_days, is_published)')
+      .eq('status', view)
+      // Oldest first while grading, most recently graded first after
+      .order(view === 'submitted' ? 'submitted_at' : 'graded_at', { ascending: view === 'submitted' })
+      .limit(200);
+
+    if (error) {
+      toast.error('Failed to load submissions');
+      setLoading(false);
+      return;
+    }
+
+    const userIds = [...new Set(data.map(s => s.user_id))];
+    const { data: profiles } = userIds.length > 0
+      ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+      : { data: [] };
+
+    setEntries(data.map(({ assignments, ...row }) => ({ ...toSubmission(row), assignment: toAssignment(assignments) })));
+    setStudentNames(Object.fromEntries((profiles || []).map(p => [p.user_id, p.full_name])));
+    setLoading(false);
+  }, [view]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const openGrading = async (entry: QueueEntry) => {
+    setGrading(entry);
+    setFeedback(entry.feedback ?? '');
+    setScores(entry.assignment.rubric.map(criterion => {
+      const existing = entry.scores?.find(s => s.criterion_id === criterion.id);
+      return { criterion_id: criterion.id, points: existing?.points ?? 0, comment: existing?.comment ?? '' };
+    }));
+    setFileUrls({});
+
+    if (entry.files.length > 0) {
+      const { data, error } = await supabase.storage
+        .from(ASSIGNMENT_BUCKET)
+        .createSignedUrls(entry.files.map(f => f.path), FILE_LINK_TTL);
+
+      if (error) {
+        toast.error('Failed to load submitted files');
+      } else {
+        setFileUrls(Object.fromEntries(data.filter(d => d.signedUrl).map(d => [d.path, d.signedUrl])));
+      }
+    }
+  };
+
+  const updateScore = (criterionId: string, changes: Partial<CriterionScore>) => {
+    setScores(scores.map(s => (s.criterion_id === criterionId ? { ...s, ...changes } : s)));
+  };
+
+  const handleGrade = async () => {
+    if (!grading) return;
+    setSaving(true);
+
+    const { data, error } = await supabase.rpc('grade_submission', {
+      _submission_id: grading.id,
+      _scores: scores as unknown as Json,
+      _feedback: feedback,
+    });
+
+    if (error || !data) {
+      console.error('Error grading submission:', error);
+      toast.error('Failed to save grade');
+    } else {
+      toast.success(
+        data.xp_awarded > grading.xp_awarded
+          ? `Graded ${data.score_percent}%, +${data.xp_awarded - grading.xp_awarded} XP`
+          : `Graded ${data.score_percent}%`,
+      );
+      setGrading(null);
+      fetchQueue();
+      onGraded?.();
+    }
+    setSaving(false);
+  };
+
+  const result = grading ? gradeResult(grading.assignment, scores, grading.days_late) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Tabs value={view} onValueChange={(value) => setView(value as 'submitted' | 'graded')}>
+          <TabsList>
+            <TabsTrigger value="submitted">To Grade</TabsTrigger>
+            <TabsTrigger value="graded">Graded</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Badge variant="secondary">{entries.length} submissions</Badge>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead>Assignment</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>{view === 'submitted' ? 'Files' : 'Score'}</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="font-medium">{studentNames[entry.user_id] ?? 'Unknown student'}</TableCell>
+                  <TableCell>
+                    {entry.assignment.title}
+                    {entry.attempt_number > 1 && (
+                      <span className="text-xs text-muted-foreground ml-2">attempt {entry.attempt_number}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {format(new Date(entry.submitted_at), 'MMM d, h:mm a')}
+                      {entry.days_late > 0 && (
+                        <Badge variant="outline" className="text-orange-600 border-orange-500/30">
+                          {entry.days_late}d late
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {view === 'submitted' ? entry.files.length : `${entry.score_percent}%`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant={view === 'submitted' ? 'default' : 'outline'} size="sm" onClick={() => openGrading(entry)}>
+                      {view === 'submitted' ? 'Grade' : 'Regrade'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    {view === 'submitted' ? 'Nothing waiting to be graded' : 'No graded submissions yet'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!grading} onOpenChange={(open) => !open && setGrading(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {grading && result && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {grading.assignment.title} · {studentNames[grading.user_id] ?? 'Unknown student'}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-5">
+                <p className="text-sm text-muted-foreground">
+                  Attempt {grading.attempt_number}, submitted {format(new Date(grading.submitted_at), 'MMM d, yyyy h:mm a')}
+                  {grading.days_late > 0 && ` · ${grading.days_late} day${grading.days_late === 1 ? '' : 's'} late (−${latePenalty(grading.assignment, grading.days_late)}%)`}
+                </p>
+
+                <div className="space-y-2">
+                  <Label>Write-up</Label>
+                  <div className="rounded-md bg-muted/50 p-3 text-sm whitespace-pre-wrap">
+                    {grading.write_up || <span className="text-muted-foreground">No write-up</span>}
+                  </div>
+                </div>
+
+                {grading.files.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Files</Label>
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      {grading.files.map((file) => {
+                        const url = fileUrls[file.path];
+                        return (
+                          <div key={file.path} className="rounded-md border p-2 space-y-2">
+                            {url && file.type.startsWith('image/') && (
+                              <a href={url} target="_blank" rel="noreferrer">
+                                <img src={url} alt={file.name} className="max-h-48 w-full object-contain rounded" />
+                              </a>
+                            )}
+                            {url && file.type.startsWith('video/') && (
+                              <video src={url} controls className="max-h-48 w-full rounded" />
+                            )}
+                            <a
+                              href={url}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="flex items-center gap-2 text-sm hover:underline"
+                            >
+                              <FileIcon className="w-4 h-4 shrink-0" />
+                              <span className="truncate flex-1">{file.name}</span>
+                              <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+                            </a>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-3">
+                  <Label>Rubric</Label>
+                  {grading.assignment.rubric.map((criterion) => {
+                    const score = scores.find(s => s.criterion_id === criterion.id);
+                    return (
+                      <div key={criterion.id} className="rounded-md border p-3 space-y-2">
+                        <div className="flex items-start justify-between gap-3">
+                          <div>
+                            <p className="font-medium text-sm">{criterion.title}</p>
+                            {criterion.description && (
+                              <p className="text-xs text-muted-foreground">{criterion.description}</p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1 shrink-0">
+                            <Input
+                              type="number"
+                              min={0}
+                              max={criterion.points}
+                              value={score?.points ?? 0}
+                              onChange={(e) => updateScore(criterion.id, {
+                                points: Math.min(criterion.points, Math.max(0, parseFloat(e.target.value) || 0)),
+                              })}
+                              className="w-20"
+                            />
+                            <span className="text-sm text-muted-foreground">/ {criterion.points}</span>
+                          </div>
+                        </div>
+                        <Input
+                          value={score?.comment ?? ''}
+                          onChange={(e) => updateScore(criterion.id, { comment: e.target.value })}
+                          placeholder="Comment (optional)"
+                          className="text-sm"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="grade_feedback">Feedback</Label>
+                  <Textarea
+                    id="grade_feedback"
+                    value={feedback}
+                    onChange={(e) => setFeedback(e.target.value)}
+                    placeholder="Overall comments for the student"
+                    rows={3}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                  <div className="text-sm">
+                    <span className="font-medium">{result.earned}/{result.possible} points</span>
+                    <span className="text-muted-foreground"> · {result.scorePercent}%</span>
+                    {grading.assignment.xp_reward > 0 && (
+                      <Badge variant="outline" className="ml-2 bg-yellow-500/10 text-yellow-600 border-yellow-500/20">
+                        <Zap className="w-3 h-3 mr-1" />
+                        {result.xp} XP
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => setGrading(null)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleGrade} disabled={saving}>
+                      {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Save Grade
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Radio } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { liveSessionAction } from '@/hooks/useLiveSession';
+
+interface HostLiveSessionDialogProps {
+  quiz: { id: string; title: string; xp_reward: number } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Opens a live session for a quiz and takes the host to the projector view
+export function HostLiveSessionDialog({ quiz, onOpenChange }: HostLiveSessionDialogProps) {
+  const navigate = useNavigate();
+  const [awardXp, setAwardXp] = useState(true);
+  const [xpReward, setXpReward] = useState(0);
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    if (quiz) {
+      setAwardXp(true);
+      setXpReward(quiz.xp_reward);
+    }
+  }, [quiz]);
+
+  const handleStart = async () => {
+    if (!quiz) return;
+
+    setStarting(true);
+    const data = await liveSessionAction<{ session_id: string; join_code: string }>({
+      action: 'create',
+      quiz_id: quiz.id,
+      xp_reward: awardXp ? xpReward : 0,
+    });
+    setStarting(false);
+
+    if (data) navigate(`/live/host/${data.session_id}`);
+  };
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Host Live Session</DialogTitle>
+          <DialogDescription>
+            Everyone answers {quiz?.title} together from their phones, one question at a time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="live-award-xp">Award XP</Label>
+              <p className="text-sm text-muted-foreground">Shared out by correct answers when the session ends</p>
+            </div>
+            <Switch id="live-award-xp" checked={awardXp} onCheckedChange={setAwardXp} />
+          </div>
+          {awardXp && (
+            <div className="space-y-2">
+              <Label htmlFor="live-xp-reward">XP for a perfect score</Label>
+              <Input
+                id="live-xp-reward"
+                type="number"
+                min={0}
+                value={xpReward}
+                onChange={(e) => setXpReward(Math.max(0, parseInt(e.target.value) || 0))}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleStart} disabled={starting}>
+            {starting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Radio className="w-4 h-4 mr-2" />}
+            Open Lobby
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
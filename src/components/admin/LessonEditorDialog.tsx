@@ -0,0 +1,293 @@
+import { useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { Bold, Code2, Heading2, ImagePlus, Italic, Link, List, Loader2, Zap } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Markdown } from '@/components/lesson/Markdown';
+import { CODE_LANGUAGES, CODE_LANGUAGE_LABELS, codeFence, type CodeLanguage } from '@/lib/codeSnippets';
+import {
+  LESSON_MEDIA_BUCKET,
+  MAX_LESSON_IMAGE_BYTES,
+  imageMarkdown,
+  type LessonDraft,
+} from '@/lib/lessons';
+
+export interface SavedLesson {
+  id: string;
+  title: string;
+  body: string;
+  xp_reward: number;
+  is_published: boolean;
+}
+
+interface LessonEditorDialogProps {
+  // Rendered only while open; the form starts from this lesson
+  lesson: LessonDraft;
+  onClose: () => void;
+  onSaved: (lesson: SavedLesson) => void;
+}
+
+// Markdown editor for a lesson, with the rendered lesson alongside as students will see it
+export function LessonEditorDialog({ lesson, onClose, onSaved }: LessonEditorDialogProps) {
+  const { user } = useAuth();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState<LessonDraft>(lesson);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const setBody = (body: string) => setForm({ ...form, body });
+
+  // Wraps the selection in before/after, or inserts placeholder between them
+  const wrapSelection = (before: string, after = '', placeholder = '') => {
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? form.body.length;
+    const end = el?.selectionEnd ?? form.body.length;
+    const selected = form.body.slice(start, end) || placeholder;
+    setBody(form.body.slice(0, start) + before + selected + after + form.body.slice(end));
+
+    requestAnimationFrame(() => {
+      if (!textareaRef.current) return;
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(start + before.length, start + before.length + selected.length);
+    });
+  };
+
+  // Block syntax (headings, lists, fences, images) has to start on a fresh line. Reads the
+  // latest body, since images are inserted once their upload finishes.
+  const insertBlock = (block: string, caretOffset = block.length) => {
+    const el = textareaRef.current;
+    let caret = 0;
+
+    setForm(prev => {
+      const start = el?.selectionStart ?? prev.body.length;
+      const end = el?.selectionEnd ?? prev.body.length;
+      const before = start > 0 && prev.body[start - 1] !== '\n' ? '\n' : '';
+      const after = end < prev.body.length && prev.body[end] !== '\n' ? '\n' : '';
+      caret = start + before.length + caretOffset;
+      return { ...prev, body: prev.body.slice(0, start) + before + block + after + prev.body.slice(end) };
+    });
+
+    requestAnimationFrame(() => {
+      if (!textareaRef.current) return;
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(caret, caret);
+    });
+  };
+
+  const insertCode = (language: CodeLanguage) => {
+    const el = textareaRef.current;
+    const selected = el ? form.body.slice(el.selectionStart, el.selectionEnd) : '';
+    insertBlock(codeFence(language, selected), language.length + 4 + selected.length);
+  };
+
+  const uploadImage = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    if (file.size > MAX_LESSON_IMAGE_BYTES) {
+      toast.error('Images must be under 5 MB');
+      return;
+    }
+
+    setUploading(true);
+
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+    const path = `lessons/${crypto.randomUUID()}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from(LESSON_MEDIA_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (error) {
+      console.error('Error uploading lesson image:', error);
+      toast.error('Failed to upload image');
+    } else {
+      const { data } = supabase.storage.from(LESSON_MEDIA_BUCKET).getPublicUrl(path);
+      insertBlock(imageMarkdown(file.name.replace(/\.[^.]+$/, ''), data.publicUrl));
+    }
+
+    setUploading(false);
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      toast.error('Please give the lesson a title');
+      return;
+    }
+
+    setSaving(true);
+    const details = { title: form.title.trim(), body: form.body, xp_reward: form.xp_reward, is_published: form.is_published };
+
+    if (form.id) {
+      const { error } = await supabase.from('lessons').update(details).eq('id', form.id);
+      if (error) {
+        toast.error('Failed to update lesson');
+      } else {
+        toast.success('Lesson updated');
+        onSaved({ id: form.id, ...details });
+      }
+    } else {
+      const { data: saved, error } = await supabase
+        .from('lessons')
+        .insert({ ...details, created_by: user?.id })
+        .select('id, title, body, xp_reward, is_published')
+        .single();
+
+      if (error || !saved) {
+        toast.error('Failed to add lesson');
+      } else {
+        toast.success('Lesson added');
+        onSaved(saved);
+      }
+    }
+    setSaving(false);
+  };
+
+  const toolbarButton = (title: string, Icon: typeof Bold, onClick: () => void) => (
+    <Button type="button" variant="ghost" size="sm" className="h-8 px-2" title={title} onClick={onClick}>
+      <Icon className="w-4 h-4" />
+    </Button>
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{form.id ? 'Edit Lesson' : 'New Lesson'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_140px_auto] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="lesson_title">Title</Label>
+              <Input
+                id="lesson_title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="Lesson title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lesson_xp" className="flex items-center gap-2">
+                <Zap className="w-4 h-4 text-yellow-500" />
+                XP Reward
+              </Label>
+              <Input
+                id="lesson_xp"
+                type="number"
+                min={0}
+                value={form.xp_reward}
+                onChange={(e) => setForm({ ...form, xp_reward: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="lesson_published"
+                checked={form.is_published}
+                onCheckedChange={(checked) => setForm({ ...form, is_published: checked })}
+              />
+              <Label htmlFor="lesson_published">Published</Label>
+            </div>
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <div className="space-y-2 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="lesson_body">Markdown</Label>
+                <div className="flex items-center gap-0.5">
+                  {toolbarButton('Heading', Heading2, () => insertBlock('## ', 3))}
+                  {toolbarButton('Bold', Bold, () => wrapSelection('**', '**', 'bold text'))}
+                  {toolbarButton('Italic', Italic, () => wrapSelection('_', '_', 'italic text'))}
+                  {toolbarButton('Link', Link, () => wrapSelection('[', '](https://)', 'link text'))}
+                  {toolbarButton('List', List, () => insertBlock('- ', 2))}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button type="button" variant="ghost" size="sm" className="h-8 px-2" title="Insert code block">
+                        <Code2 className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {CODE_LANGUAGES.map(language => (
+                        <DropdownMenuItem key={language} onClick={() => insertCode(language)}>
+                          {CODE_LANGUAGE_LABELS[language]}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <input
+                    ref={imageInputRef}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) uploadImage(file);
+                      e.target.value = '';
+                    }}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2"
+                    title="Insert image"
+                    onClick={() => imageInputRef.current?.click()}
+                    disabled={uploading}
+                  >
+                    {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                ref={textareaRef}
+                id="lesson_body"
+                value={form.body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder={'## Getting started\n\nWrite the lesson in Markdown. Headings make up the table of contents.'}
+                className="font-mono text-sm h-[60vh] resize-none"
+              />
+            </div>
+            <div className="space-y-2 min-w-0">
+              <Label>Preview</Label>
+              <div className="rounded-md border p-4 h-[60vh] overflow-y-auto">
+                {form.body.trim() ? (
+                  <Markdown source={form.body} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Nothing to preview yet</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {form.id ? 'Update' : 'Add Lesson'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
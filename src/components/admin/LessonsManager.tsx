@@ -0,0 +1,147 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { Edit, FileText, Loader2, Plus, Search, Trash2, Zap } from 'lucide-react';
+import { LessonEditorDialog } from '@/components/admin/LessonEditorDialog';
+import { EMPTY_LESSON, type Lesson, type LessonDraft } from '@/lib/lessons';
+import { readingMinutes } from '@/lib/markdown';
+import { format } from 'date-fns';
+
+export function LessonsManager() {
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<LessonDraft | null>(null);
+
+  const fetchLessons = async () => {
+    const { data } = await supabase
+      .from('lessons')
+      .select('id, title, body, xp_reward, is_published, updated_at')
+      .order('updated_at', { ascending: false });
+
+    if (data) setLessons(data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchLessons();
+  }, []);
+
+  const togglePublished = async (lesson: Lesson) => {
+    const { error } = await supabase
+      .from('lessons')
+      .update({ is_published: !lesson.is_published })
+      .eq('id', lesson.id);
+
+    if (error) {
+      toast.error('Failed to update lesson');
+    } else {
+      fetchLessons();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('lessons').delete().eq('id', id);
+    if (error) {
+      toast.error('Failed to delete lesson');
+    } else {
+      toast.success('Lesson deleted');
+      fetchLessons();
+    }
+  };
+
+  const needle = search.trim().toLowerCase();
+  const filtered = lessons.filter(l => !needle || l.title.toLowerCase().includes(needle) || l.body.toLowerCase().includes(needle));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div className="flex items-center gap-4 flex-1">
+          <h3 className="text-lg font-medium">{lessons.length} Lessons</h3>
+          <div className="relative flex-1 max-w-sm">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search lessons..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        </div>
+        <Button onClick={() => setEditing(EMPTY_LESSON)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Lesson
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {filtered.map((lesson) => (
+          <Card key={lesson.id}>
+            <CardContent className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <CardTitle className="text-base truncate">{lesson.title}</CardTitle>
+                    {!lesson.is_published && <Badge variant="secondary">Draft</Badge>}
+                    {lesson.xp_reward > 0 && (
+                      <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20 shrink-0">
+                        <Zap className="w-3 h-3" />
+                        +{lesson.xp_reward}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {readingMinutes(lesson.body)} min read · updated {format(new Date(lesson.updated_at), 'MMM d, yyyy')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 ml-2">
+                  <Switch
+                    checked={lesson.is_published}
+                    onCheckedChange={() => togglePublished(lesson)}
+                    title={lesson.is_published ? 'Unpublish' : 'Publish'}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => setEditing(lesson)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(lesson.id)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+        {filtered.length === 0 && (
+          <div className="col-span-full text-center text-muted-foreground py-8">
+            <FileText className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p>{lessons.length === 0 ? 'No lessons added yet' : 'No lessons match your search'}</p>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <LessonEditorDialog
+          lesson={editing}
+          onClose={() => setEditing(null)}
+          onSaved={() => {
+            setEditing(null);
+            fetchLessons();
+          }}
+        />
+      )}
+    </div>
+  );
+}
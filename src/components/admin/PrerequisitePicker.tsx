@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Lock, Plus, X } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  contentKey,
+  wouldCreateCycle,
+  type ContentRef,
+  type ContentType,
+  type PrerequisiteRow,
+  type PrerequisiteRule,
+} from '@/lib/prerequisites';
+
+interface ContentOption {
+  id: string;
+  title: string;
+}
+
+interface PrerequisitePickerProps {
+  // The quiz or video being edited; its id is null while it is still being created
+  content: { type: ContentType; id: string | null };
+  value: PrerequisiteRule[];
+  onChange: (rules: PrerequisiteRule[]) => void;
+}
+
+const parseKey = (key: string): ContentRef => {
+  const [type, id] = key.split(':');
+  return { type: type as ContentType, id };
+};
+
+// Requirements a quiz or video must have met before students can open it. Choices that are the
+// content itself, or that already depend on it, are disabled since they would lock it forever.
+export function PrerequisitePicker({ content, value, onChange }: PrerequisitePickerProps) {
+  const [quizzes, setQuizzes] = useState<ContentOption[]>([]);
+  const [videos, setVideos] = useState<ContentOption[]>([]);
+  const [rows, setRows] = useState<PrerequisiteRow[]>([]);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      const [quizzesRes, videosRes, rowsRes] = await Promise.all([
+        supabase.from('quizzes').select('id, title').order('title'),
+        supabase.from('videos').select('id, title').order('title'),
+        supabase.from('content_prerequisites').select('quiz_id, video_id, required_quiz_id, required_video_id, min_score_percent'),
+      ]);
+
+      setQuizzes(quizzesRes.data || []);
+      setVideos(videosRes.data || []);
+      setRows(rowsRes.data || []);
+    };
+
+    fetchOptions();
+  }, []);
+
+  const isSelf = (ref: ContentRef) => ref.type === content.type && ref.id === content.id;
+
+  // Nothing can depend on content that doesn't exist yet, so a new item can't close a loop
+  const closesLoop = (ref: ContentRef) =>
+    content.id !== null && wouldCreateCycle(rows, { type: content.type, id: content.id }, ref);
+
+  const updateRule = (index: number, patch: Partial<PrerequisiteRule>) => {
+    onChange(value.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const renderOptions = (type: ContentType, options: ContentOption[], current: PrerequisiteRule) =>
+    options.map(option => {
+      const ref = { type, id: option.id };
+      const takenElsewhere = value.some(r => r !== current && r.required_type === type && r.required_id === option.id);
+      const loop = !isSelf(ref) && closesLoop(ref);
+      return (
+        <SelectItem key={contentKey(ref)} value={contentKey(ref)} disabled={isSelf(ref) || takenElsewhere || loop}>
+          {option.title}{loop && ' (depends on this)'}
+        </SelectItem>
+      );
+    });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Lock className="w-4 h-4" />
+          Prerequisites
+        </Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, { required_type: 'quiz', required_id: '', min_score_percent: 0 }])}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Prerequisite
+        </Button>
+      </div>
+      {value.map((rule, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <Select
+            value={rule.required_id ? contentKey({ type: rule.required_type, id: rule.required_id }) : ''}
+            onValueChange={(key) => {
+              const ref = parseKey(key);
+              updateRule(idx, { required_type: ref.type, required_id: ref.id });
+            }}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Choose a quiz or video" />
+            </SelectTrigger>
+            <SelectContent>
+              {quizzes.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Quizzes</SelectLabel>
+                  {renderOptions('quiz', quizzes, rule)}
+                </SelectGroup>
+              )}
+              {videos.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Videos</SelectLabel>
+                  {renderOptions('video', videos, rule)}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+          {rule.required_type === 'quiz' && (
+            <>
+              <span className="text-sm text-muted-foreground">min</span>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={rule.min_score_percent}
+                onChange={(e) => updateRule(idx, { min_score_percent: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+                className="w-20"
+              />
+              <span className="text-sm text-muted-foreground">%</span>
+            </>
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(value.filter((_, i) => i !== idx))}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        {value.length === 0
+          ? 'Open to every student'
+          : 'Locked until every prerequisite is met: videos watched, quizzes completed with at least the minimum best score'}
+      </p>
+    </div>
+  );
+}
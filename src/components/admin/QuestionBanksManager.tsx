@@ -0,0 +1,302 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Card, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Loader2, Plus, Trash2, Edit, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { QuestionEditor } from '@/components/admin/QuestionEditor';
+import {
+  createEmptyQuestionForm,
+  questionFormFromRow,
+  questionRowFromForm,
+  validateQuestionForm,
+  type QuestionFormData,
+} from '@/lib/quiz';
+
+interface QuestionBank {
+  id: string;
+  name: string;
+  description: string | null;
+  question_count: number;
+}
+
+export function QuestionBanksManager() {
+  const { user } = useAuth();
+  const [banks, setBanks] = useState<QuestionBank[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: '', description: '' });
+  const [questionsForm, setQuestionsForm] = useState<QuestionFormData[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchBanks = async () => {
+    const { data } = await supabase
+      .from('question_banks')
+      .select('id, name, description, quiz_questions(count)')
+      .is('archived_at', null)
+      .is('quiz_questions.retired_at', null)
+      .order('name');
+
+    if (data) {
+      setBanks(data.map(b => ({
+        id: b.id,
+        name: b.name,
+        description: b.description,
+        question_count: b.quiz_questions[0]?.count ?? 0,
+      })));
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchBanks();
+  }, []);
+
+  const resetForm = () => {
+    setForm({ name: '', description: '' });
+    setQuestionsForm([createEmptyQuestionForm()]);
+  };
+
+  const updateQuestionForm = (index: number, value: QuestionFormData) => {
+    setQuestionsForm(prev => {
+      const updated = [...prev];
+      updated[index] = value;
+      return updated;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!form.name.trim()) {
+      toast.error('Please enter a bank name');
+      return;
+    }
+
+    for (let i = 0; i < questionsForm.length; i++) {
+      const validationError = validateQuestionForm(questionsForm[i], `Question ${i + 1}`);
+      if (validationError) {
+        toast.error(validationError);
+        return;
+      }
+    }
+
+    setSaving(true);
+
+    try {
+      let bankId = editingId;
+
+      if (editingId) {
+        const { error: bankError } = await supabase
+          .from('question_banks')
+          .update({ name: form.name.trim(), description: form.description || null })
+          .eq('id', editingId);
+
+        if (bankError) throw bankError;
+      } else {
+        const { data: bankData, error: bankError } = await supabase
+          .from('question_banks')
+          .insert({ name: form.name.trim(), description: form.description || null, created_by: user?.id })
+          .select()
+          .single();
+
+        if (bankError) throw bankError;
+        bankId = bankData.id;
+      }
+
+      // Questions already dealt to students are kept for their attempts; see save_bank_questions
+      const { error: questionsError } = await supabase.rpc('save_bank_questions', {
+        _bank_id: bankId!,
+        _questions: questionsForm.map((q, idx) => ({ ...questionRowFromForm(q), order_index: idx })) as Json,
+      });
+      if (questionsError) throw questionsError;
+
+      toast.success(editingId ? 'Question bank updated' : 'Question bank created');
+      setDialogOpen(false);
+      setEditingId(null);
+      resetForm();
+      fetchBanks();
+    } catch (error) {
+      toast.error('Failed to save question bank');
+    }
+
+    setSaving(false);
+  };
+
+  const handleEdit = async (bank: QuestionBank) => {
+    setEditingId(bank.id);
+    setForm({ name: bank.name, description: bank.description || '' });
+
+    const { data } = await supabase
+      .from('quiz_questions')
+      .select('*')
+      .eq('bank_id', bank.id)
+      .is('retired_at', null)
+      .order('order_index');
+
+    setQuestionsForm(data && data.length > 0 ? data.map(questionFormFromRow) : [createEmptyQuestionForm()]);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.rpc('delete_question_bank', { _bank_id: id });
+    if (error) {
+      toast.error('Failed to delete question bank');
+    } else {
+      toast.success('Question bank deleted');
+      fetchBanks();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium">{banks.length} Question Banks</h3>
+          <p className="text-sm text-muted-foreground">Quizzes draw a random set of questions from these on every attempt</p>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={(open) => {
+          setDialogOpen(open);
+          if (!open) {
+            setEditingId(null);
+            resetForm();
+          }
+        }}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Bank
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-3xl max-h-[90vh]">
+            <DialogHeader>
+              <DialogTitle>
+                {editingId ? 'Edit Question Bank' : 'New Question Bank'} - Questions ({questionsForm.length})
+              </DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="bank-name">Bank Name</Label>
+                  <Input
+                    id="bank-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g., sensors"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank-description">Description</Label>
+                  <Textarea
+                    id="bank-description"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    placeholder="What these questions cover"
+                    rows={1}
+                  />
+                </div>
+              </div>
+
+              <ScrollArea className="h-[50vh] pr-4">
+                <div className="space-y-6">
+                  {questionsForm.map((q, idx) => (
+                    <div key={idx} className="flex items-start gap-2">
+                      <div className="flex-1">
+                        <QuestionEditor
+                          index={idx}
+                          value={q}
+                          onChange={(value) => updateQuestionForm(idx, value)}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setQuestionsForm(prev => prev.filter((_, i) => i !== idx))}
+                        title="Remove question"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setQuestionsForm(prev => [...prev, createEmptyQuestionForm()])}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Question
+                  </Button>
+                </div>
+              </ScrollArea>
+
+              <div className="flex justify-end gap-2 pt-4 border-t">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSubmit} disabled={saving}>
+                  {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {editingId ? 'Update Bank' : 'Create Bank'}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid gap-4">
+        {banks.map((bank) => (
+          <Card key={bank.id}>
+            <CardHeader className="pb-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <CardTitle className="text-lg">{bank.name}</CardTitle>
+                    <Badge variant="outline">{bank.question_count} questions</Badge>
+                  </div>
+                  {bank.description && (
+                    <p className="text-sm text-muted-foreground mt-1">{bank.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(bank)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(bank.id)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+        ))}
+        {banks.length === 0 && (
+          <p className="text-center text-muted-foreground py-8">No question banks yet</p>
+        )}
+      </div>
+    </div>
+  );
+}
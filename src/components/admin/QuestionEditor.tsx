@@ -0,0 +1,358 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { BookOpen, Clock, HelpCircle, Plus, X, ArrowUp, ArrowDown } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { QuizImageUpload } from '@/components/admin/QuizImageUpload';
+import { CodeSnippetField } from '@/components/admin/CodeSnippetField';
+import {
+  MAX_HINTS,
+  MAX_OPTIONS,
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  TRUE_FALSE_OPTIONS,
+  defaultOptionsFor,
+  type QuestionFormData,
+  type QuestionHint,
+  type QuestionType,
+} from '@/lib/quiz';
+
+interface QuestionEditorProps {
+  index: number;
+  value: QuestionFormData;
+  timerLabel?: string;
+  onChange: (value: QuestionFormData) => void;
+}
+
+export function QuestionEditor({ index, value: q, timerLabel, onChange }: QuestionEditorProps) {
+  const update = (patch: Partial<QuestionFormData>) => onChange({ ...q, ...patch });
+
+  const changeType = (questionType: QuestionType) => {
+    // Choice-style questions keep their options when switching between each other
+    const keepsOptions = ['single_choice', 'multi_select', 'ordering'].includes(questionType) &&
+      ['single_choice', 'multi_select', 'ordering'].includes(q.question_type);
+
+    const options = keepsOptions ? q.options : defaultOptionsFor(questionType);
+
+    update({
+      question_type: questionType,
+      options,
+      option_images: keepsOptions ? q.option_images : options.map(() => null),
+      correct_answer: 0,
+      correct_answers: [],
+    });
+  };
+
+  const updateOption = (optionIndex: number, text: string) => {
+    const options = [...q.options];
+    options[optionIndex] = text;
+    update({ options });
+  };
+
+  const updateOptionImage = (optionIndex: number, url: string | null) => {
+    const optionImages = q.options.map((_, i) => q.option_images[i] ?? null);
+    optionImages[optionIndex] = url;
+    update({ option_images: optionImages });
+  };
+
+  const addOption = () => update({ options: [...q.options, ''], option_images: [...q.option_images, null] });
+
+  const removeOption = (optionIndex: number) => {
+    update({
+      options: q.options.filter((_, i) => i !== optionIndex),
+      option_images: q.option_images.filter((_, i) => i !== optionIndex),
+      correct_answer: q.correct_answer === optionIndex ? 0 : q.correct_answer > optionIndex ? q.correct_answer - 1 : q.correct_answer,
+      correct_answers: q.correct_answers
+        .filter(i => i !== optionIndex)
+        .map(i => (i > optionIndex ? i - 1 : i)),
+    });
+  };
+
+  const updateHint = (hintIndex: number, patch: Partial<QuestionHint>) =>
+    update({ hints: q.hints.map((h, i) => (i === hintIndex ? { ...h, ...patch } : h)) });
+
+  const moveOption = (from: number, to: number) => {
+    const options = [...q.options];
+    const optionImages = q.options.map((_, i) => q.option_images[i] ?? null);
+    [options[from], options[to]] = [options[to], options[from]];
+    [optionImages[from], optionImages[to]] = [optionImages[to], optionImages[from]];
+    update({ options, option_images: optionImages });
+  };
+
+  const toggleCorrect = (optionIndex: number) => {
+    update({
+      correct_answers: q.correct_answers.includes(optionIndex)
+        ? q.correct_answers.filter(i => i !== optionIndex)
+        : [...q.correct_answers, optionIndex],
+    });
+  };
+
+  const renderChoiceOptions = (multiple: boolean) => (
+    <div className="space-y-2">
+      <Label className="text-sm text-muted-foreground">
+        {multiple ? 'Options (tick every correct answer)' : 'Options (select correct answer)'}
+      </Label>
+      <div className="grid gap-2">
+        {q.options.map((option, optIdx) => {
+          const isCorrect = multiple ? q.correct_answers.includes(optIdx) : q.correct_answer === optIdx;
+          return (
+            <div key={optIdx} className="flex items-center gap-2">
+              <input
+                type={multiple ? 'checkbox' : 'radio'}
+                name={`correct-${index}`}
+                checked={isCorrect}
+                onChange={() => (multiple ? toggleCorrect(optIdx) : update({ correct_answer: optIdx }))}
+                className="w-4 h-4 accent-primary"
+              />
+              <CodeSnippetField
+                compact
+                value={option}
+                onChange={(text) => updateOption(optIdx, text)}
+                placeholder={`Option ${optIdx + 1}`}
+                className="flex-1"
+                inputClassName={isCorrect ? 'border-green-500 bg-green-500/5' : ''}
+              />
+              <QuizImageUpload
+                compact
+                label="Add option image"
+                value={q.option_images[optIdx] ?? null}
+                onChange={(url) => updateOptionImage(optIdx, url)}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeOption(optIdx)}
+                disabled={q.options.length <= 2}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+      {q.options.length < MAX_OPTIONS && (
+        <Button type="button" variant="outline" size="sm" onClick={addOption}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Option
+        </Button>
+      )}
+    </div>
+  );
+
+  const renderAnswerEditor = () => {
+    switch (q.question_type) {
+      case 'multi_select':
+        return renderChoiceOptions(true);
+
+      case 'true_false':
+        return (
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">Correct answer</Label>
+            <div className="flex gap-2">
+              {TRUE_FALSE_OPTIONS.map((label, optIdx) => (
+                <Button
+                  key={label}
+                  type="button"
+                  variant={q.correct_answer === optIdx ? 'default' : 'outline'}
+                  onClick={() => update({ correct_answer: optIdx })}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        );
+
+      case 'numeric':
+        return (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm text-muted-foreground">Correct value</Label>
+              <Input
+                type="number"
+                step="any"
+                value={q.numeric_value}
+                onChange={(e) => update({ numeric_value: e.target.value })}
+                placeholder="e.g., 220"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm text-muted-foreground">Tolerance (±%)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="any"
+                value={q.tolerance_percent}
+                onChange={(e) => update({ tolerance_percent: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+        );
+
+      case 'ordering':
+        return (
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">
+              Steps in the correct order (students see them shuffled)
+            </Label>
+            <div className="grid gap-2">
+              {q.options.map((step, optIdx) => (
+                <div key={optIdx} className="flex items-center gap-2">
+                  <span className="w-6 text-sm text-muted-foreground text-right">{optIdx + 1}.</span>
+                  <CodeSnippetField
+                    compact
+                    value={step}
+                    onChange={(text) => updateOption(optIdx, text)}
+                    placeholder={`Step ${optIdx + 1}`}
+                    className="flex-1"
+                  />
+                  <QuizImageUpload
+                    compact
+                    label="Add step image"
+                    value={q.option_images[optIdx] ?? null}
+                    onChange={(url) => updateOptionImage(optIdx, url)}
+                  />
+                  <Button type="button" variant="ghost" size="sm" onClick={() => moveOption(optIdx, optIdx - 1)} disabled={optIdx === 0}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => moveOption(optIdx, optIdx + 1)} disabled={optIdx === q.options.length - 1}>
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(optIdx)} disabled={q.options.length <= 2}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            {q.options.length < MAX_OPTIONS && (
+              <Button type="button" variant="outline" size="sm" onClick={addOption}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Step
+              </Button>
+            )}
+          </div>
+        );
+
+      default:
+        return renderChoiceOptions(false);
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-base font-semibold">Question {index + 1}</Label>
+          <div className="flex items-center gap-2">
+            <Select value={q.question_type} onValueChange={(v: QuestionType) => changeType(v)}>
+              <SelectTrigger className="h-8 w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUESTION_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {timerLabel && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Clock className="w-3 h-3" />
+                {timerLabel}
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <CodeSnippetField
+            value={q.question}
+            onChange={(text) => update({ question: text })}
+            placeholder="Enter your question. Code goes in a fenced block: ```cpp ... ```"
+          />
+          <QuizImageUpload
+            label="Add diagram or photo"
+            value={q.image_url}
+            onChange={(url) => update({ image_url: url })}
+          />
+        </div>
+
+        {renderAnswerEditor()}
+
+        <div className="space-y-2">
+          <Label className="text-sm text-muted-foreground flex items-center gap-1">
+            <HelpCircle className="w-3.5 h-3.5" />
+            Hints (optional, revealed one at a time)
+          </Label>
+          {q.hints.map((hint, hintIdx) => (
+            <div key={hintIdx} className="flex items-center gap-2">
+              <span className="w-6 text-sm text-muted-foreground">{hintIdx + 1}.</span>
+              <Input
+                value={hint.text}
+                onChange={(e) => updateHint(hintIdx, { text: e.target.value })}
+                placeholder={hintIdx === 0 ? 'A gentle nudge' : 'A bigger clue'}
+              />
+              <div className="flex items-center gap-1 shrink-0">
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={hint.cost_percent}
+                  onChange={(e) => updateHint(hintIdx, { cost_percent: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-20"
+                  title="Cost, as a share of the question's worth"
+                />
+                <span className="text-sm text-muted-foreground">%</span>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ hints: q.hints.filter((_, i) => i !== hintIdx) })}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {q.hints.length < MAX_HINTS && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => update({ hints: [...q.hints, { text: '', cost_percent: 0 }] })}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Hint
+            </Button>
+          )}
+          {q.hints.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Costs only apply when the quiz charges for hints.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm text-muted-foreground flex items-center gap-1">
+            <BookOpen className="w-3.5 h-3.5" />
+            Explanation (optional)
+          </Label>
+          <CodeSnippetField
+            value={q.explanation}
+            onChange={(text) => update({ explanation: text })}
+            placeholder="Why the correct answer is right, shown when students review the quiz"
+          />
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,287 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import { Loader2, AlertTriangle, Clock, Lightbulb } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { Json } from '@/integrations/supabase/types';
+import { QUESTION_TYPE_LABELS, parseOptions, type QuizQuestionRow } from '@/lib/quiz';
+
+// Below this many responses the numbers are too noisy to flag anything
+const MIN_RESPONSES_FOR_FLAG = 5;
+const LOW_CORRECT_PERCENT = 25;
+
+interface AnswerRow {
+  attempt_id: string;
+  question_id: string;
+  response: Json | null;
+  is_correct: boolean;
+  time_spent_seconds: number | null;
+  hint_shown: boolean;
+}
+
+interface QuestionStats {
+  question: QuizQuestionRow;
+  responses: number;
+  percentCorrect: number;
+  avgTimeSeconds: number | null;
+  hintPercent: number;
+  topWrongAnswer: { label: string; count: number } | null;
+  flag: string | null;
+}
+
+interface QuizAnalyticsDialogProps {
+  quiz: { id: string; title: string; published_version_id: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Labels for the wrong choices within one response; multi-select can contribute several
+const wrongAnswerLabels = (question: QuizQuestionRow, answer: AnswerRow): string[] => {
+  const options = parseOptions(question.options);
+  const response = answer.response;
+  if (answer.is_correct || response === null) return [];
+
+  switch (question.question_type) {
+    case 'multi_select': {
+      const correct = new Set(
+        question.answer && typeof question.answer === 'object' && !Array.isArray(question.answer) && Array.isArray(question.answer.correct)
+          ? question.answer.correct
+          : []
+      );
+      return Array.isArray(response)
+        ? response.filter(idx => !correct.has(idx)).map(idx => options[Number(idx)] ?? `Option ${Number(idx) + 1}`)
+        : [];
+    }
+    case 'numeric':
+      return [String(response)];
+    case 'ordering':
+      return Array.isArray(response) ? [response.join(' → ')] : [];
+    default:
+      return typeof response === 'number' ? [options[response] ?? `Option ${response + 1}`] : [];
+  }
+};
+
+const buildQuestionStats = (question: QuizQuestionRow, answers: AnswerRow[]): QuestionStats => {
+  const responses = answers.length;
+  const correctCount = answers.filter(a => a.is_correct).length;
+  const timed = answers.filter(a => a.time_spent_seconds !== null);
+
+  const wrongCounts = new Map<string, number>();
+  answers.forEach(a => {
+    wrongAnswerLabels(question, a).forEach(label => {
+      wrongCounts.set(label, (wrongCounts.get(label) || 0) + 1);
+    });
+  });
+
+  let topWrongAnswer: QuestionStats['topWrongAnswer'] = null;
+  wrongCounts.forEach((count, label) => {
+    if (!topWrongAnswer || count > topWrongAnswer.count) topWrongAnswer = { label, count };
+  });
+
+  const percentCorrect = responses > 0 ? (correctCount / responses) * 100 : 0;
+
+  let flag: string | null = null;
+  if (responses >= MIN_RESPONSES_FOR_FLAG) {
+    if (topWrongAnswer && topWrongAnswer.count > correctCount) {
+      flag = `More students chose "${topWrongAnswer.label}" than the correct answer. Check the answer key or wording.`;
+    } else if (percentCorrect < LOW_CORRECT_PERCENT) {
+      flag = `Only ${Math.round(percentCorrect)}% answer correctly. The question may be broken or ambiguous.`;
+    }
+  }
+
+  return {
+    question,
+    responses,
+    percentCorrect,
+    avgTimeSeconds: timed.length > 0
+      ? timed.reduce((sum, a) => sum + (a.time_spent_seconds || 0), 0) / timed.length
+      : null,
+    hintPercent: responses > 0 ? (answers.filter(a => a.hint_shown).length / responses) * 100 : 0,
+    topWrongAnswer,
+    flag,
+  };
+};
+
+export function QuizAnalyticsDialog({ quiz, onOpenChange }: QuizAnalyticsDialogProps) {
+  const [loading, setLoading] = useState(true);
+  const [stats, setStats] = useState<QuestionStats[]>([]);
+  const [attemptCount, setAttemptCount] = useState(0);
+
+  useEffect(() => {
+    if (!quiz) return;
+
+    const fetchAnalytics = async () => {
+      setLoading(true);
+
+      // Answers are scoped by attempt so questions drawn from banks count towards this quiz only.
+      // The live version's questions come first; earlier versions' only show up once answered.
+      const [ownRes, answersRes] = await Promise.all([
+        quiz.published_version_id
+          ? supabase
+            .from('quiz_questions')
+            .select('*')
+            .eq('version_id', quiz.published_version_id)
+            .order('order_index')
+          : Promise.resolve({ data: [] as QuizQuestionRow[], error: null }),
+        supabase
+          .from('quiz_attempt_answers')
+          .select('attempt_id, question_id, response, is_correct, time_spent_seconds, hint_shown, quiz_attempts!inner(quiz_id)')
+          .eq('quiz_attempts.quiz_id', quiz.id),
+      ]);
+
+      if (ownRes.error || answersRes.error) {
+        toast.error('Failed to load quiz analytics');
+        setLoading(false);
+        return;
+      }
+
+      const answers: AnswerRow[] = answersRes.data || [];
+      const ownIds = new Set(ownRes.data.map(q => q.id));
+      const drawnIds = [...new Set(answers.map(a => a.question_id))].filter(id => !ownIds.has(id));
+
+      const { data: drawnQuestions, error: drawnError } = drawnIds.length > 0
+        ? await supabase.from('quiz_questions').select('*').in('id', drawnIds)
+        : { data: [], error: null };
+
+      if (drawnError) {
+        toast.error('Failed to load quiz analytics');
+        setLoading(false);
+        return;
+      }
+
+      const questions = [...ownRes.data, ...(drawnQuestions || [])] as QuizQuestionRow[];
+
+      const answersByQuestion = new Map<string, AnswerRow[]>();
+      answers.forEach(a => {
+        answersByQuestion.set(a.question_id, [...(answersByQuestion.get(a.question_id) || []), a]);
+      });
+
+      setStats(questions.map(q => buildQuestionStats(q, answersByQuestion.get(q.id) || [])));
+      setAttemptCount(new Set(answers.map(a => a.attempt_id)).size);
+      setLoading(false);
+    };
+
+    fetchAnalytics();
+  }, [quiz]);
+
+  const flaggedCount = stats.filter(s => s.flag).length;
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Analytics - {quiz?.title}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : attemptCount === 0 ? (
+          <p className="text-center text-muted-foreground py-12">No attempts recorded yet</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+              <span>{attemptCount} attempts</span>
+              {flaggedCount > 0 && (
+                <span className="flex items-center gap-1 text-destructive">
+                  <AlertTriangle className="w-4 h-4" />
+                  {flaggedCount} question{flaggedCount === 1 ? '' : 's'} flagged
+                </span>
+              )}
+            </div>
+
+            <ScrollArea className="h-[65vh] pr-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40%]">Question</TableHead>
+                    <TableHead>Correct</TableHead>
+                    <TableHead>Most-chosen wrong answer</TableHead>
+                    <TableHead>Avg time</TableHead>
+                    <TableHead>Hint used</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stats.map((s, idx) => (
+                    <TableRow key={s.question.id} className={s.flag ? 'bg-destructive/5' : ''}>
+                      <TableCell className="align-top">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">Q{idx + 1}</span>
+                          <Badge variant="outline">{QUESTION_TYPE_LABELS[s.question.question_type]}</Badge>
+                          {s.question.bank_id && <Badge variant="secondary">Bank</Badge>}
+                          {s.question.version_id && s.question.version_id !== quiz?.published_version_id && (
+                            <Badge variant="secondary">Earlier version</Badge>
+                          )}
+                        </div>
+                        <p className="text-sm mt-1 line-clamp-2">{s.question.question}</p>
+                        {s.flag && (
+                          <p className="text-xs text-destructive mt-2 flex items-start gap-1">
+                            <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                            {s.flag}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top min-w-[120px]">
+                        {s.responses > 0 ? (
+                          <div className="space-y-1">
+                            <span className="text-sm font-medium">{Math.round(s.percentCorrect)}%</span>
+                            <Progress value={s.percentCorrect} className="h-1.5" />
+                            <span className="text-xs text-muted-foreground">{s.responses} responses</span>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top text-sm">
+                        {s.topWrongAnswer ? (
+                          <>
+                            <span className="line-clamp-2">{s.topWrongAnswer.label}</span>
+                            <span className="text-xs text-muted-foreground">×{s.topWrongAnswer.count}</span>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top text-sm">
+                        {s.avgTimeSeconds !== null ? (
+                          <span className="flex items-center gap-1">
+                            <Clock className="w-3.5 h-3.5" />
+                            {Math.round(s.avgTimeSeconds)}s
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top text-sm">
+                        <span className="flex items-center gap-1">
+                          <Lightbulb className="w-3.5 h-3.5" />
+                          {Math.round(s.hintPercent)}%
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { ImagePlus, Loader2, X } from 'lucide-react';
+import { QUIZ_MEDIA_BUCKET, storedQuizMediaUrl } from '@/lib/quizMedia';
+import { QuizMediaImage } from './QuizMediaImage';
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+interface QuizImageUploadProps {
+  value: string | null;
+  onChange: (url: string | null) => void;
+  label?: string;
+  compact?: boolean;
+}
+
+export function QuizImageUpload({ value, onChange, label = 'Add Image', compact }: QuizImageUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFile = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      toast.error('Images must be under 5 MB');
+      return;
+    }
+
+    setUploading(true);
+
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+    const path = `questions/${crypto.randomUUID()}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from(QUIZ_MEDIA_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (error) {
+      console.error('Error uploading quiz image:', error);
+      toast.error('Failed to upload image');
+    } else {
+      onChange(storedQuizMediaUrl(path));
+    }
+
+    setUploading(false);
+  };
+
+  const input = (
+    <input
+      ref={inputRef}
+      type="file"
+      accept="image/*"
+      className="hidden"
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        if (file) handleFile(file);
+        e.target.value = '';
+      }}
+    />
+  );
+
+  if (value) {
+    return (
+      <div className={`relative inline-block rounded-md border overflow-hidden ${compact ? 'w-10 h-10' : 'max-w-xs'}`}>
+        <QuizMediaImage src={value} className={compact ? 'w-full h-full object-cover' : 'max-h-40 object-contain'} />
+        <Button
+          type="button"
+          variant="secondary"
+          size="icon"
+          className={`absolute top-0 right-0 ${compact ? 'h-4 w-4' : 'h-6 w-6'}`}
+          onClick={() => onChange(null)}
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {input}
+      <Button
+        type="button"
+        variant={compact ? 'ghost' : 'outline'}
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={uploading}
+        title={label}
+      >
+        {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+        {!compact && <span className="ml-1">{label}</span>}
+      </Button>
+    </>
+  );
+}
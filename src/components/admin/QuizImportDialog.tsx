@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import { Loader2, AlertTriangle, CheckCircle2, Clock, Zap } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  QUESTION_TYPE_LABELS,
+  describeCorrectAnswer,
+  questionRowFromForm,
+  type QuestionFormData,
+  type QuizQuestionRow,
+} from '@/lib/quiz';
+import {
+  TRANSFER_FORMATS,
+  formatFromFilename,
+  parseQuizFile,
+  type ImportResult,
+  type TransferFormat,
+} from '@/lib/quizTransfer';
+
+interface QuizImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const answerPreview = (form: QuestionFormData) =>
+  describeCorrectAnswer(questionRowFromForm(form) as QuizQuestionRow);
+
+export function QuizImportDialog({ open, onOpenChange, onImported }: QuizImportDialogProps) {
+  const { user } = useAuth();
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [format, setFormat] = useState<TransferFormat>('json');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setFormat('json');
+    setResult(null);
+  };
+
+  const close = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  const preview = (text: string, name: string, fileFormat: TransferFormat) => {
+    setResult(parseQuizFile(fileFormat, text, name.replace(/\.[^.]+$/, '')));
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const text = await selected.text();
+    const detected = formatFromFilename(selected.name) ?? format;
+    setFile({ name: selected.name, text });
+    setFormat(detected);
+    preview(text, selected.name, detected);
+  };
+
+  const handleFormatChange = (value: TransferFormat) => {
+    setFormat(value);
+    if (file) preview(file.text, file.name, value);
+  };
+
+  // Imported quizzes start inactive so they can be reviewed before students see them
+  const handleImport = async () => {
+    if (!result) return;
+    setImporting(true);
+
+    let imported = 0;
+    try {
+      for (const quiz of result.quizzes) {
+        const { data: quizData, error: quizError } = await supabase
+          .from('quizzes')
+          .insert({
+            title: quiz.title,
+            description: quiz.description || null,
+            difficulty: quiz.difficulty,
+            timer_per_question: quiz.timer_per_question,
+            total_questions: quiz.questions.length,
+            xp_reward: quiz.xp_reward,
+            is_active: false,
+            created_by: user?.id,
+          })
+          .select('id')
+          .single();
+
+        if (quizError) throw quizError;
+
+        // Imported questions become the quiz's first published version
+        if (quiz.questions.length > 0) {
+          const { data: draftId, error: draftError } = await supabase.rpc('quiz_draft_version', { _quiz_id: quizData.id });
+          if (draftError) throw draftError;
+
+          const { error: questionsError } = await supabase.from('quiz_questions').insert(
+            quiz.questions.map((q, idx) => ({
+              ...questionRowFromForm(q),
+              quiz_id: quizData.id,
+              version_id: draftId,
+              order_index: idx,
+            }))
+          );
+          if (questionsError) throw questionsError;
+
+          const { error: publishError } = await supabase.rpc('publish_quiz_version', { _quiz_id: quizData.id });
+          if (publishError) throw publishError;
+        }
+
+        imported++;
+      }
+
+      toast.success(`Imported ${imported} ${imported === 1 ? 'quiz' : 'quizzes'} as inactive`);
+      close();
+    } catch (error) {
+      toast.error(imported > 0 ? `Import stopped after ${imported} quizzes` : 'Failed to import quizzes');
+    }
+
+    setImporting(false);
+    if (imported > 0) onImported();
+  };
+
+  const questionCount = result?.quizzes.reduce((sum, q) => sum + q.questions.length, 0) ?? 0;
+  const hasIssues = (result?.issues.length ?? 0) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Import Quizzes</DialogTitle>
+          <DialogDescription>
+            Upload a JSON, CSV or Moodle GIFT file. Nothing is saved until you confirm the preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="import_file">File</Label>
+            <Input
+              id="import_file"
+              type="file"
+              accept=".json,.csv,.gift,.txt"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={handleFormatChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TRANSFER_FORMATS) as TransferFormat[]).map(f => (
+                  <SelectItem key={f} value={f}>{TRANSFER_FORMATS[f].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {result && (
+          <ScrollArea className="h-[50vh] pr-4">
+            <div className="space-y-4">
+              {hasIssues ? (
+                <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3 space-y-2">
+                  <p className="flex items-center gap-2 font-medium text-destructive">
+                    <AlertTriangle className="w-4 h-4" />
+                    {result.issues.length} {result.issues.length === 1 ? 'problem' : 'problems'} to fix before importing
+                  </p>
+                  <ul className="space-y-1 text-sm">
+                    {result.issues.map((issue, idx) => (
+                      <li key={idx}>
+                        <span className="font-medium">{issue.location}:</span> {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <p className="flex items-center gap-2 text-sm text-green-600">
+                  <CheckCircle2 className="w-4 h-4" />
+                  {result.quizzes.length} {result.quizzes.length === 1 ? 'quiz' : 'quizzes'} with {questionCount} questions ready to import
+                </p>
+              )}
+
+              {result.quizzes.map((quiz, quizIdx) => (
+                <div key={quizIdx} className="rounded-lg border p-3 space-y-3">
+                  <div>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-medium">{quiz.title}</p>
+                      <Badge variant="outline">
+                        {quiz.difficulty.charAt(0).toUpperCase() + quiz.difficulty.slice(1)}
+                      </Badge>
+                      <Badge variant="outline" className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {quiz.timer_per_question}s
+                      </Badge>
+                      <Badge variant="outline" className="flex items-center gap-1">
+                        <Zap className="w-3 h-3" />
+                        +{quiz.xp_reward} XP
+                      </Badge>
+                    </div>
+                    {quiz.description && (
+                      <p className="text-sm text-muted-foreground mt-1">{quiz.description}</p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    {quiz.questions.map((q, idx) => (
+                      <div key={idx} className="p-2 bg-muted rounded text-sm">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium flex-1">Q{idx + 1}: {q.question}</p>
+                          <Badge variant="outline" className="shrink-0">{QUESTION_TYPE_LABELS[q.question_type]}</Badge>
+                        </div>
+                        <p className="text-green-600 mt-1">✓ {answerPreview(q)}</p>
+                        {q.hints.map((h, i) => (
+                          <p key={i} className="text-muted-foreground mt-1">Hint {i + 1}: {h.text}</p>
+                        ))}
+                      </div>
+                    ))}
+                    {quiz.questions.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No valid questions</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!result || hasIssues || result.quizzes.length === 0 || importing}
+          >
+            {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
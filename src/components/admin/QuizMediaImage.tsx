@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { signedQuizMediaUrl } from '@/lib/quizMedia';
+
+interface QuizMediaImageProps {
+  src: string;
+  alt?: string;
+  className?: string;
+}
+
+export function QuizMediaImage({ src, alt = '', className }: QuizMediaImageProps) {
+  const [signedSrc, setSignedSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSignedSrc(null);
+
+    signedQuizMediaUrl(src)
+      .then((url) => {
+        if (!cancelled) setSignedSrc(url);
+      })
+      .catch((error) => console.error('Error signing quiz image:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  if (!signedSrc) return <div className={`bg-muted ${className ?? ''}`} />;
+  return <img src={signedSrc} alt={alt} className={className} />;
+}
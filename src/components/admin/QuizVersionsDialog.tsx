@@ -0,0 +1,285 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Loader2, ArrowRight } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { QUESTION_TYPE_LABELS, type QuizQuestionRow } from '@/lib/quiz';
+import {
+  diffQuestionVersions,
+  versionLabel,
+  type QuestionChangeKind,
+  type QuizVersion,
+} from '@/lib/quizVersions';
+
+interface VersionAttempt {
+  id: string;
+  user_id: string;
+  quiz_version_id: string | null;
+  status: string;
+  score: number;
+  total_questions: number;
+  started_at: string;
+}
+
+interface QuizVersionsDialogProps {
+  quiz: { id: string; title: string; published_version_id: string | null } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CHANGE_BADGES: Record<QuestionChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-500/10 text-green-600 border-green-500/20' },
+  removed: { label: 'Removed', className: 'bg-red-500/10 text-red-600 border-red-500/20' },
+  changed: { label: 'Changed', className: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20' },
+};
+
+// A quiz's published versions (and its draft), what changed between any two of them, and which
+// version each student's attempt was taken against
+export function QuizVersionsDialog({ quiz, onOpenChange }: QuizVersionsDialogProps) {
+  const [loading, setLoading] = useState(true);
+  const [versions, setVersions] = useState<QuizVersion[]>([]);
+  const [questions, setQuestions] = useState<QuizQuestionRow[]>([]);
+  const [attempts, setAttempts] = useState<VersionAttempt[]>([]);
+  const [studentNames, setStudentNames] = useState<Record<string, string>>({});
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+
+  useEffect(() => {
+    if (!quiz) return;
+
+    const fetchVersions = async () => {
+      setLoading(true);
+
+      const [versionsRes, questionsRes, attemptsRes] = await Promise.all([
+        supabase
+          .from('quiz_versions')
+          .select('id, quiz_id, version_number, published_at, published_by, created_at')
+          .eq('quiz_id', quiz.id)
+          .order('version_number', { ascending: false }),
+        supabase
+          .from('quiz_questions')
+          .select('*')
+          .eq('quiz_id', quiz.id)
+          .order('order_index'),
+        supabase
+          .from('quiz_attempts')
+          .select('id, user_id, quiz_version_id, status, score, total_questions, started_at')
+          .eq('quiz_id', quiz.id)
+          .order('started_at', { ascending: false }),
+      ]);
+
+      if (versionsRes.error || questionsRes.error || attemptsRes.error) {
+        toast.error('Failed to load quiz versions');
+        setLoading(false);
+        return;
+      }
+
+      const userIds = [...new Set(attemptsRes.data.map(a => a.user_id))];
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+        : { data: [] };
+
+      const loaded = versionsRes.data;
+      setVersions(loaded);
+      setQuestions(questionsRes.data as QuizQuestionRow[]);
+      setAttempts(attemptsRes.data);
+      setStudentNames(Object.fromEntries((profiles || []).map(p => [p.user_id, p.full_name])));
+
+      // Start by comparing the newest version (the draft, if there is one) with the one before it
+      setToId(loaded[0]?.id ?? '');
+      setFromId(loaded[1]?.id ?? loaded[0]?.id ?? '');
+      setLoading(false);
+    };
+
+    fetchVersions();
+  }, [quiz]);
+
+  const versionById = useMemo(() => new Map(versions.map(v => [v.id, v])), [versions]);
+
+  const questionsOf = (versionId: string) => questions.filter(q => q.version_id === versionId);
+
+  const changes = useMemo(
+    () => (fromId && toId ? diffQuestionVersions(
+      questions.filter(q => q.version_id === fromId),
+      questions.filter(q => q.version_id === toId),
+    ) : []),
+    [questions, fromId, toId],
+  );
+
+  const attemptCount = (versionId: string) => attempts.filter(a => a.quiz_version_id === versionId).length;
+
+  const versionStatus = (version: QuizVersion) => {
+    if (!version.published_at) return <Badge variant="secondary">Draft</Badge>;
+    if (version.id === quiz?.published_version_id) return <Badge>Live</Badge>;
+    return <Badge variant="outline">Retired</Badge>;
+  };
+
+  const renderVersionSelect = (value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-40">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(v => (
+          <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Versions - {quiz?.title}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <Tabs defaultValue="history">
+            <TabsList>
+              <TabsTrigger value="history">History</TabsTrigger>
+              <TabsTrigger value="compare">Compare</TabsTrigger>
+              <TabsTrigger value="attempts">Attempts</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="history">
+              <ScrollArea className="h-[60vh] pr-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Version</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Published</TableHead>
+                      <TableHead>Questions</TableHead>
+                      <TableHead>Attempts</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {versions.map(v => (
+                      <TableRow key={v.id}>
+                        <TableCell className="font-medium">v{v.version_number}</TableCell>
+                        <TableCell>{versionStatus(v)}</TableCell>
+                        <TableCell className="text-sm">
+                          {v.published_at ? format(new Date(v.published_at), 'MMM d, yyyy h:mm a') : '—'}
+                        </TableCell>
+                        <TableCell>{questionsOf(v.id).length}</TableCell>
+                        <TableCell>{attemptCount(v.id)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="compare" className="space-y-4">
+              <div className="flex items-center gap-3">
+                {renderVersionSelect(fromId, setFromId)}
+                <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                {renderVersionSelect(toId, setToId)}
+              </div>
+              <ScrollArea className="h-[55vh] pr-4">
+                <div className="space-y-3">
+                  {changes.length === 0 && (
+                    <p className="text-center text-muted-foreground py-8">
+                      {fromId === toId ? 'Choose two different versions to compare' : 'The questions are the same in both versions'}
+                    </p>
+                  )}
+                  {changes.map(change => {
+                    const shown = change.after ?? change.before!;
+                    const badge = CHANGE_BADGES[change.kind];
+                    return (
+                      <div key={change.lineage_id} className="p-3 bg-muted rounded-lg space-y-2">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+                          <Badge variant="outline">{QUESTION_TYPE_LABELS[shown.question_type]}</Badge>
+                          {change.fields.length > 0 && (
+                            <span className="text-xs text-muted-foreground">{change.fields.join(', ')}</span>
+                          )}
+                        </div>
+                        {change.kind === 'changed' && change.fields.includes('Question') ? (
+                          <div className="text-sm space-y-1">
+                            <p className="text-muted-foreground line-through">{change.before!.question}</p>
+                            <p>{change.after!.question}</p>
+                          </div>
+                        ) : (
+                          <p className="text-sm">{shown.question}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="attempts">
+              <ScrollArea className="h-[60vh] pr-4">
+                {attempts.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No attempts recorded yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Student</TableHead>
+                        <TableHead>Version</TableHead>
+                        <TableHead>Score</TableHead>
+                        <TableHead>Started</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {attempts.map(a => {
+                        const version = a.quiz_version_id ? versionById.get(a.quiz_version_id) : undefined;
+                        return (
+                          <TableRow key={a.id}>
+                            <TableCell>{studentNames[a.user_id] ?? 'Unknown student'}</TableCell>
+                            <TableCell>
+                              {version ? (
+                                <Badge variant="outline">v{version.version_number}</Badge>
+                              ) : (
+                                <span className="text-sm text-muted-foreground">Before versioning</span>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {a.status === 'completed' ? `${a.score} / ${a.total_questions}` : 'In progress'}
+                            </TableCell>
+                            <TableCell className="text-sm">{format(new Date(a.started_at), 'MMM d, yyyy h:mm a')}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
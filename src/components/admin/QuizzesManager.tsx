@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, type ReactNode } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,7 +10,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
-import { Loader2, Plus, Trash2, Edit, ChevronDown, ChevronUp, Clock, HelpCircle, Zap } from 'lucide-react';
+import { format as formatDate } from 'date-fns';
+import { Loader2, Plus, Trash2, Edit, ChevronDown, ChevronUp, Clock, HelpCircle, Zap, BarChart3, Library, X, Upload, Download, GraduationCap, UserCog, Radio, History, Copy, Eye } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -29,11 +31,54 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { QuestionEditor } from '@/components/admin/QuestionEditor';
+import { QuizAnalyticsDialog } from '@/components/admin/QuizAnalyticsDialog';
+import { QuizImportDialog } from '@/components/admin/QuizImportDialog';
+import { ExamGrantsDialog } from '@/components/admin/ExamGrantsDialog';
+import { HostLiveSessionDialog } from '@/components/admin/HostLiveSessionDialog';
+import { QuizVersionsDialog } from '@/components/admin/QuizVersionsDialog';
+import { PrerequisitePicker } from '@/components/admin/PrerequisitePicker';
+import { QuizMediaImage } from '@/components/admin/QuizMediaImage';
+import { QuizPlayer } from '@/components/quiz/QuizPlayer';
+import {
+  HINT_PENALTY_LABELS,
+  QUESTION_TYPE_LABELS,
+  XP_POLICY_LABELS,
+  createEmptyQuestionForm,
+  describeCorrectAnswer,
+  describeXpRules,
+  fromDateTimeLocal,
+  parseHints,
+  parseOptions,
+  questionFormFromRow,
+  questionRowFromForm,
+  toDateTimeLocal,
+  validateQuestionForm,
+  type ExamSettings,
+  type HintPenaltyMode,
+  type QuestionFormData,
+  type QuizDifficulty,
+  type QuizQuestionRow,
+  type QuizXpRules,
+  type XpPolicy,
+} from '@/lib/quiz';
+import {
+  TRANSFER_FORMATS,
+  downloadTextFile,
+  serializeQuizzes,
+  type TransferFormat,
+} from '@/lib/quizTransfer';
+import type { QuizVersion } from '@/lib/quizVersions';
+import { ruleFromRow, ruleToRow, validatePrerequisites, type PrerequisiteRule } from '@/lib/prerequisites';
 
-type QuizDifficulty = 'easy' | 'medium' | 'hard';
-
-interface Quiz {
+interface Quiz extends QuizXpRules, ExamSettings {
   id: string;
   title: string;
   description: string | null;
@@ -41,44 +86,67 @@ interface Quiz {
   difficulty: QuizDifficulty;
   timer_per_question: number;
   total_questions: number;
-  xp_reward: number;
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+  resume_window_minutes: number;
+  hint_penalty_mode: HintPenaltyMode;
+  published_version_id: string | null;
   created_at: string;
 }
 
-interface QuizQuestion {
+interface QuestionBankSummary {
   id: string;
-  quiz_id: string;
-  question: string;
-  options: string[];
-  correct_answer: number;
-  order_index: number;
-  hint: string | null;
+  name: string;
+  question_count: number;
 }
 
-interface QuestionFormData {
-  question: string;
-  options: string[];
-  hint: string;
-  correct_answer: number;
+interface BankDraw {
+  bank_id: string;
+  draw_count: number;
 }
 
 export function QuizzesManager() {
   const { user } = useAuth();
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
-  const [questions, setQuestions] = useState<Record<string, QuizQuestion[]>>({});
+  const [questions, setQuestions] = useState<Record<string, QuizQuestionRow[]>>({});
+  const [drawsByQuiz, setDrawsByQuiz] = useState<Record<string, BankDraw[]>>({});
+  const [banks, setBanks] = useState<QuestionBankSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [expandedQuiz, setExpandedQuiz] = useState<string | null>(null);
+  const [analyticsQuiz, setAnalyticsQuiz] = useState<Quiz | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [grantsQuiz, setGrantsQuiz] = useState<Quiz | null>(null);
+  const [liveQuiz, setLiveQuiz] = useState<Quiz | null>(null);
+  const [versionsQuiz, setVersionsQuiz] = useState<Quiz | null>(null);
+  const [preview, setPreview] = useState<{ quiz: Quiz; versionId: string | null } | null>(null);
+  const [versions, setVersions] = useState<QuizVersion[]>([]);
+  // Own questions in the live version of the quiz being edited, which a saved draft doesn't change
+  const [publishedQuestionCount, setPublishedQuestionCount] = useState(0);
   const [step, setStep] = useState<'details' | 'questions'>('details');
   const [form, setForm] = useState({
     title: '',
     description: '',
     difficulty: 'medium' as QuizDifficulty,
     timer_per_question: 120,
-    total_questions: 5,
+    own_questions: 5,
     xp_reward: 15,
+    xp_policy: 'fixed' as XpPolicy,
+    xp_pass_percent: 0,
+    xp_speed_bonus: 0,
+    hint_penalty_mode: 'none' as HintPenaltyMode,
+    shuffle_questions: true,
+    shuffle_options: true,
+    resume_window_minutes: 30,
+    is_exam: false,
+    opens_at: '',
+    closes_at: '',
+    max_attempts: 1,
+    time_limit_minutes: 0,
   });
+  const [drawsForm, setDrawsForm] = useState<BankDraw[]>([]);
+  const [prerequisitesForm, setPrerequisitesForm] = useState<PrerequisiteRule[]>([]);
   const [questionsForm, setQuestionsForm] = useState<QuestionFormData[]>([]);
   const [saving, setSaving] = useState(false);
 
@@ -92,34 +160,95 @@ export function QuizzesManager() {
     setLoading(false);
   };
 
-  const fetchQuestions = async (quizId: string) => {
+  const fetchBanksAndDraws = async () => {
+    const [banksRes, drawsRes] = await Promise.all([
+      supabase
+        .from('question_banks')
+        .select('id, name, quiz_questions(count)')
+        .is('archived_at', null)
+        .is('quiz_questions.retired_at', null)
+        .order('name'),
+      supabase.from('quiz_bank_draws').select('quiz_id, bank_id, draw_count'),
+    ]);
+
+    if (banksRes.data) {
+      setBanks(banksRes.data.map(b => ({
+        id: b.id,
+        name: b.name,
+        question_count: b.quiz_questions[0]?.count ?? 0,
+      })));
+    }
+
+    if (drawsRes.data) {
+      const grouped: Record<string, BankDraw[]> = {};
+      drawsRes.data.forEach(d => {
+        grouped[d.quiz_id] = [...(grouped[d.quiz_id] || []), { bank_id: d.bank_id, draw_count: d.draw_count }];
+      });
+      setDrawsByQuiz(grouped);
+    }
+  };
+
+  const fetchVersions = async () => {
     const { data } = await supabase
-      .from('quiz_questions')
-      .select('*')
-      .eq('quiz_id', quizId)
-      .order('order_index');
-    
+      .from('quiz_versions')
+      .select('id, quiz_id, version_number, published_at, published_by, created_at')
+      .order('version_number');
+
+    if (data) setVersions(data);
+  };
+
+  // The expanded card lists the questions students are currently dealt
+  // A quiz that was never published shows its draft's questions instead
+  const fetchQuestions = async (quiz: Quiz) => {
+    const versionId = quiz.published_version_id ?? draftOf(quiz.id)?.id;
+    const { data } = versionId
+      ? await supabase
+        .from('quiz_questions')
+        .select('*')
+        .eq('version_id', versionId)
+        .order('order_index')
+      : { data: [] };
+
     if (data) {
       setQuestions(prev => ({
         ...prev,
-        [quizId]: data.map(q => ({ ...q, options: q.options as string[] }))
+        [quiz.id]: data
       }));
     }
   };
 
   useEffect(() => {
     fetchQuizzes();
+    fetchBanksAndDraws();
+    fetchVersions();
   }, []);
 
+  const versionById = (versionId: string | null) => versions.find(v => v.id === versionId);
+  const draftOf = (quizId: string) => versions.find(v => v.quiz_id === quizId && !v.published_at);
+
   const resetForm = () => {
     setForm({
       title: '',
       description: '',
       difficulty: 'medium',
       timer_per_question: 120,
-      total_questions: 5,
+      own_questions: 5,
       xp_reward: 15,
+      xp_policy: 'fixed',
+      xp_pass_percent: 0,
+      xp_speed_bonus: 0,
+      hint_penalty_mode: 'none',
+      shuffle_questions: true,
+      shuffle_options: true,
+      resume_window_minutes: 30,
+      is_exam: false,
+      opens_at: '',
+      closes_at: '',
+      max_attempts: 1,
+      time_limit_minutes: 0,
     });
+    setDrawsForm([]);
+    setPrerequisitesForm([]);
     setQuestionsForm([]);
     setStep('details');
   };
@@ -133,45 +262,112 @@ export function QuizzesManager() {
     }
   };
 
+  // Keeps questions already written when going back to change the count
   const initializeQuestionForms = () => {
-    const forms: QuestionFormData[] = Array.from({ length: form.total_questions }, () => ({
-      question: '',
-      options: ['', '', '', ''],
-      hint: '',
-      correct_answer: 0,
-    }));
+    const forms: QuestionFormData[] = Array.from(
+      { length: form.own_questions },
+      (_, i) => questionsForm[i] ?? createEmptyQuestionForm()
+    );
     setQuestionsForm(forms);
     setStep('questions');
   };
 
-  const updateQuestionForm = (index: number, field: keyof QuestionFormData, value: string | number | string[]) => {
-    setQuestionsForm(prev => {
-      const updated = [...prev];
-      updated[index] = { ...updated[index], [field]: value };
-      return updated;
+  const bankById = (bankId: string) => banks.find(b => b.id === bankId);
+
+  // Each attempt gets the quiz's own questions plus every bank draw
+  const drawnTotal = (ownCount: number, draws: BankDraw[]) =>
+    ownCount + draws.reduce((sum, d) => sum + d.draw_count, 0);
+
+  const validateDraws = (): string | null => {
+    for (const draw of drawsForm) {
+      const bank = bankById(draw.bank_id);
+      if (!bank) return 'Please choose a bank for every draw';
+      if (draw.draw_count < 1) return `Draw at least one question from "${bank.name}"`;
+      if (draw.draw_count > bank.question_count) {
+        return `"${bank.name}" only has ${bank.question_count} questions`;
+      }
+    }
+    if (new Set(drawsForm.map(d => d.bank_id)).size !== drawsForm.length) {
+      return 'Each bank can only be drawn from once';
+    }
+    if (drawnTotal(form.own_questions, drawsForm) === 0) {
+      return 'Add questions or draw from at least one bank';
+    }
+    return null;
+  };
+
+  const validateExam = (): string | null => {
+    if (!form.is_exam) return null;
+    if (!form.closes_at) return 'Exams need a closing time';
+    if (form.opens_at && new Date(form.closes_at) <= new Date(form.opens_at)) {
+      return 'The exam must close after it opens';
+    }
+    return null;
+  };
+
+  // Exam columns for the quiz row; 0 attempts or minutes means no limit
+  const examColumns = () => ({
+    is_exam: form.is_exam,
+    opens_at: form.is_exam ? fromDateTimeLocal(form.opens_at) : null,
+    closes_at: form.is_exam ? fromDateTimeLocal(form.closes_at) : null,
+    max_attempts: form.is_exam && form.max_attempts > 0 ? form.max_attempts : null,
+    time_limit_minutes: form.is_exam && form.time_limit_minutes > 0 ? form.time_limit_minutes : null,
+  });
+
+  const saveDraws = async (quizId: string) => {
+    const { error } = await supabase.rpc('save_quiz_bank_draws', { _quiz_id: quizId, _draws: drawsForm as unknown as Json });
+    if (error) throw error;
+  };
+
+  // Replaced in one go, so a rule that fails to save keeps the old ones rather than unlocking the quiz
+  const savePrerequisites = async (quizId: string) => {
+    const { error } = await supabase.rpc('save_content_prerequisites', {
+      _quiz_id: quizId,
+      _rules: prerequisitesForm.map(r => ruleToRow({ type: 'quiz', id: quizId }, r)) as unknown as Json,
     });
+    if (error) throw error;
   };
 
-  const updateQuestionOption = (questionIndex: number, optionIndex: number, value: string) => {
+  const updateDraw = (index: number, patch: Partial<BankDraw>) => {
+    setDrawsForm(prev => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  const updateQuestionForm = (index: number, value: QuestionFormData) => {
     setQuestionsForm(prev => {
       const updated = [...prev];
-      const newOptions = [...updated[questionIndex].options];
-      newOptions[optionIndex] = value;
-      updated[questionIndex] = { ...updated[questionIndex], options: newOptions };
+      updated[index] = value;
       return updated;
     });
   };
 
-  const handleSubmit = async () => {
+  // Question edits always land in the quiz's draft version; students keep getting the published
+  // version until the draft is published
+  const saveDraftQuestions = async (quizId: string) => {
+    const { error } = await supabase.rpc('save_draft_questions', {
+      _quiz_id: quizId,
+      _questions: questionsForm.map((q, idx) => ({ ...questionRowFromForm(q), order_index: idx })) as unknown as Json,
+    });
+    if (error) throw error;
+  };
+
+  const publishDraft = async (quizId: string): Promise<number> => {
+    const { data: versionNumber, error } = await supabase.rpc('publish_quiz_version', { _quiz_id: quizId });
+    if (error) throw error;
+    return versionNumber;
+  };
+
+  const handleSubmit = async (publish: boolean) => {
+    const drawError = validateDraws() ?? validateExam() ?? validatePrerequisites(prerequisitesForm);
+    if (drawError) {
+      toast.error(drawError);
+      return;
+    }
+
     // Validate all questions
     for (let i = 0; i < questionsForm.length; i++) {
-      const q = questionsForm[i];
-      if (!q.question.trim()) {
-        toast.error(`Question ${i + 1} is empty`);
-        return;
-      }
-      if (q.options.some(o => !o.trim())) {
-        toast.error(`All options are required for Question ${i + 1}`);
+      const validationError = validateQuestionForm(questionsForm[i], `Question ${i + 1}`);
+      if (validationError) {
+        toast.error(validationError);
         return;
       }
     }
@@ -180,7 +376,7 @@ export function QuizzesManager() {
 
     try {
       if (editingId) {
-        // Update quiz
+        // Settings and bank draws apply right away; the question count only changes on publish
         const { error: quizError } = await supabase
           .from('quizzes')
           .update({
@@ -188,30 +384,31 @@ export function QuizzesManager() {
             description: form.description || null,
             difficulty: form.difficulty,
             timer_per_question: form.timer_per_question,
-            total_questions: form.total_questions,
+            total_questions: drawnTotal(publishedQuestionCount, drawsForm),
             xp_reward: form.xp_reward,
+            xp_policy: form.xp_policy,
+            xp_pass_percent: form.xp_pass_percent,
+            xp_speed_bonus: form.xp_speed_bonus,
+            hint_penalty_mode: form.hint_penalty_mode,
+            shuffle_questions: form.shuffle_questions,
+            shuffle_options: form.shuffle_options,
+            resume_window_minutes: form.resume_window_minutes,
+            ...examColumns(),
           })
           .eq('id', editingId);
 
         if (quizError) throw quizError;
 
-        // Delete existing questions
-        await supabase.from('quiz_questions').delete().eq('quiz_id', editingId);
-
-        // Insert new questions
-        const questionsToInsert = questionsForm.map((q, idx) => ({
-          quiz_id: editingId,
-          question: q.question,
-          options: q.options,
-          correct_answer: q.correct_answer,
-          hint: q.hint || null,
-          order_index: idx,
-        }));
-
-        const { error: questionsError } = await supabase.from('quiz_questions').insert(questionsToInsert);
-        if (questionsError) throw questionsError;
+        await saveDraftQuestions(editingId);
+        await saveDraws(editingId);
+        await savePrerequisites(editingId);
 
-        toast.success('Quiz updated successfully');
+        if (publish) {
+          const versionNumber = await publishDraft(editingId);
+          toast.success(`Published version ${versionNumber}`);
+        } else {
+          toast.success('Draft saved. Students keep the published version until you publish it.');
+        }
       } else {
         // Create new quiz
         const { data: quizData, error: quizError } = await supabase
@@ -221,8 +418,16 @@ export function QuizzesManager() {
             description: form.description || null,
             difficulty: form.difficulty,
             timer_per_question: form.timer_per_question,
-            total_questions: form.total_questions,
+            total_questions: drawnTotal(questionsForm.length, drawsForm),
             xp_reward: form.xp_reward,
+            xp_policy: form.xp_policy,
+            xp_pass_percent: form.xp_pass_percent,
+            xp_speed_bonus: form.xp_speed_bonus,
+            hint_penalty_mode: form.hint_penalty_mode,
+            shuffle_questions: form.shuffle_questions,
+            shuffle_options: form.shuffle_options,
+            resume_window_minutes: form.resume_window_minutes,
+            ...examColumns(),
             created_by: user?.id,
           })
           .select()
@@ -230,26 +435,26 @@ export function QuizzesManager() {
 
         if (quizError) throw quizError;
 
-        // Insert questions
-        const questionsToInsert = questionsForm.map((q, idx) => ({
-          quiz_id: quizData.id,
-          question: q.question,
-          options: q.options,
-          correct_answer: q.correct_answer,
-          hint: q.hint || null,
-          order_index: idx,
-        }));
+        await saveDraftQuestions(quizData.id);
+        await saveDraws(quizData.id);
+        await savePrerequisites(quizData.id);
 
-        const { error: questionsError } = await supabase.from('quiz_questions').insert(questionsToInsert);
-        if (questionsError) throw questionsError;
-
-        toast.success('Quiz created successfully');
+        if (publish) {
+          await publishDraft(quizData.id);
+          toast.success('Quiz created and published');
+        } else {
+          toast.success('Quiz saved as a draft. Students will see it once you publish it.');
+        }
       }
 
       setDialogOpen(false);
       setEditingId(null);
       resetForm();
       fetchQuizzes();
+      fetchBanksAndDraws();
+      fetchVersions();
+      setQuestions({});
+      setExpandedQuiz(null);
     } catch (error) {
       toast.error('Failed to save quiz');
     }
@@ -257,45 +462,96 @@ export function QuizzesManager() {
     setSaving(false);
   };
 
+  const handleDiscardDraft = async () => {
+    const draft = editingId ? draftOf(editingId) : undefined;
+    if (!draft) return;
+
+    const { error } = await supabase.from('quiz_versions').delete().eq('id', draft.id);
+    if (error) {
+      toast.error('Failed to discard draft');
+      return;
+    }
+
+    toast.success('Draft discarded');
+    setDialogOpen(false);
+    setEditingId(null);
+    resetForm();
+    fetchVersions();
+  };
+
   const handleEdit = async (quiz: Quiz) => {
+    const draws = drawsByQuiz[quiz.id] || [];
+
+    // Pick up an unpublished draft where it was left, otherwise start from the live version
+    const draft = draftOf(quiz.id);
+    const [draftRes, publishedRes, prerequisitesRes] = await Promise.all([
+      draft
+        ? supabase.from('quiz_questions').select('*').eq('version_id', draft.id).order('order_index')
+        : Promise.resolve({ data: null }),
+      quiz.published_version_id
+        ? supabase.from('quiz_questions').select('*').eq('version_id', quiz.published_version_id).order('order_index')
+        : Promise.resolve({ data: null }),
+      supabase
+        .from('content_prerequisites')
+        .select('quiz_id, video_id, required_quiz_id, required_video_id, min_score_percent')
+        .eq('quiz_id', quiz.id)
+        .order('created_at'),
+    ]);
+
+    const published = publishedRes.data || [];
+    const existing = draftRes.data || published;
+    // A quiz with no questions or draws yet starts with its configured count of blank questions
+    const ownCount = existing.length > 0 || draws.length > 0 ? existing.length : quiz.total_questions;
+
     setEditingId(quiz.id);
+    setPublishedQuestionCount(published.length);
     setForm({
       title: quiz.title,
       description: quiz.description || '',
       difficulty: quiz.difficulty,
       timer_per_question: quiz.timer_per_question,
-      total_questions: quiz.total_questions,
+      own_questions: ownCount,
       xp_reward: quiz.xp_reward,
+      xp_policy: quiz.xp_policy,
+      xp_pass_percent: quiz.xp_pass_percent,
+      xp_speed_bonus: quiz.xp_speed_bonus,
+      hint_penalty_mode: quiz.hint_penalty_mode,
+      shuffle_questions: quiz.shuffle_questions,
+      shuffle_options: quiz.shuffle_options,
+      resume_window_minutes: quiz.resume_window_minutes,
+      is_exam: quiz.is_exam,
+      opens_at: toDateTimeLocal(quiz.opens_at),
+      closes_at: toDateTimeLocal(quiz.closes_at),
+      max_attempts: quiz.max_attempts ?? 0,
+      time_limit_minutes: quiz.time_limit_minutes ?? 0,
     });
+    setDrawsForm(draws);
+    setPrerequisitesForm((prerequisitesRes.data || []).map(ruleFromRow));
+    setQuestionsForm(
+      existing.length > 0
+        ? existing.map(questionFormFromRow)
+        : Array.from({ length: ownCount }, () => createEmptyQuestionForm())
+    );
+    setStep('questions');
+    setDialogOpen(true);
+  };
 
-    // Fetch existing questions
-    const { data } = await supabase
-      .from('quiz_questions')
-      .select('*')
-      .eq('quiz_id', quiz.id)
-      .order('order_index');
-
-    if (data && data.length > 0) {
-      setQuestionsForm(data.map(q => ({
-        question: q.question,
-        options: q.options as string[],
-        hint: q.hint || '',
-        correct_answer: q.correct_answer,
-      })));
-      setStep('questions');
-    } else {
-      // Initialize empty forms
-      const forms: QuestionFormData[] = Array.from({ length: quiz.total_questions }, () => ({
-        question: '',
-        options: ['', '', '', ''],
-        hint: '',
-        correct_answer: 0,
-      }));
-      setQuestionsForm(forms);
-      setStep('questions');
+  const handleDuplicate = async (quiz: Quiz) => {
+    const { error } = await supabase.rpc('clone_quiz', { _quiz_id: quiz.id });
+    if (error) {
+      toast.error('Failed to duplicate quiz');
+      return;
     }
 
-    setDialogOpen(true);
+    toast.success(`Duplicated "${quiz.title}" as a draft`);
+    fetchQuizzes();
+    fetchBanksAndDraws();
+    fetchVersions();
+  };
+
+  // Previews play the draft when there is one, since that's what is about to be published
+  const openPreview = (quiz: Quiz) => {
+    setPreview({ quiz, versionId: draftOf(quiz.id)?.id ?? quiz.published_version_id });
   };
 
   const handleDelete = async (id: string) => {
@@ -317,18 +573,61 @@ export function QuizzesManager() {
     if (!error) fetchQuizzes();
   };
 
-  const deleteQuestion = async (questionId: string, quizId: string) => {
-    const { error } = await supabase.from('quiz_questions').delete().eq('id', questionId);
-    if (!error) fetchQuestions(quizId);
+  // Exports settings and the published questions; bank draws only make sense on this site
+  const handleExport = async (selected: Quiz[], format: TransferFormat) => {
+    const { data, error } = await supabase
+      .from('quiz_questions')
+      .select('*')
+      .in('version_id', selected.flatMap(q => (q.published_version_id ? [q.published_version_id] : [])))
+      .order('order_index');
+
+    if (error) {
+      toast.error('Failed to export quizzes');
+      return;
+    }
+
+    const { content, warnings } = serializeQuizzes(format, selected.map(quiz => ({
+      title: quiz.title,
+      description: quiz.description || '',
+      difficulty: quiz.difficulty,
+      timer_per_question: quiz.timer_per_question,
+      xp_reward: quiz.xp_reward,
+      questions: (data || []).filter(q => q.quiz_id === quiz.id).map(questionFormFromRow),
+    })));
+
+    const { extension, mimeType } = TRANSFER_FORMATS[format];
+    const baseName = selected.length === 1
+      ? selected[0].title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'quiz'
+      : 'quizzes';
+    downloadTextFile(`${baseName}.${extension}`, content, mimeType);
+
+    if (warnings.length > 0) {
+      toast.warning(`Exported with ${warnings.length} ${warnings.length === 1 ? 'note' : 'notes'}`, {
+        description: warnings.join('\n'),
+      });
+    }
   };
 
-  const toggleExpand = (quizId: string) => {
-    if (expandedQuiz === quizId) {
+  const renderExportMenu = (selected: Quiz[], trigger: ReactNode) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{trigger}</DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(TRANSFER_FORMATS) as TransferFormat[]).map(format => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(selected, format)}>
+            Export as {TRANSFER_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  const toggleExpand = (quiz: Quiz) => {
+    if (expandedQuiz === quiz.id) {
       setExpandedQuiz(null);
     } else {
-      setExpandedQuiz(quizId);
-      if (!questions[quizId]) {
-        fetchQuestions(quizId);
+      setExpandedQuiz(quiz.id);
+      if (!questions[quiz.id]) {
+        fetchQuestions(quiz);
       }
     }
   };
@@ -359,220 +658,472 @@ export function QuizzesManager() {
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <h3 className="text-lg font-medium">{quizzes.length} Quizzes</h3>
-        <Dialog open={dialogOpen} onOpenChange={(open) => {
-          setDialogOpen(open);
-          if (!open) {
-            setEditingId(null);
-            resetForm();
-          }
-        }}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="w-4 h-4 mr-2" />
-              New Quiz
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          {renderExportMenu(quizzes, (
+            <Button variant="outline" disabled={quizzes.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Export All
             </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-3xl max-h-[90vh]">
-            <DialogHeader>
-              <DialogTitle>
-                {editingId ? 'Edit Quiz' : 'New Quiz'} 
-                {step === 'questions' && ` - Questions (${questionsForm.length})`}
-              </DialogTitle>
-            </DialogHeader>
-
-            {step === 'details' ? (
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Quiz Title</Label>
-                  <Input
-                    id="title"
-                    value={form.title}
-                    onChange={(e) => setForm({ ...form, title: e.target.value })}
-                    placeholder="e.g., Resistors Fundamentals"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea
-                    id="description"
-                    value={form.description}
-                    onChange={(e) => setForm({ ...form, description: e.target.value })}
-                    placeholder="Brief description of the quiz topic"
-                    rows={2}
-                  />
-                </div>
-                
-                <div className="grid grid-cols-2 gap-4">
+          ))}
+          <Dialog open={dialogOpen} onOpenChange={(open) => {
+            setDialogOpen(open);
+            if (!open) {
+              setEditingId(null);
+              resetForm();
+            }
+          }}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="w-4 h-4 mr-2" />
+                New Quiz
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl max-h-[90vh]">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingId ? 'Edit Quiz' : 'New Quiz'} 
+                  {step === 'questions' && ` - Questions (${questionsForm.length})`}
+                </DialogTitle>
+              </DialogHeader>
+
+              {step === 'details' ? (
+                <div className="space-y-4">
                   <div className="space-y-2">
-                    <Label>Difficulty Level</Label>
+                    <Label htmlFor="title">Quiz Title</Label>
+                    <Input
+                      id="title"
+                      value={form.title}
+                      onChange={(e) => setForm({ ...form, title: e.target.value })}
+                      placeholder="e.g., Resistors Fundamentals"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Textarea
+                      id="description"
+                      value={form.description}
+                      onChange={(e) => setForm({ ...form, description: e.target.value })}
+                      placeholder="Brief description of the quiz topic"
+                      rows={2}
+                    />
+                  </div>
+                  
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Difficulty Level</Label>
+                      <Select
+                        value={form.difficulty}
+                        onValueChange={(v: QuizDifficulty) => setForm({ ...form, difficulty: v, xp_reward: getDefaultXP(v) })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="easy">Easy</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="hard">Hard</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="own_questions">Quiz-specific Questions</Label>
+                      <Input
+                        id="own_questions"
+                        type="number"
+                        min={0}
+                        max={50}
+                        value={form.own_questions}
+                        onChange={(e) => setForm({ ...form, own_questions: Math.max(0, parseInt(e.target.value) || 0) })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="xp_reward" className="flex items-center gap-2">
+                        <Zap className="w-4 h-4 text-yellow-500" />
+                        XP Reward
+                      </Label>
+                      <Input
+                        id="xp_reward"
+                        type="number"
+                        min={0}
+                        max={1000}
+                        value={form.xp_reward}
+                        onChange={(e) => setForm({ ...form, xp_reward: parseInt(e.target.value) || 0 })}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Earned once, on the first attempt that reaches the pass mark
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="resume_window_minutes">Resume Window (minutes)</Label>
+                      <Input
+                        id="resume_window_minutes"
+                        type="number"
+                        min={1}
+                        max={1440}
+                        value={form.resume_window_minutes}
+                        onChange={(e) => setForm({ ...form, resume_window_minutes: Math.max(1, parseInt(e.target.value) || 1) })}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Unfinished attempts idle longer than this are submitted automatically
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label>XP Policy</Label>
+                      <Select
+                        value={form.xp_policy}
+                        onValueChange={(v: XpPolicy) => setForm({ ...form, xp_policy: v })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(XP_POLICY_LABELS) as XpPolicy[]).map(policy => (
+                            <SelectItem key={policy} value={policy}>{XP_POLICY_LABELS[policy]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="xp_pass_percent">Pass Mark (%)</Label>
+                      <Input
+                        id="xp_pass_percent"
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={form.xp_pass_percent}
+                        onChange={(e) => setForm({ ...form, xp_pass_percent: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="xp_speed_bonus">Speed Bonus (XP)</Label>
+                      <Input
+                        id="xp_speed_bonus"
+                        type="number"
+                        min={0}
+                        max={1000}
+                        value={form.xp_speed_bonus}
+                        onChange={(e) => setForm({ ...form, xp_speed_bonus: Math.max(0, parseInt(e.target.value) || 0) })}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground -mt-2">
+                    No XP below the pass mark. The speed bonus shrinks with the time used and the share of wrong answers.
+                  </p>
+
+                  <div className="space-y-2">
+                    <Label>Hint Penalty</Label>
                     <Select
-                      value={form.difficulty}
-                      onValueChange={(v: QuizDifficulty) => setForm({ ...form, difficulty: v, xp_reward: getDefaultXP(v) })}
+                      value={form.hint_penalty_mode}
+                      onValueChange={(v: HintPenaltyMode) => setForm({ ...form, hint_penalty_mode: v })}
                     >
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="easy">Easy</SelectItem>
-                        <SelectItem value="medium">Medium</SelectItem>
-                        <SelectItem value="hard">Hard</SelectItem>
+                        {(Object.keys(HINT_PENALTY_LABELS) as HintPenaltyMode[]).map(mode => (
+                          <SelectItem key={mode} value={mode}>{HINT_PENALTY_LABELS[mode]}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Each hint's cost is a share of its question's worth, taken off the question's credit or off the XP reward.
+                    </p>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="total_questions">Number of Questions</Label>
-                    <Input
-                      id="total_questions"
-                      type="number"
-                      min={1}
-                      max={50}
-                      value={form.total_questions}
-                      onChange={(e) => setForm({ ...form, total_questions: parseInt(e.target.value) || 5 })}
-                    />
-                  </div>
-                </div>
 
-                <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="xp_reward" className="flex items-center gap-2">
-                      <Zap className="w-4 h-4 text-yellow-500" />
-                      XP Reward
-                    </Label>
-                    <Input
-                      id="xp_reward"
-                      type="number"
-                      min={0}
-                      max={1000}
-                      value={form.xp_reward}
-                      onChange={(e) => setForm({ ...form, xp_reward: parseInt(e.target.value) || 0 })}
-                    />
+                    <div className="flex items-center justify-between">
+                      <Label className="flex items-center gap-2">
+                        <Library className="w-4 h-4" />
+                        Draw from Question Banks
+                      </Label>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDrawsForm([...drawsForm, { bank_id: '', draw_count: 1 }])}
+                        disabled={banks.length === 0 || drawsForm.length >= banks.length}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Draw
+                      </Button>
+                    </div>
+                    {drawsForm.map((draw, idx) => (
+                      <div key={idx} className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground">Draw</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={draw.draw_count}
+                          onChange={(e) => updateDraw(idx, { draw_count: parseInt(e.target.value) || 0 })}
+                          className="w-20"
+                        />
+                        <span className="text-sm text-muted-foreground">from</span>
+                        <Select value={draw.bank_id} onValueChange={(v) => updateDraw(idx, { bank_id: v })}>
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder="Choose a bank" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {banks.map(bank => (
+                              <SelectItem
+                                key={bank.id}
+                                value={bank.id}
+                                disabled={bank.id !== draw.bank_id && drawsForm.some(d => d.bank_id === bank.id)}
+                              >
+                                {bank.name} ({bank.question_count})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDrawsForm(drawsForm.filter((_, i) => i !== idx))}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    {banks.length === 0 && (
+                      <p className="text-xs text-muted-foreground">Create question banks in the Question Banks tab</p>
+                    )}
                     <p className="text-xs text-muted-foreground">
-                      XP earned on first completion
+                      Each attempt gets {drawnTotal(form.own_questions, drawsForm)} questions
                     </p>
                   </div>
-                </div>
 
-                <div className="space-y-2">
-                  <Label>Timer per Question</Label>
-                  <Select
-                    value={form.timer_per_question.toString()}
-                    onValueChange={(v) => setForm({ ...form, timer_per_question: parseInt(v) })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="30">30 seconds</SelectItem>
-                      <SelectItem value="60">1 minute</SelectItem>
-                      <SelectItem value="90">1.5 minutes</SelectItem>
-                      <SelectItem value="120">2 minutes</SelectItem>
-                      <SelectItem value="180">3 minutes</SelectItem>
-                      <SelectItem value="300">5 minutes</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                  <PrerequisitePicker
+                    content={{ type: 'quiz', id: editingId }}
+                    value={prerequisitesForm}
+                    onChange={setPrerequisitesForm}
+                  />
 
-                <div className="flex justify-end gap-2 pt-4">
-                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button
-                    onClick={() => {
-                      if (!form.title.trim()) {
-                        toast.error('Please enter a title');
-                        return;
-                      }
-                      initializeQuestionForms();
-                    }}
-                  >
-                    Next: Add Questions
-                  </Button>
-                </div>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                <ScrollArea className="h-[60vh] pr-4">
-                  <div className="space-y-6">
-                    {questionsForm.map((q, idx) => (
-                      <Card key={idx} className="p-4">
-                        <div className="space-y-4">
-                          <div className="flex items-center justify-between">
-                            <Label className="text-base font-semibold">Question {idx + 1}</Label>
-                            <Badge variant="outline" className="flex items-center gap-1">
-                              <Clock className="w-3 h-3" />
-                              {formatTimer(form.timer_per_question)}
-                            </Badge>
-                          </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="flex items-center justify-between rounded-md border p-3">
+                      <Label htmlFor="shuffle_questions">Shuffle question order</Label>
+                      <Switch
+                        id="shuffle_questions"
+                        checked={form.shuffle_questions}
+                        onCheckedChange={(checked) => setForm({ ...form, shuffle_questions: checked })}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between rounded-md border p-3">
+                      <Label htmlFor="shuffle_options">Shuffle answer options</Label>
+                      <Switch
+                        id="shuffle_options"
+                        checked={form.shuffle_options}
+                        onCheckedChange={(checked) => setForm({ ...form, shuffle_options: checked })}
+                      />
+                    </div>
+                  </div>
 
+                  <div className="space-y-4 rounded-md border p-3">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="is_exam" className="flex items-center gap-2">
+                        <GraduationCap className="w-4 h-4" />
+                        Exam mode
+                      </Label>
+                      <Switch
+                        id="is_exam"
+                        checked={form.is_exam}
+                        onCheckedChange={(checked) => setForm({ ...form, is_exam: checked })}
+                      />
+                    </div>
+                    {form.is_exam && (
+                      <>
+                        <div className="grid grid-cols-2 gap-4">
                           <div className="space-y-2">
-                            <Textarea
-                              value={q.question}
-                              onChange={(e) => updateQuestionForm(idx, 'question', e.target.value)}
-                              placeholder="Enter your question"
-                              rows={2}
+                            <Label htmlFor="opens_at">Opens At</Label>
+                            <Input
+                              id="opens_at"
+                              type="datetime-local"
+                              value={form.opens_at}
+                              onChange={(e) => setForm({ ...form, opens_at: e.target.value })}
                             />
                           </div>
-
                           <div className="space-y-2">
-                            <Label className="text-sm text-muted-foreground">Options (select correct answer)</Label>
-                            <div className="grid gap-2">
-                              {q.options.map((option, optIdx) => (
-                                <div key={optIdx} className="flex items-center gap-2">
-                                  <input
-                                    type="radio"
-                                    name={`correct-${idx}`}
-                                    checked={q.correct_answer === optIdx}
-                                    onChange={() => updateQuestionForm(idx, 'correct_answer', optIdx)}
-                                    className="w-4 h-4 accent-primary"
-                                  />
-                                  <Input
-                                    value={option}
-                                    onChange={(e) => updateQuestionOption(idx, optIdx, e.target.value)}
-                                    placeholder={`Option ${optIdx + 1}`}
-                                    className={q.correct_answer === optIdx ? 'border-green-500 bg-green-500/5' : ''}
-                                  />
-                                </div>
-                              ))}
-                            </div>
+                            <Label htmlFor="closes_at">Closes At</Label>
+                            <Input
+                              id="closes_at"
+                              type="datetime-local"
+                              value={form.closes_at}
+                              onChange={(e) => setForm({ ...form, closes_at: e.target.value })}
+                            />
                           </div>
-
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
                           <div className="space-y-2">
-                            <Label className="text-sm text-muted-foreground flex items-center gap-1">
-                              <HelpCircle className="w-3.5 h-3.5" />
-                              Hint (optional)
-                            </Label>
+                            <Label htmlFor="max_attempts">Attempts Allowed</Label>
                             <Input
-                              value={q.hint}
-                              onChange={(e) => updateQuestionForm(idx, 'hint', e.target.value)}
-                              placeholder="A helpful hint for students"
+                              id="max_attempts"
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={form.max_attempts}
+                              onChange={(e) => setForm({ ...form, max_attempts: Math.max(0, parseInt(e.target.value) || 0) })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="time_limit_minutes">Time Limit (minutes)</Label>
+                            <Input
+                              id="time_limit_minutes"
+                              type="number"
+                              min={0}
+                              max={1440}
+                              value={form.time_limit_minutes}
+                              onChange={(e) => setForm({ ...form, time_limit_minutes: Math.max(0, parseInt(e.target.value) || 0) })}
                             />
                           </div>
                         </div>
-                      </Card>
-                    ))}
+                        <p className="text-xs text-muted-foreground">
+                          Leave the opening time empty to open immediately; 0 attempts or minutes means no limit.
+                          Answers are shown once the exam closes, and open attempts are submitted at the deadline.
+                        </p>
+                      </>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Timer per Question</Label>
+                    <Select
+                      value={form.timer_per_question.toString()}
+                      onValueChange={(v) => setForm({ ...form, timer_per_question: parseInt(v) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="30">30 seconds</SelectItem>
+                        <SelectItem value="60">1 minute</SelectItem>
+                        <SelectItem value="90">1.5 minutes</SelectItem>
+                        <SelectItem value="120">2 minutes</SelectItem>
+                        <SelectItem value="180">3 minutes</SelectItem>
+                        <SelectItem value="300">5 minutes</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
-                </ScrollArea>
 
-                <div className="flex justify-between gap-2 pt-4 border-t">
-                  <Button type="button" variant="outline" onClick={() => setStep('details')}>
-                    Back to Details
-                  </Button>
-                  <div className="flex gap-2">
+                  <div className="flex justify-end gap-2 pt-4">
                     <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                       Cancel
                     </Button>
-                    <Button onClick={handleSubmit} disabled={saving}>
-                      {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-                      {editingId ? 'Update Quiz' : 'Create Quiz'}
+                    <Button
+                      onClick={() => {
+                        if (!form.title.trim()) {
+                          toast.error('Please enter a title');
+                          return;
+                        }
+                        const drawError = validateDraws() ?? validateExam() ?? validatePrerequisites(prerequisitesForm);
+                        if (drawError) {
+                          toast.error(drawError);
+                          return;
+                        }
+                        initializeQuestionForms();
+                      }}
+                    >
+                      Next: Add Questions
                     </Button>
                   </div>
                 </div>
-              </div>
-            )}
-          </DialogContent>
-        </Dialog>
+              ) : (
+                <div className="space-y-4">
+                  <ScrollArea className="h-[60vh] pr-4">
+                    <div className="space-y-6">
+                      {questionsForm.map((q, idx) => (
+                        <QuestionEditor
+                          key={idx}
+                          index={idx}
+                          value={q}
+                          timerLabel={formatTimer(form.timer_per_question)}
+                          onChange={(value) => updateQuestionForm(idx, value)}
+                        />
+                      ))}
+                      {questionsForm.length === 0 && (
+                        <p className="text-center text-muted-foreground py-8">
+                          All questions for this quiz are drawn from question banks
+                        </p>
+                      )}
+                    </div>
+                  </ScrollArea>
+
+                  {editingId && (
+                    <p className="text-xs text-muted-foreground">
+                      {draftOf(editingId) ? 'Editing an unpublished draft. ' : ''}
+                      Question changes stay in a draft until published; attempts already taken keep the version they used.
+                    </p>
+                  )}
+
+                  <div className="flex justify-between gap-2 pt-4 border-t">
+                    <div className="flex gap-2">
+                      <Button type="button" variant="outline" onClick={() => setStep('details')}>
+                        Back to Details
+                      </Button>
+                      {editingId && draftOf(editingId) && (
+                        <Button type="button" variant="ghost" onClick={handleDiscardDraft} disabled={saving}>
+                          Discard Draft
+                        </Button>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button variant="outline" onClick={() => handleSubmit(false)} disabled={saving}>
+                        Save Draft
+                      </Button>
+                      <Button onClick={() => handleSubmit(true)} disabled={saving}>
+                        {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        {editingId ? 'Publish' : 'Create & Publish'}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <QuizAnalyticsDialog
+        quiz={analyticsQuiz}
+        onOpenChange={(open) => !open && setAnalyticsQuiz(null)}
+      />
+
+      <QuizImportDialog open={importOpen} onOpenChange={setImportOpen} onImported={fetchQuizzes} />
+
+      <ExamGrantsDialog
+        quiz={grantsQuiz}
+        onOpenChange={(open) => !open && setGrantsQuiz(null)}
+      />
+
+      <HostLiveSessionDialog
+        quiz={liveQuiz}
+        onOpenChange={(open) => !open && setLiveQuiz(null)}
+      />
+
+      <QuizVersionsDialog
+        quiz={versionsQuiz}
+        onOpenChange={(open) => !open && setVersionsQuiz(null)}
+      />
+
+      {preview && (
+        <QuizPlayer
+          quiz={preview.quiz}
+          preview={{ versionId: preview.versionId }}
+          onClose={() => setPreview(null)}
+        />
+      )}
+
       <div className="grid gap-4">
         {quizzes.map((quiz) => (
           <Card key={quiz.id}>
@@ -592,6 +1143,20 @@ export function QuizzesManager() {
                         <Zap className="w-3 h-3" />
                         +{quiz.xp_reward} XP
                       </Badge>
+                      {quiz.is_exam && (
+                        <Badge variant="outline" className="flex items-center gap-1">
+                          <GraduationCap className="w-3 h-3" />
+                          Exam
+                        </Badge>
+                      )}
+                      {versionById(quiz.published_version_id) && (
+                        <Badge variant="outline">v{versionById(quiz.published_version_id)!.version_number}</Badge>
+                      )}
+                      {!quiz.published_version_id ? (
+                        <Badge variant="secondary">Draft · hidden from students</Badge>
+                      ) : draftOf(quiz.id) && (
+                        <Badge variant="secondary">Unpublished draft</Badge>
+                      )}
                     </div>
                     {quiz.description && (
                       <p className="text-sm text-muted-foreground mt-1">{quiz.description}</p>
@@ -601,11 +1166,48 @@ export function QuizzesManager() {
                         <Clock className="w-3.5 h-3.5" />
                         {formatTimer(quiz.timer_per_question)}/question
                       </span>
-                      <span>{quiz.total_questions} questions</span>
+                      <span>{quiz.total_questions} questions per attempt</span>
+                      <span>{describeXpRules(quiz).join(' · ')}</span>
+                      {quiz.hint_penalty_mode !== 'none' && <span>{HINT_PENALTY_LABELS[quiz.hint_penalty_mode]}</span>}
                     </div>
+                    {quiz.is_exam && (
+                      <p className="mt-1 text-sm text-muted-foreground">
+                        {quiz.opens_at ? `Opens ${formatDate(new Date(quiz.opens_at), 'MMM d, yyyy h:mm a')} · ` : ''}
+                        {quiz.closes_at && `Closes ${formatDate(new Date(quiz.closes_at), 'MMM d, yyyy h:mm a')}`}
+                        {` · ${quiz.max_attempts ?? 'Unlimited'} ${quiz.max_attempts === 1 ? 'attempt' : 'attempts'}`}
+                        {quiz.time_limit_minutes !== null && ` · ${quiz.time_limit_minutes} min limit`}
+                      </p>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
                     <Switch checked={quiz.is_active} onCheckedChange={() => toggleActive(quiz)} />
+                    {quiz.is_exam && (
+                      <Button variant="ghost" size="sm" onClick={() => setGrantsQuiz(quiz)} title="Exam grants">
+                        <UserCog className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {!quiz.is_exam && quiz.is_active && quiz.published_version_id && (
+                      <Button variant="ghost" size="sm" onClick={() => setLiveQuiz(quiz)} title="Host live session">
+                        <Radio className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => openPreview(quiz)} title={draftOf(quiz.id) ? 'Preview draft as a student' : 'Preview as a student'}>
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDuplicate(quiz)} title="Duplicate">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setVersionsQuiz(quiz)} title="Versions">
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setAnalyticsQuiz(quiz)} title="Analytics">
+                      <BarChart3 className="w-4 h-4" />
+                    </Button>
+                    {renderExportMenu([quiz], (
+                      <Button variant="ghost" size="sm" title="Export">
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    ))}
                     <Button variant="ghost" size="sm" onClick={() => handleEdit(quiz)}>
                       <Edit className="w-4 h-4" />
                     </Button>
@@ -613,7 +1215,7 @@ export function QuizzesManager() {
                       <Trash2 className="w-4 h-4 text-destructive" />
                     </Button>
                     <CollapsibleTrigger asChild>
-                      <Button variant="ghost" size="sm" onClick={() => toggleExpand(quiz.id)}>
+                      <Button variant="ghost" size="sm" onClick={() => toggleExpand(quiz)}>
                         {expandedQuiz === quiz.id ? (
                           <ChevronUp className="w-4 h-4" />
                         ) : (
@@ -627,31 +1229,52 @@ export function QuizzesManager() {
               <CollapsibleContent>
                 <CardContent className="pt-4 border-t">
                   <div className="flex justify-between items-center mb-4">
-                    <h4 className="font-medium">Questions ({questions[quiz.id]?.length || 0} / {quiz.total_questions})</h4>
+                    <h4 className="font-medium">
+                      Quiz-specific Questions ({questions[quiz.id]?.length || 0})
+                      {versionById(quiz.published_version_id) && ` · v${versionById(quiz.published_version_id)!.version_number}`}
+                    </h4>
                   </div>
+                  {(drawsByQuiz[quiz.id] || []).length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {drawsByQuiz[quiz.id].map(draw => (
+                        <Badge key={draw.bank_id} variant="outline" className="flex items-center gap-1">
+                          <Library className="w-3 h-3" />
+                          {draw.draw_count} from {bankById(draw.bank_id)?.name ?? 'deleted bank'}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                   <div className="space-y-3">
                     {questions[quiz.id]?.map((q, idx) => (
                       <div key={q.id} className="p-3 bg-muted rounded-lg">
                         <div className="flex justify-between items-start">
                           <div className="flex-1">
-                            <p className="font-medium">Q{idx + 1}: {q.question}</p>
-                            <ul className="mt-2 space-y-1">
-                              {q.options.map((opt, optIdx) => (
-                                <li key={optIdx} className={`text-sm ${optIdx === q.correct_answer ? 'text-green-600 font-medium' : 'text-muted-foreground'}`}>
-                                  {optIdx === q.correct_answer ? '✓' : '○'} {opt}
-                                </li>
-                              ))}
-                            </ul>
-                            {q.hint && (
-                              <p className="mt-2 text-sm text-muted-foreground flex items-center gap-1">
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium">Q{idx + 1}: {q.question}</p>
+                              <Badge variant="outline" className="shrink-0">{QUESTION_TYPE_LABELS[q.question_type]}</Badge>
+                            </div>
+                            {q.image_url && (
+                              <QuizMediaImage src={q.image_url} className="mt-2 max-h-24 rounded border" />
+                            )}
+                            {q.question_type === 'single_choice' || q.question_type === 'true_false' ? (
+                              <ul className="mt-2 space-y-1">
+                                {parseOptions(q.options).map((opt, optIdx) => (
+                                  <li key={optIdx} className={`text-sm ${optIdx === q.correct_answer ? 'text-green-600 font-medium' : 'text-muted-foreground'}`}>
+                                    {optIdx === q.correct_answer ? '✓' : '○'} {opt}
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <p className="mt-2 text-sm text-green-600 font-medium">✓ {describeCorrectAnswer(q)}</p>
+                            )}
+                            {parseHints(q.hints).map((hint, hintIdx) => (
+                              <p key={hintIdx} className="mt-2 text-sm text-muted-foreground flex items-center gap-1">
                                 <HelpCircle className="w-3.5 h-3.5" />
-                                Hint: {q.hint}
+                                Hint {hintIdx + 1}: {hint.text}
+                                {hint.cost_percent > 0 && ` (${hint.cost_percent}%)`}
                               </p>
-                            )}
+                            ))}
                           </div>
-                          <Button variant="ghost" size="sm" onClick={() => deleteQuestion(q.id, quiz.id)}>
-                            <Trash2 className="w-4 h-4 text-destructive" />
-                          </Button>
                         </div>
                       </div>
                     ))}
@@ -0,0 +1,206 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+import { Camera, Loader2, RotateCcw, Upload, X } from 'lucide-react';
+import {
+  MAX_VIDEO_BYTES,
+  VIDEO_BUCKET,
+  VIDEO_MIME_TYPES,
+  captureFrame,
+  publicVideoUrl,
+  thumbnailPathFor,
+  uploadVideoFile,
+} from '@/lib/videoUpload';
+
+export interface UploadedVideo {
+  storage_path: string;
+  video_url: string;
+  thumbnail_url: string | null;
+}
+
+interface VideoUploadFieldProps {
+  value: UploadedVideo | null;
+  onChange: (value: UploadedVideo | null) => void;
+}
+
+// Picks an MP4/WebM file, uploads it resumably with progress, and captures a thumbnail from one of
+// its frames. The thumbnail can be re-captured from wherever the preview is paused.
+export function VideoUploadField({ value, onChange }: VideoUploadFieldProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [capturing, setCapturing] = useState(false);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const saveThumbnail = async (source: File | string, videoPath: string, seconds?: number) => {
+    const frame = await captureFrame(source, seconds);
+    const path = thumbnailPathFor(videoPath);
+
+    const { error } = await supabase.storage
+      .from(VIDEO_BUCKET)
+      .upload(path, frame, { contentType: 'image/jpeg', upsert: true });
+
+    if (error) throw error;
+    // Re-captures keep the path, so bust caches that still hold the old frame
+    return `${publicVideoUrl(path)}?v=${Date.now()}`;
+  };
+
+  const upload = async (picked: File) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setFailed(false);
+    setProgress(0);
+
+    const extension = picked.type === 'video/webm' ? 'webm' : 'mp4';
+
+    try {
+      const path = await uploadVideoFile(
+        picked,
+        `uploads/${crypto.randomUUID()}.${extension}`,
+        setProgress,
+        controller.signal,
+      );
+
+      let thumbnailUrl: string | null = null;
+      try {
+        thumbnailUrl = await saveThumbnail(picked, path);
+      } catch (error) {
+        console.error('Error capturing video thumbnail:', error);
+        toast.error('Uploaded, but no thumbnail could be captured');
+      }
+
+      onChange({ storage_path: path, video_url: publicVideoUrl(path), thumbnail_url: thumbnailUrl });
+      setProgress(null);
+    } catch (error) {
+      console.error('Error uploading video:', error);
+      if (!controller.signal.aborted) {
+        toast.error(error instanceof Error ? error.message : 'Failed to upload video');
+        setFailed(true);
+      } else {
+        setProgress(null);
+        setFile(null);
+      }
+    }
+  };
+
+  const handleFile = (picked: File) => {
+    if (!VIDEO_MIME_TYPES.includes(picked.type)) {
+      toast.error('Please choose an MP4 or WebM video');
+      return;
+    }
+    if (picked.size > MAX_VIDEO_BYTES) {
+      toast.error('Videos must be under 2 GB');
+      return;
+    }
+
+    setFile(picked);
+    upload(picked);
+  };
+
+  const captureCurrentFrame = async () => {
+    if (!value) return;
+    setCapturing(true);
+    try {
+      const thumbnailUrl = await saveThumbnail(file ?? value.video_url, value.storage_path, previewRef.current?.currentTime);
+      onChange({ ...value, thumbnail_url: thumbnailUrl });
+      toast.success('Thumbnail updated');
+    } catch (error) {
+      console.error('Error capturing video thumbnail:', error);
+      toast.error('Failed to capture thumbnail');
+    }
+    setCapturing(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={VIDEO_MIME_TYPES.join(',')}
+        className="hidden"
+        onChange={(e) => {
+          const picked = e.target.files?.[0];
+          if (picked) handleFile(picked);
+          e.target.value = '';
+        }}
+      />
+
+      {progress !== null && (
+        <div className="space-y-2 rounded-lg border border-border p-3">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate">{file?.name}</span>
+            <span className="text-muted-foreground shrink-0">{Math.floor(progress * 100)}%</span>
+          </div>
+          <Progress value={progress * 100} className="h-2" />
+          <div className="flex justify-end gap-2">
+            {failed && file && (
+              <Button type="button" variant="outline" size="sm" onClick={() => upload(file)}>
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Resume
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                abortRef.current?.abort();
+                setProgress(null);
+                setFailed(false);
+                setFile(null);
+              }}
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {value && progress === null && (
+        <div className="space-y-2">
+          <div className="rounded-lg overflow-hidden border border-border">
+            <video
+              ref={previewRef}
+              src={value.video_url}
+              poster={value.thumbnail_url ?? undefined}
+              controls
+              preload="metadata"
+              crossOrigin="anonymous"
+              className="w-full aspect-video bg-black"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={captureCurrentFrame} disabled={capturing}>
+              {capturing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Camera className="w-4 h-4 mr-1" />}
+              Use current frame as thumbnail
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => inputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-1" />
+              Replace file
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!value && progress === null && (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full h-24 border-dashed flex-col gap-1"
+          onClick={() => inputRef.current?.click()}
+        >
+          <Upload className="w-5 h-5" />
+          <span>Choose an MP4 or WebM file</span>
+          <span className="text-xs text-muted-foreground">Up to 2 GB; interrupted uploads can be resumed</span>
+        </Button>
+      )}
+    </div>
+  );
+}
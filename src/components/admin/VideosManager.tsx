@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,7 +9,8 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
-import { Loader2, Plus, Trash2, Edit, Video, Link, Zap } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Plus, Trash2, Edit, Video, Link, Zap, Upload } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -16,6 +18,19 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { PrerequisitePicker } from '@/components/admin/PrerequisitePicker';
+import { ruleFromRow, ruleToRow, validatePrerequisites, type PrerequisiteRule } from '@/lib/prerequisites';
+import { VideoUploadField, type UploadedVideo } from '@/components/admin/VideoUploadField';
+import {
+  DEFAULT_REQUIRED_WATCH_PERCENT,
+  fetchYouTubeDuration,
+  formatPlaybackTime,
+  getYouTubeThumbnail,
+  getYouTubeVideoId,
+  parsePlaybackTime,
+  type VideoSource,
+} from '@/lib/videos';
+import { VIDEO_BUCKET, readDuration, thumbnailPathFor } from '@/lib/videoUpload';
 
 interface VideoItem {
   id: string;
@@ -23,37 +38,52 @@ interface VideoItem {
   description: string | null;
   video_url: string;
   thumbnail_url: string | null;
+  source: VideoSource;
+  storage_path: string | null;
   xp_reward: number;
+  required_watch_percent: number;
+  duration_seconds: number | null;
   created_at: string;
 }
 
-// Extract YouTube video ID from various URL formats
-const getYouTubeVideoId = (url: string): string | null => {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-    /youtube\.com\/shorts\/([^&\n?#]+)/,
-  ];
-  
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match) return match[1];
-  }
-  return null;
-};
+interface VideoForm {
+  title: string;
+  description: string;
+  source: VideoSource;
+  video_url: string;
+  upload: UploadedVideo | null;
+  xp_reward: number;
+  required_watch_percent: number;
+  // As typed, e.g. "12:34"; filled in from the video when it can be read
+  length: string;
+}
 
-// Get YouTube thumbnail from video ID
-const getYouTubeThumbnail = (videoId: string): string => {
-  return `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`;
+const EMPTY_FORM: VideoForm = {
+  title: '',
+  description: '',
+  source: 'youtube',
+  video_url: '',
+  upload: null,
+  xp_reward: 5,
+  required_watch_percent: DEFAULT_REQUIRED_WATCH_PERCENT,
+  length: '',
 };
 
+// The storage objects behind an uploaded video: the file and its thumbnail
+const storageObjects = (path: string) => [path, thumbnailPathFor(path)];
+
 export function VideosManager() {
   const { user } = useAuth();
   const [videos, setVideos] = useState<VideoItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [form, setForm] = useState({ title: '', description: '', video_url: '', xp_reward: 5 });
+  const [form, setForm] = useState<VideoForm>(EMPTY_FORM);
+  // Files uploaded while the dialog is open; any not saved with the video are removed again
+  const sessionUploads = useRef<Set<string>>(new Set());
+  const [prerequisitesForm, setPrerequisitesForm] = useState<PrerequisiteRule[]>([]);
   const [saving, setSaving] = useState(false);
+  const [editingStoragePath, setEditingStoragePath] = useState<string | null>(null);
 
   const fetchVideos = async () => {
     const { data } = await supabase
@@ -69,74 +99,171 @@ export function VideosManager() {
     fetchVideos();
   }, []);
 
+  // Replaced in one go, so a rule that fails to save keeps the old ones rather than unlocking the video
+  const savePrerequisites = async (videoId: string) => {
+    const { error } = await supabase.rpc('save_content_prerequisites', {
+      _video_id: videoId,
+      _rules: prerequisitesForm.map(r => ruleToRow({ type: 'video', id: videoId }, r)) as unknown as Json,
+    });
+    return error;
+  };
+
+  // Drops uploads from this dialog session other than the one being kept
+  const discardSessionUploads = async (keep: string | null) => {
+    const discarded = [...sessionUploads.current].filter(path => path !== keep);
+    sessionUploads.current.clear();
+    if (discarded.length > 0) {
+      await supabase.storage.from(VIDEO_BUCKET).remove(discarded.flatMap(storageObjects));
+    }
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingId(null);
+    setEditingStoragePath(null);
+    setForm(EMPTY_FORM);
+    setPrerequisitesForm([]);
+  };
+
+  const cancelDialog = () => {
+    discardSessionUploads(null);
+    closeDialog();
+  };
+
+  const handleUploadChange = (upload: UploadedVideo | null) => {
+    if (upload) sessionUploads.current.add(upload.storage_path);
+    setForm(prev => ({ ...prev, upload }));
+
+    if (upload) {
+      readDuration(upload.video_url)
+        .then(seconds => setForm(prev => (prev.upload === upload ? { ...prev, length: formatPlaybackTime(Math.round(seconds)) } : prev)))
+        .catch(error => console.error('Error reading video length:', error));
+    }
+  };
+
+  const youTubeId = form.source === 'youtube' ? getYouTubeVideoId(form.video_url) : null;
+
+  // Watch progress is measured against the stored length, so read it from YouTube when possible
+  useEffect(() => {
+    if (!youTubeId) return;
+    let cancelled = false;
+
+    fetchYouTubeDuration(youTubeId)
+      .then(seconds => {
+        if (!cancelled && seconds) setForm(prev => ({ ...prev, length: formatPlaybackTime(Math.round(seconds)) }));
+      })
+      .catch(error => console.error('Error reading video length:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [youTubeId]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!form.title.trim() || !form.video_url.trim()) {
-      toast.error('Please fill in title and video URL');
+    if (!form.title.trim()) {
+      toast.error('Please fill in the title');
+      return;
+    }
+
+    let source: Pick<VideoItem, 'source' | 'video_url' | 'thumbnail_url' | 'storage_path'>;
+
+    if (form.source === 'youtube') {
+      const videoId = getYouTubeVideoId(form.video_url);
+      if (!videoId) {
+        toast.error('Please enter a valid YouTube URL');
+        return;
+      }
+      source = { source: 'youtube', video_url: form.video_url, thumbnail_url: getYouTubeThumbnail(videoId), storage_path: null };
+    } else {
+      if (!form.upload) {
+        toast.error('Please upload a video file');
+        return;
+      }
+      source = { source: 'upload', ...form.upload };
+    }
+
+    const durationSeconds = parsePlaybackTime(form.length);
+    if (!durationSeconds) {
+      toast.error('Please enter the video length, e.g. 12:34');
       return;
     }
 
-    const videoId = getYouTubeVideoId(form.video_url);
-    if (!videoId) {
-      toast.error('Please enter a valid YouTube URL');
+    const prerequisiteError = validatePrerequisites(prerequisitesForm);
+    if (prerequisiteError) {
+      toast.error(prerequisiteError);
       return;
     }
 
     setSaving(true);
-    const thumbnailUrl = getYouTubeThumbnail(videoId);
+
+    const details = {
+      title: form.title,
+      description: form.description || null,
+      ...source,
+      xp_reward: form.xp_reward,
+      required_watch_percent: form.required_watch_percent,
+      duration_seconds: durationSeconds,
+    };
 
     if (editingId) {
       const { error } = await supabase
         .from('videos')
-        .update({ 
-          title: form.title, 
-          description: form.description || null,
-          video_url: form.video_url,
-          thumbnail_url: thumbnailUrl,
-          xp_reward: form.xp_reward,
-        })
+        .update(details)
         .eq('id', editingId);
 
-      if (error) {
+      if (error || await savePrerequisites(editingId)) {
         toast.error('Failed to update video');
       } else {
+        // The file this video used to play, if it no longer does
+        if (editingStoragePath && editingStoragePath !== source.storage_path) {
+          sessionUploads.current.add(editingStoragePath);
+        }
+        await discardSessionUploads(source.storage_path);
         toast.success('Video updated');
-        setDialogOpen(false);
-        setEditingId(null);
-        setForm({ title: '', description: '', video_url: '', xp_reward: 5 });
+        closeDialog();
         fetchVideos();
       }
     } else {
-      const { error } = await supabase
+      const { data: video, error } = await supabase
         .from('videos')
-        .insert({ 
-          title: form.title, 
-          description: form.description || null,
-          video_url: form.video_url,
-          thumbnail_url: thumbnailUrl,
-          xp_reward: form.xp_reward,
-          created_by: user?.id,
-        });
-
-      if (error) {
+        .insert({ ...details, created_by: user?.id })
+        .select('id')
+        .single();
+
+      if (error || await savePrerequisites(video.id)) {
         toast.error('Failed to add video');
       } else {
+        await discardSessionUploads(source.storage_path);
         toast.success('Video added');
-        setDialogOpen(false);
-        setForm({ title: '', description: '', video_url: '', xp_reward: 5 });
+        closeDialog();
         fetchVideos();
       }
     }
     setSaving(false);
   };
 
-  const handleEdit = (video: VideoItem) => {
+  const handleEdit = async (video: VideoItem) => {
+    const { data: prerequisites } = await supabase
+      .from('content_prerequisites')
+      .select('quiz_id, video_id, required_quiz_id, required_video_id, min_score_percent')
+      .eq('video_id', video.id)
+      .order('created_at');
+
     setEditingId(video.id);
+    setEditingStoragePath(video.storage_path);
+    setPrerequisitesForm((prerequisites || []).map(ruleFromRow));
     setForm({ 
       title: video.title, 
       description: video.description || '',
-      video_url: video.video_url,
+      source: video.source,
+      video_url: video.source === 'youtube' ? video.video_url : '',
+      upload: video.source === 'upload' && video.storage_path
+        ? { storage_path: video.storage_path, video_url: video.video_url, thumbnail_url: video.thumbnail_url }
+        : null,
       xp_reward: video.xp_reward,
+      required_watch_percent: video.required_watch_percent,
+      length: video.duration_seconds ? formatPlaybackTime(Math.round(video.duration_seconds)) : '',
     });
     setDialogOpen(true);
   };
@@ -146,12 +273,16 @@ export function VideosManager() {
     if (error) {
       toast.error('Failed to delete video');
     } else {
+      if (video.storage_path) {
+        await supabase.storage.from(VIDEO_BUCKET).remove(storageObjects(video.storage_path));
+      }
       toast.success('Video deleted');
       fetchVideos();
     }
   };
 
   const videoId = getYouTubeVideoId(form.video_url);
+  const hasSource = form.source === 'youtube' ? !!videoId : !!form.upload;
 
   if (loading) {
     return (
@@ -165,20 +296,14 @@ export function VideosManager() {
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <h3 className="text-lg font-medium">{videos.length} Videos</h3>
-        <Dialog open={dialogOpen} onOpenChange={(open) => {
-          setDialogOpen(open);
-          if (!open) {
-            setEditingId(null);
-            setForm({ title: '', description: '', video_url: '', xp_reward: 5 });
-          }
-        }}>
+        <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : cancelDialog())}>
           <DialogTrigger asChild>
             <Button>
               <Plus className="w-4 h-4 mr-2" />
               Add Video
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-lg">
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{editingId ? 'Edit Video' : 'Add Video'}</DialogTitle>
             </DialogHeader>
@@ -202,32 +327,48 @@ export function VideosManager() {
                   rows={3}
                 />
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="video_url">YouTube URL</Label>
-                <div className="relative">
-                  <Link className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                  <Input
-                    id="video_url"
-                    value={form.video_url}
-                    onChange={(e) => setForm({ ...form, video_url: e.target.value })}
-                    placeholder="https://www.youtube.com/watch?v=..."
-                    className="pl-10"
-                  />
-                </div>
-                <p className="text-xs text-muted-foreground">
-                  Paste a YouTube video link (regular, shorts, or embed URL)
-                </p>
-                {videoId && (
-                  <div className="mt-3 rounded-lg overflow-hidden border border-border">
-                    <iframe
-                      src={`https://www.youtube.com/embed/${videoId}`}
-                      className="w-full aspect-video"
-                      allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                      allowFullScreen
+              <Tabs value={form.source} onValueChange={(value) => setForm({ ...form, source: value as VideoSource })}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="youtube" className="flex items-center gap-2">
+                    <Link className="w-4 h-4" />
+                    YouTube link
+                  </TabsTrigger>
+                  <TabsTrigger value="upload" className="flex items-center gap-2">
+                    <Upload className="w-4 h-4" />
+                    Upload file
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {form.source === 'upload' ? (
+                <VideoUploadField value={form.upload} onChange={handleUploadChange} />
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="video_url">YouTube URL</Label>
+                  <div className="relative">
+                    <Link className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="video_url"
+                      value={form.video_url}
+                      onChange={(e) => setForm({ ...form, video_url: e.target.value })}
+                      placeholder="https://www.youtube.com/watch?v=..."
+                      className="pl-10"
                     />
                   </div>
-                )}
-              </div>
+                  <p className="text-xs text-muted-foreground">
+                    Paste a YouTube video link (regular, shorts, or embed URL)
+                  </p>
+                  {videoId && (
+                    <div className="mt-3 rounded-lg overflow-hidden border border-border">
+                      <iframe
+                        src={`https://www.youtube.com/embed/${videoId}`}
+                        className="w-full aspect-video"
+                        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                        allowFullScreen
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="xp_reward" className="flex items-center gap-2">
                   <Zap className="w-4 h-4 text-yellow-500" />
@@ -242,14 +383,45 @@ export function VideosManager() {
                   onChange={(e) => setForm({ ...form, xp_reward: parseInt(e.target.value) || 0 })}
                 />
                 <p className="text-xs text-muted-foreground">
-                  XP earned when student marks video as watched
+                  XP earned once the student has watched enough of the video
                 </p>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="length">Length</Label>
+                <Input
+                  id="length"
+                  value={form.length}
+                  onChange={(e) => setForm({ ...form, length: e.target.value })}
+                  placeholder="12:34"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Read from the video when possible. Watch progress is measured against this length.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="required_watch_percent">Required watch percentage</Label>
+                <Input
+                  id="required_watch_percent"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={form.required_watch_percent}
+                  onChange={(e) => setForm({ ...form, required_watch_percent: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Share of the video that has to be played, without skipping ahead, before it counts as watched
+                </p>
+              </div>
+              <PrerequisitePicker
+                content={{ type: 'video', id: editingId }}
+                value={prerequisitesForm}
+                onChange={setPrerequisitesForm}
+              />
               <div className="flex justify-end gap-2">
-                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                <Button type="button" variant="outline" onClick={cancelDialog}>
                   Cancel
                 </Button>
-                <Button type="submit" disabled={saving || !videoId}>
+                <Button type="submit" disabled={saving || !hasSource}>
                   {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                   {editingId ? 'Update' : 'Add Video'}
                 </Button>
@@ -265,7 +437,15 @@ export function VideosManager() {
           return (
             <Card key={video.id}>
               <CardHeader className="p-0">
-                {vId ? (
+                {video.source === 'upload' ? (
+                  <video
+                    src={video.video_url}
+                    poster={video.thumbnail_url ?? undefined}
+                    controls
+                    preload="none"
+                    className="w-full aspect-video rounded-t-lg bg-black"
+                  />
+                ) : vId ? (
                   <iframe
                     src={`https://www.youtube.com/embed/${vId}`}
                     className="w-full aspect-video rounded-t-lg"
@@ -293,7 +473,11 @@ export function VideosManager() {
                     )}
                     <p className="text-xs text-muted-foreground mt-1">
                       {new Date(video.created_at).toLocaleDateString()}
+                      {video.duration_seconds ? ` · ${formatPlaybackTime(video.duration_seconds)}` : ''}
                     </p>
+                    {!video.duration_seconds && (
+                      <Badge variant="destructive" className="mt-2">Length not set: progress isn't tracked</Badge>
+                    )}
                   </div>
                   <div className="flex gap-1 ml-2">
                     <Button variant="ghost" size="sm" onClick={() => handleEdit(video)}>
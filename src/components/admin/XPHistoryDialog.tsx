@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, ArrowUpCircle, ArrowDownCircle, Trophy, Video, UserCog, RotateCcw } from 'lucide-react';
+import { Loader2, ArrowUpCircle, ArrowDownCircle, Trophy, Video, UserCog, RotateCcw, Radio, GraduationCap, ClipboardCheck, FileText } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -63,6 +63,14 @@ export function XPHistoryDialog({ open, onOpenChange, profile }: XPHistoryDialog
         return <Trophy className="w-4 h-4 text-yellow-500" />;
       case 'video_watched':
         return <Video className="w-4 h-4 text-blue-500" />;
+      case 'live_session':
+        return <Radio className="w-4 h-4 text-pink-500" />;
+      case 'course_completion':
+        return <GraduationCap className="w-4 h-4 text-primary" />;
+      case 'lesson_completed':
+        return <FileText className="w-4 h-4 text-indigo-500" />;
+      case 'assignment_graded':
+        return <ClipboardCheck className="w-4 h-4 text-teal-500" />;
       case 'admin_adjustment':
         return amount > 0 
           ? <ArrowUpCircle className="w-4 h-4 text-green-500" />
@@ -84,6 +92,14 @@ export function XPHistoryDialog({ open, onOpenChange, profile }: XPHistoryDialog
         return 'Quiz Completed';
       case 'video_watched':
         return 'Video Watched';
+      case 'live_session':
+        return 'Live Quiz';
+      case 'course_completion':
+        return 'Course Completed';
+      case 'lesson_completed':
+        return 'Lesson Completed';
+      case 'assignment_graded':
+        return 'Assignment Graded';
       case 'admin_adjustment':
         return 'Admin Adjustment';
       case 'admin_revert':
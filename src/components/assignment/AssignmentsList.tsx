@@ -0,0 +1,323 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { CalendarClock, CheckCircle2, ClipboardCheck, Clock, FileIcon, Loader2, Paperclip, Upload, X, Zap } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  MAX_SUBMISSION_FILES,
+  MAX_SUBMISSION_FILE_BYTES,
+  daysLate,
+  formatFileSize,
+  lateRules,
+  latePenalty,
+  rubricTotal,
+  submitBlocker,
+  type Assignment,
+  type Submission,
+} from '@/lib/assignments';
+
+interface AssignmentsListProps {
+  assignments: Assignment[];
+  submissions: Submission[];
+  onSubmit: (assignmentId: string, writeUp: string, files: File[], onProgress?: (uploaded: number) => void) => Promise<boolean>;
+  fileUrls: (paths: string[]) => Promise<Record<string, string>>;
+}
+
+const dueLabel = (assignment: Assignment) => {
+  if (!assignment.due_at) return 'No due date';
+  const due = new Date(assignment.due_at);
+  return due > new Date()
+    ? `Due ${format(due, 'MMM d, h:mm a')} (${formatDistanceToNow(due, { addSuffix: true })})`
+    : `Was due ${format(due, 'MMM d, h:mm a')}`;
+};
+
+function SubmissionResult({ assignment, submission, urls }: { assignment: Assignment; submission: Submission; urls: Record<string, string> }) {
+  return (
+    <div className="rounded-md border border-border/50 p-3 space-y-3">
+      <div className="flex items-center gap-2 flex-wrap text-sm">
+        <span className="font-medium">Attempt {submission.attempt_number}</span>
+        <span className="text-muted-foreground">{format(new Date(submission.submitted_at), 'MMM d, yyyy h:mm a')}</span>
+        {submission.days_late > 0 && (
+          <Badge variant="outline" className="text-orange-600 border-orange-500/30">
+            {submission.days_late}d late
+            {latePenalty(assignment, submission.days_late) > 0 && ` (−${latePenalty(assignment, submission.days_late)}%)`}
+          </Badge>
+        )}
+        {submission.status === 'graded' ? (
+          <Badge className="bg-green-500 text-white">
+            <CheckCircle2 className="w-3 h-3 mr-1" />
+            {submission.score_percent}%
+          </Badge>
+        ) : (
+          <Badge variant="secondary">
+            <Clock className="w-3 h-3 mr-1" />
+            Waiting for grading
+          </Badge>
+        )}
+        {submission.xp_awarded > 0 && (
+          <Badge variant="outline" className="bg-yellow-500/10 text-yellow-600 border-yellow-500/20">
+            <Zap className="w-3 h-3 mr-1" />
+            +{submission.xp_awarded}
+          </Badge>
+        )}
+      </div>
+
+      {submission.files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {submission.files.map((file) => (
+            <a
+              key={file.path}
+              href={urls[file.path]}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1 text-xs rounded bg-muted px-2 py-1 hover:underline"
+            >
+              <FileIcon className="w-3 h-3" />
+              {file.name}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {submission.status === 'graded' && (
+        <>
+          <ul className="space-y-1 text-sm">
+            {assignment.rubric.map((criterion) => {
+              const score = submission.scores?.find(s => s.criterion_id === criterion.id);
+              return (
+                <li key={criterion.id}>
+                  <div className="flex justify-between gap-2">
+                    <span>{criterion.title}</span>
+                    <span className="text-muted-foreground shrink-0">{score?.points ?? 0}/{criterion.points}</span>
+                  </div>
+                  {score?.comment && <p className="text-xs text-muted-foreground">{score.comment}</p>}
+                </li>
+              );
+            })}
+          </ul>
+          {submission.feedback && (
+            <p className="text-sm rounded-md bg-muted/50 p-3 whitespace-pre-wrap">{submission.feedback}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Published assignments with the student's submissions and grades, and the form to hand work in
+export function AssignmentsList({ assignments, submissions, onSubmit, fileUrls }: AssignmentsListProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [submitting, setSubmitting] = useState<Assignment | null>(null);
+  const [writeUp, setWriteUp] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [uploaded, setUploaded] = useState<number | null>(null);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fileUrls(submissions.flatMap(s => s.files.map(f => f.path))).then(setUrls);
+  }, [submissions, fileUrls]);
+
+  const openSubmit = (assignment: Assignment) => {
+    setSubmitting(assignment);
+    setWriteUp('');
+    setFiles([]);
+    setUploaded(null);
+  };
+
+  const addFiles = (chosen: File[]) => {
+    const tooBig = chosen.filter(f => f.size > MAX_SUBMISSION_FILE_BYTES);
+    if (tooBig.length > 0) {
+      toast.error(`Files must be under ${formatFileSize(MAX_SUBMISSION_FILE_BYTES)}: ${tooBig.map(f => f.name).join(', ')}`);
+    }
+    const next = [...files, ...chosen.filter(f => f.size <= MAX_SUBMISSION_FILE_BYTES)];
+    if (next.length > MAX_SUBMISSION_FILES) {
+      toast.error(`You can attach up to ${MAX_SUBMISSION_FILES} files`);
+    }
+    setFiles(next.slice(0, MAX_SUBMISSION_FILES));
+  };
+
+  const handleSubmit = async () => {
+    if (!submitting) return;
+    if (!writeUp.trim() && files.length === 0) {
+      toast.error('Add a write-up or at least one file');
+      return;
+    }
+
+    setUploaded(0);
+    const ok = await onSubmit(submitting.id, writeUp.trim(), files, setUploaded);
+    setUploaded(null);
+    if (ok) setSubmitting(null);
+  };
+
+  if (assignments.length === 0) {
+    return (
+      <Card className="border-border/50">
+        <CardContent className="py-12 text-center text-muted-foreground">
+          <ClipboardCheck className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>No assignments right now. Check back later!</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const submittingDaysLate = submitting ? daysLate(submitting.due_at) : 0;
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      {assignments.map((assignment) => {
+        const mine = submissions.filter(s => s.assignment_id === assignment.id);
+        const blocker = submitBlocker(assignment, mine);
+        const overdue = daysLate(assignment.due_at) > 0;
+
+        return (
+          <Card key={assignment.id} className="border-border/50">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-start justify-between gap-2">
+                <span>{assignment.title}</span>
+                {assignment.xp_reward > 0 && (
+                  <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20 shrink-0">
+                    <Zap className="w-3 h-3" />
+                    up to +{assignment.xp_reward}
+                  </Badge>
+                )}
+              </CardTitle>
+              <p className={`text-sm flex items-center gap-1 ${overdue ? 'text-orange-600' : 'text-muted-foreground'}`}>
+                <CalendarClock className="w-4 h-4" />
+                {dueLabel(assignment)}
+                {assignment.due_at && <span className="text-muted-foreground"> · {lateRules(assignment)}</span>}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {assignment.description && <p className="text-sm whitespace-pre-wrap">{assignment.description}</p>}
+
+              <div>
+                <p className="text-sm font-medium mb-1">Rubric · {rubricTotal(assignment.rubric)} points</p>
+                <ul className="text-sm space-y-1">
+                  {assignment.rubric.map((criterion) => (
+                    <li key={criterion.id} className="flex justify-between gap-2">
+                      <span>
+                        {criterion.title}
+                        {criterion.description && <span className="text-muted-foreground"> · {criterion.description}</span>}
+                      </span>
+                      <span className="text-muted-foreground shrink-0">{criterion.points} pts</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {mine.length > 0 && (
+                <div className="space-y-2">
+                  {[...mine].reverse().map((submission) => (
+                    <SubmissionResult key={submission.id} assignment={assignment} submission={submission} urls={urls} />
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-3">
+                <Button onClick={() => openSubmit(assignment)} disabled={!!blocker}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  {mine.length > 0 ? 'Resubmit' : 'Submit'}
+                </Button>
+                <span className="text-xs text-muted-foreground">
+                  {blocker ?? (assignment.max_submissions > 1
+                    ? `${assignment.max_submissions - mine.length} of ${assignment.max_submissions} submissions left`
+                    : 'One submission only')}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Dialog open={!!submitting} onOpenChange={(open) => !open && uploaded === null && setSubmitting(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Submit: {submitting?.title}</DialogTitle>
+            <DialogDescription>
+              Attach your code, photos or a short video, and describe what you built.
+              {submittingDaysLate > 0 && submitting && latePenalty(submitting, submittingDaysLate) > 0 &&
+                ` This is ${submittingDaysLate} day${submittingDaysLate === 1 ? '' : 's'} late, so ${latePenalty(submitting, submittingDaysLate)}% will come off your grade.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="write_up">Write-up</Label>
+              <Textarea
+                id="write_up"
+                value={writeUp}
+                onChange={(e) => setWriteUp(e.target.value)}
+                placeholder="How it works, what went wrong, what you'd improve..."
+                rows={6}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Files</Label>
+              <input
+                ref={inputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(Array.from(e.target.files ?? []));
+                  e.target.value = '';
+                }}
+              />
+              {files.map((file, index) => (
+                <div key={`${file.name}-${index}`} className="flex items-center gap-2 text-sm rounded-md border px-2 py-1">
+                  <FileIcon className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  <span className="truncate flex-1">{file.name}</span>
+                  <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                    disabled={uploaded !== null}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => inputRef.current?.click()}
+                disabled={uploaded !== null || files.length >= MAX_SUBMISSION_FILES}
+              >
+                <Paperclip className="w-4 h-4 mr-1" />
+                Attach Files
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Up to {MAX_SUBMISSION_FILES} files, {formatFileSize(MAX_SUBMISSION_FILE_BYTES)} each
+              </p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSubmitting(null)} disabled={uploaded !== null}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={uploaded !== null}>
+                {uploaded !== null && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {uploaded !== null && files.length > 0 && uploaded < files.length
+                  ? `Uploading ${uploaded + 1} of ${files.length}`
+                  : 'Submit'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
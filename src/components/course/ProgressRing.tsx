@@ -0,0 +1,47 @@
+import { cn } from '@/lib/utils';
+
+interface ProgressRingProps {
+  percent: number;
+  size?: number;
+  strokeWidth?: number;
+  className?: string;
+}
+
+// A circular progress indicator with the percentage in the middle
+export function ProgressRing({ percent, size = 64, strokeWidth = 6, className }: ProgressRingProps) {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.min(100, Math.max(0, percent));
+
+  return (
+    <div className={cn('relative shrink-0', className)} style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          className="stroke-muted"
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - clamped / 100)}
+          className={cn('transition-[stroke-dashoffset] duration-500', clamped === 100 ? 'stroke-green-500' : 'stroke-primary')}
+        />
+      </svg>
+      <span
+        className="absolute inset-0 flex items-center justify-center font-semibold"
+        style={{ fontSize: size / 4.5 }}
+      >
+        {clamped}%
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, CheckCircle2, Clock, ListTree, Zap } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Markdown } from '@/components/lesson/Markdown';
+import { parseMarkdown, readingMinutes, tableOfContents } from '@/lib/markdown';
+import type { Lesson } from '@/lib/lessons';
+
+interface LessonReaderProps {
+  lesson: Lesson;
+  isCompleted: boolean;
+  onComplete: () => void;
+  onBack: () => void;
+}
+
+// A lesson laid out for reading, with a table of contents that follows the section on screen
+export function LessonReader({ lesson, isCompleted, onComplete, onBack }: LessonReaderProps) {
+  const blocks = useMemo(() => parseMarkdown(lesson.body), [lesson.body]);
+  const toc = useMemo(() => tableOfContents(blocks), [blocks]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (toc.length === 0) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const visible = entries.filter(e => e.isIntersecting).sort((a, b) => a.boundingClientRect.top - b.boundingClientRect.top);
+        if (visible.length > 0) setActiveId(visible[0].target.id);
+      },
+      // Only the top part of the viewport, below the sticky header, counts as "reading"
+      { rootMargin: '-80px 0px -60% 0px' },
+    );
+
+    toc.forEach(entry => {
+      const heading = document.getElementById(entry.id);
+      if (heading) observer.observe(heading);
+    });
+    return () => observer.disconnect();
+  }, [toc]);
+
+  const jumpTo = (id: string) => {
+    document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setActiveId(id);
+  };
+
+  const minLevel = Math.min(...toc.map(entry => entry.level));
+
+  return (
+    <div className="space-y-4">
+      <Button variant="ghost" size="sm" onClick={onBack}>
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        All lessons
+      </Button>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_220px]">
+        <Card className="border-border/50">
+          <CardContent className="p-6 md:p-8">
+            <h1 className="text-3xl font-display font-bold mb-2">{lesson.title}</h1>
+            <div className="flex items-center gap-2 flex-wrap text-sm text-muted-foreground mb-6">
+              <span className="flex items-center gap-1">
+                <Clock className="w-4 h-4" />
+                {readingMinutes(lesson.body)} min read
+              </span>
+              {lesson.xp_reward > 0 && (
+                <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20">
+                  <Zap className="w-3 h-3" />
+                  +{lesson.xp_reward}
+                </Badge>
+              )}
+              {isCompleted && (
+                <Badge className="bg-green-500 text-white">
+                  <CheckCircle2 className="w-3 h-3 mr-1" />
+                  Completed
+                </Badge>
+              )}
+            </div>
+
+            {toc.length > 0 && (
+              <details className="lg:hidden mb-6 rounded-md border p-3">
+                <summary className="text-sm font-medium cursor-pointer">Contents</summary>
+                <ul className="mt-2 space-y-1">
+                  {toc.map(entry => (
+                    <li key={entry.id} style={{ paddingLeft: `${(entry.level - minLevel) * 0.75}rem` }}>
+                      <button type="button" onClick={() => jumpTo(entry.id)} className="text-sm text-muted-foreground hover:text-foreground text-left">
+                        {entry.text}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            <Markdown blocks={blocks} />
+
+            <div className="border-t mt-8 pt-6 flex justify-end">
+              {isCompleted ? (
+                <span className="flex items-center gap-2 text-sm text-green-600">
+                  <CheckCircle2 className="w-4 h-4" />
+                  You've completed this lesson
+                </span>
+              ) : (
+                <Button onClick={onComplete}>
+                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                  Mark as complete
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {toc.length > 0 && (
+          <nav className="hidden lg:block">
+            <div className="sticky top-24 space-y-2">
+              <p className="text-sm font-medium flex items-center gap-2">
+                <ListTree className="w-4 h-4" />
+                On this page
+              </p>
+              <ul className="space-y-1 border-l">
+                {toc.map(entry => (
+                  <li key={entry.id}>
+                    <button
+                      type="button"
+                      onClick={() => jumpTo(entry.id)}
+                      className={cn(
+                        '-ml-px border-l-2 py-0.5 pr-2 text-left text-sm transition-colors w-full',
+                        activeId === entry.id
+                          ? 'border-primary text-primary font-medium'
+                          : 'border-transparent text-muted-foreground hover:text-foreground',
+                      )}
+                      style={{ paddingLeft: `${0.75 + (entry.level - minLevel) * 0.75}rem` }}
+                    >
+                      {entry.text}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </nav>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useMemo, type ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+import { CodeBlock } from '@/components/quiz/QuizText';
+import { parseMarkdown, type InlineNode, type MarkdownBlock } from '@/lib/markdown';
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-display font-bold mt-8 mb-3',
+  2: 'text-xl font-display font-semibold mt-8 mb-3',
+  3: 'text-lg font-semibold mt-6 mb-2',
+  4: 'text-base font-semibold mt-4 mb-2',
+  5: 'text-sm font-semibold mt-4 mb-1',
+  6: 'text-sm font-semibold text-muted-foreground mt-4 mb-1',
+};
+
+const renderInline = (nodes: InlineNode[]): ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return <code key={i} className="rounded bg-muted px-1.5 py-0.5 font-mono text-[0.9em]">{node.text}</code>;
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={i}>{renderInline(node.children)}</del>;
+      case 'link': {
+        const external = /^https?:/i.test(node.href);
+        return (
+          <a
+            key={i}
+            href={node.href}
+            className="text-primary underline underline-offset-2 hover:no-underline"
+            {...(external ? { target: '_blank', rel: 'noreferrer' } : {})}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      }
+      case 'image':
+        return (
+          <img
+            key={i}
+            src={node.src}
+            alt={node.alt}
+            title={node.title ?? undefined}
+            loading="lazy"
+            className="inline-block max-w-full rounded-md border my-2"
+          />
+        );
+      case 'break':
+        return <br key={i} />;
+    }
+  });
+
+// A list item holding a single paragraph is shown without the paragraph's spacing
+const renderItem = (blocks: MarkdownBlock[]) =>
+  blocks.length > 0 && blocks[0].type === 'paragraph'
+    ? <>{renderInline(blocks[0].children)}{renderBlocks(blocks.slice(1))}</>
+    : renderBlocks(blocks);
+
+const renderBlocks = (blocks: MarkdownBlock[]): ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return (
+          <Tag key={i} id={block.id} className={cn('scroll-mt-24 first:mt-0', HEADING_CLASSES[block.level])}>
+            {renderInline(block.children)}
+          </Tag>
+        );
+      }
+      case 'paragraph':
+        return <p key={i} className="leading-7 my-3">{renderInline(block.children)}</p>;
+      case 'code':
+        return <CodeBlock key={i} code={block.code} language={block.language} className="my-4" />;
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j} className="pl-1">{renderItem(item)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-6 my-3 space-y-1">{items}</ol>
+          : <ul key={i} className="list-disc pl-6 my-3 space-y-1">{items}</ul>;
+      }
+      case 'quote':
+        return (
+          <blockquote key={i} className="border-l-4 border-primary/40 pl-4 my-4 text-muted-foreground italic">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'table':
+        return (
+          <div key={i} className="my-4 overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, c) => (
+                    <th key={c} className="border px-3 py-2 bg-muted/50 font-semibold" style={{ textAlign: block.align[c] ?? 'left' }}>
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, c) => (
+                      <td key={c} className="border px-3 py-2" style={{ textAlign: block.align[c] ?? undefined }}>
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={i} className="my-6 border-border" />;
+    }
+  });
+
+interface MarkdownProps {
+  source?: string;
+  // Already parsed, when the caller also needs the blocks (e.g. for a table of contents)
+  blocks?: MarkdownBlock[];
+  className?: string;
+}
+
+export function Markdown({ source = '', blocks, className }: MarkdownProps) {
+  const parsed = useMemo(() => blocks ?? parseMarkdown(source), [blocks, source]);
+
+  return <div className={cn('min-w-0 break-words', className)}>{renderBlocks(parsed)}</div>;
+}
@@ -0,0 +1,56 @@
+import { CheckCircle2 } from 'lucide-react';
+import type { LiveQuestion } from '@/hooks/useLiveSession';
+import { QuizText } from '@/components/quiz/QuizText';
+
+type RevealedQuestion = Pick<LiveQuestion, 'question_type' | 'options' | 'correct' | 'tolerance_percent'>;
+
+// The revealed answer to a live question (or a practice card), in the option order it was shown in
+export function LiveCorrectAnswer({ question }: { question: RevealedQuestion }) {
+  const correct = question.correct ?? null;
+
+  if (question.question_type === 'numeric') {
+    return (
+      <div className="rounded-lg border border-green-500/40 bg-green-500/5 p-4 text-center">
+        <p className="text-sm text-muted-foreground">Correct answer</p>
+        <p className="text-2xl font-bold text-green-600">
+          {String(correct)}
+          {question.tolerance_percent ? ` (±${question.tolerance_percent}%)` : ''}
+        </p>
+      </div>
+    );
+  }
+
+  if (question.question_type === 'ordering') {
+    const steps = Array.isArray(correct) ? (correct as string[]) : [];
+    return (
+      <div className="space-y-2">
+        {steps.map((step, idx) => (
+          <div key={idx} className="rounded-md border border-green-500/40 bg-green-500/5 px-4 py-2">
+            {idx + 1}. {step}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const correctIndices = Array.isArray(correct)
+    ? (correct as number[])
+    : typeof correct === 'number' ? [correct] : [];
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {question.options.map((option, idx) => {
+        const isCorrect = correctIndices.includes(idx);
+        return (
+          <div
+            key={idx}
+            className={`flex items-center gap-3 rounded-md border px-4 py-3 ${isCorrect ? 'border-green-500/40 bg-green-500/10 font-medium' : 'opacity-50'}`}
+          >
+            {isCorrect ? <CheckCircle2 className="w-5 h-5 text-green-600 shrink-0" /> : <span className="w-5 h-5 shrink-0" />}
+            <QuizText text={option} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
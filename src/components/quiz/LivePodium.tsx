@@ -0,0 +1,53 @@
+import { Trophy, Medal } from 'lucide-react';
+import type { LivePlayer } from '@/hooks/useLiveSession';
+
+interface LivePodiumProps {
+  // Already ranked, best first
+  players: LivePlayer[];
+  // Points each player gained on the question just revealed, when known
+  pointsGained?: Record<string, number>;
+  highlightUserId?: string;
+  limit?: number;
+}
+
+const PLACE_STYLES = [
+  'bg-yellow-500/15 border-yellow-500/40 text-yellow-600',
+  'bg-slate-400/15 border-slate-400/40 text-slate-500',
+  'bg-orange-500/15 border-orange-500/40 text-orange-600',
+];
+
+export function LivePodium({ players, pointsGained, highlightUserId, limit = 5 }: LivePodiumProps) {
+  if (players.length === 0) {
+    return <p className="text-center text-muted-foreground py-4">No players yet</p>;
+  }
+
+  const shown = players.slice(0, limit);
+  const highlightedRank = highlightUserId ? players.findIndex(p => p.user_id === highlightUserId) : -1;
+
+  return (
+    <div className="space-y-2">
+      {shown.map((player, idx) => (
+        <div
+          key={player.id}
+          className={`flex items-center gap-3 rounded-lg border px-4 py-3 ${PLACE_STYLES[idx] ?? ''} ${player.user_id === highlightUserId ? 'ring-2 ring-primary' : ''}`}
+        >
+          <span className="w-6 text-center font-bold">
+            {idx === 0 ? <Trophy className="w-5 h-5" /> : idx < 3 ? <Medal className="w-5 h-5" /> : idx + 1}
+          </span>
+          <span className="flex-1 font-medium text-foreground truncate">{player.display_name}</span>
+          {pointsGained?.[player.user_id] ? (
+            <span className="text-sm text-green-600">+{pointsGained[player.user_id]}</span>
+          ) : null}
+          <span className="font-mono font-bold text-foreground">{player.score}</span>
+        </div>
+      ))}
+      {highlightedRank >= limit && (
+        <div className="flex items-center gap-3 rounded-lg border px-4 py-3 ring-2 ring-primary">
+          <span className="w-6 text-center font-bold">{highlightedRank + 1}</span>
+          <span className="flex-1 font-medium truncate">{players[highlightedRank].display_name}</span>
+          <span className="font-mono font-bold">{players[highlightedRank].score}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { QuestionRenderer } from '@/components/quiz/QuestionRenderer';
+import { ZoomableImage } from '@/components/quiz/ZoomableImage';
+import { QuizText } from '@/components/quiz/QuizText';
+import { LiveCorrectAnswer } from '@/components/quiz/LiveCorrectAnswer';
+import {
+  functionErrorMessage,
+  isResponseComplete,
+  type QuestionResponse,
+  type QuestionType,
+} from '@/lib/quiz';
+import { practiceDueBefore } from '@/lib/practice';
+import { Loader2, ArrowRight, BookOpen, CheckCircle2, XCircle, MinusCircle, Layers } from 'lucide-react';
+
+interface PracticeQuestion {
+  id: string;
+  question_type: QuestionType;
+  question: string;
+  image_url: string | null;
+  options: string[];
+  option_images: (string | null)[];
+}
+
+interface DealtCard {
+  card_id: string;
+  quiz_title: string;
+  repetitions: number;
+  lapses: number;
+  question: PracticeQuestion;
+}
+
+interface ReviewResult {
+  is_correct: boolean;
+  credit: number;
+  correct: QuestionResponse;
+  tolerance_percent: number | null;
+  explanation: string | null;
+  interval_days: number;
+  due_at: string;
+}
+
+interface PracticeSessionProps {
+  onClose: () => void;
+}
+
+const initialResponse = (question: PracticeQuestion): QuestionResponse =>
+  question.question_type === 'ordering' ? [...question.options] : null;
+
+const nextReviewLabel = (days: number) => (days === 1 ? 'tomorrow' : `in ${days} days`);
+
+// Today's review of the student's practice deck, one card at a time. Each answer is graded
+// right away and the card rescheduled: sooner if it was missed, further out if it was known.
+export function PracticeSession({ onClose }: PracticeSessionProps) {
+  const [cards, setCards] = useState<DealtCard[] | null>(null);
+  const [dueCount, setDueCount] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [response, setResponse] = useState<QuestionResponse>(null);
+  const [result, setResult] = useState<ReviewResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [finished, setFinished] = useState(false);
+
+  // Parents pass an inline onClose; keep it out of the deal effect
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const dealCards = async () => {
+      const { data, error } = await supabase.functions.invoke<{ cards: DealtCard[]; due_count: number }>('practice-deck', {
+        body: { action: 'deal', due_before: practiceDueBefore() },
+      });
+
+      if (error || !data) {
+        toast.error(await functionErrorMessage(error, 'Failed to load your practice deck'));
+        onCloseRef.current();
+        return;
+      }
+
+      setCards(data.cards);
+      setDueCount(data.due_count);
+      if (data.cards.length > 0) setResponse(initialResponse(data.cards[0].question));
+    };
+
+    dealCards();
+  }, []);
+
+  const card = cards?.[currentIndex];
+
+  const handleCheck = async () => {
+    if (!card) return;
+
+    setSubmitting(true);
+    const { data, error } = await supabase.functions.invoke<ReviewResult>('practice-deck', {
+      body: { action: 'review', card_id: card.card_id, response },
+    });
+    setSubmitting(false);
+
+    if (error || !data) {
+      toast.error(await functionErrorMessage(error, 'Failed to check your answer'));
+      return;
+    }
+
+    setResult(data);
+    if (data.is_correct) setCorrectCount(c => c + 1);
+  };
+
+  const handleNext = () => {
+    if (!cards) return;
+
+    if (currentIndex + 1 >= cards.length) {
+      setFinished(true);
+      return;
+    }
+
+    setCurrentIndex(i => i + 1);
+    setResponse(initialResponse(cards[currentIndex + 1].question));
+    setResult(null);
+  };
+
+  if (!cards) {
+    return (
+      <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center">
+        <Card className="w-full max-w-2xl mx-4">
+          <CardContent className="py-12 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!card || finished) {
+    const remaining = dueCount - cards.length;
+
+    return (
+      <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <Layers className="w-12 h-12 mx-auto text-primary mb-2" />
+            <CardTitle>{cards.length === 0 ? 'Nothing due today' : 'Review complete!'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {cards.length === 0 ? (
+              <p className="text-muted-foreground">Questions you miss in quizzes will show up here for review.</p>
+            ) : (
+              <>
+                <p className="text-4xl font-bold">{correctCount} / {cards.length}</p>
+                <p className="text-muted-foreground">
+                  {remaining > 0
+                    ? `${remaining} more ${remaining === 1 ? 'card is' : 'cards are'} due today.`
+                    : 'You are all caught up for today.'}
+                </p>
+              </>
+            )}
+            <Button onClick={onClose} className="w-full">
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const question = card.question;
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <CardTitle className="text-lg">Practice Review</CardTitle>
+              <p className="text-sm text-muted-foreground">From {card.quiz_title}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>Card {currentIndex + 1} of {cards.length}</span>
+              <span>{correctCount} correct</span>
+            </div>
+            <Progress value={((currentIndex + (result ? 1 : 0)) / cards.length) * 100} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <QuizText text={question.question} className="text-xl font-semibold" />
+              {card.repetitions === 0 && (
+                <Badge variant="outline" className="shrink-0">{card.lapses > 0 ? 'Relearning' : 'New'}</Badge>
+              )}
+            </div>
+            {question.image_url && (
+              <ZoomableImage src={question.image_url} alt="Question diagram" className="max-h-64 w-full" />
+            )}
+          </div>
+
+          {!result ? (
+            <>
+              <QuestionRenderer
+                key={card.card_id}
+                questionType={question.question_type}
+                options={question.options}
+                optionImages={question.option_images}
+                response={response}
+                onChange={setResponse}
+                disabled={submitting}
+              />
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleCheck}
+                  disabled={submitting || !isResponseComplete(question.question_type, response)}
+                >
+                  {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Check Answer
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-3">
+                {result.is_correct ? (
+                  <Badge className="bg-green-500 text-white"><CheckCircle2 className="w-3 h-3 mr-1" />Correct</Badge>
+                ) : result.credit > 0 ? (
+                  <Badge className="bg-yellow-500 text-white"><MinusCircle className="w-3 h-3 mr-1" />Partly correct</Badge>
+                ) : (
+                  <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />Incorrect</Badge>
+                )}
+                <span className="text-sm text-muted-foreground">Next review {nextReviewLabel(result.interval_days)}</span>
+              </div>
+
+              <LiveCorrectAnswer
+                question={{
+                  question_type: question.question_type,
+                  options: question.options,
+                  correct: result.correct,
+                  tolerance_percent: result.tolerance_percent,
+                }}
+              />
+
+              {result.explanation && (
+                <div className="p-4 bg-primary/5 border border-primary/20 rounded-lg">
+                  <p className="flex items-center gap-2 text-sm font-medium mb-1">
+                    <BookOpen className="w-4 h-4" />
+                    Explanation
+                  </p>
+                  <QuizText text={result.explanation} className="block text-sm" />
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button onClick={handleNext}>
+                  {currentIndex + 1 >= cards.length ? 'Finish' : 'Next Card'}
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
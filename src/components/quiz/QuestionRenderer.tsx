@@ -0,0 +1,145 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowUp, ArrowDown, Check } from 'lucide-react';
+import { ZoomableImage } from '@/components/quiz/ZoomableImage';
+import { QuizText } from '@/components/quiz/QuizText';
+import type { QuestionResponse, QuestionType } from '@/lib/quiz';
+
+interface QuestionRendererProps {
+  questionType: QuestionType;
+  options: string[];
+  optionImages?: (string | null)[];
+  response: QuestionResponse;
+  onChange: (response: QuestionResponse) => void;
+  disabled?: boolean;
+}
+
+const optionButtonClass = (selected: boolean) =>
+  `w-full justify-start text-left h-auto py-3 px-4${selected ? ' border-primary bg-primary/10' : ''}`;
+
+// Option images sit beside the option button so zooming doesn't also select the option
+const OptionImage = ({ src, label }: { src: string | null | undefined; label: string }) =>
+  src ? <ZoomableImage src={src} alt={label} className="w-16 h-16 shrink-0" /> : null;
+
+export function QuestionRenderer({ questionType, options, optionImages = [], response, onChange, disabled }: QuestionRendererProps) {
+  if (questionType === 'numeric') {
+    return (
+      <Input
+        type="number"
+        inputMode="decimal"
+        step="any"
+        value={typeof response === 'number' ? response : ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        placeholder="Enter your answer"
+        disabled={disabled}
+        className="text-lg"
+      />
+    );
+  }
+
+  if (questionType === 'ordering') {
+    const order = Array.isArray(response) && response.length === options.length
+      ? (response as string[])
+      : options;
+
+    const move = (from: number, to: number) => {
+      const updated = [...order];
+      [updated[from], updated[to]] = [updated[to], updated[from]];
+      onChange(updated);
+    };
+
+    // Ordering responses are option texts, so look images up by text
+    const imageByStep = new Map(options.map((opt, i) => [opt, optionImages[i] ?? null]));
+
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">Arrange the steps in the correct order</p>
+        {order.map((step, index) => (
+          <div key={step} className="flex items-center gap-3 rounded-md border px-4 py-3">
+            <span className="w-6 h-6 rounded-full border flex items-center justify-center text-sm font-medium shrink-0">
+              {index + 1}
+            </span>
+            <QuizText text={step} className="flex-1" />
+            <OptionImage src={imageByStep.get(step)} label={step} />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => move(index, index - 1)}
+              disabled={disabled || index === 0}
+            >
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => move(index, index + 1)}
+              disabled={disabled || index === order.length - 1}
+            >
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (questionType === 'multi_select') {
+    const picked = Array.isArray(response) ? (response as number[]) : [];
+
+    const toggle = (index: number) => {
+      const updated = picked.includes(index) ? picked.filter(i => i !== index) : [...picked, index];
+      onChange(updated.length > 0 ? updated : null);
+    };
+
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-muted-foreground">Select all that apply</p>
+        {options.map((option, index) => {
+          const selected = picked.includes(index);
+          return (
+            <div key={index} className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                className={optionButtonClass(selected)}
+                onClick={() => toggle(index)}
+                disabled={disabled}
+              >
+                <span className="flex items-center gap-3">
+                  <span className={`w-6 h-6 rounded border flex items-center justify-center ${selected ? 'bg-primary text-primary-foreground border-primary' : ''}`}>
+                    {selected && <Check className="w-4 h-4" />}
+                  </span>
+                  <QuizText text={option} />
+                </span>
+              </Button>
+              <OptionImage src={optionImages[index]} label={option} />
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  // single_choice and true_false
+  return (
+    <div className="space-y-3">
+      {options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            className={optionButtonClass(response === index)}
+            onClick={() => onChange(index)}
+            disabled={disabled}
+          >
+            <span className="flex items-center gap-3">
+              <span className="w-6 h-6 rounded-full border flex items-center justify-center text-sm font-medium">
+                {String.fromCharCode(65 + index)}
+              </span>
+              <QuizText text={option} />
+            </span>
+          </Button>
+          <OptionImage src={optionImages[index]} label={option} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
@@ -6,208 +6,448 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { QuestionRenderer } from '@/components/quiz/QuestionRenderer';
+import { QuizReview, type QuizReviewResult } from '@/components/quiz/QuizReview';
+import { ZoomableImage } from '@/components/quiz/ZoomableImage';
+import { QuizText } from '@/components/quiz/QuizText';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  functionErrorMessage,
+  isResponseComplete,
+  parseOptionImages,
+  parseOptions,
+  xpRewardLabel,
+  type QuestionResponse,
+  type ExamSettings,
+  type HintPenaltyMode,
+  type QuestionType,
+  type QuizXpRules,
+  type XpPolicy,
+} from '@/lib/quiz';
 import { 
   Loader2, 
   Clock, 
-  CheckCircle2, 
-  XCircle, 
   Trophy,
   ArrowRight,
   Lightbulb,
   RotateCcw,
-  Zap
+  Zap,
+  BookOpen,
+  Timer,
+  Eye
 } from 'lucide-react';
 
 interface Question {
   id: string;
+  question_type: QuestionType;
   question: string;
+  image_url: string | null;
   options: string[];
-  correct_answer: number;
-  hint: string | null;
-  order_index: number;
+  option_images: (string | null)[];
+  // Text of the hints revealed so far, and what each of the question's hints costs
+  hints: string[];
+  hint_costs: number[];
 }
 
-interface Quiz {
+interface SubmittedAnswer {
+  question_id: string;
+  response: QuestionResponse;
+  time_spent_seconds: number;
+}
+
+interface StartQuizResult {
+  attempt_id: string;
+  is_first_attempt: boolean;
+  xp_earned_before: boolean;
+  answers_seen_before: boolean;
+  questions: (Omit<Question, 'options' | 'option_images'> & { options: Json; option_images: Json })[];
+  answers: SubmittedAnswer[];
+  current_index: number;
+  time_left_seconds: number | null;
+  deadline_at: string | null;
+}
+
+// preview-quiz deals without an attempt, so the client holds on to the selection until submitting
+interface PreviewStartResult {
+  questions: StartQuizResult['questions'];
+  selection: { question_id: string; option_order: number[] | null }[];
+}
+
+interface QuizProgress {
+  answers: SubmittedAnswer[];
+  currentIndex: number;
+  timeLeft: number;
+}
+
+// How the server computed the reward under the quiz's XP policy
+interface XpBreakdown {
+  policy: XpPolicy;
+  xp_reward: number;
+  score_percent: number;
+  pass_percent: number;
+  passed: boolean;
+  base_xp: number;
+  speed_bonus: number;
+  hint_penalty: number;
+  time_taken_seconds: number;
+  time_limit_seconds: number;
+}
+
+interface SubmitQuizResult {
+  attempt_id: string;
+  score: number;
+  total_questions: number;
+  is_first_attempt: boolean;
+  xp_earned_before: boolean;
+  answers_seen_before: boolean;
+  xp_awarded: number;
+  xp_breakdown: XpBreakdown;
+  results: {
+    question_id: string;
+    response: QuestionResponse;
+    is_correct: boolean;
+    credit: number;
+    correct: QuestionResponse;
+  }[];
+  late: boolean;
+  answers_hidden_until: string | null;
+  // Only from preview-quiz
+  review?: QuizReviewResult;
+}
+
+interface Quiz extends QuizXpRules, ExamSettings {
   id: string;
   title: string;
   description: string | null;
   difficulty: 'easy' | 'medium' | 'hard';
   timer_per_question: number;
   total_questions: number;
-  xp_reward?: number;
+  resume_window_minutes: number;
+  hint_penalty_mode: HintPenaltyMode;
 }
 
 interface QuizPlayerProps {
   quiz: Quiz;
+  resumeAttemptId?: string | null;
+  // Admin preview of a version: played like a real attempt, but nothing is recorded or awarded
+  preview?: { versionId: string | null };
   onClose: () => void;
 }
 
-export function QuizPlayer({ quiz, onClose }: QuizPlayerProps) {
+// How often the remaining time is saved while a question is open
+const PROGRESS_SAVE_INTERVAL_MS = 5000;
+
+// Progress is saved server-side so a refresh or dropped connection can resume the attempt
+const saveProgress = async (attemptId: string, progress: QuizProgress) => {
+  const { error } = await supabase.rpc('save_quiz_progress', {
+    _attempt_id: attemptId,
+    _answers: progress.answers as unknown as Json,
+    _current_index: progress.currentIndex,
+    _time_left_seconds: progress.timeLeft,
+  });
+
+  if (error) console.error('Error saving quiz progress:', error);
+};
+
+const formatClock = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Ordering questions start from the order they're shown in; everything else starts blank
+const initialResponse = (question?: Question): QuestionResponse =>
+  question?.question_type === 'ordering' ? [...question.options] : null;
+
+export function QuizPlayer({ quiz, resumeAttemptId, preview, onClose }: QuizPlayerProps) {
   const { user } = useAuth();
+  const [attemptId, setAttemptId] = useState<string | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
-  const [showResult, setShowResult] = useState(false);
+  const [response, setResponse] = useState<QuestionResponse>(null);
+  const [answers, setAnswers] = useState<SubmittedAnswer[]>([]);
+  const [submitting, setSubmitting] = useState(false);
   const [score, setScore] = useState(0);
   const [timeLeft, setTimeLeft] = useState(quiz.timer_per_question);
-  const [showHint, setShowHint] = useState(false);
+  const [revealingHint, setRevealingHint] = useState(false);
   const [quizCompleted, setQuizCompleted] = useState(false);
-  const [startTime] = useState(Date.now());
+  const [questionStartTime, setQuestionStartTime] = useState(Date.now());
   const [xpEarned, setXpEarned] = useState<number | null>(null);
-  const [isFirstAttempt, setIsFirstAttempt] = useState(true);
-
-  useEffect(() => {
-    const fetchQuestions = async () => {
-      // Check if this is the first attempt
-      if (user) {
-        const { data: existingAttempts } = await supabase
-          .from('quiz_attempts')
-          .select('id')
-          .eq('user_id', user.id)
-          .eq('quiz_id', quiz.id)
-          .limit(1);
-        
-        setIsFirstAttempt(!existingAttempts || existingAttempts.length === 0);
-      }
-
-      const { data, error } = await supabase
-        .from('quiz_questions')
-        .select('*')
-        .eq('quiz_id', quiz.id)
-        .order('order_index', { ascending: true });
-
-      if (error) {
-        toast.error('Failed to load questions');
-        onClose();
-        return;
-      }
+  const [xpBreakdown, setXpBreakdown] = useState<XpBreakdown | null>(null);
+  const [xpEarnedBefore, setXpEarnedBefore] = useState(false);
+  const [answersSeenBefore, setAnswersSeenBefore] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+  const [deadlineAt, setDeadlineAt] = useState<string | null>(null);
+  const [examSecondsLeft, setExamSecondsLeft] = useState<number | null>(null);
+  const [submittedLate, setSubmittedLate] = useState(false);
+  const [answersHiddenUntil, setAnswersHiddenUntil] = useState<string | null>(null);
+  const [previewReview, setPreviewReview] = useState<QuizReviewResult | null>(null);
+  const previewSelection = useRef<PreviewStartResult['selection']>([]);
+  const previewStartedAt = useRef(Date.now());
+  const isPreview = !!preview;
+  const previewVersionId = preview?.versionId ?? null;
+
+  // Parents pass an inline onClose; keep it out of the start effect so re-renders don't start new attempts
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // Latest progress for the periodic save, kept in a ref so the interval isn't reset every tick
+  const progressRef = useRef<QuizProgress>({ answers, currentIndex, timeLeft });
+  progressRef.current = { answers, currentIndex, timeLeft };
+
+  // Every attempt is dealt its own question selection and option order by start-quiz.
+  // Passing an attempt id picks an in-progress attempt back up where it was left.
+  const startAttempt = useCallback(async (resumeId: string | null) => {
+    setLoading(true);
+
+    const { data, error } = isPreview
+      ? await supabase.functions.invoke<PreviewStartResult>('preview-quiz', {
+        body: { action: 'start', quiz_id: quiz.id, version_id: previewVersionId },
+      }).then(({ data: started, error: startError }) => ({
+        data: started && {
+          attempt_id: null,
+          is_first_attempt: true,
+          xp_earned_before: false,
+          answers_seen_before: false,
+          questions: started.questions,
+          answers: [],
+          current_index: 0,
+          time_left_seconds: null,
+          deadline_at: null,
+          selection: started.selection,
+        },
+        error: startError,
+      }))
+      : await supabase.functions.invoke<StartQuizResult>('start-quiz', {
+        body: { quiz_id: quiz.id, attempt_id: resumeId },
+      });
 
-      if (!data || data.length === 0) {
-        toast.error('No questions found for this quiz');
-        onClose();
-        return;
-      }
+    if (error || !data) {
+      toast.error(await functionErrorMessage(error, resumeId ? 'This attempt can no longer be resumed' : 'Failed to load questions'));
+      onCloseRef.current();
+      return;
+    }
 
-      // Parse options from JSON if needed
-      const parsedQuestions = data.map(q => ({
+    const parsedQuestions = data.questions.map(q => {
+      const options = parseOptions(q.options);
+      return {
         ...q,
-        options: Array.isArray(q.options) ? q.options : JSON.parse(q.options as string)
-      }));
+        options,
+        option_images: parseOptionImages(q.option_images, options.length),
+      };
+    });
+
+    setAttemptId(data.attempt_id);
+    setXpEarnedBefore(data.xp_earned_before);
+    setAnswersSeenBefore(data.answers_seen_before);
+    setQuestions(parsedQuestions);
+    setCurrentIndex(data.current_index);
+    setScore(0);
+    setResponse(initialResponse(parsedQuestions[data.current_index]));
+    setAnswers(data.answers);
+    setQuizCompleted(false);
+    setReviewing(false);
+    setTimeLeft(data.time_left_seconds ?? quiz.timer_per_question);
+    setXpEarned(null);
+    setXpBreakdown(null);
+    setDeadlineAt(data.deadline_at);
+    setExamSecondsLeft(null);
+    setSubmittedLate(false);
+    setAnswersHiddenUntil(null);
+    setPreviewReview(null);
+    previewSelection.current = 'selection' in data ? data.selection : [];
+    previewStartedAt.current = Date.now();
+    setQuestionStartTime(Date.now());
+    setLoading(false);
+
+    if (resumeId) toast.success(`Resumed at question ${Math.min(data.current_index + 1, parsedQuestions.length)}`);
+  }, [quiz.id, quiz.timer_per_question, isPreview, previewVersionId]);
+
+  const userId = user?.id;
+  // Only the first load resumes; Retry always deals a fresh attempt
+  const initialAttemptId = useRef(resumeAttemptId ?? null);
 
-      setQuestions(parsedQuestions);
-      setLoading(false);
-    };
+  useEffect(() => {
+    if (userId) startAttempt(initialAttemptId.current);
+  }, [userId, startAttempt]);
 
-    fetchQuestions();
-  }, [quiz.id, onClose, user]);
+  useEffect(() => {
+    if (!attemptId || loading || quizCompleted) return;
+
+    const interval = setInterval(() => saveProgress(attemptId, progressRef.current), PROGRESS_SAVE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [attemptId, loading, quizCompleted]);
 
   // Timer countdown
   useEffect(() => {
-    if (loading || showResult || quizCompleted) return;
+    if (loading || submitting || quizCompleted) return;
 
     const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          handleTimeUp();
-          return quiz.timer_per_question;
-        }
-        return prev - 1;
-      });
+      setTimeLeft((prev) => Math.max(0, prev - 1));
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [loading, showResult, quizCompleted, currentIndex]);
+  }, [loading, submitting, quizCompleted, currentIndex]);
 
-  const handleTimeUp = useCallback(() => {
-    if (!showResult) {
-      setShowResult(true);
-      // Move to next question after showing result
-      setTimeout(() => moveToNext(), 2000);
-    }
-  }, [showResult]);
+  // An unanswered question is submitted as blank when time runs out
+  useEffect(() => {
+    if (timeLeft === 0) timeUpRef.current();
+  }, [timeLeft]);
+
+  // Exams with a deadline count down the whole attempt as well as each question
+  useEffect(() => {
+    if (!deadlineAt || loading || quizCompleted) return;
+
+    const tick = () => {
+      const secondsLeft = Math.max(0, Math.ceil((new Date(deadlineAt).getTime() - Date.now()) / 1000));
+      setExamSecondsLeft(secondsLeft);
 
-  const handleAnswerSelect = (index: number) => {
-    if (showResult) return;
-    setSelectedAnswer(index);
+      // When the exam clock runs out, whatever has been answered is handed in
+      if (secondsLeft === 0) {
+        clearInterval(timer);
+        completeQuizRef.current(progressRef.current.answers);
+      }
+    };
+    const timer = setInterval(tick, 1000);
+    tick();
+
+    return () => clearInterval(timer);
+  }, [deadlineAt, loading, quizCompleted]);
+
+
+  // Leaving mid-quiz keeps the attempt open so it can be resumed from the Learning Hub
+  const handleExit = () => {
+    if (attemptId) {
+      saveProgress(attemptId, progressRef.current);
+      toast.info(deadlineAt
+        ? `Progress saved. The exam clock keeps running until ${format(new Date(deadlineAt), 'h:mm a')}.`
+        : `Progress saved. You can resume within ${quiz.resume_window_minutes} minutes.`);
+    }
+    onClose();
   };
 
-  const handleSubmitAnswer = () => {
-    if (selectedAnswer === null) {
-      toast.error('Please select an answer');
+  // Hints are handed out one at a time by the server, which keeps count for the hint penalty
+  // (in a preview the client keeps count and sends it with the answers)
+  const revealHint = async () => {
+    const currentQuestion = questions[currentIndex];
+    if ((!attemptId && !isPreview) || !currentQuestion) return;
+
+    setRevealingHint(true);
+    const { data, error } = isPreview
+      ? await supabase.functions.invoke<{ hints: string[] }>('preview-quiz', {
+        body: { action: 'hint', question_id: currentQuestion.id, revealed: currentQuestion.hints.length },
+      }).then(({ data: revealed, error: hintError }) => ({ data: revealed?.hints, error: hintError }))
+      : await supabase.rpc('reveal_quiz_hint', {
+        _attempt_id: attemptId,
+        _question_id: currentQuestion.id,
+      });
+    setRevealingHint(false);
+
+    if (error) {
+      toast.error('Failed to show hint');
       return;
     }
 
+    const revealed: unknown[] = Array.isArray(data) ? data : [];
+    const hints = revealed.filter((h): h is string => typeof h === 'string');
+    setQuestions(prev => prev.map(q => (q.id === currentQuestion.id ? { ...q, hints } : q)));
+  };
+
+  const hintCostLabel = (cost: number) => {
+    if (quiz.hint_penalty_mode === 'none' || cost <= 0) return null;
+    return quiz.hint_penalty_mode === 'credit' ? `costs ${cost}% of this question` : 'costs XP';
+  };
+
+  const handleSubmitAnswer = () => {
     const currentQuestion = questions[currentIndex];
-    const isCorrect = selectedAnswer === currentQuestion.correct_answer;
-    
-    if (isCorrect) {
-      setScore((prev) => prev + 1);
+    if (!isResponseComplete(currentQuestion.question_type, response)) {
+      toast.error('Please answer the question');
+      return;
     }
 
-    setShowResult(true);
-    setTimeout(() => moveToNext(), 1500);
+    recordAnswer(response);
   };
 
-  const moveToNext = () => {
+  const recordAnswer = (answer: QuestionResponse) => {
+    const currentQuestion = questions[currentIndex];
+    if (!currentQuestion) return;
+
+    const updatedAnswers = [...answers, {
+      question_id: currentQuestion.id,
+      response: answer,
+      time_spent_seconds: Math.round((Date.now() - questionStartTime) / 1000),
+    }];
+    setAnswers(updatedAnswers);
+    if (attemptId) {
+      saveProgress(attemptId, {
+        answers: updatedAnswers,
+        currentIndex: currentIndex + 1,
+        timeLeft: quiz.timer_per_question,
+      });
+    }
+
     if (currentIndex < questions.length - 1) {
       setCurrentIndex((prev) => prev + 1);
-      setSelectedAnswer(null);
-      setShowResult(false);
-      setShowHint(false);
+      setResponse(initialResponse(questions[currentIndex + 1]));
       setTimeLeft(quiz.timer_per_question);
+      setQuestionStartTime(Date.now());
     } else {
-      completeQuiz();
+      completeQuiz(updatedAnswers);
     }
   };
 
-  const completeQuiz = async () => {
-    setQuizCompleted(true);
-    const timeTaken = Math.floor((Date.now() - startTime) / 1000);
-    const finalScore = score + (selectedAnswer === questions[currentIndex]?.correct_answer ? 1 : 0);
-
-    // Save attempt to database
-    if (user) {
-      await supabase.from('quiz_attempts').insert({
-        user_id: user.id,
-        quiz_id: quiz.id,
-        score: finalScore,
-        total_questions: questions.length,
-        time_taken_seconds: timeTaken,
+  const completeQuiz = async (finalAnswers: SubmittedAnswer[]) => {
+    setSubmitting(true);
+
+    // Grading, the attempt record and XP are all handled server-side; a preview is only graded
+    const { data, error } = isPreview
+      ? await supabase.functions.invoke<SubmitQuizResult>('preview-quiz', {
+        body: {
+          action: 'submit',
+          quiz_id: quiz.id,
+          selection: previewSelection.current,
+          answers: finalAnswers,
+          hints_used: Object.fromEntries(questions.map(q => [q.id, q.hints.length])),
+          time_taken_seconds: Math.round((Date.now() - previewStartedAt.current) / 1000),
+        },
+      })
+      : await supabase.functions.invoke<SubmitQuizResult>('submit-quiz', {
+        body: {
+          attempt_id: attemptId,
+          answers: finalAnswers,
+        },
       });
 
-      // Award XP only on first attempt
-      if (isFirstAttempt && quiz.xp_reward && quiz.xp_reward > 0) {
-        // Create XP transaction
-        const { error: txError } = await supabase
-          .from('xp_transactions')
-          .insert({
-            user_id: user.id,
-            amount: quiz.xp_reward,
-            transaction_type: 'quiz_completion',
-            reference_id: quiz.id,
-            reason: `Completed quiz: ${quiz.title}`,
-          });
-
-        if (!txError) {
-          // Update profile XP
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('xp_points')
-            .eq('user_id', user.id)
-            .single();
-
-          if (profile) {
-            await supabase
-              .from('profiles')
-              .update({ xp_points: profile.xp_points + quiz.xp_reward })
-              .eq('user_id', user.id);
-          }
-
-          setXpEarned(quiz.xp_reward);
-        }
-      }
+    setSubmitting(false);
+
+    if (error || !data) {
+      console.error('Error submitting quiz:', error);
+      toast.error(await functionErrorMessage(error, 'Failed to submit quiz'));
+      return;
     }
+
+    setScore(data.score);
+    setXpEarnedBefore(data.xp_earned_before);
+    setAnswersSeenBefore(data.answers_seen_before);
+    setXpEarned(data.xp_awarded > 0 ? data.xp_awarded : null);
+    setXpBreakdown(data.xp_breakdown);
+    setSubmittedLate(data.late);
+    setAnswersHiddenUntil(data.answers_hidden_until);
+    setPreviewReview(data.review ?? null);
+    setQuizCompleted(true);
+  };
+
+  // The exam clock calls the latest completeQuiz without restarting every time an answer is recorded
+  const completeQuizRef = useRef(completeQuiz);
+  completeQuizRef.current = completeQuiz;
+
+  // Likewise the question clock, which only reacts to the time left
+  const timeUpRef = useRef(() => {});
+  timeUpRef.current = () => {
+    if (!loading && !submitting && !quizCompleted) recordAnswer(null);
   };
 
   const getScoreMessage = () => {
@@ -232,6 +472,45 @@ export function QuizPlayer({ quiz, onClose }: QuizPlayerProps) {
     );
   }
 
+  // All questions answered (or the exam clock ran out) but the submission is pending or failed
+  if (!quizCompleted && (submitting || answers.length === questions.length || examSecondsLeft === 0)) {
+    return (
+      <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="py-12 flex flex-col items-center gap-4 text-center">
+            {submitting ? (
+              <>
+                <Loader2 className="w-8 h-8 animate-spin" />
+                <p className="text-muted-foreground">Grading your answers...</p>
+              </>
+            ) : (
+              <>
+                <p className="text-muted-foreground">Your answers couldn't be submitted.</p>
+                <div className="flex gap-3">
+                  <Button variant="outline" onClick={onClose}>
+                    Exit Quiz
+                  </Button>
+                  <Button onClick={() => completeQuiz(answers)}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Try Again
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (quizCompleted && reviewing && previewReview) {
+    return <QuizReview result={previewReview} onClose={() => setReviewing(false)} />;
+  }
+
+  if (quizCompleted && reviewing && attemptId) {
+    return <QuizReview attemptId={attemptId} onClose={() => setReviewing(false)} />;
+  }
+
   if (quizCompleted) {
     const scoreMessage = getScoreMessage();
     return (
@@ -240,6 +519,9 @@ export function QuizPlayer({ quiz, onClose }: QuizPlayerProps) {
           <CardHeader className="text-center">
             <Trophy className="w-16 h-16 mx-auto text-yellow-500 mb-4" />
             <CardTitle className="text-2xl">Quiz Complete!</CardTitle>
+            {isPreview && (
+              <p className="text-sm text-muted-foreground">Preview: this attempt wasn't recorded and no XP was given</p>
+            )}
           </CardHeader>
           <CardContent className="space-y-6">
             <div className="text-center">
@@ -252,15 +534,63 @@ export function QuizPlayer({ quiz, onClose }: QuizPlayerProps) {
             </div>
 
             {xpEarned && (
-              <div className="flex items-center justify-center gap-2 p-4 bg-yellow-500/10 rounded-lg">
-                <Zap className="w-6 h-6 text-yellow-500" />
-                <span className="text-lg font-bold text-yellow-600">+{xpEarned} XP Earned!</span>
+              <div className="p-4 bg-yellow-500/10 rounded-lg space-y-2">
+                <div className="flex items-center justify-center gap-2">
+                  <Zap className="w-6 h-6 text-yellow-500" />
+                  <span className="text-lg font-bold text-yellow-600">
+                    {isPreview ? `A student would earn +${xpEarned} XP` : `+${xpEarned} XP Earned!`}
+                  </span>
+                </div>
+                {xpBreakdown && (
+                  <div className="text-sm text-yellow-700 space-y-1">
+                    <div className="flex justify-between">
+                      <span>
+                        {xpBreakdown.policy === 'proportional'
+                          ? `${xpBreakdown.score_percent}% of ${xpBreakdown.xp_reward} XP`
+                          : 'Quiz reward'}
+                      </span>
+                      <span>+{xpBreakdown.base_xp}</span>
+                    </div>
+                    {xpBreakdown.speed_bonus > 0 && (
+                      <div className="flex justify-between">
+                        <span>
+                          Speed bonus ({xpBreakdown.time_taken_seconds}s of {xpBreakdown.time_limit_seconds}s)
+                        </span>
+                        <span>+{xpBreakdown.speed_bonus}</span>
+                      </div>
+                    )}
+                    {xpBreakdown.hint_penalty > 0 && (
+                      <div className="flex justify-between">
+                        <span>Hints used</span>
+                        <span>-{xpBreakdown.hint_penalty}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             )}
 
-            {!isFirstAttempt && quiz.xp_reward && quiz.xp_reward > 0 && (
+            {xpEarnedBefore && quiz.xp_reward > 0 && (
+              <p className="text-center text-sm text-muted-foreground">
+                XP already earned for this quiz
+              </p>
+            )}
+
+            {!xpEarnedBefore && answersSeenBefore && quiz.xp_reward > 0 && (
+              <p className="text-center text-sm text-muted-foreground">
+                Retakes after seeing the answers don't earn XP
+              </p>
+            )}
+
+            {submittedLate && (
+              <p className="text-center text-sm text-muted-foreground">
+                Time ran out, so the answers saved before the deadline were graded
+              </p>
+            )}
+
+            {!xpEarnedBefore && !answersSeenBefore && xpBreakdown && !xpBreakdown.passed && (
               <p className="text-center text-sm text-muted-foreground">
-                XP already earned on first attempt
+                Score at least {xpBreakdown.pass_percent}% to earn XP for this quiz
               </p>
             )}
 
@@ -271,26 +601,30 @@ export function QuizPlayer({ quiz, onClose }: QuizPlayerProps) {
               </div>
               <Progress value={(score / questions.length) * 100} />
             </div>
+            {answersHiddenUntil ? (
+              <p className="text-center text-sm text-muted-foreground">
+                Answers can be reviewed after the exam closes on {format(new Date(answersHiddenUntil), 'MMM d, yyyy h:mm a')}
+              </p>
+            ) : (
+              <Button variant="secondary" className="w-full" onClick={() => setReviewing(true)}>
+                <BookOpen className="w-4 h-4 mr-2" />
+                Review Answers
+              </Button>
+            )}
             <div className="flex gap-3">
               <Button variant="outline" className="flex-1" onClick={onClose}>
                 Back to Quizzes
               </Button>
-              <Button 
-                className="flex-1" 
-                onClick={() => {
-                  setCurrentIndex(0);
-                  setScore(0);
-                  setSelectedAnswer(null);
-                  setShowResult(false);
-                  setQuizCompleted(false);
-                  setTimeLeft(quiz.timer_per_question);
-                  setXpEarned(null);
-                  setIsFirstAttempt(false);
-                }}
-              >
-                <RotateCcw className="w-4 h-4 mr-2" />
-                Retry
-              </Button>
+              {/* Exam attempts are limited, so another one is started deliberately from the Learning Hub */}
+              {!quiz.is_exam && (
+                <Button 
+                  className="flex-1" 
+                  onClick={() => startAttempt(null)}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Retry
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -307,15 +641,31 @@ export function QuizPlayer({ quiz, onClose }: QuizPlayerProps) {
         <CardHeader className="space-y-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
+              {isPreview && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <Eye className="w-3 h-3" />
+                  Preview
+                </Badge>
+              )}
               <Badge variant="outline">{quiz.title}</Badge>
-              {quiz.xp_reward && isFirstAttempt && (
+              {quiz.xp_reward > 0 && !xpEarnedBefore && !answersSeenBefore && (
                 <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20">
                   <Zap className="w-3 h-3" />
-                  +{quiz.xp_reward} XP
+                  {xpRewardLabel(quiz)}
                 </Badge>
               )}
             </div>
             <div className="flex items-center gap-2">
+              {examSecondsLeft !== null && (
+                <Badge
+                  variant="outline"
+                  className={`flex items-center gap-1 font-mono ${examSecondsLeft <= 60 ? 'text-destructive border-destructive/40' : ''}`}
+                  title="Time left for the exam"
+                >
+                  <Timer className="w-3 h-3" />
+                  {formatClock(examSecondsLeft)}
+                </Badge>
+              )}
               <Clock className={`w-4 h-4 ${timeLeft <= 10 ? 'text-destructive animate-pulse' : ''}`} />
               <span className={`font-mono ${timeLeft <= 10 ? 'text-destructive font-bold' : ''}`}>
                 {timeLeft}s
@@ -325,91 +675,72 @@ export function QuizPlayer({ quiz, onClose }: QuizPlayerProps) {
           <div className="space-y-2">
             <div className="flex justify-between text-sm text-muted-foreground">
               <span>Question {currentIndex + 1} of {questions.length}</span>
-              <span>Score: {score}</span>
+              <span>Answered: {answers.length}</span>
             </div>
             <Progress value={progress} />
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
-          <h3 className="text-xl font-semibold">{currentQuestion.question}</h3>
-
-          <div className="space-y-3">
-            {currentQuestion.options.map((option, index) => {
-              let buttonClass = "w-full justify-start text-left h-auto py-3 px-4";
-              
-              if (showResult) {
-                if (index === currentQuestion.correct_answer) {
-                  buttonClass += " bg-green-500/20 border-green-500 text-green-700 dark:text-green-400";
-                } else if (index === selectedAnswer && index !== currentQuestion.correct_answer) {
-                  buttonClass += " bg-destructive/20 border-destructive text-destructive";
-                }
-              } else if (selectedAnswer === index) {
-                buttonClass += " border-primary bg-primary/10";
-              }
-
-              return (
-                <Button
-                  key={index}
-                  variant="outline"
-                  className={buttonClass}
-                  onClick={() => handleAnswerSelect(index)}
-                  disabled={showResult}
-                >
-                  <span className="flex items-center gap-3">
-                    <span className="w-6 h-6 rounded-full border flex items-center justify-center text-sm font-medium">
-                      {String.fromCharCode(65 + index)}
-                    </span>
-                    <span>{option}</span>
-                    {showResult && index === currentQuestion.correct_answer && (
-                      <CheckCircle2 className="w-5 h-5 ml-auto text-green-500" />
-                    )}
-                    {showResult && index === selectedAnswer && index !== currentQuestion.correct_answer && (
-                      <XCircle className="w-5 h-5 ml-auto text-destructive" />
-                    )}
-                  </span>
-                </Button>
-              );
-            })}
-          </div>
+          <QuizText text={currentQuestion.question} className="text-xl font-semibold" />
+
+          {currentQuestion.image_url && (
+            <ZoomableImage
+              src={currentQuestion.image_url}
+              alt={`Diagram for question ${currentIndex + 1}`}
+              className="w-full max-h-72"
+            />
+          )}
 
-          {currentQuestion.hint && !showResult && (
-            <div>
-              {showHint ? (
-                <div className="p-3 rounded-lg bg-muted text-sm">
-                  <div className="flex items-center gap-2 text-muted-foreground mb-1">
-                    <Lightbulb className="w-4 h-4" />
-                    <span className="font-medium">Hint</span>
-                  </div>
-                  <p>{currentQuestion.hint}</p>
-                </div>
-              ) : (
-                <Button 
-                  variant="ghost" 
-                  size="sm" 
-                  onClick={() => setShowHint(true)}
-                  className="text-muted-foreground"
-                >
-                  <Lightbulb className="w-4 h-4 mr-2" />
-                  Show Hint
-                </Button>
-              )}
+          <QuestionRenderer
+            key={currentQuestion.id}
+            questionType={currentQuestion.question_type}
+            options={currentQuestion.options}
+            optionImages={currentQuestion.option_images}
+            response={response}
+            onChange={setResponse}
+            disabled={submitting}
+          />
+
+          {currentQuestion.hints.map((hint, i) => (
+            <div key={i} className="p-3 rounded-lg bg-muted text-sm">
+              <div className="flex items-center gap-2 text-muted-foreground mb-1">
+                <Lightbulb className="w-4 h-4" />
+                <span className="font-medium">
+                  {currentQuestion.hint_costs.length > 1 ? `Hint ${i + 1}` : 'Hint'}
+                </span>
+              </div>
+              <p>{hint}</p>
             </div>
+          ))}
+
+          {currentQuestion.hints.length < currentQuestion.hint_costs.length && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={revealHint}
+              disabled={revealingHint || submitting}
+              className="text-muted-foreground"
+            >
+              {revealingHint ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Lightbulb className="w-4 h-4 mr-2" />}
+              {currentQuestion.hints.length === 0 ? 'Show Hint' : 'Show Next Hint'}
+              {hintCostLabel(currentQuestion.hint_costs[currentQuestion.hints.length]) && (
+                <span className="ml-1">({hintCostLabel(currentQuestion.hint_costs[currentQuestion.hints.length])})</span>
+              )}
+            </Button>
           )}
 
           <div className="flex gap-3">
-            <Button variant="outline" onClick={onClose}>
+            <Button variant="outline" onClick={handleExit}>
               Exit Quiz
             </Button>
-            {!showResult && (
-              <Button 
-                className="flex-1" 
-                onClick={handleSubmitAnswer}
-                disabled={selectedAnswer === null}
-              >
-                Submit Answer
-                <ArrowRight className="w-4 h-4 ml-2" />
-              </Button>
-            )}
+            <Button 
+              className="flex-1" 
+              onClick={handleSubmitAnswer}
+              disabled={!isResponseComplete(currentQuestion.question_type, response) || submitting}
+            >
+              Submit Answer
+              <ArrowRight className="w-4 h-4 ml-2" />
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,289 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ZoomableImage } from '@/components/quiz/ZoomableImage';
+import { QuizText } from '@/components/quiz/QuizText';
+import { QUESTION_TYPE_LABELS, functionErrorMessage, type QuestionResponse, type QuestionType } from '@/lib/quiz';
+import {
+  Loader2,
+  ArrowLeft,
+  ArrowRight,
+  BookOpen,
+  CheckCircle2,
+  XCircle,
+  MinusCircle,
+  Lightbulb,
+} from 'lucide-react';
+
+interface ReviewQuestion {
+  id: string;
+  question_type: QuestionType;
+  question: string;
+  image_url: string | null;
+  options: string[];
+  option_images: (string | null)[];
+  response: QuestionResponse;
+  correct: QuestionResponse;
+  tolerance_percent: number | null;
+  is_correct: boolean;
+  credit: number;
+  explanation: string | null;
+  hints_used: number;
+}
+
+export interface QuizReviewResult {
+  // Null for a preview, which isn't recorded
+  attempt_id: string | null;
+  quiz_title: string;
+  score: number;
+  total_questions: number;
+  completed_at: string;
+  questions: ReviewQuestion[];
+}
+
+// Either a recorded attempt to fetch, or a review already in hand (from a preview)
+interface QuizReviewProps {
+  attemptId?: string;
+  result?: QuizReviewResult;
+  onClose: () => void;
+}
+
+const asIndices = (value: QuestionResponse): number[] =>
+  Array.isArray(value) ? (value as unknown[]).filter((v): v is number => typeof v === 'number') : [];
+
+const resultBadge = (question: ReviewQuestion) => {
+  if (question.is_correct) {
+    return <Badge className="bg-green-500 text-white"><CheckCircle2 className="w-3 h-3 mr-1" />Correct</Badge>;
+  }
+  if (question.credit > 0) {
+    return <Badge className="bg-yellow-500 text-white"><MinusCircle className="w-3 h-3 mr-1" />Partly correct</Badge>;
+  }
+  return <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />{question.response === null ? 'Not answered' : 'Incorrect'}</Badge>;
+};
+
+// The student's answer against the correct one, in the positions the student saw
+function ReviewAnswer({ question }: { question: ReviewQuestion }) {
+  if (question.question_type === 'numeric') {
+    return (
+      <div className="grid grid-cols-2 gap-3">
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">Your answer</p>
+          <p className={`text-lg font-medium ${question.is_correct ? 'text-green-600' : 'text-destructive'}`}>
+            {typeof question.response === 'number' ? question.response : '—'}
+          </p>
+        </div>
+        <div className="rounded-md border border-green-500/30 bg-green-500/5 p-3">
+          <p className="text-xs text-muted-foreground">Correct answer</p>
+          <p className="text-lg font-medium text-green-600">
+            {String(question.correct)}
+            {question.tolerance_percent ? ` (±${question.tolerance_percent}%)` : ''}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (question.question_type === 'ordering') {
+    const yours = Array.isArray(question.response) ? (question.response as string[]) : [];
+    const correct = Array.isArray(question.correct) ? (question.correct as string[]) : [];
+
+    return (
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Your order</p>
+          {yours.length === 0 && <p className="text-sm text-muted-foreground">Not answered</p>}
+          {yours.map((step, idx) => (
+            <div
+              key={idx}
+              className={`rounded-md border px-3 py-2 text-sm ${step === correct[idx] ? 'border-green-500/40 bg-green-500/5' : 'border-destructive/40 bg-destructive/5'}`}
+            >
+              {idx + 1}. {step}
+            </div>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Correct order</p>
+          {correct.map((step, idx) => (
+            <div key={idx} className="rounded-md border border-green-500/40 bg-green-500/5 px-3 py-2 text-sm">
+              {idx + 1}. {step}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const picked = question.question_type === 'multi_select'
+    ? asIndices(question.response)
+    : typeof question.response === 'number' ? [question.response] : [];
+  const correct = question.question_type === 'multi_select'
+    ? asIndices(question.correct)
+    : typeof question.correct === 'number' ? [question.correct] : [];
+
+  return (
+    <div className="space-y-2">
+      {question.options.map((option, idx) => {
+        const isPicked = picked.includes(idx);
+        const isCorrect = correct.includes(idx);
+        const tone = isCorrect
+          ? 'border-green-500/40 bg-green-500/5'
+          : isPicked ? 'border-destructive/40 bg-destructive/5' : '';
+
+        return (
+          <div key={idx} className={`flex items-center gap-3 rounded-md border px-4 py-3 ${tone}`}>
+            {isCorrect ? (
+              <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />
+            ) : isPicked ? (
+              <XCircle className="w-4 h-4 text-destructive shrink-0" />
+            ) : (
+              <span className="w-4 h-4 shrink-0" />
+            )}
+            <QuizText text={option} className="flex-1" />
+            {question.option_images[idx] && (
+              <ZoomableImage src={question.option_images[idx]!} alt={option} className="w-12 h-12 shrink-0" />
+            )}
+            {isPicked && <span className="text-xs text-muted-foreground shrink-0">Your answer</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function QuizReview({ attemptId, result, onClose }: QuizReviewProps) {
+  const [review, setReview] = useState<QuizReviewResult | null>(result ?? null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  // Parents pass an inline onClose; keep it out of the fetch effect
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (!attemptId) return;
+
+    const fetchReview = async () => {
+      const { data, error } = await supabase.functions.invoke<QuizReviewResult>('quiz-review', {
+        body: { attempt_id: attemptId },
+      });
+
+      if (error || !data) {
+        toast.error(await functionErrorMessage(error, 'Failed to load the review'));
+        onCloseRef.current();
+        return;
+      }
+
+      setReview(data);
+      setCurrentIndex(0);
+    };
+
+    fetchReview();
+  }, [attemptId]);
+
+  if (!review) {
+    return (
+      <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center">
+        <Card className="w-full max-w-2xl mx-4">
+          <CardContent className="py-12 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const question = review.questions[currentIndex];
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <CardTitle className="text-lg">Review: {review.quiz_title}</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {review.score} / {review.total_questions}
+                {review.completed_at && ` · ${format(new Date(review.completed_at), 'MMM d, yyyy h:mm a')}`}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+          {review.questions.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Question {currentIndex + 1} of {review.questions.length}</span>
+                <span>{review.questions.filter(q => q.is_correct).length} correct</span>
+              </div>
+              <Progress value={((currentIndex + 1) / review.questions.length) * 100} />
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!question ? (
+            <p className="text-center text-muted-foreground py-8">
+              No per-question details were recorded for this attempt.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <QuizText text={question.question} className="text-xl font-semibold" />
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    {resultBadge(question)}
+                    <Badge variant="outline">{QUESTION_TYPE_LABELS[question.question_type]}</Badge>
+                    {question.hints_used > 0 && (
+                      <Badge variant="secondary">
+                        <Lightbulb className="w-3 h-3 mr-1" />
+                        {question.hints_used} {question.hints_used === 1 ? 'hint' : 'hints'} used
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                {question.image_url && (
+                  <ZoomableImage src={question.image_url} alt="Question diagram" className="max-h-64 w-full" />
+                )}
+              </div>
+
+              <ReviewAnswer question={question} />
+
+              {question.explanation && (
+                <div className="p-4 bg-primary/5 border border-primary/20 rounded-lg">
+                  <p className="flex items-center gap-2 text-sm font-medium mb-1">
+                    <BookOpen className="w-4 h-4" />
+                    Explanation
+                  </p>
+                  <QuizText text={question.explanation} className="block text-sm" />
+                </div>
+              )}
+
+              <div className="flex justify-between">
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentIndex(i => i - 1)}
+                  disabled={currentIndex === 0}
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Previous
+                </Button>
+                {currentIndex < review.questions.length - 1 ? (
+                  <Button onClick={() => setCurrentIndex(i => i + 1)}>
+                    Next
+                    <ArrowRight className="w-4 h-4 ml-2" />
+                  </Button>
+                ) : (
+                  <Button onClick={onClose}>Done</Button>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
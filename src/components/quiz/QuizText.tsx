@@ -0,0 +1,76 @@
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  CODE_LANGUAGE_LABELS,
+  highlightCode,
+  parseCodeBlocks,
+  type CodeLanguage,
+  type TokenKind,
+} from '@/lib/codeSnippets';
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-muted-foreground italic',
+  string: 'text-green-700 dark:text-green-400',
+  number: 'text-orange-600 dark:text-orange-400',
+  keyword: 'text-purple-600 dark:text-purple-400 font-semibold',
+  type: 'text-sky-700 dark:text-sky-400',
+  builtin: 'text-teal-700 dark:text-teal-400',
+  function: 'text-blue-600 dark:text-blue-400',
+  preprocessor: 'text-pink-600 dark:text-pink-400',
+  decorator: 'text-amber-600 dark:text-amber-400',
+};
+
+interface CodeBlockProps {
+  code: string;
+  language: CodeLanguage | null;
+  className?: string;
+}
+
+export function CodeBlock({ code, language, className }: CodeBlockProps) {
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  return (
+    <div className={cn('relative rounded-md border bg-muted/60 text-left', className)}>
+      {language && (
+        <span className="absolute right-2 top-1 text-[10px] uppercase tracking-wide text-muted-foreground">
+          {CODE_LANGUAGE_LABELS[language]}
+        </span>
+      )}
+      <pre className="overflow-x-auto p-3 pt-5 font-mono text-sm leading-relaxed font-normal">
+        <code>
+          {tokens.map((token, i) => (
+            token.kind === 'plain'
+              ? token.text
+              : <span key={i} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+interface QuizTextProps {
+  text: string;
+  className?: string;
+}
+
+// Question stems, options and explanations: plain text keeps its line breaks, and fenced code
+// blocks are shown highlighted with their indentation intact
+export function QuizText({ text, className }: QuizTextProps) {
+  const segments = useMemo(() => parseCodeBlocks(text), [text]);
+
+  if (segments.length === 1 && segments[0].kind === 'text') {
+    return <span className={cn('whitespace-pre-wrap', className)}>{segments[0].text}</span>;
+  }
+
+  return (
+    <div className={cn('space-y-2 min-w-0', className)}>
+      {segments.map((segment, i) => (
+        segment.kind === 'text'
+          ? <p key={i} className="whitespace-pre-wrap">{segment.text}</p>
+          : <CodeBlock key={i} code={segment.code} language={segment.language} />
+      ))}
+    </div>
+  );
+}
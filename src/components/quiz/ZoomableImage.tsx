@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+
+interface ZoomableImageProps {
+  src: string;
+  alt: string;
+  className?: string;
+}
+
+export function ZoomableImage({ src, alt, className }: ZoomableImageProps) {
+  const [open, setOpen] = useState(false);
+  const [scale, setScale] = useState(1);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => {
+          setScale(1);
+          setOpen(true);
+        }}
+        className={`group relative block rounded-md border overflow-hidden bg-muted cursor-zoom-in ${className ?? ''}`}
+      >
+        <img src={src} alt={alt} className="w-full h-full object-contain" loading="lazy" />
+        <span className="absolute bottom-1 right-1 rounded bg-background/80 p-1 opacity-70 group-hover:opacity-100">
+          <Maximize2 className="w-3 h-3" />
+        </span>
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-4xl">
+          <DialogTitle className="sr-only">{alt}</DialogTitle>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setScale(prev => Math.max(MIN_SCALE, prev - 0.5))}
+              disabled={scale <= MIN_SCALE}
+            >
+              <ZoomOut className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground self-center w-12 text-center">
+              {Math.round(scale * 100)}%
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setScale(prev => Math.min(MAX_SCALE, prev + 0.5))}
+              disabled={scale >= MAX_SCALE}
+            >
+              <ZoomIn className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="max-h-[75vh] overflow-auto rounded-md bg-muted">
+            <img
+              src={src}
+              alt={alt}
+              className="mx-auto"
+              style={{ width: `${scale * 100}%`, maxWidth: 'none' }}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
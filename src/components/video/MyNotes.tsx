@@ -0,0 +1,96 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Download, Search, StickyNote, Video as VideoIcon } from 'lucide-react';
+import { downloadTextFile } from '@/lib/quizTransfer';
+import { formatPlaybackTime } from '@/lib/videos';
+import {
+  groupNotesByVideo,
+  notesToMarkdown,
+  searchNoteGroups,
+  type NoteVideo,
+  type VideoNote,
+} from '@/lib/videoNotes';
+
+interface MyNotesProps {
+  notes: VideoNote[];
+  videos: NoteVideo[];
+  onOpen: (note: VideoNote) => void;
+}
+
+// Every note the student has taken, grouped by video. Searching narrows the list and the export,
+// so a filtered view can be saved on its own.
+export function MyNotes({ notes, videos, onOpen }: MyNotesProps) {
+  const [query, setQuery] = useState('');
+
+  const groups = useMemo(() => groupNotesByVideo(notes, videos), [notes, videos]);
+  const visible = useMemo(() => searchNoteGroups(groups, query), [groups, query]);
+
+  if (groups.length === 0) {
+    return (
+      <Card className="border-border/50">
+        <CardContent className="py-12 text-center text-muted-foreground">
+          <StickyNote className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>No notes yet. Add notes or bookmarks while watching a video and they'll show up here.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-w-3xl">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search notes..."
+            className="pl-9"
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => downloadTextFile('my-video-notes.md', notesToMarkdown(visible), 'text/markdown')}
+          disabled={visible.length === 0}
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Export Markdown
+        </Button>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-center py-8 text-sm text-muted-foreground">No notes match "{query}".</p>
+      ) : (
+        visible.map(({ video, notes: videoNotes }) => (
+          <Card key={video.id} className="border-border/50">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <VideoIcon className="w-4 h-4 text-primary" />
+                {video.title}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {videoNotes.map(note => (
+                <button
+                  key={note.id}
+                  type="button"
+                  onClick={() => onOpen(note)}
+                  className="w-full flex items-start gap-3 rounded-md p-2 text-left text-sm hover:bg-muted/50 transition-colors"
+                >
+                  <span className="font-mono text-xs text-primary shrink-0 pt-0.5">
+                    {formatPlaybackTime(note.timestamp_seconds)}
+                  </span>
+                  <span className="flex-1 whitespace-pre-wrap break-words">
+                    {note.body || <span className="italic text-muted-foreground">Bookmark</span>}
+                  </span>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { useWatchTracker } from '@/hooks/useWatchTracker';
+import type { WatchPlayerHandle, WatchReport } from '@/lib/videos';
+
+interface UploadedWatchPlayerProps {
+  videoId: string;
+  src: string;
+  poster?: string | null;
+  onReport: (report: WatchReport) => void;
+  // Where to pick up from; only applied once, when the video first loads
+  startAt?: number;
+  className?: string;
+}
+
+// An uploaded video in the browser's own player, reported through useWatchTracker like YouTube's
+export const UploadedWatchPlayer = forwardRef<WatchPlayerHandle, UploadedWatchPlayerProps>(function UploadedWatchPlayer(
+  { videoId, src, poster, onReport, startAt = 0, className },
+  ref,
+) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const startAtRef = useRef(startAt);
+  const { sample, flush } = useWatchTracker(videoId, onReport);
+
+  useImperativeHandle(ref, () => ({
+    currentTime: () => videoRef.current?.currentTime ?? 0,
+    seekTo: (seconds: number) => {
+      if (videoRef.current) videoRef.current.currentTime = seconds;
+    },
+  }), []);
+
+  const sampleNow = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    sample(video.currentTime, video.duration, !video.paused && !video.ended);
+  };
+
+  useEffect(() => () => flush(), [src, flush]);
+
+  return (
+    <video
+      ref={videoRef}
+      src={src}
+      poster={poster ?? undefined}
+      controls
+      preload="metadata"
+      playsInline
+      className={cn('w-full h-full bg-black', className)}
+      onLoadedMetadata={(e) => {
+        if (startAtRef.current > 0) e.currentTarget.currentTime = startAtRef.current;
+        startAtRef.current = 0;
+      }}
+      onPlay={sampleNow}
+      onPause={sampleNow}
+      onEnded={sampleNow}
+      onTimeUpdate={sampleNow}
+    />
+  );
+});
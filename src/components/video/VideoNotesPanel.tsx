@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Bookmark, Check, Edit, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { formatPlaybackTime } from '@/lib/videos';
+import type { VideoNote } from '@/lib/videoNotes';
+
+interface VideoNotesPanelProps {
+  notes: VideoNote[];
+  currentTime: () => number;
+  onSeek: (seconds: number) => void;
+  onAdd: (timestampSeconds: number, body: string) => Promise<boolean>;
+  onUpdate: (noteId: string, body: string) => Promise<boolean>;
+  onDelete: (noteId: string) => void;
+}
+
+// A student's notes on one video. A new note is pinned to the moment they started writing it, so
+// the video can keep playing while they type.
+export function VideoNotesPanel({ notes, currentTime, onSeek, onAdd, onUpdate, onDelete }: VideoNotesPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [draftTime, setDraftTime] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingBody, setEditingBody] = useState('');
+
+  const handleAdd = async () => {
+    if (!draft.trim()) return;
+    setSaving(true);
+    if (await onAdd(draftTime ?? currentTime(), draft.trim())) {
+      setDraft('');
+      setDraftTime(null);
+    }
+    setSaving(false);
+  };
+
+  const handleBookmark = async () => {
+    setSaving(true);
+    await onAdd(currentTime(), '');
+    setSaving(false);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId) return;
+    if (await onUpdate(editingId, editingBody.trim())) setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Textarea
+          value={draft}
+          onFocus={() => setDraftTime(prev => prev ?? currentTime())}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleAdd();
+          }}
+          placeholder={draftTime !== null ? `Note at ${formatPlaybackTime(draftTime)}` : 'Write a note about this moment'}
+          rows={2}
+          className="text-sm"
+        />
+        <div className="flex justify-between gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={handleBookmark} disabled={saving}>
+            <Bookmark className="w-4 h-4 mr-1" />
+            Bookmark
+          </Button>
+          <Button type="button" size="sm" onClick={handleAdd} disabled={saving || !draft.trim()}>
+            {saving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+            Add note{draftTime !== null && ` at ${formatPlaybackTime(draftTime)}`}
+          </Button>
+        </div>
+      </div>
+
+      {notes.length > 0 && (
+        <ul className="space-y-2 max-h-60 overflow-y-auto">
+          {notes.map(note => (
+            <li key={note.id} className="flex items-start gap-2 rounded-md border border-border/50 p-2 text-sm">
+              <button
+                type="button"
+                onClick={() => onSeek(note.timestamp_seconds)}
+                className="font-mono text-xs text-primary hover:underline shrink-0 pt-0.5"
+                title="Jump to this moment"
+              >
+                {formatPlaybackTime(note.timestamp_seconds)}
+              </button>
+              {editingId === note.id ? (
+                <div className="flex-1 space-y-1">
+                  <Textarea
+                    value={editingBody}
+                    onChange={(e) => setEditingBody(e.target.value)}
+                    rows={2}
+                    className="text-sm"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-1">
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" onClick={handleSaveEdit}>
+                      <Check className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <p className="flex-1 whitespace-pre-wrap break-words">
+                    {note.body || <span className="italic text-muted-foreground">Bookmark</span>}
+                  </p>
+                  <div className="flex shrink-0">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => {
+                        setEditingId(note.id);
+                        setEditingBody(note.body);
+                      }}
+                    >
+                      <Edit className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => onDelete(note.id)}>
+                      <Trash2 className="w-3.5 h-3.5 text-destructive" />
+                    </Button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
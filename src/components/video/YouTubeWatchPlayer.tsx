@@ -0,0 +1,98 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Video as VideoIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useWatchTracker } from '@/hooks/useWatchTracker';
+import {
+  YOUTUBE_PLAYING,
+  loadYouTubeApi,
+  type WatchPlayerHandle,
+  type WatchReport,
+  type YouTubePlayer,
+} from '@/lib/videos';
+
+interface YouTubeWatchPlayerProps {
+  videoId: string;
+  youtubeId: string;
+  onReport: (report: WatchReport) => void;
+  // Where to pick up from; only read when the player is created
+  startAt?: number;
+  className?: string;
+}
+
+// An embedded YouTube video whose playback is reported through useWatchTracker
+export const YouTubeWatchPlayer = forwardRef<WatchPlayerHandle, YouTubeWatchPlayerProps>(function YouTubeWatchPlayer(
+  { videoId, youtubeId, onReport, startAt = 0, className },
+  ref,
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<YouTubePlayer | null>(null);
+  const startAtRef = useRef(startAt);
+  const [failed, setFailed] = useState(false);
+  const { sample, flush } = useWatchTracker(videoId, onReport);
+
+  useImperativeHandle(ref, () => ({
+    currentTime: () => playerRef.current?.getCurrentTime() ?? 0,
+    seekTo: (seconds: number) => playerRef.current?.seekTo(seconds, true),
+  }), []);
+
+  useEffect(() => {
+    let player: YouTubePlayer | null = null;
+    let poll: number | undefined;
+    let cancelled = false;
+    const container = containerRef.current;
+
+    const sampleNow = (target: YouTubePlayer) => {
+      sample(target.getCurrentTime(), target.getDuration(), target.getPlayerState() === YOUTUBE_PLAYING);
+    };
+
+    loadYouTubeApi()
+      .then((YT) => {
+        if (cancelled || !container) return;
+
+        // The API replaces the element it is given, so hand it a child React doesn't manage
+        const mount = document.createElement('div');
+        container.appendChild(mount);
+
+        player = new YT.Player(mount, {
+          videoId: youtubeId,
+          playerVars: { rel: 0, modestbranding: 1, start: Math.floor(startAtRef.current) },
+          events: {
+            // The player's methods only exist once it is ready, so the handle waits for that
+            onReady: (event) => {
+              playerRef.current = event.target;
+            },
+            onStateChange: (event) => {
+              sampleNow(event.target);
+              window.clearInterval(poll);
+              if (event.data === YOUTUBE_PLAYING) {
+                poll = window.setInterval(() => sampleNow(event.target), 1000);
+              }
+            },
+          },
+        });
+      })
+      .catch((error) => {
+        console.error('Error loading YouTube player:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(poll);
+      flush();
+      player?.destroy();
+      playerRef.current = null;
+      if (container) container.innerHTML = '';
+    };
+  }, [youtubeId, sample, flush]);
+
+  if (failed) {
+    return (
+      <div className={cn('w-full h-full flex items-center justify-center', className)}>
+        <VideoIcon className="w-12 h-12 text-muted-foreground/50" />
+      </div>
+    );
+  }
+
+  return <div ref={containerRef} className={cn('w-full h-full [&>iframe]:w-full [&>iframe]:h-full', className)} />;
+});
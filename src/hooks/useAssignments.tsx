@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  ASSIGNMENT_BUCKET,
+  submissionFilePath,
+  toAssignment,
+  toSubmission,
+  type Assignment,
+  type Submission,
+  type SubmissionFile,
+} from '@/lib/assignments';
+
+const SUBMISSION_COLUMNS = 'id, assignment_id, user_id, attempt_number, write_up, files, submitted_at, days_late, status, scores, feedback, score_percent, xp_awarded, graded_at';
+
+// Published assignments, soonest due first, and everything the signed-in student has handed in
+export function useAssignments() {
+  const { user } = useAuth();
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchAssignments = async () => {
+      const [assignmentsRes, submissionsRes] = await Promise.all([
+        supabase
+          .from('assignments')
+          .select('id, title, description, rubric, due_at, xp_reward, max_submissions, late_penalty_percent, late_cutoff_days, is_published')
+          .eq('is_published', true)
+          .order('due_at', { ascending: true, nullsFirst: false }),
+        supabase
+          .from('assignment_submissions')
+          .select(SUBMISSION_COLUMNS)
+          .eq('user_id', user.id)
+          .order('attempt_number'),
+      ]);
+
+      if (assignmentsRes.error || submissionsRes.error) {
+        console.error('Error fetching assignments:', assignmentsRes.error || submissionsRes.error);
+        toast.error('Failed to load assignments');
+      } else {
+        setAssignments(assignmentsRes.data.map(toAssignment));
+        setSubmissions(submissionsRes.data.map(toSubmission));
+      }
+      setIsLoading(false);
+    };
+
+    fetchAssignments();
+  }, [user]);
+
+  // Uploads the files to the student's folder, then hands them in with the write-up
+  const submit = useCallback(async (assignmentId: string, writeUp: string, files: File[], onProgress?: (uploaded: number) => void) => {
+    if (!user) return false;
+
+    const uploaded: SubmissionFile[] = [];
+    for (const file of files) {
+      const path = submissionFilePath(user.id, assignmentId, file);
+      const { error } = await supabase.storage
+        .from(ASSIGNMENT_BUCKET)
+        .upload(path, file, { contentType: file.type || 'application/octet-stream' });
+
+      if (error) {
+        console.error('Error uploading submission file:', error);
+        toast.error(`Failed to upload ${file.name}`);
+        return false;
+      }
+      uploaded.push({ path, name: file.name, size: file.size, type: file.type });
+      onProgress?.(uploaded.length);
+    }
+
+    const { data, error } = await supabase.rpc('submit_assignment', {
+      _assignment_id: assignmentId,
+      _write_up: writeUp,
+      _files: uploaded as unknown as Json,
+    });
+
+    if (error || !data) {
+      console.error('Error submitting assignment:', error);
+      toast.error(error?.message || 'Failed to submit assignment');
+      return false;
+    }
+
+    setSubmissions(prev => [...prev, toSubmission(data)]);
+    toast.success('Assignment submitted');
+    return true;
+  }, [user]);
+
+  // Short-lived links to the student's own files, by path
+  const fileUrls = useCallback(async (paths: string[]): Promise<Record<string, string>> => {
+    if (paths.length === 0) return {};
+
+    const { data, error } = await supabase.storage.from(ASSIGNMENT_BUCKET).createSignedUrls(paths, 60 * 60);
+    if (error || !data) {
+      console.error('Error linking submission files:', error);
+      return {};
+    }
+    return Object.fromEntries(data.filter(d => d.signedUrl).map(d => [d.path, d.signedUrl]));
+  }, []);
+
+  return { assignments, submissions, isLoading, submit, fileUrls };
+}
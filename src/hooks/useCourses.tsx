@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { attemptPassed, courseProgress, type Course } from '@/lib/courses';
+
+// Published courses with the signed-in student's progress through them. Completed content is
+// keyed by itemKey; a course whose every item is done gets its completion claimed automatically.
+export function useCourses() {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [completed, setCompleted] = useState<Set<string>>(new Set());
+  // course_id -> completed_at
+  const [completions, setCompletions] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const claimed = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchCourses = async () => {
+      const [coursesRes, watchedRes, attemptsRes, lessonsRes, completionsRes] = await Promise.all([
+        supabase
+          .from('courses')
+          .select(`
+            id, title, description, thumbnail_url, completion_xp,
+            course_modules (
+              id, title, position,
+              course_items (
+                id, position, video_id, quiz_id, lesson_id,
+                videos ( title ),
+                quizzes ( title, xp_pass_percent ),
+                lessons ( title )
+              )
+            )
+          `)
+          .eq('is_published', true)
+          .order('created_at'),
+        supabase.from('video_watch_history').select('video_id').eq('user_id', user.id),
+        supabase
+          .from('quiz_attempts')
+          .select('quiz_id, score, total_questions')
+          .eq('user_id', user.id)
+          .eq('status', 'completed'),
+        supabase.from('lesson_completions').select('lesson_id').eq('user_id', user.id),
+        supabase.from('course_completions').select('course_id, completed_at').eq('user_id', user.id),
+      ]);
+
+      if (coursesRes.error) {
+        console.error('Error fetching courses:', coursesRes.error);
+        toast.error('Failed to load courses');
+        setIsLoading(false);
+        return;
+      }
+
+      const passPercents: Record<string, number> = {};
+      const loaded: Course[] = (coursesRes.data || []).map(course => ({
+        id: course.id,
+        title: course.title,
+        description: course.description,
+        thumbnail_url: course.thumbnail_url,
+        completion_xp: course.completion_xp,
+        modules: [...course.course_modules]
+          .sort((a, b) => a.position - b.position)
+          .map(module => ({
+            id: module.id,
+            title: module.title,
+            items: [...module.course_items]
+              .sort((a, b) => a.position - b.position)
+              .map(item => {
+                if (item.quiz_id && item.quizzes) passPercents[item.quiz_id] = item.quizzes.xp_pass_percent;
+                return {
+                  id: item.id,
+                  video_id: item.video_id,
+                  quiz_id: item.quiz_id,
+                  lesson_id: item.lesson_id,
+                  title: (item.videos ?? item.quizzes ?? item.lessons)?.title ?? 'Unavailable',
+                };
+              }),
+          })),
+      }));
+
+      const done = new Set<string>();
+      (watchedRes.data || []).forEach(w => done.add(`video:${w.video_id}`));
+      (attemptsRes.data || []).forEach(a => {
+        if (a.quiz_id in passPercents && attemptPassed(a, passPercents[a.quiz_id])) done.add(`quiz:${a.quiz_id}`);
+      });
+      (lessonsRes.data || []).forEach(l => done.add(`lesson:${l.lesson_id}`));
+
+      setCourses(loaded);
+      setCompleted(done);
+      setCompletions(Object.fromEntries((completionsRes.data || []).map(c => [c.course_id, c.completed_at])));
+      setIsLoading(false);
+    };
+
+    fetchCourses();
+  }, [user]);
+
+  const claimCompletion = useCallback(async (course: Course) => {
+    const { data, error } = await supabase.rpc('complete_course', { _course_id: course.id });
+
+    if (error) {
+      console.error('Error completing course:', error);
+      return;
+    }
+
+    const outcome = data as { completed: boolean; xp_awarded: number };
+    if (!outcome.completed) return;
+
+    setCompletions(prev => ({ ...prev, [course.id]: new Date().toISOString() }));
+    toast.success(
+      outcome.xp_awarded > 0
+        ? `Course complete: ${course.title}! +${outcome.xp_awarded} XP`
+        : `Course complete: ${course.title}!`,
+    );
+  }, []);
+
+  useEffect(() => {
+    courses.forEach(course => {
+      if (completions[course.id] || claimed.current.has(course.id)) return;
+
+      const progress = courseProgress(course.modules, completed);
+      if (progress.total === 0 || progress.done < progress.total) return;
+
+      claimed.current.add(course.id);
+      claimCompletion(course);
+    });
+  }, [courses, completed, completions, claimCompletion]);
+
+  return { courses, completed, completions, isLoading };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { Lesson } from '@/lib/lessons';
+
+// Lessons the student can read (published, or part of a published course), alphabetically,
+// and which of them the signed-in student has completed
+export function useLessons() {
+  const { user } = useAuth();
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [completed, setCompleted] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchLessons = async () => {
+      const [lessonsRes, completionsRes] = await Promise.all([
+        supabase.from('lessons').select('id, title, body, xp_reward, is_published, updated_at').order('title'),
+        supabase.from('lesson_completions').select('lesson_id').eq('user_id', user.id),
+      ]);
+
+      if (lessonsRes.error) {
+        console.error('Error fetching lessons:', lessonsRes.error);
+        toast.error('Failed to load lessons');
+      } else {
+        setLessons(lessonsRes.data);
+        setCompleted(new Set((completionsRes.data || []).map(c => c.lesson_id)));
+      }
+      setIsLoading(false);
+    };
+
+    fetchLessons();
+  }, [user]);
+
+  // Starts the lesson's reading clock on the server; it can be completed once it has been open a while
+  const openLesson = useCallback(async (lessonId: string) => {
+    const { error } = await supabase.rpc('open_lesson', { _lesson_id: lessonId });
+    if (error) console.error('Error opening lesson:', error);
+  }, []);
+
+  const completeLesson = useCallback(async (lesson: Lesson) => {
+    const { data, error } = await supabase.rpc('complete_lesson', { _lesson_id: lesson.id });
+
+    if (error) {
+      console.error('Error completing lesson:', error);
+      toast.error('Failed to mark lesson as complete');
+      return;
+    }
+
+    const outcome = data as { completed: boolean; xp_awarded: number; seconds_left?: number };
+    if (!outcome.completed) {
+      const wait = outcome.seconds_left ?? 0;
+      toast.error(`Keep reading: you can complete this lesson in ${wait < 60 ? `${wait} seconds` : `${Math.ceil(wait / 60)} minutes`}`);
+      return;
+    }
+
+    setCompleted(prev => new Set([...prev, lesson.id]));
+    toast.success(outcome.xp_awarded > 0 ? `Lesson complete! +${outcome.xp_awarded} XP` : 'Lesson complete!');
+  }, []);
+
+  return { lessons, completed, isLoading, openLesson, completeLesson };
+}
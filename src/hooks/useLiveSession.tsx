@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { functionErrorMessage, type QuestionResponse, type QuestionType } from '@/lib/quiz';
+
+export type LiveSessionStatus = 'lobby' | 'question' | 'reveal' | 'finished';
+
+// The open question as players see it; correct, tolerance_percent and explanation are only
+// filled in once the host reveals the answer
+export interface LiveQuestion {
+  id: string;
+  question_type: QuestionType;
+  question: string;
+  image_url: string | null;
+  options: string[];
+  option_images: (string | null)[];
+  index: number;
+  total: number;
+  correct?: QuestionResponse;
+  tolerance_percent?: number | null;
+  explanation?: string | null;
+}
+
+export interface LiveSession {
+  id: string;
+  quiz_id: string;
+  host_id: string;
+  join_code: string;
+  status: LiveSessionStatus;
+  current_index: number;
+  current_question: LiveQuestion | null;
+  question_started_at: string | null;
+  question_seconds: number;
+  xp_reward: number;
+  question_count: number;
+  quiz_title: string;
+}
+
+export interface LivePlayer {
+  id: string;
+  user_id: string;
+  display_name: string;
+  score: number;
+  correct_count: number;
+}
+
+// Players only receive their own answers; the host receives everyone's
+export interface LiveAnswer {
+  id: string;
+  user_id: string;
+  question_index: number;
+  is_correct: boolean;
+  credit: number;
+  points: number;
+}
+
+interface LiveSessionRow {
+  id: string;
+  quiz_id: string;
+  host_id: string;
+  join_code: string;
+  status: LiveSessionStatus;
+  current_index: number;
+  current_question: unknown;
+  question_started_at: string | null;
+  question_seconds: number;
+  xp_reward: number;
+  question_selection: unknown;
+}
+
+const SESSION_COLUMNS = 'id, quiz_id, host_id, join_code, status, current_index, current_question, question_started_at, question_seconds, xp_reward, question_selection';
+const ANSWER_COLUMNS = 'id, user_id, question_index, is_correct, credit, points';
+
+const toSession = (row: LiveSessionRow, quizTitle: string): LiveSession => ({
+  id: row.id,
+  quiz_id: row.quiz_id,
+  host_id: row.host_id,
+  join_code: row.join_code,
+  status: row.status,
+  current_index: row.current_index,
+  current_question: row.current_question as LiveQuestion | null,
+  question_started_at: row.question_started_at,
+  question_seconds: row.question_seconds,
+  xp_reward: row.xp_reward,
+  question_count: Array.isArray(row.question_selection) ? row.question_selection.length : 0,
+  quiz_title: quizTitle,
+});
+
+// Runs an action on the live-session function; shows the server's reason and returns null on failure
+export async function liveSessionAction<T>(body: Record<string, unknown>): Promise<T | null> {
+  const { data, error } = await supabase.functions.invoke<T>('live-session', { body });
+
+  if (error || !data) {
+    toast.error(await functionErrorMessage(error, 'Live session request failed'));
+    return null;
+  }
+
+  return data;
+}
+
+export const rankPlayers = (players: LivePlayer[]): LivePlayer[] =>
+  [...players].sort((a, b) => b.score - a.score || a.display_name.localeCompare(b.display_name));
+
+// XP a player takes home: the session's reward, shared out by correct answers (see finish_live_session)
+export const liveSessionXp = (session: LiveSession, player: LivePlayer): number =>
+  session.question_count > 0 ? Math.round(session.xp_reward * player.correct_count / session.question_count) : 0;
+
+export function useLiveSession(sessionId: string | null) {
+  const [session, setSession] = useState<LiveSession | null>(null);
+  const [players, setPlayers] = useState<LivePlayer[]>([]);
+  const [answers, setAnswers] = useState<LiveAnswer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Fetch the session as it stands
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const fetchSession = async () => {
+      try {
+        const [sessionRes, playersRes, answersRes] = await Promise.all([
+          supabase
+            .from('live_sessions')
+            .select(`${SESSION_COLUMNS}, quizzes(title)`)
+            .eq('id', sessionId)
+            .single(),
+          supabase
+            .from('live_session_players')
+            .select('id, user_id, display_name, score, correct_count')
+            .eq('session_id', sessionId),
+          supabase
+            .from('live_session_answers')
+            .select(ANSWER_COLUMNS)
+            .eq('session_id', sessionId),
+        ]);
+
+        if (sessionRes.error) throw sessionRes.error;
+
+        setSession(toSession(sessionRes.data, sessionRes.data.quizzes?.title ?? 'Live Quiz'));
+        setPlayers(playersRes.data || []);
+        setAnswers(answersRes.data || []);
+      } catch (error) {
+        console.error('Error fetching live session:', error);
+        toast.error('Failed to load the live session');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSession();
+  }, [sessionId]);
+
+  // Subscribe to realtime updates
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const channel = supabase
+      .channel(`live-session-${sessionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'live_sessions',
+          filter: `id=eq.${sessionId}`
+        },
+        (payload) => {
+          setSession(prev => prev && toSession(payload.new as LiveSessionRow, prev.quiz_title));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'live_session_players',
+          filter: `session_id=eq.${sessionId}`
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const player = payload.new as LivePlayer;
+          setPlayers(prev => [...prev.filter(p => p.id !== player.id), player]);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'live_session_answers',
+          filter: `session_id=eq.${sessionId}`
+        },
+        (payload) => {
+          const answer = payload.new as LiveAnswer;
+          setAnswers(prev => (prev.some(a => a.id === answer.id) ? prev : [...prev, answer]));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  return {
+    session,
+    players,
+    answers,
+    isLoading
+  };
+}
+
+// Seconds left on the open question, or null between questions
+export function useLiveCountdown(session: LiveSession | null): number | null {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const startedAt = session?.status === 'question' ? session.question_started_at : null;
+  const limitSeconds = session?.question_seconds ?? 0;
+
+  useEffect(() => {
+    if (!startedAt) {
+      setSecondsLeft(null);
+      return;
+    }
+
+    const endsAt = new Date(startedAt).getTime() + limitSeconds * 1000;
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((endsAt - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+
+    return () => clearInterval(timer);
+  }, [startedAt, limitSeconds]);
+
+  return secondsLeft;
+}
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { VideoNote } from '@/lib/videoNotes';
+
+// The signed-in student's notes across all videos, oldest moment first within each video
+export function useVideoNotes() {
+  const { user } = useAuth();
+  const [notes, setNotes] = useState<VideoNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchNotes = async () => {
+      const { data, error } = await supabase
+        .from('video_notes')
+        .select('id, video_id, timestamp_seconds, body, created_at, updated_at')
+        .eq('user_id', user.id)
+        .order('timestamp_seconds');
+
+      if (error) {
+        console.error('Error fetching video notes:', error);
+        toast.error('Failed to load your notes');
+      } else {
+        setNotes((data || []).map(n => ({ ...n, timestamp_seconds: Number(n.timestamp_seconds) })));
+      }
+      setIsLoading(false);
+    };
+
+    fetchNotes();
+  }, [user]);
+
+  const addNote = useCallback(async (videoId: string, timestampSeconds: number, body: string) => {
+    if (!user) return false;
+
+    const { data, error } = await supabase
+      .from('video_notes')
+      .insert({ user_id: user.id, video_id: videoId, timestamp_seconds: Math.round(timestampSeconds * 10) / 10, body })
+      .select('id, video_id, timestamp_seconds, body, created_at, updated_at')
+      .single();
+
+    if (error || !data) {
+      console.error('Error adding video note:', error);
+      toast.error('Failed to save note');
+      return false;
+    }
+
+    const note = { ...data, timestamp_seconds: Number(data.timestamp_seconds) };
+    setNotes(prev => [...prev, note].sort((a, b) => a.timestamp_seconds - b.timestamp_seconds));
+    return true;
+  }, [user]);
+
+  const updateNote = useCallback(async (noteId: string, body: string) => {
+    const { error } = await supabase.from('video_notes').update({ body }).eq('id', noteId);
+
+    if (error) {
+      console.error('Error updating video note:', error);
+      toast.error('Failed to update note');
+      return false;
+    }
+
+    setNotes(prev => prev.map(n => (n.id === noteId ? { ...n, body, updated_at: new Date().toISOString() } : n)));
+    return true;
+  }, []);
+
+  const deleteNote = useCallback(async (noteId: string) => {
+    const { error } = await supabase.from('video_notes').delete().eq('id', noteId);
+
+    if (error) {
+      console.error('Error deleting video note:', error);
+      toast.error('Failed to delete note');
+      return;
+    }
+
+    setNotes(prev => prev.filter(n => n.id !== noteId));
+  }, []);
+
+  return { notes, isLoading, addNote, updateNote, deleteNote };
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { WatchReport } from '@/lib/videos';
+
+// A stretch is reported at least this often while playing
+const REPORT_EVERY_SECONDS = 10;
+
+// Players allow up to 2x; anything further than that between samples was a seek
+const MAX_PLAYBACK_RATE = 2;
+
+interface Segment {
+  start: number;
+  last: number;
+  sampledAt: number;
+}
+
+// Turns playback samples from any player into video-progress reports. Only continuous playback
+// is reported: a jump in position closes the current stretch and starts a new one where the
+// student landed, so skipped parts never count.
+export function useWatchTracker(videoId: string, onReport: (report: WatchReport) => void) {
+  const segmentRef = useRef<Segment | null>(null);
+  const durationRef = useRef(0);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const onReportRef = useRef(onReport);
+  onReportRef.current = onReport;
+
+  // Reports go out one at a time, in order, since each is checked against the time of the last
+  const send = useCallback((start: number, end: number, position: number) => {
+    const duration = durationRef.current;
+    if (!duration) return;
+
+    queueRef.current = queueRef.current.then(async () => {
+      const { data, error } = await supabase.functions.invoke<WatchReport>('video-progress', {
+        body: { video_id: videoId, start, end, duration, position },
+      });
+
+      if (error || !data) {
+        console.error('Error reporting watch progress:', error);
+        return;
+      }
+      onReportRef.current(data);
+    });
+  }, [videoId]);
+
+  // Reports the open stretch, if any, along with where playback now is (by default, its end)
+  const flush = useCallback((position?: number) => {
+    const segment = segmentRef.current;
+    segmentRef.current = null;
+    if (segment) send(segment.start, segment.last, position ?? segment.last);
+  }, [send]);
+
+  const sample = useCallback((time: number, duration: number, playing: boolean) => {
+    if (duration > 0) durationRef.current = duration;
+
+    const now = Date.now();
+    const segment = segmentRef.current;
+
+    // Whether playback could have carried the open stretch on to `time`, rather than a seek
+    const continues = (open: Segment) => {
+      const advanced = time - open.last;
+      return advanced >= -0.5 && advanced <= ((now - open.sampledAt) / 1000) * MAX_PLAYBACK_RATE + 1;
+    };
+
+    if (!playing) {
+      // Players pause or buffer while seeking, so only count up to `time` if it wasn't a jump
+      if (segment && continues(segment)) segment.last = Math.max(segment.last, time);
+      flush(time);
+      return;
+    }
+
+    if (!segment) {
+      segmentRef.current = { start: time, last: time, sampledAt: now };
+      send(time, time, time);
+      return;
+    }
+
+    if (!continues(segment)) {
+      flush(time);
+      segmentRef.current = { start: time, last: time, sampledAt: now };
+      return;
+    }
+
+    segment.last = Math.max(segment.last, time);
+    segment.sampledAt = now;
+
+    if (segment.last - segment.start >= REPORT_EVERY_SECONDS) {
+      flush();
+      segmentRef.current = { start: time, last: time, sampledAt: now };
+    }
+  }, [flush, send]);
+
+  useEffect(() => () => flush(), [flush]);
+
+  return { sample, flush };
+}
@@ -41,6 +41,116 @@ export type Database = {
         }
         Relationships: []
       }
+      assignment_submissions: {
+        Row: {
+          assignment_id: string
+          attempt_number: number
+          days_late: number
+          feedback: string | null
+          files: Json
+          graded_at: string | null
+          graded_by: string | null
+          id: string
+          score_percent: number | null
+          scores: Json | null
+          status: Database["public"]["Enums"]["submission_status"]
+          submitted_at: string
+          user_id: string
+          write_up: string
+          xp_awarded: number
+        }
+        Insert: {
+          assignment_id: string
+          attempt_number: number
+          days_late?: number
+          feedback?: string | null
+          files?: Json
+          graded_at?: string | null
+          graded_by?: string | null
+          id?: string
+          score_percent?: number | null
+          scores?: Json | null
+          status?: Database["public"]["Enums"]["submission_status"]
+          submitted_at?: string
+          user_id: string
+          write_up?: string
+          xp_awarded?: number
+        }
+        Update: {
+          assignment_id?: string
+          attempt_number?: number
+          days_late?: number
+          feedback?: string | null
+          files?: Json
+          graded_at?: string | null
+          graded_by?: string | null
+          id?: string
+          score_percent?: number | null
+          scores?: Json | null
+          status?: Database["public"]["Enums"]["submission_status"]
+          submitted_at?: string
+          user_id?: string
+          write_up?: string
+          xp_awarded?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_submissions_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assignments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string
+          due_at: string | null
+          id: string
+          is_published: boolean
+          late_cutoff_days: number | null
+          late_penalty_percent: number
+          max_submissions: number
+          rubric: Json
+          title: string
+          updated_at: string
+          xp_reward: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          due_at?: string | null
+          id?: string
+          is_published?: boolean
+          late_cutoff_days?: number | null
+          late_penalty_percent?: number
+          max_submissions?: number
+          rubric?: Json
+          title: string
+          updated_at?: string
+          xp_reward?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          due_at?: string | null
+          id?: string
+          is_published?: boolean
+          late_cutoff_days?: number | null
+          late_penalty_percent?: number
+          max_submissions?: number
+          rubric?: Json
+          title?: string
+          updated_at?: string
+          xp_reward?: number
+        }
+        Relationships: []
+      }
       auth_otps: {
         Row: {
           created_at: string
@@ -68,6 +178,53 @@ export type Database = {
         }
         Relationships: []
       }
+      certificates: {
+        Row: {
+          code: string
+          course_id: string | null
+          course_title: string
+          id: string
+          issued_at: string
+          recipient_name: string
+          revoke_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          user_id: string
+        }
+        Insert: {
+          code?: string
+          course_id?: string | null
+          course_title: string
+          id?: string
+          issued_at?: string
+          recipient_name: string
+          revoke_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          user_id: string
+        }
+        Update: {
+          code?: string
+          course_id?: string | null
+          course_title?: string
+          id?: string
+          issued_at?: string
+          recipient_name?: string
+          revoke_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificates_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_messages: {
         Row: {
           content: string
@@ -89,6 +246,227 @@ export type Database = {
         }
         Relationships: []
       }
+      content_prerequisites: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          min_score_percent: number
+          quiz_id: string | null
+          required_quiz_id: string | null
+          required_video_id: string | null
+          video_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          min_score_percent?: number
+          quiz_id?: string | null
+          required_quiz_id?: string | null
+          required_video_id?: string | null
+          video_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          min_score_percent?: number
+          quiz_id?: string | null
+          required_quiz_id?: string | null
+          required_video_id?: string | null
+          video_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_prerequisites_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_prerequisites_required_quiz_id_fkey"
+            columns: ["required_quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_prerequisites_required_video_id_fkey"
+            columns: ["required_video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_prerequisites_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_completions: {
+        Row: {
+          completed_at: string
+          course_id: string
+          id: string
+          user_id: string
+          xp_awarded: number
+        }
+        Insert: {
+          completed_at?: string
+          course_id: string
+          id?: string
+          user_id: string
+          xp_awarded?: number
+        }
+        Update: {
+          completed_at?: string
+          course_id?: string
+          id?: string
+          user_id?: string
+          xp_awarded?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_completions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_items: {
+        Row: {
+          created_at: string
+          id: string
+          lesson_id: string | null
+          module_id: string
+          position: number
+          quiz_id: string | null
+          video_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          lesson_id?: string | null
+          module_id: string
+          position?: number
+          quiz_id?: string | null
+          video_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          lesson_id?: string | null
+          module_id?: string
+          position?: number
+          quiz_id?: string | null
+          video_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_items_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_items_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "course_modules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_items_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_items_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_modules: {
+        Row: {
+          course_id: string
+          created_at: string
+          id: string
+          position: number
+          title: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          id?: string
+          position?: number
+          title: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          id?: string
+          position?: number
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_modules_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      courses: {
+        Row: {
+          completion_xp: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_published: boolean
+          thumbnail_url: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          completion_xp?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_published?: boolean
+          thumbnail_url?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          completion_xp?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_published?: boolean
+          thumbnail_url?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       lab_access_requests: {
         Row: {
           admin_notes: string | null
@@ -218,58 +596,356 @@ export type Database = {
           },
         ]
       }
-      monthly_leaderboard_snapshots: {
+      lesson_completions: {
         Row: {
-          created_at: string
-          full_name: string
+          completed_at: string
           id: string
-          month: number
-          rank: number
+          lesson_id: string
           user_id: string
-          xp_points: number
-          year: number
         }
         Insert: {
-          created_at?: string
-          full_name: string
+          completed_at?: string
           id?: string
-          month: number
-          rank: number
+          lesson_id: string
           user_id: string
-          xp_points: number
-          year: number
         }
         Update: {
-          created_at?: string
-          full_name?: string
+          completed_at?: string
           id?: string
-          month?: number
-          rank?: number
+          lesson_id?: string
           user_id?: string
-          xp_points?: number
-          year?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "lesson_completions_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      lesson_reads: {
         Row: {
-          avatar_url: string | null
-          batch_number: string
-          bio: string | null
-          created_at: string
-          enrollment_id: string
-          full_name: string
-          id: string
-          mobile_number: string | null
-          updated_at: string
+          lesson_id: string
+          opened_at: string
           user_id: string
-          xp_points: number
         }
         Insert: {
-          avatar_url?: string | null
-          batch_number: string
-          bio?: string | null
-          created_at?: string
+          lesson_id: string
+          opened_at?: string
+          user_id: string
+        }
+        Update: {
+          lesson_id?: string
+          opened_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_reads_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lessons: {
+        Row: {
+          body: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_published: boolean
+          title: string
+          updated_at: string
+          xp_reward: number
+        }
+        Insert: {
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_published: boolean
+          title: string
+          updated_at?: string
+          xp_reward?: number
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_published?: boolean
+          title?: string
+          updated_at?: string
+          xp_reward?: number
+        }
+        Relationships: []
+      }
+      live_session_answers: {
+        Row: {
+          answered_at: string
+          credit: number
+          id: string
+          is_correct: boolean
+          points: number
+          question_id: string
+          question_index: number
+          response: Json | null
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          answered_at?: string
+          credit?: number
+          id?: string
+          is_correct?: boolean
+          points?: number
+          question_id: string
+          question_index: number
+          response?: Json | null
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          answered_at?: string
+          credit?: number
+          id?: string
+          is_correct?: boolean
+          points?: number
+          question_id?: string
+          question_index?: number
+          response?: Json | null
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "live_session_answers_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "live_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      live_session_players: {
+        Row: {
+          correct_count: number
+          display_name: string
+          id: string
+          joined_at: string
+          score: number
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          correct_count?: number
+          display_name: string
+          id?: string
+          joined_at?: string
+          score?: number
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          correct_count?: number
+          display_name?: string
+          id?: string
+          joined_at?: string
+          score?: number
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "live_session_players_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "live_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      live_sessions: {
+        Row: {
+          created_at: string
+          current_index: number
+          current_question: Json | null
+          finished_at: string | null
+          host_id: string
+          id: string
+          join_code: string
+          question_seconds: number
+          question_selection: Json
+          question_started_at: string | null
+          quiz_id: string
+          status: Database["public"]["Enums"]["live_session_status"]
+          updated_at: string
+          xp_reward: number
+        }
+        Insert: {
+          created_at?: string
+          current_index?: number
+          current_question?: Json | null
+          finished_at?: string | null
+          host_id: string
+          id?: string
+          join_code: string
+          question_seconds: number
+          question_selection?: Json
+          question_started_at?: string | null
+          quiz_id: string
+          status?: Database["public"]["Enums"]["live_session_status"]
+          updated_at?: string
+          xp_reward?: number
+        }
+        Update: {
+          created_at?: string
+          current_index?: number
+          current_question?: Json | null
+          finished_at?: string | null
+          host_id?: string
+          id?: string
+          join_code?: string
+          question_seconds?: number
+          question_selection?: Json
+          question_started_at?: string | null
+          quiz_id?: string
+          status?: Database["public"]["Enums"]["live_session_status"]
+          updated_at?: string
+          xp_reward?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "live_sessions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      monthly_leaderboard_snapshots: {
+        Row: {
+          created_at: string
+          full_name: string
+          id: string
+          month: number
+          rank: number
+          user_id: string
+          xp_points: number
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          full_name: string
+          id?: string
+          month: number
+          rank: number
+          user_id: string
+          xp_points: number
+          year: number
+        }
+        Update: {
+          created_at?: string
+          full_name?: string
+          id?: string
+          month?: number
+          rank?: number
+          user_id?: string
+          xp_points?: number
+          year?: number
+        }
+        Relationships: []
+      }
+      practice_cards: {
+        Row: {
+          created_at: string
+          dealt_at: string | null
+          due_at: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          lapses: number
+          last_reviewed_at: string | null
+          option_order: Json | null
+          question_id: string
+          quiz_id: string
+          repetitions: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dealt_at?: string | null
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          option_order?: Json | null
+          question_id: string
+          quiz_id: string
+          repetitions?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dealt_at?: string | null
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          option_order?: Json | null
+          question_id?: string
+          quiz_id?: string
+          repetitions?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "practice_cards_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "practice_cards_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          batch_number: string
+          bio: string | null
+          created_at: string
+          enrollment_id: string
+          full_name: string
+          id: string
+          mobile_number: string | null
+          updated_at: string
+          user_id: string
+          xp_points: number
+        }
+        Insert: {
+          avatar_url?: string | null
+          batch_number: string
+          bio?: string | null
+          created_at?: string
           enrollment_id: string
           full_name: string
           id?: string
@@ -293,40 +969,302 @@ export type Database = {
         }
         Relationships: []
       }
+      question_banks: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          created_by: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      quiz_answer_snapshots: {
+        Row: {
+          answer_id: string
+          question: Json
+        }
+        Insert: {
+          answer_id: string
+          question: Json
+        }
+        Update: {
+          answer_id?: string
+          question?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_answer_snapshots_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: true
+            referencedRelation: "quiz_attempt_answers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_answers_seen: {
+        Row: {
+          quiz_id: string
+          seen_at: string
+          user_id: string
+        }
+        Insert: {
+          quiz_id: string
+          seen_at?: string
+          user_id: string
+        }
+        Update: {
+          quiz_id?: string
+          seen_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_answers_seen_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_attempt_answers: {
+        Row: {
+          attempt_id: string
+          created_at: string
+          credit: number
+          hint_penalty: number
+          hint_shown: boolean
+          hints_used: number
+          id: string
+          is_correct: boolean
+          question_id: string
+          response: Json | null
+          time_spent_seconds: number | null
+        }
+        Insert: {
+          attempt_id: string
+          created_at?: string
+          credit?: number
+          hint_penalty?: number
+          hint_shown?: boolean
+          hints_used?: number
+          id?: string
+          is_correct?: boolean
+          question_id: string
+          response?: Json | null
+          time_spent_seconds?: number | null
+        }
+        Update: {
+          attempt_id?: string
+          created_at?: string
+          credit?: number
+          hint_penalty?: number
+          hint_shown?: boolean
+          hints_used?: number
+          id?: string
+          is_correct?: boolean
+          question_id?: string
+          response?: Json | null
+          time_spent_seconds?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempt_answers_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempt_answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quiz_attempts: {
         Row: {
-          completed_at: string
+          answers: Json
+          answers_seen_at: string | null
+          completed_at: string | null
           created_at: string
+          current_index: number
+          deadline_at: string | null
+          hints_used: Json
           id: string
+          last_activity_at: string
+          question_selection: Json | null
           quiz_id: string
+          quiz_version_id: string | null
           score: number
+          started_at: string
+          status: string
+          time_left_seconds: number | null
           time_taken_seconds: number | null
           total_questions: number
           user_id: string
         }
         Insert: {
-          completed_at?: string
+          answers?: Json
+          answers_seen_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          current_index?: number
+          deadline_at?: string | null
+          hints_used?: Json
+          id?: string
+          last_activity_at?: string
+          question_selection?: Json | null
+          quiz_id: string
+          quiz_version_id?: string | null
+          score?: number
+          started_at?: string
+          status?: string
+          time_left_seconds?: number | null
+          time_taken_seconds?: number | null
+          total_questions: number
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          answers_seen_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          current_index?: number
+          deadline_at?: string | null
+          hints_used?: Json
+          id?: string
+          last_activity_at?: string
+          question_selection?: Json | null
+          quiz_id?: string
+          quiz_version_id?: string | null
+          score?: number
+          started_at?: string
+          status?: string
+          time_left_seconds?: number | null
+          time_taken_seconds?: number | null
+          total_questions?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_quiz_version_id_fkey"
+            columns: ["quiz_version_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_bank_draws: {
+        Row: {
+          bank_id: string
+          created_at: string
+          draw_count: number
+          id: string
+          quiz_id: string
+        }
+        Insert: {
+          bank_id: string
+          created_at?: string
+          draw_count: number
+          id?: string
+          quiz_id: string
+        }
+        Update: {
+          bank_id?: string
+          created_at?: string
+          draw_count?: number
+          id?: string
+          quiz_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_bank_draws_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "question_banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_bank_draws_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_exam_grants: {
+        Row: {
+          closes_at: string | null
+          created_at: string
+          created_by: string
+          extra_attempts: number
+          extra_minutes: number
+          id: string
+          note: string | null
+          quiz_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          closes_at?: string | null
           created_at?: string
+          created_by: string
+          extra_attempts?: number
+          extra_minutes?: number
           id?: string
+          note?: string | null
           quiz_id: string
-          score?: number
-          time_taken_seconds?: number | null
-          total_questions: number
+          updated_at?: string
           user_id: string
         }
         Update: {
-          completed_at?: string
+          closes_at?: string | null
           created_at?: string
+          created_by?: string
+          extra_attempts?: number
+          extra_minutes?: number
           id?: string
+          note?: string | null
           quiz_id?: string
-          score?: number
-          time_taken_seconds?: number | null
-          total_questions?: number
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "quiz_attempts_quiz_id_fkey"
+            foreignKeyName: "quiz_exam_grants_quiz_id_fkey"
             columns: ["quiz_id"]
             isOneToOne: false
             referencedRelation: "quizzes"
@@ -336,36 +1274,70 @@ export type Database = {
       }
       quiz_questions: {
         Row: {
-          correct_answer: number
+          answer: Json | null
+          bank_id: string | null
+          correct_answer: number | null
           created_at: string
-          hint: string | null
+          explanation: string | null
+          hints: Json
           id: string
+          image_url: string | null
+          lineage_id: string
+          option_images: Json
           options: Json
           order_index: number
           question: string
-          quiz_id: string
+          question_type: Database["public"]["Enums"]["quiz_question_type"]
+          quiz_id: string | null
+          retired_at: string | null
+          version_id: string | null
         }
         Insert: {
-          correct_answer: number
+          answer?: Json | null
+          bank_id?: string | null
+          correct_answer?: number | null
           created_at?: string
-          hint?: string | null
+          explanation?: string | null
+          hints?: Json
           id?: string
+          image_url?: string | null
+          lineage_id?: string
+          option_images?: Json
           options?: Json
           order_index?: number
           question: string
-          quiz_id: string
+          question_type?: Database["public"]["Enums"]["quiz_question_type"]
+          quiz_id?: string | null
+          retired_at?: string | null
+          version_id?: string | null
         }
         Update: {
-          correct_answer?: number
+          answer?: Json | null
+          bank_id?: string | null
+          correct_answer?: number | null
           created_at?: string
-          hint?: string | null
+          explanation?: string | null
+          hints?: Json
           id?: string
+          image_url?: string | null
+          lineage_id?: string
+          option_images?: Json
           options?: Json
           order_index?: number
           question?: string
-          quiz_id?: string
+          question_type?: Database["public"]["Enums"]["quiz_question_type"]
+          quiz_id?: string | null
+          retired_at?: string | null
+          version_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "quiz_questions_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "question_banks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "quiz_questions_quiz_id_fkey"
             columns: ["quiz_id"]
@@ -373,49 +1345,141 @@ export type Database = {
             referencedRelation: "quizzes"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "quiz_questions_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_versions: {
+        Row: {
+          created_at: string
+          id: string
+          published_at: string | null
+          published_by: string | null
+          quiz_id: string
+          updated_at: string
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          published_at?: string | null
+          published_by?: string | null
+          quiz_id: string
+          updated_at?: string
+          version_number: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          published_at?: string | null
+          published_by?: string | null
+          quiz_id?: string
+          updated_at?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_versions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       quizzes: {
         Row: {
+          closes_at: string | null
           created_at: string
           created_by: string
           description: string | null
           difficulty: Database["public"]["Enums"]["quiz_difficulty"]
+          hint_penalty_mode: Database["public"]["Enums"]["hint_penalty_mode"]
           id: string
           is_active: boolean
+          is_exam: boolean
+          max_attempts: number | null
+          opens_at: string | null
+          published_version_id: string | null
+          resume_window_minutes: number
+          shuffle_options: boolean
+          shuffle_questions: boolean
+          time_limit_minutes: number | null
           timer_per_question: number
           title: string
           total_questions: number
           updated_at: string
+          xp_pass_percent: number
+          xp_policy: Database["public"]["Enums"]["quiz_xp_policy"]
           xp_reward: number
+          xp_speed_bonus: number
         }
         Insert: {
+          closes_at?: string | null
           created_at?: string
           created_by: string
           description?: string | null
           difficulty?: Database["public"]["Enums"]["quiz_difficulty"]
+          hint_penalty_mode?: Database["public"]["Enums"]["hint_penalty_mode"]
           id?: string
           is_active?: boolean
+          is_exam?: boolean
+          max_attempts?: number | null
+          opens_at?: string | null
+          published_version_id?: string | null
+          resume_window_minutes?: number
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          time_limit_minutes?: number | null
           timer_per_question?: number
           title: string
           total_questions?: number
           updated_at?: string
+          xp_pass_percent?: number
+          xp_policy?: Database["public"]["Enums"]["quiz_xp_policy"]
           xp_reward?: number
+          xp_speed_bonus?: number
         }
         Update: {
+          closes_at?: string | null
           created_at?: string
           created_by?: string
           description?: string | null
           difficulty?: Database["public"]["Enums"]["quiz_difficulty"]
+          hint_penalty_mode?: Database["public"]["Enums"]["hint_penalty_mode"]
           id?: string
           is_active?: boolean
+          is_exam?: boolean
+          max_attempts?: number | null
+          opens_at?: string | null
+          published_version_id?: string | null
+          resume_window_minutes?: number
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          time_limit_minutes?: number | null
           timer_per_question?: number
           title?: string
           total_questions?: number
           updated_at?: string
+          xp_pass_percent?: number
+          xp_policy?: Database["public"]["Enums"]["quiz_xp_policy"]
           xp_reward?: number
+          xp_speed_bonus?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "quizzes_published_version_id_fkey"
+            columns: ["published_version_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_versions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -438,6 +1502,44 @@ export type Database = {
         }
         Relationships: []
       }
+      video_notes: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          timestamp_seconds: number
+          updated_at: string
+          user_id: string
+          video_id: string
+        }
+        Insert: {
+          body?: string
+          created_at?: string
+          id?: string
+          timestamp_seconds: number
+          updated_at?: string
+          user_id: string
+          video_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          timestamp_seconds?: number
+          updated_at?: string
+          user_id?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_notes_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       video_watch_history: {
         Row: {
           id: string
@@ -467,12 +1569,72 @@ export type Database = {
           },
         ]
       }
+      video_watch_progress: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          duration_seconds: number
+          first_reported_at: string | null
+          id: string
+          last_reported_at: string | null
+          position_seconds: number
+          updated_at: string
+          user_id: string
+          video_id: string
+          watched_percent: number
+          watched_ranges: Json
+          watched_seconds: number
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          duration_seconds?: number
+          first_reported_at?: string | null
+          id?: string
+          last_reported_at?: string | null
+          position_seconds?: number
+          updated_at?: string
+          user_id: string
+          video_id: string
+          watched_percent?: number
+          watched_ranges?: Json
+          watched_seconds?: number
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          duration_seconds?: number
+          first_reported_at?: string | null
+          id?: string
+          last_reported_at?: string | null
+          position_seconds?: number
+          updated_at?: string
+          user_id?: string
+          video_id?: string
+          watched_percent?: number
+          watched_ranges?: Json
+          watched_seconds?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_watch_progress_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       videos: {
         Row: {
           created_at: string
           created_by: string
           description: string | null
+          duration_seconds: number | null
           id: string
+          required_watch_percent: number
+          source: Database["public"]["Enums"]["video_source"]
+          storage_path: string | null
           thumbnail_url: string | null
           title: string
           updated_at: string
@@ -483,7 +1645,11 @@ export type Database = {
           created_at?: string
           created_by: string
           description?: string | null
+          duration_seconds?: number | null
           id?: string
+          required_watch_percent?: number
+          source?: Database["public"]["Enums"]["video_source"]
+          storage_path?: string | null
           thumbnail_url?: string | null
           title: string
           updated_at?: string
@@ -494,7 +1660,11 @@ export type Database = {
           created_at?: string
           created_by?: string
           description?: string | null
+          duration_seconds?: number | null
           id?: string
+          required_watch_percent?: number
+          source?: Database["public"]["Enums"]["video_source"]
+          storage_path?: string | null
           thumbnail_url?: string | null
           title?: string
           updated_at?: string
@@ -541,6 +1711,82 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      clone_quiz: {
+        Args: {
+          _quiz_id: string
+        }
+        Returns: string
+      }
+      complete_course: {
+        Args: {
+          _course_id: string
+        }
+        Returns: Json
+      }
+      complete_lesson: {
+        Args: {
+          _lesson_id: string
+        }
+        Returns: Json
+      }
+      complete_video_watch: {
+        Args: {
+          _user_id: string
+          _video_id: string
+        }
+        Returns: Json
+      }
+      content_locks: {
+        Args: never
+        Returns: {
+          missing: Json
+          quiz_id: string
+          video_id: string
+        }[]
+      }
+      course_items_remaining: {
+        Args: {
+          _course_id: string
+          _user_id: string
+        }
+        Returns: number
+      }
+      delete_question_bank: {
+        Args: {
+          _bank_id: string
+        }
+        Returns: undefined
+      }
+      finish_live_session: {
+        Args: {
+          _session_id: string
+        }
+        Returns: Json
+      }
+      grade_submission: {
+        Args: {
+          _feedback: string
+          _scores: Json
+          _submission_id: string
+        }
+        Returns: {
+          assignment_id: string
+          attempt_number: number
+          days_late: number
+          feedback: string | null
+          files: Json
+          graded_at: string | null
+          graded_by: string | null
+          id: string
+          score_percent: number | null
+          scores: Json | null
+          status: Database["public"]["Enums"]["submission_status"]
+          submitted_at: string
+          user_id: string
+          write_up: string
+          xp_awarded: number
+        }
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -548,16 +1794,285 @@ export type Database = {
         }
         Returns: boolean
       }
+      issue_certificate: {
+        Args: {
+          _course_id: string
+        }
+        Returns: {
+          code: string
+          course_id: string | null
+          course_title: string
+          id: string
+          issued_at: string
+          recipient_name: string
+          revoke_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          user_id: string
+        }
+      }
+      lesson_is_available: {
+        Args: {
+          _lesson_id: string
+        }
+        Returns: boolean
+      }
+      lesson_min_read_seconds: {
+        Args: {
+          _body: string
+        }
+        Returns: number
+      }
+      missing_prerequisites: {
+        Args: {
+          _quiz_id: string
+          _user_id: string
+          _video_id: string
+        }
+        Returns: Json
+      }
+      open_lesson: {
+        Args: {
+          _lesson_id: string
+        }
+        Returns: undefined
+      }
+      open_quiz_attempt: {
+        Args: {
+          _deadline_at: string
+          _max_attempts: number
+          _question_selection: Json
+          _quiz_id: string
+          _quiz_version_id: string
+          _user_id: string
+        }
+        Returns: Json
+      }
+      prerequisites_met: {
+        Args: {
+          _quiz_id: string
+          _video_id: string
+        }
+        Returns: boolean
+      }
+      publish_quiz_version: {
+        Args: {
+          _quiz_id: string
+        }
+        Returns: number
+      }
+      quiz_answers_released: {
+        Args: {
+          _quiz_id: string
+        }
+        Returns: boolean
+      }
+      quiz_draft_version: {
+        Args: {
+          _quiz_id: string
+        }
+        Returns: string
+      }
+      quiz_question_in_use: {
+        Args: {
+          _question_id: string
+        }
+        Returns: boolean
+      }
+      quiz_question_snapshot: {
+        Args: {
+          _question_id: string
+        }
+        Returns: Json
+      }
+      quiz_version_is_draft: {
+        Args: {
+          _version_id: string
+        }
+        Returns: boolean
+      }
+      quiz_xp_breakdown: {
+        Args: {
+          _answers: Json
+          _quiz_id: string
+          _score: number
+          _time_taken_seconds: number
+          _total_questions: number
+        }
+        Returns: Json
+      }
+      record_live_answer: {
+        Args: {
+          _credit: number
+          _points: number
+          _question_id: string
+          _question_index: number
+          _response: Json
+          _session_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      record_quiz_attempt: {
+        Args: {
+          _answers: Json
+          _attempt_id: string
+          _score: number
+          _time_taken_seconds: number
+        }
+        Returns: Json
+      }
+      record_video_progress: {
+        Args: {
+          _end: number
+          _position: number
+          _start: number
+          _user_id: string
+          _video_id: string
+        }
+        Returns: Json
+      }
+      restore_certificate: {
+        Args: {
+          _certificate_id: string
+        }
+        Returns: {
+          code: string
+          course_id: string | null
+          course_title: string
+          id: string
+          issued_at: string
+          recipient_name: string
+          revoke_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          user_id: string
+        }
+      }
+      reveal_quiz_hint: {
+        Args: {
+          _attempt_id: string
+          _question_id: string
+        }
+        Returns: Json
+      }
+      revoke_certificate: {
+        Args: {
+          _certificate_id: string
+          _reason?: string
+        }
+        Returns: {
+          code: string
+          course_id: string | null
+          course_title: string
+          id: string
+          issued_at: string
+          recipient_name: string
+          revoke_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          user_id: string
+        }
+      }
+      save_bank_questions: {
+        Args: {
+          _bank_id: string
+          _questions: Json
+        }
+        Returns: undefined
+      }
+      save_content_prerequisites: {
+        Args: {
+          _quiz_id?: string
+          _rules: Json
+          _video_id?: string
+        }
+        Returns: undefined
+      }
+      save_draft_questions: {
+        Args: {
+          _questions: Json
+          _quiz_id: string
+        }
+        Returns: string
+      }
+      save_quiz_bank_draws: {
+        Args: {
+          _draws: Json
+          _quiz_id: string
+        }
+        Returns: undefined
+      }
+      save_quiz_progress: {
+        Args: {
+          _answers: Json
+          _attempt_id: string
+          _current_index: number
+          _time_left_seconds: number
+        }
+        Returns: undefined
+      }
+      submit_assignment: {
+        Args: {
+          _assignment_id: string
+          _files: Json
+          _write_up: string
+        }
+        Returns: {
+          assignment_id: string
+          attempt_number: number
+          days_late: number
+          feedback: string | null
+          files: Json
+          graded_at: string | null
+          graded_by: string | null
+          id: string
+          score_percent: number | null
+          scores: Json | null
+          status: Database["public"]["Enums"]["submission_status"]
+          submitted_at: string
+          user_id: string
+          write_up: string
+          xp_awarded: number
+        }
+      }
+      verify_certificate: {
+        Args: {
+          _code: string
+        }
+        Returns: {
+          code: string
+          course_title: string
+          issued_at: string
+          recipient_name: string
+          revoked_at: string
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "member"
+      hint_penalty_mode: "none" | "credit" | "xp"
+      live_session_status: "lobby" | "question" | "reveal" | "finished"
       quiz_difficulty: "easy" | "medium" | "hard"
+      quiz_question_type:
+        | "single_choice"
+        | "multi_select"
+        | "true_false"
+        | "numeric"
+        | "ordering"
+      quiz_xp_policy: "fixed" | "proportional"
+      submission_status: "submitted" | "graded"
+      video_source: "youtube" | "upload"
       xp_transaction_type:
         | "quiz_completion"
         | "video_watched"
         | "admin_adjustment"
         | "admin_revert"
         | "monthly_reset"
+        | "live_session"
+        | "course_completion"
+        | "assignment_graded"
+        | "lesson_completed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -686,13 +2201,29 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "member"],
+      hint_penalty_mode: ["none", "credit", "xp"],
+      live_session_status: ["lobby", "question", "reveal", "finished"],
       quiz_difficulty: ["easy", "medium", "hard"],
+      quiz_question_type: [
+        "single_choice",
+        "multi_select",
+        "true_false",
+        "numeric",
+        "ordering",
+      ],
+      quiz_xp_policy: ["fixed", "proportional"],
+      submission_status: ["submitted", "graded"],
+      video_source: ["youtube", "upload"],
       xp_transaction_type: [
         "quiz_completion",
         "video_watched",
         "admin_adjustment",
         "admin_revert",
         "monthly_reset",
+        "live_session",
+        "course_completion",
+        "assignment_graded",
+        "lesson_completed",
       ],
     },
   },
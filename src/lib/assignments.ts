@@ -0,0 +1,132 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export const ASSIGNMENT_BUCKET = 'assignment-submissions';
+
+// Matches the bucket's file_size_limit
+export const MAX_SUBMISSION_FILE_BYTES = 50 * 1024 * 1024;
+
+export const MAX_SUBMISSION_FILES = 10;
+
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description: string;
+  points: number;
+}
+
+// A file in the assignment-submissions bucket, stored under <user_id>/<assignment_id>/
+export interface SubmissionFile {
+  path: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+export interface CriterionScore {
+  criterion_id: string;
+  points: number;
+  comment: string;
+}
+
+export interface Assignment {
+  id: string;
+  title: string;
+  description: string;
+  rubric: RubricCriterion[];
+  due_at: string | null;
+  xp_reward: number;
+  max_submissions: number;
+  late_penalty_percent: number;
+  late_cutoff_days: number | null;
+  is_published: boolean;
+}
+
+export interface Submission {
+  id: string;
+  assignment_id: string;
+  user_id: string;
+  attempt_number: number;
+  write_up: string;
+  files: SubmissionFile[];
+  submitted_at: string;
+  days_late: number;
+  status: 'submitted' | 'graded';
+  scores: CriterionScore[] | null;
+  feedback: string | null;
+  score_percent: number | null;
+  xp_awarded: number;
+  graded_at: string | null;
+}
+
+type AssignmentRow = Omit<Assignment, 'rubric'> & { rubric: Json };
+type SubmissionRow = Omit<Submission, 'files' | 'scores'> & { files: Json; scores: Json | null };
+
+export const toAssignment = (row: AssignmentRow): Assignment => ({
+  ...row,
+  rubric: (row.rubric ?? []) as unknown as RubricCriterion[],
+});
+
+export const toSubmission = <T extends SubmissionRow>(row: T): Omit<T, 'files' | 'scores'> & Pick<Submission, 'files' | 'scores'> => ({
+  ...row,
+  files: (row.files ?? []) as unknown as SubmissionFile[],
+  scores: row.scores as unknown as CriterionScore[] | null,
+});
+
+export const rubricTotal = (rubric: RubricCriterion[]) => rubric.reduce((sum, c) => sum + c.points, 0);
+
+// Days (or part days) past the due date, counted the same way as submit_assignment
+export const daysLate = (dueAt: string | null, at: Date = new Date()): number => {
+  if (!dueAt) return 0;
+  const late = at.getTime() - new Date(dueAt).getTime();
+  return late > 0 ? Math.ceil(late / 86_400_000) : 0;
+};
+
+export const latePenalty = (assignment: Assignment, days: number) =>
+  Math.min(100, days * assignment.late_penalty_percent);
+
+// Score and XP for a set of rubric scores, as grade_submission will work them out
+export const gradeResult = (assignment: Assignment, scores: CriterionScore[], days: number) => {
+  const possible = rubricTotal(assignment.rubric);
+  const earned = assignment.rubric.reduce((sum, criterion) => {
+    const points = scores.find(s => s.criterion_id === criterion.id)?.points ?? 0;
+    return sum + Math.min(Math.max(points, 0), criterion.points);
+  }, 0);
+  const raw = possible > 0 ? Math.floor((earned * 100) / possible) : 100;
+  const scorePercent = Math.max(0, raw - latePenalty(assignment, days));
+
+  return { earned, possible, scorePercent, xp: Math.floor((assignment.xp_reward * scorePercent) / 100) };
+};
+
+// Why the student can't hand in right now, or null if they can
+export const submitBlocker = (assignment: Assignment, submissions: Submission[], at: Date = new Date()): string | null => {
+  if (submissions.some(s => s.status === 'submitted')) return 'Your submission is waiting to be graded';
+  if (submissions.length >= assignment.max_submissions) {
+    return assignment.max_submissions === 1 ? 'Already submitted' : 'No resubmissions left';
+  }
+  const days = daysLate(assignment.due_at, at);
+  if (days > 0 && assignment.late_cutoff_days !== null && days > assignment.late_cutoff_days) {
+    return 'The deadline has passed';
+  }
+  return null;
+};
+
+export const submissionFilePath = (userId: string, assignmentId: string, file: File) => {
+  const name = file.name.replace(/[^\w.-]+/g, '_');
+  return `${userId}/${assignmentId}/${crypto.randomUUID()}-${name}`;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// A readable summary of the late rules, e.g. "10% off per day late, up to 3 days"
+export const lateRules = (assignment: Assignment): string => {
+  if (assignment.late_cutoff_days === 0) return 'No late submissions';
+  const penalty = assignment.late_penalty_percent > 0
+    ? `${assignment.late_penalty_percent}% off per day late`
+    : 'Late submissions accepted';
+  if (assignment.late_cutoff_days === null) return penalty;
+  return `${penalty}, up to ${assignment.late_cutoff_days} day${assignment.late_cutoff_days === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,165 @@
+import { format } from 'date-fns';
+import roboClubLogo from '@/assets/roboclub-logo.webp';
+
+// What a certificate says, as issued by issue_certificate and shown by verify_certificate
+export interface Certificate {
+  code: string;
+  recipient_name: string;
+  course_title: string;
+  issued_at: string;
+  revoked_at: string | null;
+}
+
+// A4 landscape, in PDF points and in canvas pixels (150 dpi)
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const PIXEL_WIDTH = 1754;
+const PIXEL_HEIGHT = 1240;
+
+const PRIMARY = 'hsl(220, 90%, 56%)';
+const MUTED = 'hsl(220, 10%, 40%)';
+
+export const verifyUrl = (code: string) => `${window.location.origin}/verify/${code}`;
+
+const loadImage = (src: string): Promise<HTMLImageElement | null> =>
+  new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = src;
+  });
+
+// Draws centred text, shrinking it until it fits within maxWidth
+const fitText = (ctx: CanvasRenderingContext2D, text: string, y: number, font: (size: number) => string, size: number, maxWidth: number) => {
+  let fontSize = size;
+  ctx.font = font(fontSize);
+  while (fontSize > 12 && ctx.measureText(text).width > maxWidth) {
+    fontSize -= 2;
+    ctx.font = font(fontSize);
+  }
+  ctx.fillText(text, PIXEL_WIDTH / 2, y);
+};
+
+const drawCertificate = async (certificate: Certificate): Promise<HTMLCanvasElement> => {
+  await document.fonts.ready;
+  const logo = await loadImage(roboClubLogo);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = PIXEL_WIDTH;
+  canvas.height = PIXEL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not draw the certificate');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PIXEL_WIDTH, PIXEL_HEIGHT);
+
+  ctx.strokeStyle = PRIMARY;
+  ctx.lineWidth = 12;
+  ctx.strokeRect(48, 48, PIXEL_WIDTH - 96, PIXEL_HEIGHT - 96);
+  ctx.lineWidth = 3;
+  ctx.strokeRect(80, 80, PIXEL_WIDTH - 160, PIXEL_HEIGHT - 160);
+
+  if (logo) ctx.drawImage(logo, PIXEL_WIDTH / 2 - 70, 130, 140, 140);
+
+  const display = (weight: number) => (size: number) => `${weight} ${size}px "Space Grotesk", system-ui, sans-serif`;
+  const body = (weight: number) => (size: number) => `${weight} ${size}px Inter, system-ui, sans-serif`;
+  const maxWidth = PIXEL_WIDTH - 320;
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+
+  ctx.fillStyle = PRIMARY;
+  fitText(ctx, 'CERTIFICATE OF COMPLETION', 360, display(700), 64, maxWidth);
+
+  ctx.fillStyle = MUTED;
+  fitText(ctx, 'This certifies that', 470, body(400), 34, maxWidth);
+
+  ctx.fillStyle = '#111827';
+  fitText(ctx, certificate.recipient_name, 590, display(700), 96, maxWidth);
+
+  ctx.strokeStyle = 'hsl(220, 13%, 85%)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(PIXEL_WIDTH / 2 - 420, 630);
+  ctx.lineTo(PIXEL_WIDTH / 2 + 420, 630);
+  ctx.stroke();
+
+  ctx.fillStyle = MUTED;
+  fitText(ctx, 'has successfully completed the course', 710, body(400), 34, maxWidth);
+
+  ctx.fillStyle = '#111827';
+  fitText(ctx, certificate.course_title, 800, display(600), 60, maxWidth);
+
+  ctx.fillStyle = MUTED;
+  fitText(ctx, `Issued ${format(new Date(certificate.issued_at), 'MMMM d, yyyy')} by RoboClub`, 920, body(400), 30, maxWidth);
+
+  ctx.font = body(500)(26);
+  ctx.fillText(`Certificate ID: ${certificate.code}`, PIXEL_WIDTH / 2, 1040);
+  ctx.font = body(400)(24);
+  ctx.fillText(`Verify at ${verifyUrl(certificate.code)}`, PIXEL_WIDTH / 2, 1080);
+
+  return canvas;
+};
+
+// A one-page PDF showing a single full-page JPEG. Written by hand since a picture of the
+// certificate is all it needs to hold.
+const jpegPdf = (jpeg: Uint8Array): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  const object = (...chunks: (string | Uint8Array)[]) => {
+    offsets.push(length);
+    push(`${offsets.length} 0 obj\n`);
+    chunks.forEach(push);
+    push('\nendobj\n');
+  };
+
+  const content = `q ${PAGE_WIDTH} 0 0 ${PAGE_HEIGHT} 0 0 cm /Im0 Do Q`;
+
+  push('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+    '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>',
+  );
+  object(
+    `<< /Type /XObject /Subtype /Image /Width ${PIXEL_WIDTH} /Height ${PIXEL_HEIGHT} /ColorSpace /DeviceRGB ` +
+    `/BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+    jpeg,
+    '\nendstream',
+  );
+  object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+  const xref = length;
+  push(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => push(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  push(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
+
+export const certificatePdf = async (certificate: Certificate): Promise<Blob> => {
+  const canvas = await drawCertificate(certificate);
+  const jpeg = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not draw the certificate'))), 'image/jpeg', 0.92),
+  );
+  return jpegPdf(new Uint8Array(await jpeg.arrayBuffer()));
+};
+
+export const downloadCertificate = async (certificate: Certificate) => {
+  const url = URL.createObjectURL(await certificatePdf(certificate));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `certificate-${certificate.code}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,213 @@
+// Fenced code blocks in quiz text, and a small syntax highlighter for the languages our quizzes use.
+// A block is written the markdown way, so it survives export/import as plain text:
+//
+//   ```cpp
+//   void loop() { digitalWrite(13, HIGH); }
+//   ```
+
+export type CodeLanguage = 'cpp' | 'python' | 'micropython';
+
+export const CODE_LANGUAGES: CodeLanguage[] = ['cpp', 'python', 'micropython'];
+
+export const CODE_LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  cpp: 'C/C++ (Arduino)',
+  python: 'Python',
+  micropython: 'MicroPython',
+};
+
+// Fence info strings people actually type, mapped onto the languages above
+const LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+  c: 'cpp',
+  cpp: 'cpp',
+  'c++': 'cpp',
+  h: 'cpp',
+  hpp: 'cpp',
+  arduino: 'cpp',
+  ino: 'cpp',
+  py: 'python',
+  python: 'python',
+  python3: 'python',
+  micropython: 'micropython',
+  upy: 'micropython',
+  mpy: 'micropython',
+};
+
+export const toCodeLanguage = (info: string): CodeLanguage | null => LANGUAGE_ALIASES[info.trim().toLowerCase()] ?? null;
+
+export type TextSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; language: CodeLanguage | null; code: string };
+
+const FENCE = /```([^\n`]*)\n([\s\S]*?)\n?```/g;
+
+export const hasCodeBlock = (text: string): boolean => new RegExp(FENCE.source).test(text);
+
+// Splits text into plain runs and fenced code blocks; an unclosed fence stays plain text
+export const parseCodeBlocks = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(FENCE)) {
+    const before = text.slice(last, match.index).replace(/\n$/, '');
+    if (before) segments.push({ kind: 'text', text: before });
+    segments.push({ kind: 'code', language: toCodeLanguage(match[1]), code: match[2] });
+    last = match.index! + match[0].length;
+  }
+
+  const rest = text.slice(last).replace(/^\n/, '');
+  if (rest) segments.push({ kind: 'text', text: rest });
+  return segments;
+};
+
+export const codeFence = (language: CodeLanguage, code = ''): string => `\`\`\`${language}\n${code}\n\`\`\``;
+
+// True when the position sits between an opening fence and its closing one
+export const isInCodeBlock = (text: string, position: number): boolean =>
+  (text.slice(0, position).match(/```/g)?.length ?? 0) % 2 === 1;
+
+export type TokenKind =
+  | 'plain'
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'type'
+  | 'builtin'
+  | 'function'
+  | 'preprocessor'
+  | 'decorator';
+
+export interface CodeToken {
+  kind: TokenKind;
+  text: string;
+}
+
+interface LanguageRules {
+  // Tried in order at each position; the first that matches wins
+  patterns: [TokenKind, RegExp][];
+  keywords: Set<string>;
+  types: Set<string>;
+  builtins: Set<string>;
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const NUMBER = /0[xX][\da-fA-F]+[uUlL]*|0[bB][01]+[uUlL]*|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?[fFuUlLjJ]*/y;
+
+const CPP_RULES: LanguageRules = {
+  patterns: [
+    ['comment', /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+    ['preprocessor', /#[ \t]*\w+(?:[ \t]*<[^>\n]*>)?/y],
+    ['string', /"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?/y],
+    ['number', NUMBER],
+  ],
+  keywords: words(`
+    if else for while do switch case default break continue return goto sizeof new delete this
+    class struct union enum namespace using public private protected virtual override template
+    typename const static volatile extern inline constexpr auto register true false nullptr NULL
+    try catch throw operator friend typedef
+  `),
+  types: words(`
+    void bool boolean char byte short int long float double unsigned signed word size_t String
+    int8_t int16_t int32_t int64_t uint8_t uint16_t uint32_t uint64_t
+  `),
+  builtins: words(`
+    HIGH LOW INPUT OUTPUT INPUT_PULLUP LED_BUILTIN A0 A1 A2 A3 A4 A5 Serial Wire SPI
+    pinMode digitalWrite digitalRead analogRead analogWrite delay delayMicroseconds millis micros
+    tone noTone pulseIn map constrain min max abs random randomSeed attachInterrupt
+    detachInterrupt setup loop
+  `),
+};
+
+const PYTHON_RULES: LanguageRules = {
+  patterns: [
+    ['comment', /#[^\n]*/y],
+    ['string', /[rRbBfFuU]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?)/y],
+    ['decorator', /@[A-Za-z_][\w.]*/y],
+    ['number', NUMBER],
+  ],
+  keywords: words(`
+    and as assert async await break class continue def del elif else except finally for from
+    global if import in is lambda nonlocal not or pass raise return try while with yield
+    True False None
+  `),
+  types: words('int float str bool list dict tuple set bytes bytearray object'),
+  builtins: words(`
+    print range len input open abs min max sum round sorted enumerate zip map filter isinstance
+    type super self
+  `),
+};
+
+const MICROPYTHON_RULES: LanguageRules = {
+  ...PYTHON_RULES,
+  builtins: new Set([
+    ...PYTHON_RULES.builtins,
+    ...words(`
+      machine Pin PWM ADC I2C SPI UART Timer time utime sleep sleep_ms sleep_us ticks_ms ticks_us
+      ticks_diff const network
+    `),
+  ]),
+};
+
+const RULES: Record<CodeLanguage, LanguageRules> = {
+  cpp: CPP_RULES,
+  python: PYTHON_RULES,
+  micropython: MICROPYTHON_RULES,
+};
+
+const IDENTIFIER = /[A-Za-z_]\w*/y;
+
+const matchAt = (pattern: RegExp, code: string, index: number): string | null => {
+  pattern.lastIndex = index;
+  const match = pattern.exec(code);
+  return match && match[0].length > 0 ? match[0] : null;
+};
+
+const classifyWord = (rules: LanguageRules, word: string, code: string, end: number): TokenKind => {
+  if (rules.keywords.has(word)) return 'keyword';
+  if (rules.types.has(word)) return 'type';
+  if (rules.builtins.has(word)) return 'builtin';
+  return /^\s*\(/.test(code.slice(end, end + 40)) ? 'function' : 'plain';
+};
+
+// Splits code into tokens for colouring; concatenating the token texts gives back the code.
+// Without a known language the whole snippet is one plain token.
+export const highlightCode = (code: string, language: CodeLanguage | null): CodeToken[] => {
+  if (!language) return [{ kind: 'plain', text: code }];
+
+  const rules = RULES[language];
+  const tokens: CodeToken[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const previous = tokens[tokens.length - 1];
+    if (previous && previous.kind === kind && kind === 'plain') {
+      previous.text += text;
+    } else {
+      tokens.push({ kind, text });
+    }
+  };
+
+  let index = 0;
+  while (index < code.length) {
+    const matched = rules.patterns
+      .map(([kind, pattern]) => [kind, matchAt(pattern, code, index)] as const)
+      .find(([, text]) => text !== null);
+
+    if (matched) {
+      push(matched[0], matched[1]!);
+      index += matched[1]!.length;
+      continue;
+    }
+
+    const word = matchAt(IDENTIFIER, code, index);
+    if (word) {
+      push(classifyWord(rules, word, code, index + word.length), word);
+      index += word.length;
+      continue;
+    }
+
+    push('plain', code[index]);
+    index += 1;
+  }
+
+  return tokens;
+};
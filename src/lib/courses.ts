@@ -0,0 +1,101 @@
+export type CourseItemKind = 'video' | 'quiz' | 'lesson';
+
+// A course_items row: exactly one of video_id / quiz_id / lesson_id is set
+export interface CourseItemRef {
+  id: string;
+  video_id: string | null;
+  quiz_id: string | null;
+  lesson_id: string | null;
+}
+
+// A module as edited in the course builder, its items in order
+export interface CourseModuleDraft {
+  id: string;
+  title: string;
+  items: CourseItemRef[];
+}
+
+// A course item as students see it, with its content's title
+export interface CourseItem extends CourseItemRef {
+  title: string;
+}
+
+export interface CourseModule {
+  id: string;
+  title: string;
+  items: CourseItem[];
+}
+
+export interface Course {
+  id: string;
+  title: string;
+  description: string | null;
+  thumbnail_url: string | null;
+  completion_xp: number;
+  modules: CourseModule[];
+}
+
+export interface CourseProgress {
+  done: number;
+  total: number;
+  percent: number;
+}
+
+export const itemKind = (item: Omit<CourseItemRef, 'id'>): CourseItemKind =>
+  item.video_id ? 'video' : item.quiz_id ? 'quiz' : 'lesson';
+
+export const itemContentId = (item: Omit<CourseItemRef, 'id'>): string =>
+  item.video_id ?? item.quiz_id ?? item.lesson_id!;
+
+// Same shape as contentKey, so completed content can be looked up by either
+export const itemKey = (item: Omit<CourseItemRef, 'id'>): string => `${itemKind(item)}:${itemContentId(item)}`;
+
+export const contentItem = (kind: CourseItemKind, contentId: string): Omit<CourseItemRef, 'id'> => ({
+  video_id: kind === 'video' ? contentId : null,
+  quiz_id: kind === 'quiz' ? contentId : null,
+  lesson_id: kind === 'lesson' ? contentId : null,
+});
+
+// Whether a completed attempt counts towards a course. Mirrors course_items_remaining: the quiz's
+// XP pass mark, on the rounded percentage.
+export const attemptPassed = (attempt: { score: number; total_questions: number }, passPercent: number): boolean =>
+  attempt.total_questions > 0 && Math.round((attempt.score * 100) / attempt.total_questions) >= passPercent;
+
+export const courseProgress = (modules: { items: Omit<CourseItemRef, 'id'>[] }[], completed: Set<string>): CourseProgress => {
+  const items = modules.flatMap(m => m.items);
+  const done = items.filter(item => completed.has(itemKey(item))).length;
+  return { done, total: items.length, percent: items.length > 0 ? Math.round((done / items.length) * 100) : 0 };
+};
+
+// Moves an item to `toIndex` within `toModuleId`, which may be the module it is already in
+export const moveItem = (
+  modules: CourseModuleDraft[],
+  itemId: string,
+  toModuleId: string,
+  toIndex: number,
+): CourseModuleDraft[] => {
+  const item = modules.flatMap(m => m.items).find(i => i.id === itemId);
+  if (!item) return modules;
+
+  return modules.map(module => {
+    const items = module.items.filter(i => i.id !== itemId);
+    if (module.id !== toModuleId) {
+      return items.length === module.items.length ? module : { ...module, items };
+    }
+    // Dropping further down the same module: the item's old slot above no longer counts
+    const from = module.items.findIndex(i => i.id === itemId);
+    const index = from !== -1 && from < toIndex ? toIndex - 1 : toIndex;
+    items.splice(Math.max(0, Math.min(index, items.length)), 0, item);
+    return { ...module, items };
+  });
+};
+
+export const moveModule = (modules: CourseModuleDraft[], moduleId: string, toIndex: number): CourseModuleDraft[] => {
+  const from = modules.findIndex(m => m.id === moduleId);
+  if (from === -1) return modules;
+
+  const next = modules.filter(m => m.id !== moduleId);
+  const index = from < toIndex ? toIndex - 1 : toIndex;
+  next.splice(Math.max(0, Math.min(index, next.length)), 0, modules[from]);
+  return next;
+};
@@ -0,0 +1,28 @@
+export const LESSON_MEDIA_BUCKET = 'lesson-media';
+
+export const MAX_LESSON_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export interface Lesson {
+  id: string;
+  title: string;
+  // Markdown
+  body: string;
+  xp_reward: number;
+  // Drafts are only readable through a published course
+  is_published: boolean;
+  updated_at: string;
+}
+
+// A lesson as edited in the admin, id null until it is first saved
+export interface LessonDraft {
+  id: string | null;
+  title: string;
+  body: string;
+  xp_reward: number;
+  is_published: boolean;
+}
+
+export const EMPTY_LESSON: LessonDraft = { id: null, title: '', body: '', xp_reward: 5, is_published: false };
+
+// Markdown for an uploaded image, on a line of its own
+export const imageMarkdown = (alt: string, url: string) => `![${alt.replace(/[[\]]/g, '')}](${url})`;
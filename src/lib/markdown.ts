@@ -0,0 +1,293 @@
+// A small Markdown parser for lesson text: headings, paragraphs, emphasis, links, images, lists,
+// block quotes, tables, rules and fenced code blocks. It builds a tree that is rendered as React
+// elements, so lesson text never reaches the page as raw HTML.
+import { toCodeLanguage, type CodeLanguage } from '@/lib/codeSnippets';
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'image'; src: string; alt: string; title: string | null }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; id: string; text: string; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language: CodeLanguage | null; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'rule' };
+
+export interface TocEntry {
+  id: string;
+  text: string;
+  level: number;
+}
+
+// Only these schemes (or relative links) are turned into links and images
+const SAFE_URL = /^(https?:|mailto:|\/|#|\.{0,2}\/)|^[^:]*$/i;
+
+export const safeUrl = (url: string): string | null => (SAFE_URL.test(url.trim()) ? url.trim() : null);
+
+// ---- Inline ----
+
+const INLINE = new RegExp([
+  /\\([\\`*_{}[\]()#+\-.!|>~])/.source, // 1: escaped character
+  /(`+)([^`]|[^`][\s\S]*?[^`])\2(?!`)/.source, // 2, 3: code span
+  /!\[([^\]]*)\]\(\s*(\S+?)(?:\s+"([^"]*)")?\s*\)/.source, // 4, 5, 6: image
+  /\[((?:[^\]]|\\\])+)\]\(\s*(\S+?)\s*\)/.source, // 7, 8: link
+  /\*\*(\S(?:[\s\S]*?\S)?)\*\*/.source, // 9: strong
+  /\b__(\S(?:[\s\S]*?\S)?)__\b/.source, // 10: strong
+  /~~(\S(?:[\s\S]*?\S)?)~~/.source, // 11: strikethrough
+  /\*(\S(?:[\s\S]*?\S)?)\*/.source, // 12: emphasis
+  /\b_(\S(?:[\s\S]*?\S)?)_\b/.source, // 13: emphasis
+  /<(https?:\/\/[^>\s]+)>/.source, // 14: autolink
+  /(https?:\/\/[^\s<]*[^\s<.,:;"')\]])/.source, // 15: bare URL
+  /( {2,}|\\)\n/.source, // 16: hard line break
+].map(source => `(?:${source})`).join('|'), 'g');
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let last = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const previous = nodes[nodes.length - 1];
+    if (previous?.type === 'text') previous.text += value;
+    else nodes.push({ type: 'text', text: value });
+  };
+
+  for (const m of text.matchAll(new RegExp(INLINE.source, 'g'))) {
+    pushText(text.slice(last, m.index));
+    last = m.index! + m[0].length;
+
+    if (m[1] !== undefined) {
+      pushText(m[1]);
+    } else if (m[3] !== undefined) {
+      nodes.push({ type: 'code', text: m[3].replace(/\n/g, ' ') });
+    } else if (m[5] !== undefined) {
+      const src = safeUrl(m[5]);
+      if (src) nodes.push({ type: 'image', src, alt: m[4], title: m[6] ?? null });
+      else pushText(m[0]);
+    } else if (m[8] !== undefined) {
+      const href = safeUrl(m[8]);
+      if (href) nodes.push({ type: 'link', href, children: parseInline(m[7]) });
+      else pushText(m[0]);
+    } else if (m[9] !== undefined || m[10] !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(m[9] ?? m[10]) });
+    } else if (m[11] !== undefined) {
+      nodes.push({ type: 'del', children: parseInline(m[11]) });
+    } else if (m[12] !== undefined || m[13] !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(m[12] ?? m[13]) });
+    } else if (m[14] !== undefined || m[15] !== undefined) {
+      const url = m[14] ?? m[15];
+      nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    } else {
+      nodes.push({ type: 'break' });
+    }
+  }
+
+  pushText(text.slice(last));
+  return nodes;
+};
+
+export const inlineText = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'image':
+        return node.alt;
+      case 'break':
+        return ' ';
+      default:
+        return inlineText(node.children);
+    }
+  }).join('');
+
+// ---- Blocks ----
+
+const FENCE_OPEN = /^ {0,3}(`{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( {0,3})([-*+]|(\d{1,9})[.)])(\s+|$)(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+export const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-') || 'section';
+
+// Cells of a table row; an escaped \| stays inside its cell
+const splitRow = (line: string): string[] => {
+  const cells = [''];
+  const text = line.trim().replace(/^\|/, '');
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && text[i + 1] === '|') {
+      cells[cells.length - 1] += '|';
+      i++;
+    } else if (text[i] === '|') {
+      cells.push('');
+    } else {
+      cells[cells.length - 1] += text[i];
+    }
+  }
+  // A closing pipe leaves an empty last cell
+  if (cells.length > 1 && !cells[cells.length - 1].trim()) cells.pop();
+  return cells.map(cell => cell.trim());
+};
+
+const startsBlock = (line: string, next: string | undefined) =>
+  FENCE_OPEN.test(line) ||
+  HEADING.test(line) ||
+  RULE.test(line) ||
+  QUOTE.test(line) ||
+  LIST_ITEM.test(line) ||
+  (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next) && next.includes('-'));
+
+const parseBlocks = (lines: string[], slugs: Map<string, number>): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_OPEN);
+    if (fence) {
+      const close = lines.findIndex((l, j) => j > i && new RegExp(`^ {0,3}${fence[1]}\`*\\s*$`).test(l));
+      // An unclosed fence runs to the end of the text
+      const end = close === -1 ? lines.length : close;
+      blocks.push({ type: 'code', language: toCodeLanguage(fence[2]), code: lines.slice(i + 1, end).join('\n') });
+      i = end + 1;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const children = parseInline(heading[2] ?? '');
+      const text = inlineText(children);
+      const base = slugify(text);
+      const seen = slugs.get(base) ?? 0;
+      slugs.set(base, seen + 1);
+      blocks.push({ type: 'heading', level: heading[1].length, id: seen ? `${base}-${seen}` : base, text, children });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !startsBlock(lines[i], lines[i + 1]))) {
+        quoted.push(lines[i].match(QUOTE)?.[1] ?? lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, slugs) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const ordered = listItem[3] !== undefined;
+      const items: string[][] = [];
+
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item || (item[3] !== undefined) !== ordered) break;
+
+        // Lines indented past the marker belong to this item
+        const indent = item[1].length + item[2].length + Math.min(item[4].length || 1, 4);
+        const body = [item[5]];
+        i++;
+        while (i < lines.length) {
+          const current = lines[i];
+          if (!current.trim()) {
+            const next = lines.slice(i + 1).find(l => l.trim());
+            if (next === undefined || next.search(/\S/) < indent) break;
+            body.push('');
+          } else if (current.search(/\S/) >= indent) {
+            body.push(current.slice(indent));
+          } else if (!startsBlock(current, lines[i + 1]) && body[body.length - 1] !== '') {
+            // Lazy continuation of the item's paragraph
+            body.push(current.trim());
+          } else {
+            break;
+          }
+          i++;
+        }
+        items.push(body);
+
+        // A blank line between items doesn't end the list
+        if (i < lines.length && !lines[i].trim()) {
+          const next = lines.slice(i).findIndex(l => l.trim());
+          if (next !== -1 && LIST_ITEM.test(lines[i + next])) i += next;
+        }
+      }
+
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(listItem[3]) : 1,
+        items: items.map(body => parseBlocks(body, slugs)),
+      });
+      continue;
+    }
+
+    if (line.includes('|') && lines[i + 1] !== undefined && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): TableAlign =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null,
+      );
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(cells[c] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    const paragraph = [line.trimStart()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i], lines[i + 1])) {
+      paragraph.push(lines[i].trimStart());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] =>
+  parseBlocks(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'), new Map());
+
+// The top-level headings down to maxLevel, in order, for a table of contents
+export const tableOfContents = (blocks: MarkdownBlock[], maxLevel = 3): TocEntry[] =>
+  blocks.flatMap(block =>
+    block.type === 'heading' && block.level <= maxLevel ? [{ id: block.id, text: block.text, level: block.level }] : [],
+  );
+
+// At a steady 200 words a minute, never less than a minute
+export const readingMinutes = (text: string): number =>
+  Math.max(1, Math.round(text.split(/\s+/).filter(Boolean).length / 200));
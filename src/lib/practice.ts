@@ -0,0 +1,31 @@
+import { endOfDay } from 'date-fns';
+
+// A card counts as mastered once SM-2 has pushed its next review three weeks out
+export const MASTERED_INTERVAL_DAYS = 21;
+
+export interface PracticeCardState {
+  due_at: string;
+  interval_days: number;
+}
+
+export interface PracticeDeckStats {
+  total: number;
+  dueToday: number;
+  learning: number;
+  mastered: number;
+}
+
+// "Today" runs to the end of the student's local day, so cards that come due this evening count too
+export const practiceDueBefore = (now = new Date()): string => endOfDay(now).toISOString();
+
+export const practiceDeckStats = (cards: PracticeCardState[], now = new Date()): PracticeDeckStats => {
+  const dueBefore = endOfDay(now).getTime();
+  const mastered = cards.filter(c => c.interval_days >= MASTERED_INTERVAL_DAYS).length;
+
+  return {
+    total: cards.length,
+    dueToday: cards.filter(c => new Date(c.due_at).getTime() <= dueBefore).length,
+    learning: cards.length - mastered,
+    mastered,
+  };
+};
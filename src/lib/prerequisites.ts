@@ -0,0 +1,86 @@
+export type ContentType = 'quiz' | 'video';
+
+// A quiz or video, as the locked side or the required side of a prerequisite
+export interface ContentRef {
+  type: ContentType;
+  id: string;
+}
+
+// One requirement as edited in the admin picker
+export interface PrerequisiteRule {
+  required_type: ContentType;
+  required_id: string;
+  min_score_percent: number;
+}
+
+// A content_prerequisites row
+export interface PrerequisiteRow {
+  quiz_id: string | null;
+  video_id: string | null;
+  required_quiz_id: string | null;
+  required_video_id: string | null;
+  min_score_percent: number;
+}
+
+// One entry of missing_prerequisites / content_locks: a requirement the student hasn't met yet
+export interface MissingPrerequisite {
+  required_quiz_id: string | null;
+  required_video_id: string | null;
+  title: string;
+  min_score_percent: number;
+  best_score_percent: number | null;
+}
+
+export const contentKey = (ref: ContentRef): string => `${ref.type}:${ref.id}`;
+
+export const rowContent = (row: PrerequisiteRow): ContentRef =>
+  row.quiz_id ? { type: 'quiz', id: row.quiz_id } : { type: 'video', id: row.video_id! };
+
+export const rowRequirement = (row: PrerequisiteRow): ContentRef =>
+  row.required_quiz_id ? { type: 'quiz', id: row.required_quiz_id } : { type: 'video', id: row.required_video_id! };
+
+export const ruleToRow = (content: ContentRef, rule: PrerequisiteRule): PrerequisiteRow => ({
+  quiz_id: content.type === 'quiz' ? content.id : null,
+  video_id: content.type === 'video' ? content.id : null,
+  required_quiz_id: rule.required_type === 'quiz' ? rule.required_id : null,
+  required_video_id: rule.required_type === 'video' ? rule.required_id : null,
+  min_score_percent: rule.required_type === 'quiz' ? rule.min_score_percent : 0,
+});
+
+export const ruleFromRow = (row: PrerequisiteRow): PrerequisiteRule => {
+  const required = rowRequirement(row);
+  return { required_type: required.type, required_id: required.id, min_score_percent: row.min_score_percent };
+};
+
+export const validatePrerequisites = (rules: PrerequisiteRule[]): string | null =>
+  rules.some(r => !r.required_id) ? 'Please choose a quiz or video for every prerequisite' : null;
+
+// Whether making `content` require `required` would close a loop, given the other existing rules.
+// Mirrors the check_prerequisite_cycle trigger so the picker can grey out bad choices up front.
+export const wouldCreateCycle = (rows: PrerequisiteRow[], content: ContentRef, required: ContentRef): boolean => {
+  const target = contentKey(content);
+  const edges = new Map<string, string[]>();
+  rows.forEach(row => {
+    const from = contentKey(rowContent(row));
+    edges.set(from, [...(edges.get(from) ?? []), contentKey(rowRequirement(row))]);
+  });
+
+  const seen = new Set<string>();
+  const stack = [contentKey(required)];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node === target) return true;
+    if (seen.has(node)) continue;
+    seen.add(node);
+    stack.push(...(edges.get(node) ?? []));
+  }
+  return false;
+};
+
+export const describeMissing = (missing: MissingPrerequisite): string => {
+  if (missing.required_video_id) return `Watch "${missing.title}"`;
+  if (missing.min_score_percent === 0) return `Complete "${missing.title}"`;
+
+  const best = missing.best_score_percent !== null ? ` (best so far ${missing.best_score_percent}%)` : '';
+  return `Score at least ${missing.min_score_percent}% on "${missing.title}"${best}`;
+};
@@ -0,0 +1,337 @@
+import { format } from 'date-fns';
+import type { Json } from '@/integrations/supabase/types';
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+export type XpPolicy = 'fixed' | 'proportional';
+
+export const XP_POLICY_LABELS: Record<XpPolicy, string> = {
+  fixed: 'Full reward',
+  proportional: 'Scaled by score',
+};
+
+// The columns that decide how a quiz pays out XP (see record_quiz_attempt)
+export interface QuizXpRules {
+  xp_reward: number;
+  xp_policy: XpPolicy;
+  xp_pass_percent: number;
+  xp_speed_bonus: number;
+}
+
+// "+15 XP" when the reward is always paid in full, otherwise the most that can be earned
+export const xpRewardLabel = (rules: QuizXpRules): string => {
+  const max = rules.xp_reward + rules.xp_speed_bonus;
+  const isFixed = rules.xp_policy === 'fixed' && rules.xp_pass_percent === 0 && rules.xp_speed_bonus === 0;
+  return isFixed ? `+${max} XP` : `Up to ${max} XP`;
+};
+
+export const describeXpRules = (rules: QuizXpRules): string[] => [
+  XP_POLICY_LABELS[rules.xp_policy],
+  ...(rules.xp_pass_percent > 0 ? [`Pass mark ${rules.xp_pass_percent}%`] : []),
+  ...(rules.xp_speed_bonus > 0 ? [`Speed bonus up to ${rules.xp_speed_bonus} XP`] : []),
+];
+
+// How hint costs are charged (see finalizeAttempt and record_quiz_attempt)
+export type HintPenaltyMode = 'none' | 'credit' | 'xp';
+
+export const HINT_PENALTY_LABELS: Record<HintPenaltyMode, string> = {
+  none: 'Hints are free',
+  credit: 'Hints cost question credit',
+  xp: 'Hints cost XP',
+};
+
+export type ExamStatus = 'upcoming' | 'open' | 'closed';
+
+// Exam columns on quizzes; practice quizzes have is_exam false and no window
+export interface ExamSettings {
+  is_exam: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_attempts: number | null;
+  time_limit_minutes: number | null;
+}
+
+// A student's own exceptions to an exam's limits (quiz_exam_grants)
+export interface ExamGrant {
+  extra_attempts: number;
+  extra_minutes: number;
+  closes_at: string | null;
+}
+
+// A granted closing time can only extend the window (start-quiz applies the same rule)
+export const examClosesAt = (exam: ExamSettings, grant?: ExamGrant | null): Date | null => {
+  if (!exam.closes_at) return null;
+  const closes = new Date(exam.closes_at);
+  return grant?.closes_at && new Date(grant.closes_at) > closes ? new Date(grant.closes_at) : closes;
+};
+
+export const examStatus = (exam: ExamSettings, grant?: ExamGrant | null, now = new Date()): ExamStatus => {
+  if (exam.opens_at && now < new Date(exam.opens_at)) return 'upcoming';
+  const closesAt = examClosesAt(exam, grant);
+  return closesAt && now >= closesAt ? 'closed' : 'open';
+};
+
+export const examAttemptsAllowed = (exam: ExamSettings, grant?: ExamGrant | null): number | null =>
+  exam.max_attempts === null ? null : exam.max_attempts + (grant?.extra_attempts ?? 0);
+
+// <input type="datetime-local"> values are in the browser's time zone, without an offset
+export const toDateTimeLocal = (iso: string | null): string =>
+  iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '';
+
+export const fromDateTimeLocal = (value: string): string | null =>
+  value ? new Date(value).toISOString() : null;
+
+export type QuestionType = 'single_choice' | 'multi_select' | 'true_false' | 'numeric' | 'ordering';
+
+export const QUESTION_TYPES: QuestionType[] = ['single_choice', 'multi_select', 'true_false', 'numeric', 'ordering'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  multi_select: 'Multi-select',
+  true_false: 'True / False',
+  numeric: 'Numeric',
+  ordering: 'Ordering',
+};
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export const MAX_OPTIONS = 8;
+
+export const MAX_HINTS = 5;
+
+// One of a question's progressive hints, revealed in order; cost_percent is the share of the
+// question's worth it costs under the quiz's hint penalty
+export interface QuestionHint {
+  text: string;
+  cost_percent: number;
+}
+
+// What a student submits for one question:
+// option index (single_choice, true_false), option indices (multi_select),
+// a number (numeric) or the option texts in the chosen order (ordering)
+export type QuestionResponse = number | number[] | string[] | null;
+
+// A quiz_questions row as admins read it
+export interface QuizQuestionRow {
+  id: string;
+  quiz_id: string | null;
+  bank_id: string | null;
+  version_id: string | null;
+  lineage_id: string;
+  question_type: QuestionType;
+  question: string;
+  image_url: string | null;
+  options: Json;
+  option_images: Json;
+  correct_answer: number | null;
+  answer: Json | null;
+  hints: Json;
+  explanation: string | null;
+  order_index: number;
+}
+
+export interface QuestionFormData {
+  question_type: QuestionType;
+  question: string;
+  image_url: string | null;
+  options: string[];
+  option_images: (string | null)[];
+  hints: QuestionHint[];
+  explanation: string;
+  correct_answer: number;
+  correct_answers: number[];
+  numeric_value: string;
+  tolerance_percent: number;
+  // Carried over from the row being edited, so the question is matched up across quiz versions
+  lineage_id?: string;
+}
+
+export const parseOptions = (options: Json | null): string[] => {
+  if (Array.isArray(options)) return options.map(o => String(o));
+  if (typeof options === 'string') {
+    try {
+      const parsed = JSON.parse(options);
+      return Array.isArray(parsed) ? parsed.map(o => String(o)) : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+// Option images are stored aligned with options, with null where an option has no image
+export const parseOptionImages = (images: Json | null, length: number): (string | null)[] => {
+  const list = Array.isArray(images) ? images : [];
+  return Array.from({ length }, (_, i) => (typeof list[i] === 'string' ? (list[i] as string) : null));
+};
+
+export const parseHints = (hints: Json | null): QuestionHint[] =>
+  Array.isArray(hints)
+    ? hints.flatMap(h =>
+      h && typeof h === 'object' && !Array.isArray(h) && typeof h.text === 'string'
+        ? [{ text: h.text, cost_percent: typeof h.cost_percent === 'number' ? h.cost_percent : 0 }]
+        : []
+    )
+    : [];
+
+const answerObject = (answer: Json | null): Record<string, Json | undefined> =>
+  answer && typeof answer === 'object' && !Array.isArray(answer) ? answer : {};
+
+export const defaultOptionsFor = (questionType: QuestionType): string[] => {
+  switch (questionType) {
+    case 'true_false': return [...TRUE_FALSE_OPTIONS];
+    case 'numeric': return [];
+    case 'ordering': return ['', '', ''];
+    default: return ['', '', '', ''];
+  }
+};
+
+export const createEmptyQuestionForm = (questionType: QuestionType = 'single_choice'): QuestionFormData => ({
+  question_type: questionType,
+  question: '',
+  image_url: null,
+  options: defaultOptionsFor(questionType),
+  option_images: defaultOptionsFor(questionType).map(() => null),
+  hints: [],
+  explanation: '',
+  correct_answer: 0,
+  correct_answers: [],
+  numeric_value: '',
+  tolerance_percent: 5,
+});
+
+export const questionFormFromRow = (row: QuizQuestionRow): QuestionFormData => {
+  const answer = answerObject(row.answer);
+  const correct = Array.isArray(answer.correct) ? answer.correct.filter((v): v is number => typeof v === 'number') : [];
+  const options = parseOptions(row.options);
+
+  return {
+    question_type: row.question_type,
+    question: row.question,
+    image_url: row.image_url,
+    options,
+    option_images: parseOptionImages(row.option_images, options.length),
+    hints: parseHints(row.hints),
+    explanation: row.explanation || '',
+    correct_answer: row.correct_answer ?? 0,
+    correct_answers: correct,
+    numeric_value: typeof answer.value === 'number' ? String(answer.value) : '',
+    tolerance_percent: typeof answer.tolerance_percent === 'number' ? answer.tolerance_percent : 5,
+    lineage_id: row.lineage_id,
+  };
+};
+
+// Columns to write for a question form; quiz_id, version_id and order_index are added by the caller
+export const questionRowFromForm = (form: QuestionFormData) => {
+  const base = {
+    question_type: form.question_type,
+    question: form.question,
+    image_url: form.image_url,
+    hints: form.hints
+      .filter(h => h.text.trim())
+      .map((h): Json => ({ text: h.text.trim(), cost_percent: h.cost_percent })),
+    explanation: form.explanation || null,
+    ...(form.lineage_id ? { lineage_id: form.lineage_id } : {}),
+  };
+  const optionImages = parseOptionImages(form.option_images, form.options.length);
+
+  switch (form.question_type) {
+    case 'multi_select':
+      return { ...base, options: form.options, option_images: optionImages, correct_answer: null, answer: { correct: [...form.correct_answers].sort((a, b) => a - b) } };
+    case 'numeric':
+      return { ...base, options: [], option_images: [], correct_answer: null, answer: { value: Number(form.numeric_value), tolerance_percent: form.tolerance_percent } };
+    case 'ordering':
+      return { ...base, options: form.options, option_images: optionImages, correct_answer: null, answer: null };
+    case 'true_false':
+      return { ...base, options: TRUE_FALSE_OPTIONS, option_images: [], correct_answer: form.correct_answer, answer: null };
+    default:
+      return { ...base, options: form.options, option_images: optionImages, correct_answer: form.correct_answer, answer: null };
+  }
+};
+
+// Returns an error message for an invalid question form, or null when it can be saved
+export const validateQuestionForm = (form: QuestionFormData, label: string): string | null => {
+  if (!form.question.trim()) return `${label} is empty`;
+
+  if (form.hints.length > MAX_HINTS) return `${label} can have at most ${MAX_HINTS} hints`;
+  if (form.hints.some(h => !Number.isFinite(h.cost_percent) || h.cost_percent < 0 || h.cost_percent > 100)) {
+    return `Hint costs must be between 0 and 100% for ${label}`;
+  }
+  if (form.hints.reduce((sum, h) => sum + h.cost_percent, 0) > 100) {
+    return `Hint costs can't add up to more than 100% for ${label}`;
+  }
+
+  switch (form.question_type) {
+    case 'single_choice':
+      if (form.options.length < 2) return `${label} needs at least 2 options`;
+      if (form.options.length > MAX_OPTIONS) return `${label} can have at most ${MAX_OPTIONS} options`;
+      if (form.options.some(o => !o.trim())) return `All options are required for ${label}`;
+      if (form.correct_answer < 0 || form.correct_answer >= form.options.length) return `Select the correct option for ${label}`;
+      return null;
+    case 'multi_select':
+      if (form.options.length < 2) return `${label} needs at least 2 options`;
+      if (form.options.length > MAX_OPTIONS) return `${label} can have at most ${MAX_OPTIONS} options`;
+      if (form.options.some(o => !o.trim())) return `All options are required for ${label}`;
+      if (form.correct_answers.length === 0) return `Select at least one correct option for ${label}`;
+      if (form.correct_answers.some(i => i < 0 || i >= form.options.length)) return `Correct options are out of range for ${label}`;
+      return null;
+    case 'numeric':
+      if (form.numeric_value.trim() === '' || !Number.isFinite(Number(form.numeric_value))) {
+        return `Enter a numeric answer for ${label}`;
+      }
+      if (form.tolerance_percent < 0) return `Tolerance can't be negative for ${label}`;
+      return null;
+    case 'ordering': {
+      if (form.options.length < 2) return `${label} needs at least 2 steps`;
+      if (form.options.length > MAX_OPTIONS) return `${label} can have at most ${MAX_OPTIONS} steps`;
+      if (form.options.some(o => !o.trim())) return `All steps are required for ${label}`;
+      const trimmed = form.options.map(o => o.trim());
+      if (new Set(trimmed).size !== trimmed.length) return `Steps must be unique for ${label}`;
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Human-readable correct answer for admin listings
+export const describeCorrectAnswer = (row: QuizQuestionRow): string => {
+  const options = parseOptions(row.options);
+  const answer = answerObject(row.answer);
+
+  switch (row.question_type) {
+    case 'multi_select': {
+      const correct = Array.isArray(answer.correct) ? answer.correct : [];
+      return correct.map(idx => options[Number(idx)]).filter(Boolean).join(', ');
+    }
+    case 'numeric':
+      return `${answer.value} (±${answer.tolerance_percent ?? 0}%)`;
+    case 'ordering':
+      return options.join(' → ');
+    default:
+      return row.correct_answer !== null ? options[row.correct_answer] ?? '' : '';
+  }
+};
+
+export const isResponseComplete = (questionType: QuestionType, response: QuestionResponse): boolean => {
+  if (response === null) return false;
+  switch (questionType) {
+    case 'multi_select': return Array.isArray(response) && response.length > 0;
+    case 'numeric': return typeof response === 'number' && Number.isFinite(response);
+    case 'ordering': return Array.isArray(response) && response.length > 0;
+    default: return typeof response === 'number';
+  }
+};
+
+// The quiz edge functions explain refusals (a closed exam, no attempts left) in the error body
+export const functionErrorMessage = async (error: unknown, fallback: string): Promise<string> => {
+  const context = (error as { context?: Response } | null)?.context;
+  try {
+    const body = await context?.json();
+    return typeof body?.error === 'string' ? body.error : fallback;
+  } catch {
+    return fallback;
+  }
+};
@@ -0,0 +1,30 @@
+// Quiz images live in the private `quiz-media` bucket. Questions store the URL the upload
+// produced; anything showing one needs a signed URL for it instead.
+import { supabase } from '@/integrations/supabase/client';
+
+export const QUIZ_MEDIA_BUCKET = 'quiz-media';
+
+// Enough for an editing session
+const PREVIEW_URL_SECONDS = 60 * 60;
+
+const STORED_URL_MARKER = `/storage/v1/object/public/${QUIZ_MEDIA_BUCKET}/`;
+
+// The object path of a quiz-media image, or null for an image hosted elsewhere
+export const quizMediaPath = (url: string): string | null => {
+  const at = url.indexOf(STORED_URL_MARKER);
+  return at === -1 ? null : decodeURIComponent(url.slice(at + STORED_URL_MARKER.length).split('?')[0]);
+};
+
+// The URL an image is stored under, for an object just uploaded to `path`
+export const storedQuizMediaUrl = (path: string) =>
+  supabase.storage.from(QUIZ_MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+
+// A URL the browser can load; images hosted elsewhere come back unchanged
+export async function signedQuizMediaUrl(url: string): Promise<string> {
+  const path = quizMediaPath(url);
+  if (!path) return url;
+
+  const { data, error } = await supabase.storage.from(QUIZ_MEDIA_BUCKET).createSignedUrl(path, PREVIEW_URL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+}
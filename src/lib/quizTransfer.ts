@@ -0,0 +1,802 @@
+import { z } from 'zod';
+import {
+  MAX_OPTIONS,
+  QUESTION_TYPES,
+  QUIZ_DIFFICULTIES,
+  createEmptyQuestionForm,
+  validateQuestionForm,
+  type QuestionFormData,
+  type QuestionHint,
+  type QuestionType,
+  type QuizDifficulty,
+} from '@/lib/quiz';
+
+// Import and export of whole quizzes: settings plus their own questions.
+// Bank draws are not included since banks belong to this site only.
+//
+// JSON (the lossless format):
+//   {
+//     "format": "roboclub-quiz",
+//     "version": 1,
+//     "quizzes": [{
+//       "title": "Sensors 101",              required
+//       "description": "...",               optional
+//       "difficulty": "easy" | "medium" | "hard"  (default "medium")
+//       "timer_per_question": 120,          seconds, 10-600 (default 120)
+//       "xp_reward": 15,                    0-1000 (default 15)
+//       "questions": [
+//         { "type": "single_choice", "question": "...", "options": ["A", "B"], "correct": 0 },
+//         { "type": "multi_select",  "question": "...", "options": ["A", "B", "C"], "correct": [0, 2] },
+//         { "type": "true_false",    "question": "...", "correct": true },
+//         { "type": "numeric",       "question": "...", "value": 220, "tolerance_percent": 5 },
+//         { "type": "ordering",      "question": "...", "options": ["first", "second", "third"] }
+//       ]
+//     }]
+//   }
+//   Every question may also have "hints" ([{ "text": "...", "cost_percent": 25 }], revealed in order),
+//   "explanation" and "image_url"; a single "hint" string is still read as one free hint. Choice and
+//   ordering questions may have "option_images" aligned with "options" (null for no image).
+//   Option indices are 0-based and ordering options are listed in the correct order.
+//
+// CSV: one row per question with a header row. Columns:
+//   quiz, description, difficulty, timer_per_question, xp_reward, type, question,
+//   option_1 ... option_8, correct, tolerance_percent, hint, explanation, image_url
+//   Quiz settings are read from the first row of each quiz. "correct" is the option number (1, 2...)
+//   or letter (A, B...) for single choice, several separated by ";" for multi-select, true/false
+//   for true/false, and the value for numeric. Ordering questions list their options in order.
+//   "hint" holds the hints one per line; hint costs aren't carried, so imported hints are free.
+//
+// Moodle GIFT: multiple choice, multiple answers (weighted ~%n%), true/false and numeric questions.
+//   "$CATEGORY:" lines name the quiz, and the general feedback ("####") carries the first hint.
+//   GIFT has no ordering type, so ordering questions are left out of GIFT exports.
+
+export type TransferFormat = 'json' | 'csv' | 'gift';
+
+export const TRANSFER_FORMATS: Record<TransferFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  csv: { label: 'CSV (spreadsheet)', extension: 'csv', mimeType: 'text/csv' },
+  gift: { label: 'Moodle GIFT', extension: 'gift', mimeType: 'text/plain' },
+};
+
+export interface TransferQuiz {
+  title: string;
+  description: string;
+  difficulty: QuizDifficulty;
+  timer_per_question: number;
+  xp_reward: number;
+  questions: QuestionFormData[];
+}
+
+export interface ImportIssue {
+  location: string;
+  message: string;
+}
+
+export interface ImportResult {
+  quizzes: TransferQuiz[];
+  issues: ImportIssue[];
+}
+
+export interface ExportResult {
+  content: string;
+  warnings: string[];
+}
+
+const JSON_FORMAT = 'roboclub-quiz';
+const JSON_VERSION = 1;
+const MIN_TIMER = 10;
+const MAX_TIMER = 600;
+const MAX_XP = 1000;
+
+const DEFAULT_SETTINGS = {
+  description: '',
+  difficulty: 'medium' as QuizDifficulty,
+  timer_per_question: 120,
+  xp_reward: 15,
+};
+
+export const formatFromFilename = (filename: string): TransferFormat | null => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'gift' || extension === 'txt') return 'gift';
+  return null;
+};
+
+export const downloadTextFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const alignImages = (images: (string | null)[] | undefined, length: number): (string | null)[] =>
+  Array.from({ length }, (_, i) => images?.[i] ?? null);
+
+// Formats without hint costs carry plain hint text, one hint per line
+const freeHints = (text: string): QuestionHint[] =>
+  text.split('\n').map(t => t.trim()).filter(Boolean).map(t => ({ text: t, cost_percent: 0 }));
+
+// Runs the same checks as the editor; returns false and records an issue when the question is invalid
+const checkQuestion = (form: QuestionFormData, location: string, issues: ImportIssue[]): boolean => {
+  const error = validateQuestionForm(form, 'this question');
+  if (error) {
+    issues.push({ location, message: error.charAt(0).toUpperCase() + error.slice(1) });
+    return false;
+  }
+  return true;
+};
+
+// ---------------------------------------------------------------------------
+// JSON
+
+const optionText = z.string().trim().min(1, 'Options cannot be empty');
+const optionImages = z.array(z.string().url().nullable()).optional();
+const questionBase = {
+  question: z.string().trim().min(1, 'Question text is required'),
+  hint: z.string().nullable().optional(),
+  hints: z.array(z.object({
+    text: z.string().trim().min(1, 'Hints cannot be empty'),
+    cost_percent: z.number().min(0).max(100).default(0),
+  })).optional(),
+  explanation: z.string().nullable().optional(),
+  image_url: z.string().url().nullable().optional(),
+};
+
+const jsonQuestionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('single_choice'), ...questionBase, options: z.array(optionText), option_images: optionImages, correct: z.number().int() }),
+  z.object({ type: z.literal('multi_select'), ...questionBase, options: z.array(optionText), option_images: optionImages, correct: z.array(z.number().int()) }),
+  z.object({ type: z.literal('true_false'), ...questionBase, correct: z.boolean() }),
+  z.object({ type: z.literal('numeric'), ...questionBase, value: z.number(), tolerance_percent: z.number().min(0).default(0) }),
+  z.object({ type: z.literal('ordering'), ...questionBase, options: z.array(optionText), option_images: optionImages }),
+]);
+
+type JsonQuestion = z.infer<typeof jsonQuestionSchema>;
+
+const jsonQuizSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  description: z.string().nullable().optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']).default(DEFAULT_SETTINGS.difficulty),
+  timer_per_question: z.number().int().min(MIN_TIMER).max(MAX_TIMER).default(DEFAULT_SETTINGS.timer_per_question),
+  xp_reward: z.number().int().min(0).max(MAX_XP).default(DEFAULT_SETTINGS.xp_reward),
+  questions: z.array(z.unknown()),
+});
+
+const jsonFileSchema = z.object({
+  format: z.literal(JSON_FORMAT),
+  version: z.literal(JSON_VERSION),
+  quizzes: z.array(z.unknown()).min(1, 'The file has no quizzes'),
+});
+
+const zodMessage = (error: z.ZodError) =>
+  error.issues.map(i => (i.path.length > 0 ? `${i.path.join('.')}: ${i.message}` : i.message)).join('; ');
+
+const formFromJson = (q: JsonQuestion): QuestionFormData => {
+  const form: QuestionFormData = {
+    ...createEmptyQuestionForm(q.type),
+    question: q.question,
+    hints: q.hints?.map(h => ({ text: h.text, cost_percent: h.cost_percent })) ?? freeHints(q.hint ?? ''),
+    explanation: q.explanation ?? '',
+    image_url: q.image_url ?? null,
+  };
+
+  switch (q.type) {
+    case 'single_choice':
+      return { ...form, options: q.options, option_images: alignImages(q.option_images, q.options.length), correct_answer: q.correct };
+    case 'multi_select':
+      return { ...form, options: q.options, option_images: alignImages(q.option_images, q.options.length), correct_answers: q.correct };
+    case 'true_false':
+      return { ...form, correct_answer: q.correct ? 0 : 1 };
+    case 'numeric':
+      return { ...form, numeric_value: String(q.value), tolerance_percent: q.tolerance_percent };
+    case 'ordering':
+      return { ...form, options: q.options, option_images: alignImages(q.option_images, q.options.length) };
+  }
+};
+
+const jsonFromForm = (form: QuestionFormData) => {
+  const base = {
+    type: form.question_type,
+    question: form.question,
+    hints: form.hints,
+    explanation: form.explanation || null,
+    image_url: form.image_url,
+  };
+  const images = form.option_images.some(Boolean) ? { option_images: alignImages(form.option_images, form.options.length) } : {};
+
+  switch (form.question_type) {
+    case 'single_choice':
+      return { ...base, options: form.options, ...images, correct: form.correct_answer };
+    case 'multi_select':
+      return { ...base, options: form.options, ...images, correct: [...form.correct_answers].sort((a, b) => a - b) };
+    case 'true_false':
+      return { ...base, correct: form.correct_answer === 0 };
+    case 'numeric':
+      return { ...base, value: Number(form.numeric_value), tolerance_percent: form.tolerance_percent };
+    case 'ordering':
+      return { ...base, options: form.options, ...images };
+  }
+};
+
+const parseJson = (text: string): ImportResult => {
+  const issues: ImportIssue[] = [];
+  const quizzes: TransferQuiz[] = [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { quizzes, issues: [{ location: 'File', message: `Not valid JSON: ${(error as Error).message}` }] };
+  }
+
+  const file = jsonFileSchema.safeParse(raw);
+  if (!file.success) {
+    return { quizzes, issues: [{ location: 'File', message: zodMessage(file.error) }] };
+  }
+
+  file.data.quizzes.forEach((rawQuiz, quizIdx) => {
+    const quizLocation = `Quiz ${quizIdx + 1}`;
+    const quiz = jsonQuizSchema.safeParse(rawQuiz);
+    if (!quiz.success) {
+      issues.push({ location: quizLocation, message: zodMessage(quiz.error) });
+      return;
+    }
+
+    const questions: QuestionFormData[] = [];
+    quiz.data.questions.forEach((rawQuestion, questionIdx) => {
+      const location = `${quizLocation}, question ${questionIdx + 1}`;
+      const question = jsonQuestionSchema.safeParse(rawQuestion);
+      if (!question.success) {
+        issues.push({ location, message: zodMessage(question.error) });
+        return;
+      }
+      const form = formFromJson(question.data);
+      if (checkQuestion(form, location, issues)) questions.push(form);
+    });
+
+    quizzes.push({
+      title: quiz.data.title,
+      description: quiz.data.description ?? '',
+      difficulty: quiz.data.difficulty,
+      timer_per_question: quiz.data.timer_per_question,
+      xp_reward: quiz.data.xp_reward,
+      questions,
+    });
+  });
+
+  return { quizzes, issues };
+};
+
+const serializeJson = (quizzes: TransferQuiz[]): ExportResult => ({
+  content: JSON.stringify({
+    format: JSON_FORMAT,
+    version: JSON_VERSION,
+    quizzes: quizzes.map(quiz => ({
+      title: quiz.title,
+      description: quiz.description || null,
+      difficulty: quiz.difficulty,
+      timer_per_question: quiz.timer_per_question,
+      xp_reward: quiz.xp_reward,
+      questions: quiz.questions.map(jsonFromForm),
+    })),
+  }, null, 2),
+  warnings: [],
+});
+
+// ---------------------------------------------------------------------------
+// CSV
+
+const OPTION_COLUMNS = Array.from({ length: MAX_OPTIONS }, (_, i) => `option_${i + 1}`);
+
+const CSV_COLUMNS = [
+  'quiz', 'description', 'difficulty', 'timer_per_question', 'xp_reward', 'type', 'question',
+  ...OPTION_COLUMNS, 'correct', 'tolerance_percent', 'hint', 'explanation', 'image_url',
+];
+
+// RFC 4180: quoted fields may contain commas, quotes ("") and newlines
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+};
+
+const csvCell = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const normalizeType = (value: string): QuestionType | null => {
+  const normalized = (value.trim() || 'single_choice').toLowerCase().replace(/[\s/-]+/g, '_');
+  return QUESTION_TYPES.find(t => t === normalized) ?? null;
+};
+
+// "2" or "B" -> 1
+const parseOptionRef = (value: string): number | null => {
+  const ref = value.trim();
+  if (/^\d+$/.test(ref)) return Number(ref) - 1;
+  if (/^[a-h]$/i.test(ref)) return ref.toUpperCase().charCodeAt(0) - 65;
+  return null;
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const normalized = value.trim().toLowerCase();
+  if (['true', 't', 'yes', 'y'].includes(normalized)) return true;
+  if (['false', 'f', 'no', 'n'].includes(normalized)) return false;
+  return null;
+};
+
+const parseCsvSettings = (cell: (column: string) => string, location: string, issues: ImportIssue[]) => {
+  const settings = { ...DEFAULT_SETTINGS, description: cell('description') };
+
+  const difficulty = cell('difficulty').toLowerCase();
+  if (difficulty) {
+    if (QUIZ_DIFFICULTIES.includes(difficulty as QuizDifficulty)) settings.difficulty = difficulty as QuizDifficulty;
+    else issues.push({ location, message: `Difficulty must be easy, medium or hard (got "${cell('difficulty')}")` });
+  }
+
+  const timer = cell('timer_per_question');
+  if (timer) {
+    const seconds = Number(timer);
+    if (Number.isInteger(seconds) && seconds >= MIN_TIMER && seconds <= MAX_TIMER) settings.timer_per_question = seconds;
+    else issues.push({ location, message: `timer_per_question must be a whole number of seconds between ${MIN_TIMER} and ${MAX_TIMER}` });
+  }
+
+  const xp = cell('xp_reward');
+  if (xp) {
+    const amount = Number(xp);
+    if (Number.isInteger(amount) && amount >= 0 && amount <= MAX_XP) settings.xp_reward = amount;
+    else issues.push({ location, message: `xp_reward must be a whole number between 0 and ${MAX_XP}` });
+  }
+
+  return settings;
+};
+
+const parseCsv = (text: string): ImportResult => {
+  const issues: ImportIssue[] = [];
+  const records = parseCsvRecords(text);
+
+  if (records.length === 0) {
+    return { quizzes: [], issues: [{ location: 'File', message: 'The file is empty' }] };
+  }
+
+  const header = records[0].map(h => h.trim().toLowerCase());
+  const missing = ['quiz', 'question'].filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    return { quizzes: [], issues: [{ location: 'Row 1', message: `Missing required column(s): ${missing.join(', ')}` }] };
+  }
+
+  const quizzesByTitle = new Map<string, TransferQuiz>();
+
+  records.slice(1).forEach((record, idx) => {
+    // Row numbers match what a spreadsheet shows, counting the header as row 1
+    const location = `Row ${idx + 2}`;
+    if (record.every(value => value.trim() === '')) return;
+
+    const cell = (column: string) => {
+      const position = header.indexOf(column);
+      return position >= 0 ? (record[position] ?? '').trim() : '';
+    };
+
+    const title = cell('quiz');
+    if (!title) {
+      issues.push({ location, message: 'The quiz column is empty' });
+      return;
+    }
+
+    if (!quizzesByTitle.has(title)) {
+      quizzesByTitle.set(title, { ...parseCsvSettings(cell, location, issues), title, questions: [] });
+    }
+
+    const questionType = normalizeType(cell('type'));
+    if (!questionType) {
+      issues.push({ location, message: `Unknown question type "${cell('type')}". Use one of: ${QUESTION_TYPES.join(', ')}` });
+      return;
+    }
+
+    // Options keep their column positions, so "correct" refers to the columns as written
+    const optionCells = OPTION_COLUMNS.map(cell);
+    const options = optionCells.slice(0, optionCells.reduce((end, option, i) => (option ? i + 1 : end), 0));
+    const gap = options.findIndex(option => !option);
+    if (gap !== -1 && ['single_choice', 'multi_select', 'ordering'].includes(questionType)) {
+      issues.push({ location, message: `${OPTION_COLUMNS[gap]} is empty; fill the option columns in order without gaps` });
+      return;
+    }
+    const correct = cell('correct');
+    const imageUrl = cell('image_url');
+    const form: QuestionFormData = {
+      ...createEmptyQuestionForm(questionType),
+      question: cell('question'),
+      hints: freeHints(cell('hint')),
+      explanation: cell('explanation'),
+      image_url: imageUrl || null,
+    };
+
+    switch (questionType) {
+      case 'single_choice': {
+        const index = parseOptionRef(correct);
+        if (index === null) {
+          issues.push({ location, message: 'correct must be an option number (1, 2...) or letter (A, B...)' });
+          return;
+        }
+        Object.assign(form, { options, option_images: options.map(() => null), correct_answer: index });
+        break;
+      }
+      case 'multi_select': {
+        const indices = correct.split(/[;|,\s]+/).filter(Boolean).map(parseOptionRef);
+        if (indices.length === 0 || indices.some(i => i === null)) {
+          issues.push({ location, message: 'correct must list option numbers or letters separated by ";" (e.g. 1;3)' });
+          return;
+        }
+        Object.assign(form, { options, option_images: options.map(() => null), correct_answers: [...new Set(indices)] });
+        break;
+      }
+      case 'true_false': {
+        const value = parseBoolean(correct);
+        if (value === null) {
+          issues.push({ location, message: 'correct must be true or false' });
+          return;
+        }
+        form.correct_answer = value ? 0 : 1;
+        break;
+      }
+      case 'numeric': {
+        const tolerance = cell('tolerance_percent');
+        form.numeric_value = correct;
+        form.tolerance_percent = tolerance ? Number(tolerance) : 0;
+        if (!Number.isFinite(form.tolerance_percent)) {
+          issues.push({ location, message: 'tolerance_percent must be a number' });
+          return;
+        }
+        break;
+      }
+      case 'ordering':
+        Object.assign(form, { options, option_images: options.map(() => null) });
+        break;
+    }
+
+    if (checkQuestion(form, location, issues)) quizzesByTitle.get(title)!.questions.push(form);
+  });
+
+  return { quizzes: [...quizzesByTitle.values()], issues };
+};
+
+const csvCorrect = (form: QuestionFormData): string => {
+  switch (form.question_type) {
+    case 'single_choice': return String(form.correct_answer + 1);
+    case 'multi_select': return [...form.correct_answers].sort((a, b) => a - b).map(i => i + 1).join(';');
+    case 'true_false': return form.correct_answer === 0 ? 'true' : 'false';
+    case 'numeric': return form.numeric_value;
+    default: return '';
+  }
+};
+
+const serializeCsv = (quizzes: TransferQuiz[]): ExportResult => {
+  const warnings: string[] = [];
+  const rows = [CSV_COLUMNS];
+
+  quizzes.forEach(quiz => {
+    quiz.questions.forEach((form, idx) => {
+      if (form.option_images.some(Boolean)) {
+        warnings.push(`${quiz.title}, question ${idx + 1}: option images aren't included in CSV`);
+      }
+      if (form.hints.some(h => h.cost_percent > 0)) {
+        warnings.push(`${quiz.title}, question ${idx + 1}: hint costs aren't included in CSV`);
+      }
+      const options = form.question_type === 'true_false' || form.question_type === 'numeric' ? [] : form.options;
+
+      rows.push([
+        quiz.title,
+        quiz.description,
+        quiz.difficulty,
+        String(quiz.timer_per_question),
+        String(quiz.xp_reward),
+        form.question_type,
+        form.question,
+        ...OPTION_COLUMNS.map((_, i) => options[i] ?? ''),
+        csvCorrect(form),
+        form.question_type === 'numeric' ? String(form.tolerance_percent) : '',
+        form.hints.map(h => h.text).join('\n'),
+        form.explanation,
+        form.image_url ?? '',
+      ]);
+    });
+  });
+
+  return { content: rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n', warnings };
+};
+
+// ---------------------------------------------------------------------------
+// Moodle GIFT
+
+const giftEscape = (text: string) => text.replace(/([~=#{}:\\])/g, '\\$1').replace(/\r?\n/g, '\\n');
+
+const giftUnescape = (text: string) =>
+  text.replace(/\\n/g, '\n').replace(/\\([~=#{}:\\])/g, '$1').trim();
+
+// Index of the first occurrence of `token` not preceded by a backslash escape
+const indexOfUnescaped = (text: string, token: string, from = 0): number => {
+  for (let i = from; i <= text.length - token.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text.startsWith(token, i)) return i;
+  }
+  return -1;
+};
+
+// Splits "=a ~b ~%50%c" into its answers, dropping per-answer "#feedback"
+const splitGiftAnswers = (body: string) => {
+  const answers: { marker: '=' | '~'; weight: number | null; text: string }[] = [];
+  let i = 0;
+
+  while (i < body.length) {
+    const char = body[i];
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+    if (char === '=' || char === '~') {
+      let end = i + 1;
+      while (end < body.length && !((body[end] === '=' || body[end] === '~') && body[end - 1] !== '\\')) end++;
+
+      let text = body.slice(i + 1, end);
+      const feedbackAt = indexOfUnescaped(text, '#');
+      if (feedbackAt >= 0) text = text.slice(0, feedbackAt);
+
+      const weightMatch = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+      answers.push({
+        marker: char,
+        weight: weightMatch ? Number(weightMatch[1]) : null,
+        text: giftUnescape(weightMatch ? text.slice(weightMatch[0].length) : text),
+      });
+      i = end;
+      continue;
+    }
+    i++;
+  }
+
+  return answers;
+};
+
+// Parses one GIFT question; returns an error message for unsupported or malformed questions
+const parseGiftQuestion = (block: string): QuestionFormData | string => {
+  let text = block.trim().replace(/^::(?:\\.|[^:])*::/, '').trim();
+  text = text.replace(/^\[(?:html|moodle|plain|markdown)\]/i, '');
+
+  const open = indexOfUnescaped(text, '{');
+  const close = open >= 0 ? indexOfUnescaped(text, '}', open + 1) : -1;
+  if (open < 0 || close < 0) return 'Question has no {answer} block';
+
+  const before = giftUnescape(text.slice(0, open));
+  const after = giftUnescape(text.slice(close + 1));
+  const question = after ? `${before} _____ ${after}` : before;
+
+  let body = text.slice(open + 1, close);
+  let hint = '';
+  const generalFeedbackAt = indexOfUnescaped(body, '####');
+  if (generalFeedbackAt >= 0) {
+    hint = giftUnescape(body.slice(generalFeedbackAt + 4));
+    body = body.slice(0, generalFeedbackAt);
+  }
+  body = body.trim();
+
+  const base = { question, hints: freeHints(hint) };
+
+  if (body.startsWith('#')) {
+    const spec = body.slice(1).replace(/^=/, '').split(/[=~#]/)[0].trim();
+    const range = spec.match(/^(-?\d+(?:\.\d+)?)\.\.(-?\d+(?:\.\d+)?)$/);
+    const single = spec.match(/^(-?\d+(?:\.\d+)?)(?::(\d+(?:\.\d+)?))?$/);
+
+    let value: number;
+    let tolerance: number;
+    if (range) {
+      const [low, high] = [Number(range[1]), Number(range[2])];
+      value = (low + high) / 2;
+      tolerance = (high - low) / 2;
+    } else if (single) {
+      value = Number(single[1]);
+      tolerance = single[2] ? Number(single[2]) : 0;
+    } else {
+      return `Unrecognised numeric answer "{#${spec}}"`;
+    }
+
+    // GIFT tolerances are absolute; questions here use a percentage of the answer
+    const tolerancePercent = value !== 0 ? Math.round((tolerance / Math.abs(value)) * 100 * 100) / 100 : 0;
+    return { ...createEmptyQuestionForm('numeric'), ...base, numeric_value: String(value), tolerance_percent: tolerancePercent };
+  }
+
+  const trueFalse = body.match(/^(TRUE|FALSE|T|F)\b/i);
+  if (trueFalse) {
+    return { ...createEmptyQuestionForm('true_false'), ...base, correct_answer: trueFalse[1].toUpperCase().startsWith('T') ? 0 : 1 };
+  }
+
+  if (indexOfUnescaped(body, '->') >= 0) return 'Matching questions are not supported';
+
+  const answers = splitGiftAnswers(body);
+  if (answers.length === 0) return 'Essay and description questions are not supported';
+  if (answers.every(a => a.marker === '=')) return 'Short-answer questions are not supported';
+
+  const options = answers.map(a => a.text);
+  const weighted = answers.some(a => a.weight !== null);
+  const correct = answers
+    .map((a, i) => ((weighted ? (a.weight ?? 0) > 0 : a.marker === '=') ? i : -1))
+    .filter(i => i >= 0);
+
+  if (weighted || correct.length > 1) {
+    return { ...createEmptyQuestionForm('multi_select'), ...base, options, option_images: options.map(() => null), correct_answers: correct };
+  }
+
+  return {
+    ...createEmptyQuestionForm('single_choice'),
+    ...base,
+    options,
+    option_images: options.map(() => null),
+    correct_answer: correct[0] ?? -1,
+  };
+};
+
+const parseGift = (text: string, fallbackTitle: string): ImportResult => {
+  const issues: ImportIssue[] = [];
+  const quizzesByTitle = new Map<string, TransferQuiz>();
+  let currentTitle = fallbackTitle;
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let block: string[] = [];
+  let blockStart = 0;
+
+  const flush = () => {
+    if (block.length === 0) return;
+    const location = `Line ${blockStart}`;
+    const parsed = parseGiftQuestion(block.join('\n'));
+    block = [];
+
+    if (typeof parsed === 'string') {
+      issues.push({ location, message: parsed });
+      return;
+    }
+    if (!checkQuestion(parsed, location, issues)) return;
+
+    if (!quizzesByTitle.has(currentTitle)) {
+      quizzesByTitle.set(currentTitle, { ...DEFAULT_SETTINGS, title: currentTitle, questions: [] });
+    }
+    quizzesByTitle.get(currentTitle)!.questions.push(parsed);
+  };
+
+  lines.forEach((line, idx) => {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('//')) return;
+
+    if (trimmed.startsWith('$CATEGORY:')) {
+      flush();
+      // "$course$/top/Sensors" -> "Sensors"
+      const category = trimmed.slice('$CATEGORY:'.length).trim().split('/').filter(Boolean).pop();
+      if (category) currentTitle = category;
+      return;
+    }
+
+    if (trimmed === '') {
+      flush();
+      return;
+    }
+
+    if (block.length === 0) blockStart = idx + 1;
+    block.push(line);
+  });
+  flush();
+
+  if (quizzesByTitle.size === 0 && issues.length === 0) {
+    issues.push({ location: 'File', message: 'No questions found' });
+  }
+
+  return { quizzes: [...quizzesByTitle.values()], issues };
+};
+
+const giftAnswers = (form: QuestionFormData): string => {
+  switch (form.question_type) {
+    case 'true_false':
+      return form.correct_answer === 0 ? 'TRUE' : 'FALSE';
+    case 'numeric': {
+      const value = Number(form.numeric_value);
+      const tolerance = Math.round(Math.abs(value) * form.tolerance_percent) / 100;
+      return tolerance > 0 ? `#${value}:${tolerance}` : `#${value}`;
+    }
+    case 'multi_select': {
+      // Moodle wants the correct weights to add up to 100%
+      const share = Number((100 / form.correct_answers.length).toFixed(5));
+      return form.options
+        .map((option, i) => `~%${form.correct_answers.includes(i) ? share : -100}%${giftEscape(option)}`)
+        .join(' ');
+    }
+    default:
+      return form.options
+        .map((option, i) => `${i === form.correct_answer ? '=' : '~'}${giftEscape(option)}`)
+        .join(' ');
+  }
+};
+
+const serializeGift = (quizzes: TransferQuiz[]): ExportResult => {
+  const warnings: string[] = [];
+  const sections = quizzes.map(quiz => {
+    const questions = quiz.questions.flatMap((form, idx) => {
+      if (form.question_type === 'ordering') {
+        warnings.push(`${quiz.title}, question ${idx + 1}: ordering questions can't be written as GIFT and were left out`);
+        return [];
+      }
+      if (form.hints.length > 1 || form.hints.some(h => h.cost_percent > 0)) {
+        warnings.push(`${quiz.title}, question ${idx + 1}: GIFT keeps only the first hint, without its cost`);
+      }
+      const hint = form.hints.length > 0 ? ` ####${giftEscape(form.hints[0].text)}` : '';
+      return [`::Q${idx + 1}:: ${giftEscape(form.question)} {${giftAnswers(form)}${hint}}`];
+    });
+
+    return [`// ${quiz.title}`, `$CATEGORY: ${quiz.title}`, '', ...questions.flatMap(q => [q, ''])].join('\n');
+  });
+
+  if (quizzes.some(q => q.questions.some(form => form.image_url || form.option_images.some(Boolean)))) {
+    warnings.push("Images aren't included in GIFT files");
+  }
+  if (quizzes.some(q => q.questions.some(form => form.explanation))) {
+    warnings.push("Explanations aren't included in GIFT files");
+  }
+
+  return { content: sections.join('\n'), warnings };
+};
+
+// ---------------------------------------------------------------------------
+
+export const parseQuizFile = (format: TransferFormat, text: string, fallbackTitle = 'Imported quiz'): ImportResult => {
+  switch (format) {
+    case 'json': return parseJson(text);
+    case 'csv': return parseCsv(text);
+    case 'gift': return parseGift(text, fallbackTitle);
+  }
+};
+
+export const serializeQuizzes = (format: TransferFormat, quizzes: TransferQuiz[]): ExportResult => {
+  switch (format) {
+    case 'json': return serializeJson(quizzes);
+    case 'csv': return serializeCsv(quizzes);
+    case 'gift': return serializeGift(quizzes);
+  }
+};
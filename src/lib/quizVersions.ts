@@ -0,0 +1,79 @@
+import { parseHints, parseOptionImages, parseOptions, type QuizQuestionRow } from '@/lib/quiz';
+
+// A quiz_versions row; published_at is null for the quiz's draft
+export interface QuizVersion {
+  id: string;
+  quiz_id: string;
+  version_number: number;
+  published_at: string | null;
+  published_by: string | null;
+  created_at: string;
+}
+
+export type QuestionChangeKind = 'added' | 'removed' | 'changed';
+
+// One question that differs between two versions, matched up by lineage_id
+export interface QuestionChange {
+  kind: QuestionChangeKind;
+  lineage_id: string;
+  before: QuizQuestionRow | null;
+  after: QuizQuestionRow | null;
+  // For 'changed': the parts of the question that differ
+  fields: string[];
+}
+
+export const versionLabel = (version: Pick<QuizVersion, 'version_number' | 'published_at'>): string =>
+  `v${version.version_number}${version.published_at ? '' : ' (draft)'}`;
+
+const COMPARED_FIELDS: [string, (q: QuizQuestionRow) => unknown][] = [
+  ['Type', q => q.question_type],
+  ['Question', q => q.question],
+  ['Image', q => q.image_url],
+  ['Options', q => parseOptions(q.options)],
+  ['Option images', q => parseOptionImages(q.option_images, parseOptions(q.options).length)],
+  ['Correct answer', q => [q.correct_answer, q.answer]],
+  ['Hints', q => parseHints(q.hints)],
+  ['Explanation', q => q.explanation || ''],
+];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// What changed going from one version's questions to another's, in the newer version's order
+// with removed questions last. Questions kept in both count as reordered when their position
+// relative to the other kept questions moved.
+export const diffQuestionVersions = (before: QuizQuestionRow[], after: QuizQuestionRow[]): QuestionChange[] => {
+  const byOrder = (a: QuizQuestionRow, b: QuizQuestionRow) => a.order_index - b.order_index;
+  const oldQuestions = [...before].sort(byOrder);
+  const newQuestions = [...after].sort(byOrder);
+
+  const oldByLineage = new Map(oldQuestions.map(q => [q.lineage_id, q]));
+  const newLineages = new Set(newQuestions.map(q => q.lineage_id));
+
+  const keptOld = oldQuestions.filter(q => newLineages.has(q.lineage_id)).map(q => q.lineage_id);
+  const keptNew = newQuestions.filter(q => oldByLineage.has(q.lineage_id)).map(q => q.lineage_id);
+
+  const changes: QuestionChange[] = [];
+
+  newQuestions.forEach(q => {
+    const previous = oldByLineage.get(q.lineage_id);
+    if (!previous) {
+      changes.push({ kind: 'added', lineage_id: q.lineage_id, before: null, after: q, fields: [] });
+      return;
+    }
+
+    const fields = COMPARED_FIELDS
+      .filter(([, value]) => !sameValue(value(previous), value(q)))
+      .map(([label]) => label);
+    if (keptOld.indexOf(q.lineage_id) !== keptNew.indexOf(q.lineage_id)) fields.push('Position');
+
+    if (fields.length > 0) {
+      changes.push({ kind: 'changed', lineage_id: q.lineage_id, before: previous, after: q, fields });
+    }
+  });
+
+  oldQuestions
+    .filter(q => !newLineages.has(q.lineage_id))
+    .forEach(q => changes.push({ kind: 'removed', lineage_id: q.lineage_id, before: q, after: null, fields: [] }));
+
+  return changes;
+};
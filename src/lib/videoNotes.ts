@@ -0,0 +1,66 @@
+import { format } from 'date-fns';
+import { formatPlaybackTime } from '@/lib/videos';
+
+export interface VideoNote {
+  id: string;
+  video_id: string;
+  timestamp_seconds: number;
+  // Empty for a bookmark
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NoteVideo {
+  id: string;
+  title: string;
+}
+
+export interface VideoNoteGroup {
+  video: NoteVideo;
+  notes: VideoNote[];
+}
+
+// Notes grouped by video, in the order the videos are given; videos without notes are left out
+export const groupNotesByVideo = (notes: VideoNote[], videos: NoteVideo[]): VideoNoteGroup[] =>
+  videos
+    .map(video => ({
+      video,
+      notes: notes
+        .filter(n => n.video_id === video.id)
+        .sort((a, b) => a.timestamp_seconds - b.timestamp_seconds),
+    }))
+    .filter(group => group.notes.length > 0);
+
+// Case-insensitive match on the note text or its video's title
+export const searchNoteGroups = (groups: VideoNoteGroup[], query: string): VideoNoteGroup[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return groups;
+
+  return groups
+    .map(group => group.video.title.toLowerCase().includes(needle)
+      ? group
+      : { ...group, notes: group.notes.filter(n => n.body.toLowerCase().includes(needle)) })
+    .filter(group => group.notes.length > 0);
+};
+
+// One heading per video, one bullet per note:
+//
+//   ## Servo basics
+//   - **[1:05]** Pulse width sets the angle
+//   - **[3:40]** _(bookmark)_
+export const notesToMarkdown = (groups: VideoNoteGroup[], exportedAt = new Date()): string => {
+  const lines = ['# My Video Notes', '', `Exported ${format(exportedAt, 'MMM d, yyyy')}`];
+
+  for (const { video, notes } of groups) {
+    lines.push('', `## ${video.title}`, '');
+    for (const note of notes) {
+      const text = note.body.trim()
+        ? note.body.trim().replace(/\n+/g, '\n  ')
+        : '_(bookmark)_';
+      lines.push(`- **[${formatPlaybackTime(note.timestamp_seconds)}]** ${text}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,230 @@
+// Video files for the `videos` storage bucket. Large files go up through Supabase Storage's
+// resumable (TUS) endpoint in fixed-size chunks, so a dropped connection only costs the chunk in
+// flight: retrying the same file picks up from the last chunk the server confirmed.
+import { supabase } from '@/integrations/supabase/client';
+
+export const VIDEO_BUCKET = 'videos';
+
+export const VIDEO_MIME_TYPES = ['video/mp4', 'video/webm'];
+
+export const MAX_VIDEO_BYTES = 2 * 1024 * 1024 * 1024;
+
+// Supabase requires exactly 6 MB chunks (except the last one)
+const CHUNK_BYTES = 6 * 1024 * 1024;
+
+const TUS_VERSION = '1.0.0';
+
+// Upload URLs of unfinished uploads, keyed by file fingerprint
+const RESUME_KEY_PREFIX = 'video-upload:';
+
+const resumeKey = (file: File) => `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+interface SavedUpload {
+  url: string;
+  path: string;
+}
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(',');
+
+const authHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('You need to be signed in to upload');
+  return {
+    authorization: `Bearer ${session.access_token}`,
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    'Tus-Resumable': TUS_VERSION,
+  };
+};
+
+const createUpload = async (file: File, path: string, headers: Record<string, string>): Promise<string> => {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'x-upsert': 'true',
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: VIDEO_BUCKET,
+        objectName: path,
+        contentType: file.type,
+        cacheControl: '3600',
+      }),
+    },
+  });
+
+  const location = response.headers.get('Location');
+  if (!response.ok || !location) {
+    throw new Error(`Could not start the upload (${response.status})`);
+  }
+  return location;
+};
+
+// The offset the server has confirmed for an upload, or null if it no longer exists
+const confirmedOffset = async (url: string, headers: Record<string, string>): Promise<number | null> => {
+  const response = await fetch(url, { method: 'HEAD', headers });
+  if (!response.ok) return null;
+  const offset = Number(response.headers.get('Upload-Offset'));
+  return Number.isFinite(offset) ? offset : null;
+};
+
+// XHR rather than fetch, for upload progress events
+const sendChunk = (
+  url: string,
+  headers: Record<string, string>,
+  offset: number,
+  chunk: Blob,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', url);
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+
+    xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status === 204) {
+        resolve(Number(xhr.getResponseHeader('Upload-Offset')) || offset + chunk.size);
+      } else {
+        reject(new Error(`Upload failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload interrupted, try again to resume'));
+    xhr.onabort = () => reject(new Error('Upload cancelled'));
+
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(chunk);
+  });
+
+// Uploads a file to `path` in the videos bucket, reporting progress from 0 to 1. If an earlier
+// attempt at the same file was interrupted, it carries on into that attempt's path instead and
+// returns it.
+export async function uploadVideoFile(
+  file: File,
+  path: string,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  const headers = await authHeaders();
+  const key = resumeKey(file);
+
+  let upload: SavedUpload | null = null;
+  let offset = 0;
+
+  const saved = localStorage.getItem(key);
+  if (saved) {
+    try {
+      upload = JSON.parse(saved) as SavedUpload;
+      const resumedAt = await confirmedOffset(upload.url, headers);
+      if (resumedAt === null) {
+        upload = null;
+      } else {
+        offset = resumedAt;
+      }
+    } catch {
+      upload = null;
+    }
+  }
+
+  if (!upload) {
+    upload = { url: await createUpload(file, path, headers), path };
+    localStorage.setItem(key, JSON.stringify(upload));
+  }
+
+  onProgress(offset / file.size);
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + CHUNK_BYTES);
+    const start = offset;
+    offset = await sendChunk(
+      upload.url,
+      headers,
+      start,
+      chunk,
+      (loaded) => onProgress((start + loaded) / file.size),
+      signal,
+    );
+  }
+
+  localStorage.removeItem(key);
+  onProgress(1);
+  return upload.path;
+}
+
+// Grabs the frame at `seconds` from a video (a File or a URL) as a JPEG
+export const captureFrame = (source: File | string, seconds?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const objectUrl = typeof source === 'string' ? null : URL.createObjectURL(source);
+    const cleanUp = () => {
+      video.onseeked = null;
+      video.onerror = null;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      video.removeAttribute('src');
+      video.load();
+    };
+
+    video.muted = true;
+    video.preload = 'auto';
+    video.crossOrigin = 'anonymous';
+
+    video.onloadedmetadata = () => {
+      // Skip the first second or so, which is often black
+      video.currentTime = Math.min(seconds ?? Math.min(1.5, video.duration / 10), video.duration || 0);
+    };
+    video.onseeked = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => {
+        cleanUp();
+        if (blob) resolve(blob);
+        else reject(new Error('Could not capture a thumbnail'));
+      }, 'image/jpeg', 0.85);
+    };
+    video.onerror = () => {
+      cleanUp();
+      reject(new Error('This video format can\'t be played in the browser'));
+    };
+
+    video.src = objectUrl ?? (source as string);
+  });
+
+// The length of a video (a File or a URL) in seconds, from its metadata
+export const readDuration = (source: File | string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const objectUrl = typeof source === 'string' ? null : URL.createObjectURL(source);
+    const cleanUp = () => {
+      video.onloadedmetadata = null;
+      video.onerror = null;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      video.removeAttribute('src');
+      video.load();
+    };
+
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      const duration = video.duration;
+      cleanUp();
+      if (Number.isFinite(duration) && duration > 0) resolve(duration);
+      else reject(new Error('Could not read the video\'s length'));
+    };
+    video.onerror = () => {
+      cleanUp();
+      reject(new Error('This video format can\'t be played in the browser'));
+    };
+
+    video.src = objectUrl ?? (source as string);
+  });
+
+// Thumbnails sit next to their video: uploads/<id>.mp4 -> uploads/<id>.jpg
+export const thumbnailPathFor = (videoPath: string) => videoPath.replace(/\.[^./]+$/, '') + '.jpg';
+
+export const publicVideoUrl = (path: string) => supabase.storage.from(VIDEO_BUCKET).getPublicUrl(path).data.publicUrl;
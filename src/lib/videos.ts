@@ -0,0 +1,155 @@
+// Video sources (YouTube links or files in the videos bucket), the YouTube IFrame Player API, and
+// the shape of watch-progress reports (see the video-progress function).
+
+// Extract YouTube video ID from various URL formats
+export const getYouTubeVideoId = (url: string): string | null => {
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
+    /youtube\.com\/shorts\/([^&\n?#]+)/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+};
+
+// Get YouTube thumbnail from video ID
+export const getYouTubeThumbnail = (videoId: string): string => {
+  return `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`;
+};
+
+export type VideoSource = 'youtube' | 'upload';
+
+export const DEFAULT_REQUIRED_WATCH_PERCENT = 90;
+
+export interface WatchReport {
+  watched_percent: number;
+  position_seconds: number;
+  duration_seconds: number;
+  required_percent: number;
+  completed: boolean;
+  xp_awarded: number;
+}
+
+// Controls the LearningHub keeps for each mounted player, for notes
+export interface WatchPlayerHandle {
+  currentTime(): number;
+  seekTo(seconds: number): void;
+}
+
+// The parts of the IFrame Player API we use
+export interface YouTubePlayer {
+  getCurrentTime(): number;
+  getDuration(): number;
+  getPlayerState(): number;
+  seekTo(seconds: number, allowSeekAhead: boolean): void;
+  destroy(): void;
+}
+
+interface YouTubeNamespace {
+  Player: new (
+    element: HTMLElement,
+    options: {
+      videoId: string;
+      playerVars?: Record<string, number | string>;
+      events?: {
+        onReady?: (event: { target: YouTubePlayer }) => void;
+        onStateChange?: (event: { data: number; target: YouTubePlayer }) => void;
+      };
+    },
+  ) => YouTubePlayer;
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeNamespace;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+// A student's place in one video, from video_watch_progress
+export interface WatchProgress {
+  watched_percent: number;
+  position_seconds: number;
+  duration_seconds: number;
+  last_reported_at: string | null;
+}
+
+// Near the end there's nothing left to resume, so start over
+const RESUME_TAIL_SECONDS = 10;
+
+export const resumePosition = (positionSeconds: number, durationSeconds: number): number =>
+  positionSeconds > 0 && positionSeconds < durationSeconds - RESUME_TAIL_SECONDS ? positionSeconds : 0;
+
+// 754 -> "12:34", 3723 -> "1:02:03"
+export const formatPlaybackTime = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// "12:34" or "1:02:03" (or plain seconds) -> seconds, or null when it isn't a time
+export const parsePlaybackTime = (text: string): number | null => {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some(p => !/^\d+$/.test(p))) return null;
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+export const YOUTUBE_PLAYING = 1;
+
+let youTubeApi: Promise<YouTubeNamespace> | null = null;
+
+// Loads https://www.youtube.com/iframe_api once and resolves when it is ready
+export const loadYouTubeApi = (): Promise<YouTubeNamespace> => {
+  if (youTubeApi) return youTubeApi;
+
+  youTubeApi = new Promise((resolve, reject) => {
+    if (window.YT?.Player) {
+      resolve(window.YT);
+      return;
+    }
+
+    const previous = window.onYouTubeIframeAPIReady;
+    window.onYouTubeIframeAPIReady = () => {
+      previous?.();
+      resolve(window.YT!);
+    };
+
+    const script = document.createElement('script');
+    script.src = 'https://www.youtube.com/iframe_api';
+    script.async = true;
+    script.onerror = () => {
+      youTubeApi = null;
+      reject(new Error('Failed to load the YouTube player'));
+    };
+    document.head.appendChild(script);
+  });
+
+  return youTubeApi;
+};
+
+// The length of a YouTube video, read from a hidden player; null if the player can't tell
+export const fetchYouTubeDuration = async (videoId: string): Promise<number | null> => {
+  const YT = await loadYouTubeApi();
+  const host = document.createElement('div');
+  host.style.display = 'none';
+  document.body.appendChild(host);
+
+  return new Promise((resolve) => {
+    const player = new YT.Player(host, {
+      videoId,
+      events: {
+        onReady: (event) => {
+          const duration = event.target.getDuration();
+          player.destroy();
+          host.remove();
+          resolve(duration > 0 ? duration : null);
+        },
+      },
+    });
+  });
+};
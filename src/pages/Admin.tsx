@@ -7,9 +7,14 @@ import { Button } from '@/components/ui/button';
 import { StudentsManager } from '@/components/admin/StudentsManager';
 import { AnnouncementsManager } from '@/components/admin/AnnouncementsManager';
 import { QuizzesManager } from '@/components/admin/QuizzesManager';
+import { QuestionBanksManager } from '@/components/admin/QuestionBanksManager';
 import { LabAccessManager } from '@/components/admin/LabAccessManager';
 import { VideosManager } from '@/components/admin/VideosManager';
-import { Loader2, ArrowLeft, Users, Megaphone, BookOpen, Key, Video } from 'lucide-react';
+import { LessonsManager } from '@/components/admin/LessonsManager';
+import { CoursesManager } from '@/components/admin/CoursesManager';
+import { CertificatesManager } from '@/components/admin/CertificatesManager';
+import { AssignmentsManager } from '@/components/admin/AssignmentsManager';
+import { Loader2, ArrowLeft, Users, Megaphone, BookOpen, Library, Key, Video, GraduationCap, Award, ClipboardCheck, FileText } from 'lucide-react';
 
 export default function Admin() {
   const navigate = useNavigate();
@@ -58,7 +63,7 @@ export default function Admin() {
 
       <main className="container mx-auto px-4 py-8">
         <Tabs defaultValue="students" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-grid">
+          <TabsList className="grid w-full grid-cols-10 lg:w-auto lg:inline-grid">
             <TabsTrigger value="students" className="gap-2">
               <Users className="w-4 h-4" />
               <span className="hidden sm:inline">Students</span>
@@ -71,6 +76,10 @@ export default function Admin() {
               <BookOpen className="w-4 h-4" />
               <span className="hidden sm:inline">Quizzes</span>
             </TabsTrigger>
+            <TabsTrigger value="question-banks" className="gap-2">
+              <Library className="w-4 h-4" />
+              <span className="hidden sm:inline">Question Banks</span>
+            </TabsTrigger>
             <TabsTrigger value="lab-access" className="gap-2">
               <Key className="w-4 h-4" />
               <span className="hidden sm:inline">Lab Access</span>
@@ -79,6 +88,22 @@ export default function Admin() {
               <Video className="w-4 h-4" />
               <span className="hidden sm:inline">Videos</span>
             </TabsTrigger>
+            <TabsTrigger value="lessons" className="gap-2">
+              <FileText className="w-4 h-4" />
+              <span className="hidden sm:inline">Lessons</span>
+            </TabsTrigger>
+            <TabsTrigger value="courses" className="gap-2">
+              <GraduationCap className="w-4 h-4" />
+              <span className="hidden sm:inline">Courses</span>
+            </TabsTrigger>
+            <TabsTrigger value="assignments" className="gap-2">
+              <ClipboardCheck className="w-4 h-4" />
+              <span className="hidden sm:inline">Assignments</span>
+            </TabsTrigger>
+            <TabsTrigger value="certificates" className="gap-2">
+              <Award className="w-4 h-4" />
+              <span className="hidden sm:inline">Certificates</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="students">
@@ -93,6 +118,10 @@ export default function Admin() {
             <QuizzesManager />
           </TabsContent>
 
+          <TabsContent value="question-banks">
+            <QuestionBanksManager />
+          </TabsContent>
+
           <TabsContent value="lab-access">
             <LabAccessManager />
           </TabsContent>
@@ -100,6 +129,22 @@ export default function Admin() {
           <TabsContent value="videos">
             <VideosManager />
           </TabsContent>
+
+          <TabsContent value="lessons">
+            <LessonsManager />
+          </TabsContent>
+
+          <TabsContent value="courses">
+            <CoursesManager />
+          </TabsContent>
+
+          <TabsContent value="assignments">
+            <AssignmentsManager />
+          </TabsContent>
+
+          <TabsContent value="certificates">
+            <CertificatesManager />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
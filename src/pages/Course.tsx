@@ -0,0 +1,248 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ProgressRing } from '@/components/course/ProgressRing';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCourses } from '@/hooks/useCourses';
+import { courseProgress, itemKey, itemKind, type CourseItem, type CourseItemKind } from '@/lib/courses';
+import { downloadCertificate, verifyUrl } from '@/lib/certificates';
+import { toast } from 'sonner';
+import {
+  ArrowLeft,
+  Award,
+  BookOpen,
+  CheckCircle2,
+  ChevronRight,
+  Circle,
+  Copy,
+  FileText,
+  GraduationCap,
+  Loader2,
+  Video as VideoIcon,
+  Zap,
+} from 'lucide-react';
+import roboClubLogo from '@/assets/roboclub-logo.webp';
+import { format } from 'date-fns';
+
+const KIND_ICONS: Record<CourseItemKind, typeof VideoIcon> = {
+  video: VideoIcon,
+  quiz: BookOpen,
+  lesson: FileText,
+};
+
+export default function Course() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { courseId } = useParams<{ courseId: string }>();
+  const { courses, completed, completions, isLoading } = useCourses();
+  const [certificate, setCertificate] = useState<{ code: string; revoked_at: string | null } | null>(null);
+  const [issuing, setIssuing] = useState(false);
+
+  useEffect(() => {
+    if (!user || !courseId) return;
+
+    const fetchCertificate = async () => {
+      const { data } = await supabase
+        .from('certificates')
+        .select('code, revoked_at')
+        .eq('user_id', user.id)
+        .eq('course_id', courseId)
+        .maybeSingle();
+
+      setCertificate(data);
+    };
+
+    fetchCertificate();
+  }, [user, courseId]);
+
+  const course = courses.find(c => c.id === courseId);
+
+  // Everything is watched, taken or read in the Learning Hub
+  const openItem = (item: CourseItem) => {
+    if (item.video_id) navigate(`/learn?tab=videos&video=${item.video_id}`);
+    else if (item.quiz_id) navigate(`/learn?tab=quizzes&quiz=${item.quiz_id}`);
+    else navigate(`/learn?tab=lessons&lesson=${item.lesson_id}`);
+  };
+
+  const handleCertificate = async () => {
+    if (!course) return;
+    setIssuing(true);
+
+    const { data: issued, error } = await supabase.rpc('issue_certificate', { _course_id: course.id });
+
+    if (error || !issued) {
+      console.error('Error issuing certificate:', error);
+      toast.error('Failed to get your certificate');
+    } else if (issued.revoked_at) {
+      setCertificate(issued);
+      toast.error('This certificate has been revoked');
+    } else {
+      setCertificate(issued);
+      try {
+        await downloadCertificate(issued);
+      } catch (downloadError) {
+        console.error('Error generating certificate PDF:', downloadError);
+        toast.error('Failed to generate the certificate PDF');
+      }
+    }
+    setIssuing(false);
+  };
+
+  const copyVerifyLink = async () => {
+    if (!certificate) return;
+    await navigator.clipboard.writeText(verifyUrl(certificate.code));
+    toast.success('Verification link copied');
+  };
+
+  const renderItem = (item: CourseItem) => {
+    const kind = itemKind(item);
+    const Icon = KIND_ICONS[kind];
+    const isDone = completed.has(itemKey(item));
+
+    return (
+      <li key={item.id} className="rounded-md border border-border/50">
+        <button
+          type="button"
+          onClick={() => openItem(item)}
+          className="w-full flex items-center gap-3 p-3 text-left hover:bg-muted/50 transition-colors rounded-md"
+        >
+          {isDone ? (
+            <CheckCircle2 className="w-5 h-5 text-green-500 shrink-0" />
+          ) : (
+            <Circle className="w-5 h-5 text-muted-foreground shrink-0" />
+          )}
+          <Icon className="w-4 h-4 text-muted-foreground shrink-0" />
+          <span className={`flex-1 ${isDone ? 'text-muted-foreground' : ''}`}>{item.title}</span>
+          <ChevronRight className="w-4 h-4 text-muted-foreground" />
+        </button>
+      </li>
+    );
+  };
+
+  const progress = course ? courseProgress(course.modules, completed) : null;
+  const completedAt = course ? completions[course.id] : undefined;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 h-16 flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/learn?tab=courses')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="w-10 h-10 rounded-xl overflow-hidden">
+            <img src={roboClubLogo} alt="RoboClub Logo" className="w-full h-full object-cover" />
+          </div>
+          <span className="text-xl font-display font-bold">Learning Hub</span>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : !course || !progress ? (
+          <Card className="border-border/50">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <GraduationCap className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>This course isn't available.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center gap-6">
+              <ProgressRing percent={progress.percent} size={96} strokeWidth={8} />
+              <div className="flex-1 min-w-0">
+                <h1 className="text-3xl font-display font-bold mb-1">{course.title}</h1>
+                {course.description && (
+                  <p className="text-muted-foreground mb-2">{course.description}</p>
+                )}
+                <div className="flex items-center gap-2 flex-wrap text-sm text-muted-foreground">
+                  <span>{progress.done} of {progress.total} done</span>
+                  {course.completion_xp > 0 && (
+                    <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20">
+                      <Zap className="w-3 h-3" />
+                      +{course.completion_xp} on completion
+                    </Badge>
+                  )}
+                  {completedAt && (
+                    <Badge className="bg-green-500 text-white">
+                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                      Completed {format(new Date(completedAt), 'MMM d, yyyy')}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {completedAt && (certificate?.revoked_at ? (
+              <Card className="border-destructive/30 bg-destructive/5">
+                <CardContent className="p-4 flex items-center gap-4">
+                  <Award className="w-8 h-8 text-destructive shrink-0" />
+                  <p className="text-sm text-muted-foreground">
+                    Your certificate for this course ({certificate.code}) has been revoked. Please contact an admin if you think this is a mistake.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="border-green-500/30 bg-green-500/5">
+                <CardContent className="p-4 flex items-center gap-4 flex-wrap">
+                  <Award className="w-8 h-8 text-green-600 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">You've earned a certificate</p>
+                    <p className="text-sm text-muted-foreground">
+                      {certificate
+                        ? `Certificate ID ${certificate.code}. Anyone can check it with the verification link.`
+                        : 'Download it as a PDF to share, with a link anyone can use to verify it.'}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {certificate && (
+                      <Button variant="outline" onClick={copyVerifyLink}>
+                        <Copy className="w-4 h-4 mr-2" />
+                        Copy Link
+                      </Button>
+                    )}
+                    <Button onClick={handleCertificate} disabled={issuing}>
+                      {issuing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Award className="w-4 h-4 mr-2" />}
+                      Download Certificate
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            {course.modules.map((module, index) => {
+              const moduleProgress = courseProgress([module], completed);
+              return (
+                <Card key={module.id} className="border-border/50">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg flex items-center justify-between gap-2">
+                      <span>
+                        <span className="text-muted-foreground font-normal mr-2">Module {index + 1}</span>
+                        {module.title}
+                      </span>
+                      <span className="text-sm font-normal text-muted-foreground shrink-0">
+                        {moduleProgress.done}/{moduleProgress.total}
+                      </span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {module.items.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Nothing here yet.</p>
+                    ) : (
+                      <ul className="space-y-2">{module.items.map(renderItem)}</ul>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
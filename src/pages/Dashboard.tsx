@@ -5,8 +5,9 @@ import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { LogOut, Video, MessageSquare, Trophy, Wrench, BookOpen, Zap, ChevronRight, Settings, User, Bell, HelpCircle } from 'lucide-react';
+import { LogOut, Video, MessageSquare, Trophy, Wrench, BookOpen, Zap, ChevronRight, Settings, User, Bell, HelpCircle, Layers } from 'lucide-react';
 import { format } from 'date-fns';
+import { practiceDueBefore } from '@/lib/practice';
 import roboClubLogo from '@/assets/roboclub-logo.webp';
 import { Walkthrough } from '@/components/Walkthrough';
 interface Announcement {
@@ -20,6 +21,7 @@ interface DashboardStats {
   quizzesCompleted: number;
   xpPoints: number;
   rank: number | null;
+  cardsDue: number;
 }
 const WALKTHROUGH_KEY = 'chintan_core_walkthrough_completed';
 export default function Dashboard() {
@@ -39,7 +41,8 @@ export default function Dashboard() {
     videosWatched: 0,
     quizzesCompleted: 0,
     xpPoints: 0,
-    rank: null
+    rank: null,
+    cardsDue: 0
   });
   const [runWalkthrough, setRunWalkthrough] = useState(false);
 
@@ -67,7 +70,7 @@ export default function Dashboard() {
       if (!user) return;
 
       // Fetch all data in parallel
-      const [announcementsRes, videosRes, quizzesRes, rankRes] = await Promise.all([
+      const [announcementsRes, videosRes, quizzesRes, rankRes, cardsDueRes] = await Promise.all([
       // Announcements
       supabase.from('announcements').select('id, title, content, created_at').order('created_at', {
         ascending: false
@@ -81,9 +84,14 @@ export default function Dashboard() {
       supabase.from('quiz_attempts').select('id', {
         count: 'exact',
         head: true
-      }).eq('user_id', user.id),
+      }).eq('user_id', user.id).eq('status', 'completed'),
       // Get rank by counting users with more XP
-      supabase.from('profiles').select('xp_points').gt('xp_points', profile?.xp_points || 0)]);
+      supabase.from('profiles').select('xp_points').gt('xp_points', profile?.xp_points || 0),
+      // Practice cards due by the end of today
+      supabase.from('practice_cards').select('id', {
+        count: 'exact',
+        head: true
+      }).eq('user_id', user.id).lte('due_at', practiceDueBefore())]);
       if (!announcementsRes.error && announcementsRes.data) {
         setAnnouncements(announcementsRes.data);
       }
@@ -91,7 +99,8 @@ export default function Dashboard() {
         videosWatched: videosRes.count || 0,
         quizzesCompleted: quizzesRes.count || 0,
         xpPoints: profile?.xp_points || 0,
-        rank: rankRes.data ? rankRes.data.length + 1 : null
+        rank: rankRes.data ? rankRes.data.length + 1 : null,
+        cardsDue: cardsDueRes.count || 0
       });
       setLoading(false);
     };
@@ -121,6 +130,12 @@ export default function Dashboard() {
     icon: Trophy,
     color: 'text-robot-orange',
     href: '/leaderboard'
+  }, {
+    label: stats.cardsDue === 1 ? 'Card Due Today' : 'Cards Due Today',
+    value: stats.cardsDue.toString(),
+    icon: Layers,
+    color: 'text-purple-500',
+    href: '/learn?tab=practice'
   }];
   const features = [{
     title: 'Learning Hub',
@@ -214,7 +229,7 @@ export default function Dashboard() {
         </div>
 
         {/* Quick Stats */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8" data-tour="stats">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8" data-tour="stats">
           {quickStats.map(stat => (
             <Card 
               key={stat.label} 
@@ -1,12 +1,69 @@
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { QuizPlayer } from '@/components/quiz/QuizPlayer';
+import { QuizReview } from '@/components/quiz/QuizReview';
+import { PracticeSession } from '@/components/quiz/PracticeSession';
+import {
+  examAttemptsAllowed,
+  examClosesAt,
+  examStatus,
+  xpRewardLabel,
+  type ExamGrant,
+  type ExamSettings,
+  type ExamStatus,
+  type HintPenaltyMode,
+  type QuizXpRules,
+} from '@/lib/quiz';
+import { MASTERED_INTERVAL_DAYS, practiceDeckStats, type PracticeCardState } from '@/lib/practice';
+import { contentKey, describeMissing, type MissingPrerequisite } from '@/lib/prerequisites';
+import {
+  formatPlaybackTime,
+  getYouTubeVideoId,
+  resumePosition,
+  type VideoSource,
+  type WatchPlayerHandle,
+  type WatchProgress,
+  type WatchReport,
+} from '@/lib/videos';
+import type { VideoNote } from '@/lib/videoNotes';
+import { useVideoNotes } from '@/hooks/useVideoNotes';
+import { useCourses } from '@/hooks/useCourses';
+import { useAssignments } from '@/hooks/useAssignments';
+import { useLessons } from '@/hooks/useLessons';
+import { courseProgress } from '@/lib/courses';
+import { ProgressRing } from '@/components/course/ProgressRing';
+import { YouTubeWatchPlayer } from '@/components/video/YouTubeWatchPlayer';
+import { UploadedWatchPlayer } from '@/components/video/UploadedWatchPlayer';
+import { VideoNotesPanel } from '@/components/video/VideoNotesPanel';
+import { MyNotes } from '@/components/video/MyNotes';
+import { AssignmentsList } from '@/components/assignment/AssignmentsList';
+import { LessonReader } from '@/components/lesson/LessonReader';
+import { readingMinutes } from '@/lib/markdown';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
 import { 
   ArrowLeft,
@@ -14,7 +71,20 @@ import {
   BookOpen,
   Clock,
   Zap,
-  CheckCircle2
+  CheckCircle2,
+  PlayCircle,
+  History,
+  RotateCcw,
+  CalendarClock,
+  Timer,
+  GraduationCap,
+  Radio,
+  Layers,
+  Lock,
+  StickyNote,
+  ClipboardCheck,
+  FileText,
+  ChevronDown
 } from 'lucide-react';
 import roboClubLogo from '@/assets/roboclub-logo.webp';
 import { format } from 'date-fns';
@@ -25,36 +95,48 @@ interface Video {
   description: string | null;
   video_url: string;
   thumbnail_url: string | null;
+  source: VideoSource;
   xp_reward: number;
+  required_watch_percent: number;
   created_at: string;
 }
 
-interface Quiz {
+interface Quiz extends QuizXpRules, ExamSettings {
   id: string;
   title: string;
   description: string | null;
   difficulty: 'easy' | 'medium' | 'hard';
   total_questions: number;
   timer_per_question: number;
-  xp_reward: number;
   is_active: boolean;
+  resume_window_minutes: number;
+  hint_penalty_mode: HintPenaltyMode;
   created_at: string;
 }
 
-// Extract YouTube video ID from various URL formats
-const getYouTubeVideoId = (url: string): string | null => {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-    /youtube\.com\/shorts\/([^&\n?#]+)/,
-  ];
-  
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match) return match[1];
-  }
-  return null;
+interface OpenAttempt {
+  id: string;
+  current_index: number;
+  total_questions: number;
+  last_activity_at: string;
+}
+
+interface CompletedAttempt {
+  id: string;
+  score: number;
+  total_questions: number;
+  completed_at: string;
+}
+
+const EXAM_STATUS_STYLES: Record<ExamStatus, { label: string; className: string }> = {
+  upcoming: { label: 'Upcoming', className: 'bg-blue-500/10 text-blue-500' },
+  open: { label: 'Open', className: 'bg-green-500/10 text-green-600' },
+  closed: { label: 'Closed', className: 'bg-muted text-muted-foreground' },
 };
 
+// Open exams first, then the ones still to come, then closed ones
+const EXAM_STATUS_ORDER: ExamStatus[] = ['open', 'upcoming', 'closed'];
+
 export default function LearningHub() {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -63,12 +145,89 @@ export default function LearningHub() {
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeQuiz, setActiveQuiz] = useState<Quiz | null>(null);
+  const [resumeAttemptId, setResumeAttemptId] = useState<string | null>(null);
+  const [openAttempts, setOpenAttempts] = useState<Record<string, OpenAttempt>>({});
   const [watchedVideos, setWatchedVideos] = useState<Set<string>>(new Set());
-  const [completedQuizzes, setCompletedQuizzes] = useState<Set<string>>(new Set());
-  const [markingWatched, setMarkingWatched] = useState<string | null>(null);
+  const [completedAttempts, setCompletedAttempts] = useState<Record<string, CompletedAttempt[]>>({});
+  const [reviewAttemptId, setReviewAttemptId] = useState<string | null>(null);
+  const [attemptCounts, setAttemptCounts] = useState<Record<string, number>>({});
+  const [examGrants, setExamGrants] = useState<Record<string, ExamGrant>>({});
+  // How much of each video has been played and where the student left off, from video-progress
+  const [watchProgress, setWatchProgress] = useState<Record<string, WatchProgress>>({});
+  // Element id (`video-…` or `quiz-…`) of the card last jumped to
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [practiceCards, setPracticeCards] = useState<PracticeCardState[]>([]);
+  const [practiceOpen, setPracticeOpen] = useState(false);
+  // Quizzes and videos still locked behind prerequisites, keyed by contentKey
+  const [locks, setLocks] = useState<Record<string, MissingPrerequisite[]>>({});
   
   // Get initial tab from URL query param
-  const initialTab = searchParams.get('tab') === 'quizzes' ? 'quizzes' : 'videos';
+  const tabParam = searchParams.get('tab');
+  const initialTab = ['lessons', 'videos', 'quizzes', 'practice', 'assignments', 'notes'].includes(tabParam ?? '') ? tabParam! : 'courses';
+  const [activeTab, setActiveTab] = useState(initialTab);
+  const { notes, isLoading: notesLoading, addNote, updateNote, deleteNote } = useVideoNotes();
+  const { courses, completed: courseItemsDone, completions: courseCompletions, isLoading: coursesLoading } = useCourses();
+  const { lessons, completed: lessonsDone, isLoading: lessonsLoading, openLesson: startReading, completeLesson } = useLessons();
+  // The lesson open in the reader; course pages link straight to one
+  const [openLessonId, setOpenLessonId] = useState<string | null>(searchParams.get('lesson'));
+  const { assignments, submissions, isLoading: assignmentsLoading, submit: submitAssignment, fileUrls } = useAssignments();
+  const playerRefs = useRef<Record<string, WatchPlayerHandle | null>>({});
+  // A note opened from My Notes; its video starts there once the videos tab mounts the player
+  const [openedNote, setOpenedNote] = useState<VideoNote | null>(null);
+
+  const fetchQuizAttempts = useCallback(async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('quiz_attempts')
+      .select('id, quiz_id, status, score, current_index, total_questions, last_activity_at, completed_at')
+      .eq('user_id', user.id)
+      .order('completed_at', { ascending: false });
+
+    if (!data) return;
+
+    // Every attempt, finished or not, counts towards an exam's attempt limit
+    const counts: Record<string, number> = {};
+    data.forEach(a => {
+      counts[a.quiz_id] = (counts[a.quiz_id] || 0) + 1;
+    });
+    setAttemptCounts(counts);
+
+    const completed: Record<string, CompletedAttempt[]> = {};
+    data.filter(a => a.status === 'completed').forEach(a => {
+      completed[a.quiz_id] = [...(completed[a.quiz_id] || []), a];
+    });
+    setCompletedAttempts(completed);
+
+    const open: Record<string, OpenAttempt> = {};
+    data.filter(a => a.status === 'in_progress').forEach(a => {
+      open[a.quiz_id] = a;
+    });
+    setOpenAttempts(open);
+  }, [user]);
+
+  const fetchPracticeDeck = useCallback(async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('practice_cards')
+      .select('due_at, interval_days')
+      .eq('user_id', user.id);
+
+    if (data) setPracticeCards(data);
+  }, [user]);
+
+  const fetchLocks = useCallback(async () => {
+    if (!user) return;
+
+    const { data } = await supabase.rpc('content_locks');
+    if (!data) return;
+
+    setLocks(Object.fromEntries(data.map(lock => [
+      contentKey(lock.quiz_id ? { type: 'quiz', id: lock.quiz_id } : { type: 'video', id: lock.video_id }),
+      lock.missing as unknown as MissingPrerequisite[],
+    ])));
+  }, [user]);
 
   useEffect(() => {
     const fetchContent = async () => {
@@ -81,6 +240,7 @@ export default function LearningHub() {
           .from('quizzes')
           .select('*')
           .eq('is_active', true)
+          .not('published_version_id', 'is', null)
           .order('created_at', { ascending: false })
       ]);
 
@@ -89,22 +249,39 @@ export default function LearningHub() {
 
       // Fetch user's watched videos and completed quizzes
       if (user) {
-        const [watchedRes, attemptsRes] = await Promise.all([
+        const [watchedRes, progressRes, grantsRes] = await Promise.all([
           supabase
             .from('video_watch_history')
             .select('video_id')
             .eq('user_id', user.id),
           supabase
-            .from('quiz_attempts')
-            .select('quiz_id')
-            .eq('user_id', user.id)
+            .from('video_watch_progress')
+            .select('video_id, watched_percent, position_seconds, duration_seconds, last_reported_at')
+            .eq('user_id', user.id),
+          supabase
+            .from('quiz_exam_grants')
+            .select('quiz_id, extra_attempts, extra_minutes, closes_at')
+            .eq('user_id', user.id),
+          fetchQuizAttempts(),
+          fetchPracticeDeck(),
+          fetchLocks()
         ]);
 
         if (watchedRes.data) {
           setWatchedVideos(new Set(watchedRes.data.map(w => w.video_id)));
         }
-        if (attemptsRes.data) {
-          setCompletedQuizzes(new Set(attemptsRes.data.map(a => a.quiz_id)));
+
+        if (progressRes.data) {
+          setWatchProgress(Object.fromEntries(progressRes.data.map(p => [p.video_id, {
+            watched_percent: Number(p.watched_percent),
+            position_seconds: Number(p.position_seconds),
+            duration_seconds: Number(p.duration_seconds),
+            last_reported_at: p.last_reported_at,
+          }])));
+        }
+
+        if (grantsRes.data) {
+          setExamGrants(Object.fromEntries(grantsRes.data.map(g => [g.quiz_id, g])));
         }
       }
 
@@ -112,65 +289,50 @@ export default function LearningHub() {
     };
 
     fetchContent();
-  }, [user]);
+  }, [user, fetchQuizAttempts, fetchPracticeDeck, fetchLocks]);
 
-  const handleMarkWatched = async (video: Video) => {
-    if (!user || watchedVideos.has(video.id)) return;
-
-    setMarkingWatched(video.id);
-
-    try {
-      // Insert into watch history
-      const { error: watchError } = await supabase
-        .from('video_watch_history')
-        .insert({
-          user_id: user.id,
-          video_id: video.id,
-        });
-
-      if (watchError) {
-        if (watchError.code === '23505') {
-          // Already watched
-          setWatchedVideos(prev => new Set([...prev, video.id]));
-          toast.info('Video already marked as watched');
-        } else {
-          throw watchError;
-        }
-      } else {
-        // Create XP transaction
-        await supabase
-          .from('xp_transactions')
-          .insert({
-            user_id: user.id,
-            amount: video.xp_reward,
-            transaction_type: 'video_watched',
-            reference_id: video.id,
-            reason: `Watched video: ${video.title}`,
-          });
-
-        // Update profile XP
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('xp_points')
-          .eq('user_id', user.id)
-          .single();
-
-        if (profile) {
-          await supabase
-            .from('profiles')
-            .update({ xp_points: profile.xp_points + video.xp_reward })
-            .eq('user_id', user.id);
-        }
+  const openQuiz = (quiz: Quiz, attemptId: string | null) => {
+    setResumeAttemptId(attemptId);
+    setActiveQuiz(quiz);
+  };
 
-        setWatchedVideos(prev => new Set([...prev, video.id]));
-        toast.success(`+${video.xp_reward} XP earned!`);
-      }
-    } catch (error) {
-      console.error('Error marking video as watched:', error);
-      toast.error('Failed to mark video as watched');
-    }
+  const closeQuiz = () => {
+    setActiveQuiz(null);
+    setResumeAttemptId(null);
+    fetchQuizAttempts();
+    fetchPracticeDeck();
+    fetchLocks();
+  };
 
-    setMarkingWatched(null);
+  const closePractice = () => {
+    setPracticeOpen(false);
+    fetchPracticeDeck();
+  };
+
+  // Open attempts past the quiz's resume window get submitted instead of resumed
+  const getResumableAttempt = (quiz: Quiz): OpenAttempt | null => {
+    const attempt = openAttempts[quiz.id];
+    if (!attempt) return null;
+    const idleMs = Date.now() - new Date(attempt.last_activity_at).getTime();
+    return idleMs < quiz.resume_window_minutes * 60 * 1000 ? attempt : null;
+  };
+
+  const handleWatchReport = (video: Video, report: WatchReport) => {
+    setWatchProgress(prev => ({
+      ...prev,
+      [video.id]: {
+        watched_percent: report.watched_percent,
+        position_seconds: report.position_seconds,
+        duration_seconds: report.duration_seconds,
+        last_reported_at: new Date().toISOString(),
+      },
+    }));
+
+    if (report.completed && !watchedVideos.has(video.id)) {
+      setWatchedVideos(prev => new Set([...prev, video.id]));
+      if (report.xp_awarded > 0) toast.success(`+${report.xp_awarded} XP earned!`);
+      fetchLocks();
+    }
   };
 
   const getDifficultyColor = (difficulty: string) => {
@@ -182,11 +344,310 @@ export default function LearningHub() {
     }
   };
 
+  const lockedBy = (type: 'quiz' | 'video', id: string): MissingPrerequisite[] => locks[contentKey({ type, id })] ?? [];
+
+  const resumeAt = (video: Video): number => {
+    const progress = watchProgress[video.id];
+    return progress ? resumePosition(progress.position_seconds, progress.duration_seconds) : 0;
+  };
+
+  // Videos left partway through, most recently watched first
+  const continueWatching = videos
+    .filter(video => resumeAt(video) > 0 && lockedBy('video', video.id).length === 0)
+    .sort((a, b) => (watchProgress[b.id].last_reported_at ?? '').localeCompare(watchProgress[a.id].last_reported_at ?? ''))
+    .slice(0, 4);
+
+  const jumpTo = useCallback((elementId: string) => {
+    document.getElementById(elementId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(elementId);
+  }, []);
+
+  const openLesson = lessons.find(l => l.id === openLessonId);
+
+  // Opening a lesson, from the list or a link, starts its reading clock
+  useEffect(() => {
+    if (openLessonId) startReading(openLessonId);
+  }, [openLessonId, startReading]);
+
+  const openLessonAt = (lessonId: string) => {
+    setOpenLessonId(lessonId);
+    window.scrollTo({ top: 0 });
+  };
+
+  const jumpToVideo = useCallback((videoId: string) => jumpTo(`video-${videoId}`), [jumpTo]);
+
+  // Links from a course page name the video or quiz to show
+  useEffect(() => {
+    if (loading) return;
+    const linkedVideo = searchParams.get('video');
+    const linkedQuiz = searchParams.get('quiz');
+    if (linkedVideo) jumpToVideo(linkedVideo);
+    else if (linkedQuiz) jumpTo(`quiz-${linkedQuiz}`);
+  }, [loading, searchParams, jumpTo, jumpToVideo]);
+
+  useEffect(() => {
+    if (activeTab !== 'videos' || !openedNote) return;
+    jumpToVideo(openedNote.video_id);
+    setOpenedNote(null);
+  }, [activeTab, openedNote, jumpToVideo]);
+
+  const openNote = (note: VideoNote) => {
+    setOpenedNote(note);
+    setActiveTab('videos');
+  };
+
+  const renderMissing = (missing: MissingPrerequisite[]) => (
+    <div className="rounded-md border border-dashed p-3 mb-4 text-sm text-muted-foreground space-y-1">
+      <p className="flex items-center gap-1 font-medium text-foreground">
+        <Lock className="w-4 h-4" />
+        To unlock:
+      </p>
+      <ul className="list-disc pl-5 space-y-0.5">
+        {missing.map((m, i) => <li key={i}>{describeMissing(m)}</li>)}
+      </ul>
+    </div>
+  );
+
+  const renderQuizAction = (quiz: Quiz, status: ExamStatus | null, resumable: OpenAttempt | null, attemptsLeft: number | null, timeLimit: number | null, isCompleted: boolean, locked: boolean) => {
+    if (status === 'upcoming') {
+      return (
+        <Button className="w-full" disabled>
+          Opens {format(new Date(quiz.opens_at!), 'MMM d, h:mm a')}
+        </Button>
+      );
+    }
+
+    if (status === 'closed') {
+      return <Button className="w-full" disabled>Exam Closed</Button>;
+    }
+
+    if (resumable) {
+      return (
+        <div className="flex gap-2">
+          <Button className="flex-1" onClick={() => openQuiz(quiz, resumable.id)}>
+            <PlayCircle className="w-4 h-4 mr-2" />
+            Resume (question {Math.min(resumable.current_index + 1, resumable.total_questions)} of {resumable.total_questions})
+          </Button>
+          {/* Starting an exam over would spend another attempt */}
+          {!quiz.is_exam && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline">Start Over</Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Start over?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Your unfinished attempt will be submitted with the answers you've given so far, and you'll get a new set of questions.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => openQuiz(quiz, null)}>Start Over</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      );
+    }
+
+    if (locked) {
+      return (
+        <Button className="w-full" disabled>
+          <Lock className="w-4 h-4 mr-2" />
+          Locked
+        </Button>
+      );
+    }
+
+    if (attemptsLeft === 0) {
+      return <Button className="w-full" disabled>No Attempts Left</Button>;
+    }
+
+    if (quiz.is_exam) {
+      return (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button className="w-full">Start Exam</Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Start {quiz.title}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {attemptsLeft !== null && `This uses one of your ${attemptsLeft} remaining ${attemptsLeft === 1 ? 'attempt' : 'attempts'}. `}
+                {timeLimit !== null && `You'll have ${timeLimit} minutes, and the clock keeps running if you leave. `}
+                Your answers are handed in automatically when time runs out.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => openQuiz(quiz, null)}>Start Exam</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      );
+    }
+
+    return (
+      <Button className="w-full" onClick={() => openQuiz(quiz, null)}>
+        {isCompleted ? 'Retake Quiz' : 'Start Quiz'}
+      </Button>
+    );
+  };
+
+  const renderQuizCard = (quiz: Quiz) => {
+    const pastAttempts = completedAttempts[quiz.id] || [];
+    const isCompleted = pastAttempts.length > 0;
+    const resumable = getResumableAttempt(quiz);
+    const grant = examGrants[quiz.id] ?? null;
+    const status = quiz.is_exam ? examStatus(quiz, grant) : null;
+    const closesAt = examClosesAt(quiz, grant);
+    const attemptsAllowed = quiz.is_exam ? examAttemptsAllowed(quiz, grant) : null;
+    const attemptsLeft = attemptsAllowed === null ? null : Math.max(0, attemptsAllowed - (attemptCounts[quiz.id] || 0));
+    const timeLimit = quiz.is_exam && quiz.time_limit_minutes !== null ? quiz.time_limit_minutes + (grant?.extra_minutes ?? 0) : null;
+    // An attempt already under way can still be resumed after a prerequisite stops being met
+    const missing = resumable ? [] : lockedBy('quiz', quiz.id);
+    // Exam answers stay hidden until the exam has closed
+    const canReview = isCompleted && status !== 'open' && status !== 'upcoming';
+
+    return (
+      <Card
+        key={quiz.id}
+        id={`quiz-${quiz.id}`}
+        className={`border-border/50 hover:border-primary/50 transition-colors ${isCompleted ? 'border-green-500/30' : ''} ${highlightedId === `quiz-${quiz.id}` ? 'ring-2 ring-primary' : ''}`}
+      >
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <CardTitle className="text-lg">{quiz.title}</CardTitle>
+                {status && (
+                  <Badge className={EXAM_STATUS_STYLES[status].className}>
+                    {EXAM_STATUS_STYLES[status].label}
+                  </Badge>
+                )}
+                {isCompleted && (
+                  <Badge className="bg-green-500 text-white">
+                    <CheckCircle2 className="w-3 h-3 mr-1" />
+                    Completed
+                  </Badge>
+                )}
+                {missing.length > 0 && (
+                  <Badge variant="secondary">
+                    <Lock className="w-3 h-3 mr-1" />
+                    Locked
+                  </Badge>
+                )}
+              </div>
+              {quiz.description && (
+                <CardDescription className="mt-1">
+                  {quiz.description}
+                </CardDescription>
+              )}
+            </div>
+            <div className="flex flex-col items-end gap-1">
+              <Badge className={getDifficultyColor(quiz.difficulty)}>
+                {quiz.difficulty}
+              </Badge>
+              <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20">
+                <Zap className="w-3 h-3" />
+                {xpRewardLabel(quiz)}
+              </Badge>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
+            <div className="flex items-center gap-1">
+              <BookOpen className="w-4 h-4" />
+              {quiz.total_questions} questions
+            </div>
+            <div className="flex items-center gap-1">
+              <Clock className="w-4 h-4" />
+              {quiz.timer_per_question}s per question
+            </div>
+          </div>
+          {quiz.is_exam && (
+            <div className="space-y-1 text-sm text-muted-foreground mb-4">
+              {status === 'upcoming' && quiz.opens_at && (
+                <div className="flex items-center gap-1">
+                  <CalendarClock className="w-4 h-4" />
+                  Opens {format(new Date(quiz.opens_at), 'MMM d, yyyy h:mm a')}
+                </div>
+              )}
+              {closesAt && (
+                <div className="flex items-center gap-1">
+                  <CalendarClock className="w-4 h-4" />
+                  {status === 'closed' ? 'Closed' : 'Closes'} {format(closesAt, 'MMM d, yyyy h:mm a')}
+                </div>
+              )}
+              {timeLimit !== null && (
+                <div className="flex items-center gap-1">
+                  <Timer className="w-4 h-4" />
+                  {timeLimit} minute time limit
+                </div>
+              )}
+              {attemptsAllowed !== null && (
+                <div className="flex items-center gap-1">
+                  <RotateCcw className="w-4 h-4" />
+                  {attemptsLeft} of {attemptsAllowed} {attemptsAllowed === 1 ? 'attempt' : 'attempts'} left
+                </div>
+              )}
+            </div>
+          )}
+          {missing.length > 0 && renderMissing(missing)}
+          {renderQuizAction(quiz, status, resumable, attemptsLeft, timeLimit, isCompleted, missing.length > 0)}
+          {canReview && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="w-full mt-2">
+                  <History className="w-4 h-4 mr-2" />
+                  Review Past Attempts ({pastAttempts.length})
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="center" className="w-64">
+                {pastAttempts.map(attempt => (
+                  <DropdownMenuItem key={attempt.id} onClick={() => setReviewAttemptId(attempt.id)}>
+                    <span className="flex-1">{format(new Date(attempt.completed_at), 'MMM d, yyyy h:mm a')}</span>
+                    <span className="font-medium">{attempt.score} / {attempt.total_questions}</span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {isCompleted && quiz.is_exam && !canReview && (
+            <p className="text-xs text-center text-muted-foreground mt-2">
+              Answers can be reviewed once the exam closes
+            </p>
+          )}
+          {isCompleted && (
+            <p className="text-xs text-center text-muted-foreground mt-2">
+              XP is only awarded once per quiz
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const exams = quizzes
+    .filter(q => q.is_exam)
+    .sort((a, b) =>
+      EXAM_STATUS_ORDER.indexOf(examStatus(a, examGrants[a.id])) - EXAM_STATUS_ORDER.indexOf(examStatus(b, examGrants[b.id]))
+    );
+  const practiceQuizzes = quizzes.filter(q => !q.is_exam);
+  const deck = practiceDeckStats(practiceCards);
+
   return (
     <>
       {activeQuiz && (
-        <QuizPlayer quiz={activeQuiz} onClose={() => setActiveQuiz(null)} />
+        <QuizPlayer quiz={activeQuiz} resumeAttemptId={resumeAttemptId} onClose={closeQuiz} />
+      )}
+      {reviewAttemptId && (
+        <QuizReview attemptId={reviewAttemptId} onClose={() => setReviewAttemptId(null)} />
       )}
+      {practiceOpen && <PracticeSession onClose={closePractice} />}
       <div className="min-h-screen bg-background">
       {/* Header */}
       <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
@@ -200,6 +661,10 @@ export default function LearningHub() {
             </div>
             <span className="text-xl font-display font-bold">Learning Hub</span>
           </div>
+          <Button variant="outline" onClick={() => navigate('/live')}>
+            <Radio className="w-4 h-4 mr-2" />
+            Join Live Quiz
+          </Button>
         </div>
       </header>
 
@@ -211,8 +676,16 @@ export default function LearningHub() {
           </p>
         </div>
 
-        <Tabs defaultValue={initialTab} className="space-y-6">
-          <TabsList className="grid w-full max-w-md grid-cols-2">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full max-w-4xl grid-cols-7">
+            <TabsTrigger value="courses" className="flex items-center gap-2">
+              <GraduationCap className="w-4 h-4" />
+              Courses
+            </TabsTrigger>
+            <TabsTrigger value="lessons" className="flex items-center gap-2">
+              <FileText className="w-4 h-4" />
+              Lessons
+            </TabsTrigger>
             <TabsTrigger value="videos" className="flex items-center gap-2">
               <VideoIcon className="w-4 h-4" />
               Videos
@@ -221,90 +694,294 @@ export default function LearningHub() {
               <BookOpen className="w-4 h-4" />
               Quizzes
             </TabsTrigger>
+            <TabsTrigger value="practice" className="flex items-center gap-2">
+              <Layers className="w-4 h-4" />
+              Practice
+              {deck.dueToday > 0 && (
+                <Badge variant="secondary" className="h-5 px-1.5">{deck.dueToday}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="assignments" className="flex items-center gap-2">
+              <ClipboardCheck className="w-4 h-4" />
+              Assignments
+            </TabsTrigger>
+            <TabsTrigger value="notes" className="flex items-center gap-2">
+              <StickyNote className="w-4 h-4" />
+              My Notes
+            </TabsTrigger>
           </TabsList>
 
-          <TabsContent value="videos">
-            {loading ? (
+          <TabsContent value="courses">
+            {coursesLoading ? (
               <div className="text-center py-12 text-muted-foreground">
-                Loading videos...
+                Loading courses...
               </div>
-            ) : videos.length === 0 ? (
+            ) : courses.length === 0 ? (
               <Card className="border-border/50">
                 <CardContent className="py-12 text-center text-muted-foreground">
-                  <VideoIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                  <p>No videos available yet. Check back soon!</p>
+                  <GraduationCap className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No courses yet. Browse the videos and quizzes in the meantime!</p>
                 </CardContent>
               </Card>
             ) : (
-              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {videos.map((video) => {
-                  const videoId = getYouTubeVideoId(video.video_url);
-                  const isWatched = watchedVideos.has(video.id);
+              <div className="grid md:grid-cols-2 gap-6">
+                {courses.map((course) => {
+                  const progress = courseProgress(course.modules, courseItemsDone);
+                  const isCompleted = !!courseCompletions[course.id];
                   return (
-                    <Card key={video.id} className={`border-border/50 overflow-hidden hover:border-primary/50 transition-colors ${isWatched ? 'border-green-500/30' : ''}`}>
-                      <div className="aspect-video bg-muted relative">
-                        {videoId ? (
-                          <iframe
-                            src={`https://www.youtube.com/embed/${videoId}`}
-                            className="w-full h-full"
-                            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                            allowFullScreen
-                          />
-                        ) : (
-                          <div className="w-full h-full flex items-center justify-center">
-                            <VideoIcon className="w-12 h-12 text-muted-foreground/50" />
-                          </div>
-                        )}
-                        {isWatched && (
-                          <div className="absolute top-2 right-2">
-                            <Badge className="bg-green-500 text-white">
-                              <CheckCircle2 className="w-3 h-3 mr-1" />
-                              Watched
-                            </Badge>
+                    <Card
+                      key={course.id}
+                      className={`border-border/50 hover:border-primary/50 transition-colors cursor-pointer ${isCompleted ? 'border-green-500/30' : ''}`}
+                      onClick={() => navigate(`/learn/courses/${course.id}`)}
+                    >
+                      <CardContent className="p-5 flex items-center gap-4">
+                        <ProgressRing percent={progress.percent} />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h3 className="font-semibold line-clamp-1 flex-1">{course.title}</h3>
+                            {course.completion_xp > 0 && (
+                              <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20 shrink-0">
+                                <Zap className="w-3 h-3" />
+                                +{course.completion_xp}
+                              </Badge>
+                            )}
                           </div>
-                        )}
-                      </div>
-                      <CardContent className="p-4">
-                        <div className="flex items-center gap-2 mb-2">
-                          <h3 className="font-semibold line-clamp-1 flex-1">{video.title}</h3>
+                          {course.description && (
+                            <p className="text-sm text-muted-foreground line-clamp-2 mb-1">{course.description}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {isCompleted
+                              ? '✓ Completed'
+                              : `${course.modules.length} ${course.modules.length === 1 ? 'module' : 'modules'} · ${progress.done} of ${progress.total} done`}
+                          </p>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="lessons">
+            {lessonsLoading ? (
+              <div className="text-center py-12 text-muted-foreground">
+                Loading lessons...
+              </div>
+            ) : openLesson ? (
+              <LessonReader
+                lesson={openLesson}
+                isCompleted={lessonsDone.has(openLesson.id)}
+                onComplete={() => completeLesson(openLesson)}
+                onBack={() => setOpenLessonId(null)}
+              />
+            ) : lessons.length === 0 ? (
+              <Card className="border-border/50">
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  <FileText className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No lessons yet. Check back soon!</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {lessons.map((lesson) => (
+                  <Card
+                    key={lesson.id}
+                    className={`border-border/50 hover:border-primary/50 transition-colors cursor-pointer ${lessonsDone.has(lesson.id) ? 'border-green-500/30' : ''}`}
+                    onClick={() => openLessonAt(lesson.id)}
+                  >
+                    <CardContent className="p-5">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="font-semibold line-clamp-1 flex-1">{lesson.title}</h3>
+                        {lesson.xp_reward > 0 && (
                           <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20 shrink-0">
                             <Zap className="w-3 h-3" />
-                            +{video.xp_reward}
+                            +{lesson.xp_reward}
                           </Badge>
-                        </div>
-                        {video.description && (
-                          <p className="text-sm text-muted-foreground line-clamp-2 mb-2">
-                            {video.description}
-                          </p>
                         )}
-                        <div className="flex items-center justify-between mt-3">
-                          <span className="text-xs text-muted-foreground">
-                            {format(new Date(video.created_at), 'MMM d, yyyy')}
-                          </span>
-                          {!isWatched ? (
-                            <Button 
-                              size="sm" 
-                              className="bg-green-600 hover:bg-green-700 text-white"
-                              onClick={() => handleMarkWatched(video)}
-                              disabled={markingWatched === video.id}
-                            >
-                              {markingWatched === video.id ? (
-                                'Saving...'
+                      </div>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        {lessonsDone.has(lesson.id) ? (
+                          <>
+                            <CheckCircle2 className="w-3 h-3 text-green-500" />
+                            Completed
+                          </>
+                        ) : (
+                          <>
+                            <Clock className="w-3 h-3" />
+                            {readingMinutes(lesson.body)} min read
+                          </>
+                        )}
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="videos">
+            {loading ? (
+              <div className="text-center py-12 text-muted-foreground">
+                Loading videos...
+              </div>
+            ) : videos.length === 0 ? (
+              <Card className="border-border/50">
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  <VideoIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No videos available yet. Check back soon!</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-8">
+                {continueWatching.length > 0 && (
+                  <section className="space-y-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2">
+                      <PlayCircle className="w-5 h-5 text-primary" />
+                      Continue watching
+                    </h2>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      {continueWatching.map((video) => {
+                        const progress = watchProgress[video.id];
+                        return (
+                          <button
+                            key={video.id}
+                            type="button"
+                            onClick={() => jumpToVideo(video.id)}
+                            className="text-left rounded-lg border border-border/50 overflow-hidden hover:border-primary/50 transition-colors"
+                          >
+                            <div className="aspect-video bg-muted relative">
+                              {video.thumbnail_url ? (
+                                <img src={video.thumbnail_url} alt="" className="w-full h-full object-cover" />
                               ) : (
-                                <>
-                                  <CheckCircle2 className="w-4 h-4 mr-1" />
-                                  Mark Watched
-                                </>
+                                <div className="w-full h-full flex items-center justify-center">
+                                  <VideoIcon className="w-8 h-8 text-muted-foreground/50" />
+                                </div>
                               )}
-                            </Button>
+                              <Progress value={progress.watched_percent} className="absolute bottom-0 inset-x-0 h-1 rounded-none" />
+                            </div>
+                            <div className="p-2">
+                              <p className="text-sm font-medium line-clamp-1">{video.title}</p>
+                              <p className="text-xs text-muted-foreground">
+                                Resume at {formatPlaybackTime(progress.position_seconds)} of {formatPlaybackTime(progress.duration_seconds)}
+                              </p>
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </section>
+                )}
+                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {videos.map((video) => {
+                    const videoId = getYouTubeVideoId(video.video_url);
+                    const isWatched = watchedVideos.has(video.id);
+                    const missing = isWatched ? [] : lockedBy('video', video.id);
+                    const watchedPercent = watchProgress[video.id]?.watched_percent ?? 0;
+                    const startAt = openedNote?.video_id === video.id ? openedNote.timestamp_seconds : resumeAt(video);
+                    const videoNotes = notes.filter(n => n.video_id === video.id);
+                    return (
+                      <Card
+                        key={video.id}
+                        id={`video-${video.id}`}
+                        className={`border-border/50 overflow-hidden hover:border-primary/50 transition-colors ${isWatched ? 'border-green-500/30' : ''} ${highlightedId === `video-${video.id}` ? 'ring-2 ring-primary' : ''}`}
+                      >
+                        <div className="aspect-video bg-muted relative">
+                          {missing.length > 0 ? (
+                            <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-muted-foreground">
+                              <Lock className="w-10 h-10 opacity-50" />
+                              <span className="text-sm font-medium">Locked</span>
+                            </div>
+                          ) : video.source === 'upload' ? (
+                            <UploadedWatchPlayer
+                              ref={(el) => { playerRefs.current[video.id] = el; }}
+                              videoId={video.id}
+                              src={video.video_url}
+                              poster={video.thumbnail_url}
+                              startAt={startAt}
+                              onReport={(report) => handleWatchReport(video, report)}
+                            />
+                          ) : videoId ? (
+                            <YouTubeWatchPlayer
+                              ref={(el) => { playerRefs.current[video.id] = el; }}
+                              videoId={video.id}
+                              youtubeId={videoId}
+                              startAt={startAt}
+                              onReport={(report) => handleWatchReport(video, report)}
+                            />
                           ) : (
-                            <span className="text-xs text-green-600 font-medium">✓ XP Earned</span>
+                            <div className="w-full h-full flex items-center justify-center">
+                              <VideoIcon className="w-12 h-12 text-muted-foreground/50" />
+                            </div>
+                          )}
+                          {isWatched && (
+                            <div className="absolute top-2 right-2">
+                              <Badge className="bg-green-500 text-white">
+                                <CheckCircle2 className="w-3 h-3 mr-1" />
+                                Watched
+                              </Badge>
+                            </div>
                           )}
                         </div>
-                      </CardContent>
-                    </Card>
-                  );
-                })}
+                        {watchedPercent > 0 && (
+                          <Progress
+                            value={watchedPercent}
+                            className="h-1 rounded-none"
+                            title={`${Math.floor(watchedPercent)}% watched`}
+                          />
+                        )}
+                        <CardContent className="p-4">
+                          <div className="flex items-center gap-2 mb-2">
+                            <h3 className="font-semibold line-clamp-1 flex-1">{video.title}</h3>
+                            <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20 shrink-0">
+                              <Zap className="w-3 h-3" />
+                              +{video.xp_reward}
+                            </Badge>
+                          </div>
+                          {video.description && (
+                            <p className="text-sm text-muted-foreground line-clamp-2 mb-2">
+                              {video.description}
+                            </p>
+                          )}
+                          {missing.length > 0 && renderMissing(missing)}
+                          <div className="flex items-center justify-between mt-3">
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(video.created_at), 'MMM d, yyyy')}
+                            </span>
+                            {!isWatched ? (
+                              <span className="text-xs text-muted-foreground">
+                                {Math.floor(watchedPercent)}% watched · {video.required_watch_percent}% for XP
+                              </span>
+                            ) : (
+                              <span className="text-xs text-green-600 font-medium">✓ XP Earned</span>
+                            )}
+                          </div>
+                          {missing.length === 0 && (
+                            <Collapsible className="mt-3 border-t border-border/50 pt-3">
+                              <CollapsibleTrigger className="group flex w-full items-center justify-between text-sm font-medium">
+                                <span className="flex items-center gap-1">
+                                  <StickyNote className="w-4 h-4" />
+                                  Notes ({videoNotes.length})
+                                </span>
+                                <ChevronDown className="w-4 h-4 transition-transform group-data-[state=open]:rotate-180" />
+                              </CollapsibleTrigger>
+                              <CollapsibleContent className="pt-3">
+                                <VideoNotesPanel
+                                  notes={videoNotes}
+                                  currentTime={() => playerRefs.current[video.id]?.currentTime() ?? 0}
+                                  onSeek={(seconds) => playerRefs.current[video.id]?.seekTo(seconds)}
+                                  onAdd={(timestampSeconds, body) => addNote(video.id, timestampSeconds, body)}
+                                  onUpdate={updateNote}
+                                  onDelete={deleteNote}
+                                />
+                              </CollapsibleContent>
+                            </Collapsible>
+                          )}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
               </div>
             )}
           </TabsContent>
@@ -322,64 +999,102 @@ export default function LearningHub() {
                 </CardContent>
               </Card>
             ) : (
-              <div className="grid md:grid-cols-2 gap-6">
-                {quizzes.map((quiz) => {
-                  const isCompleted = completedQuizzes.has(quiz.id);
-                  return (
-                    <Card key={quiz.id} className={`border-border/50 hover:border-primary/50 transition-colors ${isCompleted ? 'border-green-500/30' : ''}`}>
-                      <CardHeader>
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2 flex-wrap">
-                              <CardTitle className="text-lg">{quiz.title}</CardTitle>
-                              {isCompleted && (
-                                <Badge className="bg-green-500 text-white">
-                                  <CheckCircle2 className="w-3 h-3 mr-1" />
-                                  Completed
-                                </Badge>
-                              )}
-                            </div>
-                            {quiz.description && (
-                              <CardDescription className="mt-1">
-                                {quiz.description}
-                              </CardDescription>
-                            )}
-                          </div>
-                          <div className="flex flex-col items-end gap-1">
-                            <Badge className={getDifficultyColor(quiz.difficulty)}>
-                              {quiz.difficulty}
-                            </Badge>
-                            <Badge variant="outline" className="flex items-center gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20">
-                              <Zap className="w-3 h-3" />
-                              +{quiz.xp_reward}
-                            </Badge>
-                          </div>
-                        </div>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
-                          <div className="flex items-center gap-1">
-                            <BookOpen className="w-4 h-4" />
-                            {quiz.total_questions} questions
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <Clock className="w-4 h-4" />
-                            {quiz.timer_per_question}s per question
-                          </div>
-                        </div>
-                        <Button className="w-full" onClick={() => setActiveQuiz(quiz)}>
-                          {isCompleted ? 'Retake Quiz' : 'Start Quiz'}
-                        </Button>
-                        {isCompleted && (
-                          <p className="text-xs text-center text-muted-foreground mt-2">
-                            XP only awarded on first attempt
-                          </p>
-                        )}
-                      </CardContent>
-                    </Card>
-                  );
-                })}
+              <div className="space-y-8">
+                {exams.length > 0 && (
+                  <section className="space-y-4">
+                    <h2 className="text-xl font-semibold flex items-center gap-2">
+                      <GraduationCap className="w-5 h-5" />
+                      Exams
+                    </h2>
+                    <div className="grid md:grid-cols-2 gap-6">
+                      {exams.map(renderQuizCard)}
+                    </div>
+                  </section>
+                )}
+                {practiceQuizzes.length > 0 && (
+                  <section className="space-y-4">
+                    {exams.length > 0 && <h2 className="text-xl font-semibold">Practice Quizzes</h2>}
+                    <div className="grid md:grid-cols-2 gap-6">
+                      {practiceQuizzes.map(renderQuizCard)}
+                    </div>
+                  </section>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="practice">
+            {loading ? (
+              <div className="text-center py-12 text-muted-foreground">
+                Loading your deck...
               </div>
+            ) : deck.total === 0 ? (
+              <Card className="border-border/50">
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  <Layers className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>Your practice deck is empty. Questions you miss in quizzes will be collected here for review.</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="border-border/50 max-w-2xl">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Layers className="w-5 h-5 text-primary" />
+                    {deck.dueToday > 0
+                      ? `${deck.dueToday} ${deck.dueToday === 1 ? 'card' : 'cards'} due today`
+                      : 'All caught up for today'}
+                  </CardTitle>
+                  <CardDescription>
+                    Questions you've missed come back for review, sooner when you get them wrong and
+                    further apart as you remember them.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    <div className="rounded-lg bg-muted/50 p-3">
+                      <p className="text-2xl font-bold">{deck.total}</p>
+                      <p className="text-xs text-muted-foreground">In deck</p>
+                    </div>
+                    <div className="rounded-lg bg-muted/50 p-3">
+                      <p className="text-2xl font-bold">{deck.learning}</p>
+                      <p className="text-xs text-muted-foreground">Learning</p>
+                    </div>
+                    <div className="rounded-lg bg-green-500/10 p-3">
+                      <p className="text-2xl font-bold text-green-600">{deck.mastered}</p>
+                      <p className="text-xs text-muted-foreground" title={`Next review ${MASTERED_INTERVAL_DAYS}+ days out`}>Mastered</p>
+                    </div>
+                  </div>
+                  <Button className="w-full" onClick={() => setPracticeOpen(true)} disabled={deck.dueToday === 0}>
+                    <PlayCircle className="w-4 h-4 mr-2" />
+                    Start Today's Review
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="assignments">
+            {assignmentsLoading ? (
+              <div className="text-center py-12 text-muted-foreground">
+                Loading assignments...
+              </div>
+            ) : (
+              <AssignmentsList
+                assignments={assignments}
+                submissions={submissions}
+                onSubmit={submitAssignment}
+                fileUrls={fileUrls}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="notes">
+            {loading || notesLoading ? (
+              <div className="text-center py-12 text-muted-foreground">
+                Loading your notes...
+              </div>
+            ) : (
+              <MyNotes notes={notes} videos={videos} onOpen={openNote} />
             )}
           </TabsContent>
         </Tabs>
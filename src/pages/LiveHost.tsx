@@ -0,0 +1,229 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  liveSessionAction,
+  liveSessionXp,
+  rankPlayers,
+  useLiveCountdown,
+  useLiveSession,
+} from '@/hooks/useLiveSession';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ZoomableImage } from '@/components/quiz/ZoomableImage';
+import { QuizText } from '@/components/quiz/QuizText';
+import { LivePodium } from '@/components/quiz/LivePodium';
+import { LiveCorrectAnswer } from '@/components/quiz/LiveCorrectAnswer';
+import { Loader2, ArrowLeft, ArrowRight, Users, Clock, Eye, Flag, Zap, BookOpen } from 'lucide-react';
+
+// The projector view: join code, the open question with a live answer count, and the podium
+export default function LiveHost() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { session, players, answers, isLoading } = useLiveSession(sessionId ?? null);
+  const secondsLeft = useLiveCountdown(session);
+  const [busy, setBusy] = useState(false);
+
+  const ranked = rankPlayers(players);
+  const currentAnswers = answers.filter(a => a.question_index === session?.current_index);
+  const everyoneAnswered = players.length > 0 && currentAnswers.length >= players.length;
+
+  // Reveal once the clock runs out or everyone has answered; only once per question
+  const revealedIndex = useRef<number | null>(null);
+  const status = session?.status;
+  const currentIndex = session?.current_index;
+
+  useEffect(() => {
+    if (status !== 'question' || currentIndex === undefined || revealedIndex.current === currentIndex) return;
+    if (secondsLeft !== 0 && !everyoneAnswered) return;
+
+    revealedIndex.current = currentIndex;
+    liveSessionAction({ action: 'reveal', session_id: sessionId });
+  }, [status, currentIndex, secondsLeft, everyoneAnswered, sessionId]);
+
+  const runAction = async (action: 'next' | 'reveal' | 'finish') => {
+    setBusy(true);
+    if (action === 'reveal') revealedIndex.current = session?.current_index ?? null;
+    await liveSessionAction({ action, session_id: sessionId });
+    setBusy(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!session || session.host_id !== user?.id) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Only the host can run this session.</p>
+        <Button variant="outline" onClick={() => navigate('/admin')}>Back to Admin</Button>
+      </div>
+    );
+  }
+
+  const question = session.current_question;
+  const joinUrl = `${window.location.origin}/live/${session.join_code}`;
+  const isLastQuestion = session.current_index >= session.question_count - 1;
+  const pointsGained = Object.fromEntries(currentAnswers.map(a => [a.user_id, a.points]));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/admin')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Admin
+            </Button>
+            <h1 className="text-2xl font-bold">{session.quiz_title}</h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <Badge variant="outline" className="flex items-center gap-1 text-base">
+              <Users className="w-4 h-4" />
+              {players.length}
+            </Badge>
+            {session.status !== 'finished' && (
+              <Badge className="text-base font-mono tracking-widest">{session.join_code}</Badge>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        {session.status === 'lobby' && (
+          <Card>
+            <CardContent className="py-12 space-y-8 text-center">
+              <div className="space-y-2">
+                <p className="text-lg text-muted-foreground">Join at <span className="font-medium text-foreground">{joinUrl}</span> or enter the code</p>
+                <p className="text-7xl font-mono font-bold tracking-[0.3em]">{session.join_code}</p>
+              </div>
+              <div className="flex flex-wrap justify-center gap-2 min-h-10">
+                {players.length === 0 && <p className="text-muted-foreground">Waiting for players...</p>}
+                {players.map(player => (
+                  <Badge key={player.id} variant="secondary" className="text-base px-3 py-1">{player.display_name}</Badge>
+                ))}
+              </div>
+              <div className="flex items-center justify-center gap-4 text-sm text-muted-foreground">
+                <span className="flex items-center gap-1"><BookOpen className="w-4 h-4" />{session.question_count} questions</span>
+                <span className="flex items-center gap-1"><Clock className="w-4 h-4" />{session.question_seconds}s each</span>
+                {session.xp_reward > 0 && (
+                  <span className="flex items-center gap-1"><Zap className="w-4 h-4 text-yellow-500" />Up to {session.xp_reward} XP</span>
+                )}
+              </div>
+              <Button size="lg" onClick={() => runAction('next')} disabled={busy || players.length === 0}>
+                Start Quiz
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {(session.status === 'question' || session.status === 'reveal') && question && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader className="space-y-4">
+                <div className="flex items-center justify-between text-muted-foreground">
+                  <span>Question {question.index + 1} of {question.total}</span>
+                  {session.status === 'question' ? (
+                    <span className={`flex items-center gap-2 font-mono text-2xl ${secondsLeft !== null && secondsLeft <= 5 ? 'text-destructive' : ''}`}>
+                      <Clock className="w-6 h-6" />
+                      {secondsLeft ?? session.question_seconds}s
+                    </span>
+                  ) : (
+                    <span>{currentAnswers.filter(a => a.is_correct).length} of {players.length} got it right</span>
+                  )}
+                </div>
+                <CardTitle className="text-3xl"><QuizText text={question.question} /></CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {question.image_url && (
+                  <ZoomableImage src={question.image_url} alt="Question diagram" className="max-h-80 w-full" />
+                )}
+
+                {session.status === 'question' ? (
+                  <>
+                    {question.question_type !== 'numeric' && (
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        {question.options.map((option, idx) => (
+                          <div key={idx} className="rounded-md border px-4 py-3 text-lg"><QuizText text={option} /></div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>Answers</span>
+                        <span>{currentAnswers.length} / {players.length}</span>
+                      </div>
+                      <Progress value={players.length > 0 ? (currentAnswers.length / players.length) * 100 : 0} />
+                    </div>
+                    <div className="flex justify-end">
+                      <Button onClick={() => runAction('reveal')} disabled={busy}>
+                        <Eye className="w-4 h-4 mr-2" />
+                        Reveal Answer
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <LiveCorrectAnswer question={question} />
+                    {question.explanation && (
+                      <QuizText text={question.explanation} className="block p-4 bg-primary/5 border border-primary/20 rounded-lg" />
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {session.status === 'reveal' && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle>Leaderboard</CardTitle>
+                  {isLastQuestion ? (
+                    <Button onClick={() => runAction('finish')} disabled={busy}>
+                      <Flag className="w-4 h-4 mr-2" />
+                      Finish Quiz
+                    </Button>
+                  ) : (
+                    <Button onClick={() => runAction('next')} disabled={busy}>
+                      Next Question
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <LivePodium players={ranked} pointsGained={pointsGained} />
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+
+        {session.status === 'finished' && (
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle className="text-3xl">Final Results</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <LivePodium players={ranked} limit={10} />
+              {session.xp_reward > 0 && (
+                <p className="text-center text-sm text-muted-foreground">
+                  {ranked.reduce((sum, p) => sum + liveSessionXp(session, p), 0)} XP awarded across {players.length} players
+                </p>
+              )}
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={() => navigate('/admin')}>Back to Admin</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
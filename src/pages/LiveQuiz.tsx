@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  liveSessionAction,
+  liveSessionXp,
+  rankPlayers,
+  useLiveCountdown,
+  useLiveSession,
+} from '@/hooks/useLiveSession';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { QuestionRenderer } from '@/components/quiz/QuestionRenderer';
+import { ZoomableImage } from '@/components/quiz/ZoomableImage';
+import { QuizText } from '@/components/quiz/QuizText';
+import { LivePodium } from '@/components/quiz/LivePodium';
+import { LiveCorrectAnswer } from '@/components/quiz/LiveCorrectAnswer';
+import { isResponseComplete, type QuestionResponse } from '@/lib/quiz';
+import { Loader2, ArrowLeft, Clock, CheckCircle2, XCircle, Radio, Zap } from 'lucide-react';
+
+// Players join with the code shown on the projector (or a /live/:code link) and answer from
+// their phones; the session moves on when the host advances it
+export default function LiveQuiz() {
+  const { code } = useParams<{ code?: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [codeInput, setCodeInput] = useState(code ?? '');
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [joining, setJoining] = useState(false);
+  const [answer, setAnswer] = useState<{ questionId: string; response: QuestionResponse } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submittedIndex, setSubmittedIndex] = useState<number | null>(null);
+  const { session, players, answers, isLoading } = useLiveSession(sessionId);
+  const secondsLeft = useLiveCountdown(session);
+
+  const join = useCallback(async (joinCode: string) => {
+    setJoining(true);
+    const data = await liveSessionAction<{ session_id: string }>({ action: 'join', code: joinCode });
+    setJoining(false);
+
+    if (data) {
+      setSessionId(data.session_id);
+      navigate(`/live/${joinCode.trim().toUpperCase()}`, { replace: true });
+    }
+  }, [navigate]);
+
+  // A /live/:code link joins straight away; rejoining after a refresh keeps the score
+  const autoJoinCode = useRef(code ?? null);
+  useEffect(() => {
+    if (user && autoJoinCode.current) {
+      const joinCode = autoJoinCode.current;
+      autoJoinCode.current = null;
+      join(joinCode);
+    }
+  }, [user, join]);
+
+  // Each question starts blank; ordering questions start from the order they're shown in
+  const question = session?.current_question ?? null;
+  const response: QuestionResponse = question && answer?.questionId === question.id
+    ? answer.response
+    : question?.question_type === 'ordering' ? [...question.options] : null;
+  const setResponse = (value: QuestionResponse) => {
+    if (question) setAnswer({ questionId: question.id, response: value });
+  };
+
+  const handleSubmit = async () => {
+    if (!session || !question) return;
+
+    setSubmitting(true);
+    const data = await liveSessionAction<{ accepted: boolean }>({
+      action: 'answer',
+      session_id: session.id,
+      response,
+    });
+    setSubmitting(false);
+
+    if (data) setSubmittedIndex(session.current_index);
+  };
+
+  if (!sessionId) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader className="text-center">
+            <Radio className="w-12 h-12 mx-auto text-primary mb-2" />
+            <CardTitle>Join a Live Quiz</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (codeInput.trim()) join(codeInput);
+              }}
+            >
+              <Input
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value.toUpperCase())}
+                placeholder="Enter the code"
+                maxLength={6}
+                autoFocus
+                className="text-center text-2xl font-mono tracking-[0.3em] h-14"
+              />
+              <Button type="submit" className="w-full" disabled={joining || !codeInput.trim()}>
+                {joining && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Join
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={() => navigate('/learn')}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Learning Hub
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || !session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const ranked = rankPlayers(players);
+  const me = ranked.find(p => p.user_id === user?.id);
+  const myRank = me ? ranked.indexOf(me) + 1 : null;
+  const myAnswer = answers.find(a => a.user_id === user?.id && a.question_index === session.current_index);
+  const hasAnswered = !!myAnswer || submittedIndex === session.current_index;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between gap-2">
+          <span className="font-semibold truncate">{session.quiz_title}</span>
+          {me && (
+            <Badge variant="outline" className="font-mono shrink-0">
+              {me.score} pts{myRank ? ` · #${myRank}` : ''}
+            </Badge>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-xl">
+        {session.status === 'lobby' && (
+          <Card>
+            <CardContent className="py-12 text-center space-y-3">
+              <CheckCircle2 className="w-12 h-12 mx-auto text-green-500" />
+              <p className="text-xl font-semibold">You're in!</p>
+              <p className="text-muted-foreground">
+                Waiting for the host to start · {players.length} {players.length === 1 ? 'player' : 'players'} joined
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {session.status === 'question' && question && (
+          <Card>
+            <CardHeader className="space-y-3">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>Question {question.index + 1} of {question.total}</span>
+                <span className={`flex items-center gap-1 font-mono ${secondsLeft !== null && secondsLeft <= 5 ? 'text-destructive font-bold' : ''}`}>
+                  <Clock className="w-4 h-4" />
+                  {secondsLeft ?? session.question_seconds}s
+                </span>
+              </div>
+              <CardTitle className="text-xl"><QuizText text={question.question} /></CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {hasAnswered ? (
+                <p className="text-center text-muted-foreground py-8">Answer locked in. Eyes on the screen!</p>
+              ) : secondsLeft === 0 ? (
+                <p className="text-center text-muted-foreground py-8">Time's up!</p>
+              ) : (
+                <>
+                  {question.image_url && (
+                    <ZoomableImage src={question.image_url} alt="Question diagram" className="max-h-56 w-full" />
+                  )}
+                  <QuestionRenderer
+                    key={question.id}
+                    questionType={question.question_type}
+                    options={question.options}
+                    optionImages={question.option_images}
+                    response={response}
+                    onChange={setResponse}
+                    disabled={submitting}
+                  />
+                  <Button
+                    className="w-full"
+                    size="lg"
+                    onClick={handleSubmit}
+                    disabled={submitting || !isResponseComplete(question.question_type, response)}
+                  >
+                    {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Submit Answer
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {session.status === 'reveal' && question && (
+          <div className="space-y-4">
+            <Card>
+              <CardContent className="py-6 text-center space-y-2">
+                {myAnswer?.is_correct ? (
+                  <>
+                    <CheckCircle2 className="w-12 h-12 mx-auto text-green-500" />
+                    <p className="text-xl font-semibold text-green-600">Correct! +{myAnswer.points}</p>
+                  </>
+                ) : myAnswer && myAnswer.points > 0 ? (
+                  <>
+                    <CheckCircle2 className="w-12 h-12 mx-auto text-yellow-500" />
+                    <p className="text-xl font-semibold text-yellow-600">Partly right +{myAnswer.points}</p>
+                  </>
+                ) : (
+                  <>
+                    <XCircle className="w-12 h-12 mx-auto text-destructive" />
+                    <p className="text-xl font-semibold text-destructive">{myAnswer ? 'Not quite' : 'No answer'}</p>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6 space-y-4">
+                <LiveCorrectAnswer question={question} />
+                {question.explanation && (
+                  <QuizText text={question.explanation} className="block text-sm p-3 bg-primary/5 border border-primary/20 rounded-lg" />
+                )}
+              </CardContent>
+            </Card>
+            <LivePodium players={ranked} highlightUserId={user?.id} limit={3} />
+          </div>
+        )}
+
+        {session.status === 'finished' && (
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl">Final Results</CardTitle>
+              {myRank && <p className="text-muted-foreground">You finished #{myRank} of {ranked.length}</p>}
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <LivePodium players={ranked} highlightUserId={user?.id} />
+              {me && liveSessionXp(session, me) > 0 && (
+                <div className="flex items-center justify-center gap-2 p-3 bg-yellow-500/10 rounded-lg">
+                  <Zap className="w-5 h-5 text-yellow-500" />
+                  <span className="font-bold text-yellow-600">+{liveSessionXp(session, me)} XP Earned!</span>
+                </div>
+              )}
+              <Button variant="outline" className="w-full" onClick={() => navigate('/learn')}>
+                Back to Learning Hub
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
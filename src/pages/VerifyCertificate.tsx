@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { BadgeCheck, Loader2, ShieldAlert, ShieldX } from 'lucide-react';
+import roboClubLogo from '@/assets/roboclub-logo.webp';
+import { format } from 'date-fns';
+import type { Certificate } from '@/lib/certificates';
+
+// Public page linked from certificates, confirming one was really issued. Works signed out.
+export default function VerifyCertificate() {
+  const { certificateId } = useParams<{ certificateId: string }>();
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const verify = async () => {
+      const { data, error } = await supabase.rpc('verify_certificate', { _code: certificateId ?? '' });
+      if (error) console.error('Error verifying certificate:', error);
+      setCertificate(data?.[0] ?? null);
+      setLoading(false);
+    };
+
+    verify();
+  }, [certificateId]);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center px-4 py-12">
+      <Link to="/" className="flex items-center gap-3 mb-8">
+        <div className="w-10 h-10 rounded-xl overflow-hidden">
+          <img src={roboClubLogo} alt="RoboClub Logo" className="w-full h-full object-cover" />
+        </div>
+        <span className="text-xl font-display font-bold">RoboClub</span>
+      </Link>
+
+      <Card className="border-border/50 w-full max-w-lg">
+        <CardContent className="p-8 text-center">
+          {loading ? (
+            <Loader2 className="w-8 h-8 mx-auto animate-spin text-primary" />
+          ) : !certificate ? (
+            <>
+              <ShieldX className="w-14 h-14 mx-auto mb-4 text-destructive" />
+              <h1 className="text-2xl font-display font-bold mb-2">Certificate not found</h1>
+              <p className="text-muted-foreground">
+                No certificate has been issued with the ID <span className="font-mono">{certificateId}</span>.
+              </p>
+            </>
+          ) : (
+            <>
+              {certificate.revoked_at ? (
+                <>
+                  <ShieldAlert className="w-14 h-14 mx-auto mb-4 text-orange-500" />
+                  <h1 className="text-2xl font-display font-bold mb-2">Certificate revoked</h1>
+                  <p className="text-muted-foreground mb-6">
+                    This certificate was issued by RoboClub but revoked on {format(new Date(certificate.revoked_at), 'MMMM d, yyyy')}.
+                    It is no longer valid.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <BadgeCheck className="w-14 h-14 mx-auto mb-4 text-green-500" />
+                  <h1 className="text-2xl font-display font-bold mb-2">Valid certificate</h1>
+                  <p className="text-muted-foreground mb-6">This certificate was issued by RoboClub.</p>
+                </>
+              )}
+              <dl className="text-left space-y-3 rounded-lg bg-muted/50 p-4">
+                <div>
+                  <dt className="text-xs text-muted-foreground">Awarded to</dt>
+                  <dd className="font-semibold">{certificate.recipient_name}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-muted-foreground">Course</dt>
+                  <dd className="font-semibold">{certificate.course_title}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-muted-foreground">Issued</dt>
+                  <dd>{format(new Date(certificate.issued_at), 'MMMM d, yyyy')}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-muted-foreground">Certificate ID</dt>
+                  <dd className="font-mono">{certificate.code}</dd>
+                </div>
+              </dl>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+// Finalizing quiz attempts: shared by submit-quiz, start-quiz (when a student starts over)
+// and finalize-abandoned-quizzes (attempts left idle past the quiz's resume window).
+// preview-quiz grades with gradeSelection but records nothing.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { gradeQuestion, type GradableQuestion, type GradedQuestion, type QuestionResponse } from "./grading.ts";
+import { toCanonicalResponse, toDisplayedResponse, type SelectedQuestion } from "./selection.ts";
+import { hintPenalty, parseHints } from "./questions.ts";
+
+export interface SubmittedAnswer {
+  question_id: string;
+  response: QuestionResponse;
+  time_spent_seconds?: number;
+}
+
+export interface InProgressAttempt {
+  id: string;
+  user_id: string;
+  quiz_id: string;
+  status: string;
+  started_at: string;
+  last_activity_at: string;
+  deadline_at: string | null;
+  question_selection: SelectedQuestion[] | null;
+  answers: SubmittedAnswer[] | null;
+  // Hints revealed by question id, written by reveal_quiz_hint
+  hints_used: Record<string, number> | null;
+}
+
+// How quiz_xp_breakdown computed the reward under the quiz's XP policy
+export interface XpBreakdown {
+  policy: "fixed" | "proportional";
+  xp_reward: number;
+  score_percent: number;
+  pass_percent: number;
+  passed: boolean;
+  base_xp: number;
+  speed_bonus: number;
+  hint_penalty: number;
+  time_taken_seconds: number;
+  time_limit_seconds: number;
+}
+
+export interface FinalizedAttempt {
+  attempt_id: string;
+  score: number;
+  total_questions: number;
+  is_first_attempt: boolean;
+  xp_earned_before: boolean;
+  // The student had seen this quiz's answers before the attempt started, so it earns no XP
+  answers_seen_before: boolean;
+  xp_awarded: number;
+  xp_breakdown: XpBreakdown;
+  results: GradedQuestion[];
+}
+
+export const ATTEMPT_COLUMNS =
+  "id, user_id, quiz_id, status, started_at, last_activity_at, deadline_at, question_selection, answers, hints_used";
+
+// Answers already saved with save_quiz_progress are final once the student has moved past the
+// question; only questions answered since the last save are taken from the submission
+export function withSavedAnswers(saved: SubmittedAnswer[], submitted: SubmittedAnswer[]): SubmittedAnswer[] {
+  const savedIds = new Set(saved.map((a) => a.question_id));
+  return [...saved, ...submitted.filter((a) => !savedIds.has(a.question_id))];
+}
+
+export function isAbandoned(attempt: InProgressAttempt, resumeWindowMinutes: number, now = Date.now()): boolean {
+  return now - new Date(attempt.last_activity_at).getTime() > resumeWindowMinutes * 60 * 1000;
+}
+
+// An answer as recorded in quiz_attempt_answers, in canonical option positions
+export interface AnswerRecord extends GradedQuestion {
+  time_spent_seconds: number | null;
+  hints_used: number;
+  hint_penalty: number;
+}
+
+export interface GradedSelection {
+  score: number;
+  total_questions: number;
+  answer_records: AnswerRecord[];
+  // In the positions the student saw
+  results: (GradedQuestion & { hints_used: number })[];
+}
+
+export interface GradingSettings {
+  timer_per_question: number;
+  hint_penalty_mode: "none" | "credit" | "xp";
+}
+
+// Grades answers against exactly the questions that were dealt. Questions without an answer are
+// graded as blank. Hints cost credit here in the quiz's 'credit' mode; in 'xp' mode
+// quiz_xp_breakdown takes them off the XP instead.
+export async function gradeSelection(
+  supabase: SupabaseClient,
+  quiz: GradingSettings,
+  selection: SelectedQuestion[],
+  answers: SubmittedAnswer[],
+  hintsUsedById: Record<string, number>,
+): Promise<GradedSelection> {
+  const { data: questions, error: questionsError } = await supabase
+    .from("quiz_questions")
+    .select("id, question_type, options, correct_answer, answer, hints")
+    .in("id", selection.map((s) => s.question_id));
+
+  if (questionsError) throw questionsError;
+
+  const questionById = new Map((questions as (GradableQuestion & { hints: unknown })[]).map((q) => [q.id, q]));
+  const answerById = new Map<string, SubmittedAnswer>(answers.map((a) => [a.question_id, a]));
+
+  // Responses are in displayed positions; grading and storage use canonical ones
+  const graded = selection
+    .filter((s) => questionById.has(s.question_id))
+    .map((s) => {
+      const question = questionById.get(s.question_id)!;
+      const displayed = answerById.get(s.question_id)?.response ?? null;
+      const graded = gradeQuestion(question, toCanonicalResponse(question.question_type, displayed, s.option_order));
+
+      const hintsUsed = hintsUsedById[s.question_id] ?? 0;
+      const penalty = quiz.hint_penalty_mode === "none" ? 0 : hintPenalty(parseHints(question.hints), hintsUsed);
+      const result = quiz.hint_penalty_mode === "credit"
+        ? { ...graded, credit: Math.round(graded.credit * (1 - penalty) * 100) / 100 }
+        : graded;
+
+      return { selected: s, question, result, hintsUsed, penalty };
+    });
+
+  // Per-question timing can't exceed the question timer
+  const answerRecords = graded.map(({ result, hintsUsed, penalty }) => {
+    const submitted = answerById.get(result.question_id);
+    const timeSpent = Number(submitted?.time_spent_seconds);
+    return {
+      ...result,
+      time_spent_seconds: Number.isFinite(timeSpent)
+        ? Math.min(quiz.timer_per_question, Math.max(0, Math.round(timeSpent)))
+        : null,
+      hints_used: hintsUsed,
+      hint_penalty: Math.round(penalty * 100) / 100,
+    };
+  });
+
+  const results = graded.map(({ selected, question, result, hintsUsed }) => ({
+    ...result,
+    hints_used: hintsUsed,
+    response: toDisplayedResponse(question.question_type, result.response, selected.option_order),
+    correct: toDisplayedResponse(question.question_type, result.correct, selected.option_order),
+  }));
+
+  return {
+    score: Math.round(graded.reduce((sum, g) => sum + g.result.credit, 0) * 100) / 100,
+    total_questions: graded.length,
+    answer_records: answerRecords,
+    results,
+  };
+}
+
+// Grades the attempt against the questions it was dealt and records it
+export async function finalizeAttempt(
+  supabase: SupabaseClient,
+  attempt: InProgressAttempt,
+  answers: SubmittedAnswer[],
+  endedAt = new Date(),
+): Promise<FinalizedAttempt> {
+  const { data: quiz, error: quizError } = await supabase
+    .from("quizzes")
+    .select("id, timer_per_question, hint_penalty_mode")
+    .eq("id", attempt.quiz_id)
+    .single();
+
+  if (quizError) throw quizError;
+
+  const graded = await gradeSelection(
+    supabase,
+    quiz as GradingSettings,
+    attempt.question_selection ?? [],
+    answers,
+    attempt.hints_used ?? {},
+  );
+
+  const timeTaken = Math.max(0, Math.floor((endedAt.getTime() - new Date(attempt.started_at).getTime()) / 1000));
+
+  const { data: recorded, error: recordError } = await supabase.rpc("record_quiz_attempt", {
+    _attempt_id: attempt.id,
+    _score: graded.score,
+    _time_taken_seconds: timeTaken,
+    _answers: graded.answer_records,
+  });
+
+  if (recordError) throw recordError;
+
+  return {
+    attempt_id: attempt.id,
+    score: graded.score,
+    total_questions: graded.total_questions,
+    is_first_attempt: recorded.is_first_attempt,
+    xp_earned_before: recorded.xp_earned_before,
+    answers_seen_before: recorded.answers_seen_before,
+    xp_awarded: recorded.xp_awarded,
+    xp_breakdown: recorded.xp_breakdown,
+    results: graded.results,
+  };
+}
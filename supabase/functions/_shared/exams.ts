@@ -0,0 +1,118 @@
+// Exam rules shared by start-quiz, submit-quiz, quiz-review and finalize-abandoned-quizzes.
+// Admins can grant a student extra attempts, extra minutes on the time limit or a later closing time.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Slack after a deadline for answers already in flight; matches save_quiz_progress
+export const DEADLINE_GRACE_SECONDS = 30;
+
+export const EXAM_COLUMNS = "is_exam, opens_at, closes_at, max_attempts, time_limit_minutes";
+
+export interface ExamSettings {
+  is_exam: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_attempts: number | null;
+  time_limit_minutes: number | null;
+}
+
+export interface ExamGrant {
+  extra_attempts: number;
+  extra_minutes: number;
+  closes_at: string | null;
+}
+
+const NO_GRANT: ExamGrant = { extra_attempts: 0, extra_minutes: 0, closes_at: null };
+
+export async function loadExamGrant(supabase: SupabaseClient, quizId: string, userId: string): Promise<ExamGrant> {
+  const { data, error } = await supabase
+    .from("quiz_exam_grants")
+    .select("extra_attempts, extra_minutes, closes_at")
+    .eq("quiz_id", quizId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ?? NO_GRANT;
+}
+
+// A granted closing time can only extend the window
+export function effectiveClosesAt(exam: ExamSettings, grant: ExamGrant): Date | null {
+  if (!exam.closes_at) return null;
+  const closes = new Date(exam.closes_at);
+  return grant.closes_at && new Date(grant.closes_at) > closes ? new Date(grant.closes_at) : closes;
+}
+
+// Returns why a new attempt can't be started, or null when it can
+// Attempts the student may make at the exam, or null for no limit
+export const allowedAttempts = (exam: ExamSettings, grant: ExamGrant): number | null =>
+  exam.is_exam && exam.max_attempts !== null ? exam.max_attempts + grant.extra_attempts : null;
+
+export const attemptsUsedError = (allowed: number) =>
+  `You have used all ${allowed} ${allowed === 1 ? "attempt" : "attempts"} for this exam`;
+
+export function examStartError(exam: ExamSettings, grant: ExamGrant, attemptsUsed: number, now = new Date()): string | null {
+  if (!exam.is_exam) return null;
+
+  if (exam.opens_at && now < new Date(exam.opens_at)) {
+    return "This exam hasn't opened yet";
+  }
+
+  const closesAt = effectiveClosesAt(exam, grant);
+  if (closesAt && now >= closesAt) {
+    return "This exam has closed";
+  }
+
+  const allowed = allowedAttempts(exam, grant);
+  if (allowed !== null && attemptsUsed >= allowed) {
+    return attemptsUsedError(allowed);
+  }
+
+  return null;
+}
+
+// When an attempt started now must be handed in, or null when there is no deadline
+export function attemptDeadline(exam: ExamSettings, grant: ExamGrant, startedAt = new Date()): Date | null {
+  if (!exam.is_exam) return null;
+
+  const candidates: Date[] = [];
+  if (exam.time_limit_minutes !== null) {
+    const minutes = exam.time_limit_minutes + grant.extra_minutes;
+    candidates.push(new Date(startedAt.getTime() + minutes * 60 * 1000));
+  }
+
+  const closesAt = effectiveClosesAt(exam, grant);
+  if (closesAt) candidates.push(closesAt);
+
+  return candidates.length > 0 ? new Date(Math.min(...candidates.map((d) => d.getTime()))) : null;
+}
+
+export function isPastDeadline(deadlineAt: string | null, now = Date.now()): boolean {
+  return deadlineAt !== null && now > new Date(deadlineAt).getTime() + DEADLINE_GRACE_SECONDS * 1000;
+}
+
+// Exam answers are released once the exam has closed for everyone, including students with a
+// later granted closing time. Returns null when answers can be shown now.
+export async function answersHiddenUntil(
+  supabase: SupabaseClient,
+  quizId: string,
+  exam: ExamSettings,
+  now = new Date(),
+): Promise<Date | null> {
+  if (!exam.is_exam || !exam.closes_at) return null;
+
+  const { data: grants, error } = await supabase
+    .from("quiz_exam_grants")
+    .select("closes_at")
+    .eq("quiz_id", quizId)
+    .not("closes_at", "is", null);
+
+  if (error) throw error;
+
+  const releaseAt = Math.max(
+    new Date(exam.closes_at).getTime(),
+    ...(grants ?? []).map((g) => new Date(g.closes_at as string).getTime()),
+  );
+
+  return now.getTime() < releaseAt ? new Date(releaseAt) : null;
+}
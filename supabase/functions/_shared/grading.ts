@@ -0,0 +1,104 @@
+// Server-side grading for every quiz question type.
+// Responses are in the shape QuizPlayer submits, mapped to canonical option positions (see selection.ts):
+//   single_choice, true_false: option index
+//   multi_select:              array of option indices
+//   numeric:                   number
+//   ordering:                  array of option texts in the chosen order
+
+export type QuestionType = "single_choice" | "multi_select" | "true_false" | "numeric" | "ordering";
+
+export type QuestionResponse = number | number[] | string[] | null;
+
+export interface GradableQuestion {
+  id: string;
+  question_type: QuestionType;
+  options: unknown;
+  correct_answer: number | null;
+  answer: unknown;
+}
+
+export interface GradedQuestion {
+  question_id: string;
+  response: QuestionResponse;
+  is_correct: boolean;
+  credit: number;
+  correct: QuestionResponse;
+}
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map((v) => String(v)) : [];
+
+const asIndexArray = (value: unknown): number[] =>
+  Array.isArray(value) ? value.filter((v): v is number => Number.isInteger(v)) : [];
+
+// Canonical correct answer for a question, in the same shape as a response
+export function correctResponse(question: GradableQuestion): QuestionResponse {
+  const answer = (question.answer ?? {}) as Record<string, unknown>;
+
+  switch (question.question_type) {
+    case "single_choice":
+    case "true_false":
+      return question.correct_answer;
+    case "multi_select":
+      return asIndexArray(answer.correct).sort((a, b) => a - b);
+    case "numeric":
+      return typeof answer.value === "number" ? answer.value : null;
+    case "ordering":
+      return asStringArray(question.options);
+  }
+}
+
+// Returns the fraction of credit (0..1) earned by a response
+export function gradeResponse(question: GradableQuestion, response: QuestionResponse): number {
+  if (response === null || response === undefined) return 0;
+
+  const answer = (question.answer ?? {}) as Record<string, unknown>;
+
+  switch (question.question_type) {
+    case "single_choice":
+    case "true_false":
+      return response === question.correct_answer ? 1 : 0;
+
+    case "multi_select": {
+      // Each correct pick earns a share; each wrong pick cancels one
+      const correct = new Set(asIndexArray(answer.correct));
+      const picked = new Set(asIndexArray(response));
+      if (correct.size === 0) return 0;
+
+      let hits = 0;
+      let misses = 0;
+      picked.forEach((idx) => (correct.has(idx) ? hits++ : misses++));
+      return Math.max(0, (hits - misses) / correct.size);
+    }
+
+    case "numeric": {
+      const target = answer.value;
+      if (typeof target !== "number" || typeof response !== "number" || !Number.isFinite(response)) return 0;
+
+      const tolerancePercent = typeof answer.tolerance_percent === "number" ? answer.tolerance_percent : 0;
+      const tolerance = Math.abs(target) * (tolerancePercent / 100);
+      return Math.abs(response - target) <= tolerance + Number.EPSILON ? 1 : 0;
+    }
+
+    case "ordering": {
+      const expected = asStringArray(question.options);
+      const given = asStringArray(response);
+      return expected.length > 0 &&
+        expected.length === given.length &&
+        expected.every((opt, idx) => opt === given[idx])
+        ? 1
+        : 0;
+    }
+  }
+}
+
+export function gradeQuestion(question: GradableQuestion, response: QuestionResponse): GradedQuestion {
+  const credit = Math.round(gradeResponse(question, response) * 100) / 100;
+  return {
+    question_id: question.id,
+    response,
+    is_correct: credit === 1,
+    credit,
+    correct: correctResponse(question),
+  };
+}
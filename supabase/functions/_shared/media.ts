@@ -0,0 +1,47 @@
+// Images in quiz questions live in the private quiz-media bucket, so an exam's images can't be
+// looked at before it is dealt. Questions keep the URL the admin upload produced; whatever hands
+// questions to students swaps those for short-lived signed URLs.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const QUIZ_MEDIA_BUCKET = "quiz-media";
+
+// Long enough for a timed attempt or a live session
+const SIGNED_URL_SECONDS = 3 * 60 * 60;
+
+const STORED_URL_MARKER = `/storage/v1/object/public/${QUIZ_MEDIA_BUCKET}/`;
+
+// The object path of a quiz-media image, or null for an image hosted elsewhere
+export const quizMediaPath = (url: string): string | null => {
+  const at = url.indexOf(STORED_URL_MARKER);
+  return at === -1 ? null : decodeURIComponent(url.slice(at + STORED_URL_MARKER.length).split("?")[0]);
+};
+
+interface QuestionMedia {
+  image_url: string | null;
+  option_images: (string | null)[];
+}
+
+// The questions with their quiz-media images replaced by signed URLs
+export async function withSignedMedia<T extends QuestionMedia>(supabase: SupabaseClient, questions: T[]): Promise<T[]> {
+  const paths = [
+    ...new Set(
+      questions
+        .flatMap((q) => [q.image_url, ...q.option_images])
+        .map((url) => (url ? quizMediaPath(url) : null))
+        .filter((path): path is string => path !== null),
+    ),
+  ];
+  if (paths.length === 0) return questions;
+
+  const { data, error } = await supabase.storage.from(QUIZ_MEDIA_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error) throw error;
+
+  const signedByPath = new Map((data ?? []).filter((d) => d.signedUrl).map((d) => [d.path, d.signedUrl]));
+  const sign = (url: string | null) => {
+    const path = url ? quizMediaPath(url) : null;
+    return (path && signedByPath.get(path)) || url;
+  };
+
+  return questions.map((q) => ({ ...q, image_url: sign(q.image_url), option_images: q.option_images.map(sign) }));
+}
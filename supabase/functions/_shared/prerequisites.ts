@@ -0,0 +1,54 @@
+// Prerequisite checks shared by the edge functions. The rules live in content_prerequisites and
+// are evaluated by missing_prerequisites, the same function the video RLS policies go through.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface MissingPrerequisite {
+  required_quiz_id: string | null;
+  required_video_id: string | null;
+  title: string;
+  min_score_percent: number;
+  best_score_percent: number | null;
+}
+
+export async function missingQuizPrerequisites(
+  supabase: SupabaseClient,
+  quizId: string,
+  userId: string,
+): Promise<MissingPrerequisite[]> {
+  const { data, error } = await supabase.rpc("missing_prerequisites", {
+    _user_id: userId,
+    _quiz_id: quizId,
+    _video_id: null,
+  });
+
+  if (error) throw error;
+  return (data ?? []) as MissingPrerequisite[];
+}
+
+export async function missingVideoPrerequisites(
+  supabase: SupabaseClient,
+  videoId: string,
+  userId: string,
+): Promise<MissingPrerequisite[]> {
+  const { data, error } = await supabase.rpc("missing_prerequisites", {
+    _user_id: userId,
+    _quiz_id: null,
+    _video_id: videoId,
+  });
+
+  if (error) throw error;
+  return (data ?? []) as MissingPrerequisite[];
+}
+
+// e.g. 'Locked: watch "Intro", score at least 70% on "Basics"'
+export function lockedMessage(missing: MissingPrerequisite[]): string {
+  const parts = missing.map((m) =>
+    m.required_video_id
+      ? `watch "${m.title}"`
+      : m.min_score_percent > 0
+        ? `score at least ${m.min_score_percent}% on "${m.title}"`
+        : `complete "${m.title}"`
+  );
+  return `Locked: ${parts.join(", ")}`;
+}
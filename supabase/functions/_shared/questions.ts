@@ -0,0 +1,118 @@
+// Dealing a quiz's questions, shared by start-quiz and live-session.
+// A deal is the published version's questions plus a random draw from each linked bank, in the
+// quiz's order (or shuffled), with each question's option order recorded as in selection.ts.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { QuestionType } from "./grading.ts";
+import { applyOrder, optionOrderFor, sample, shuffle, type SelectedQuestion } from "./selection.ts";
+
+export interface QuestionRow {
+  id: string;
+  question_type: QuestionType;
+  question: string;
+  image_url: string | null;
+  options: unknown;
+  option_images: unknown;
+  hints: unknown;
+  order_index: number;
+}
+
+export const QUESTION_COLUMNS = "id, question_type, question, image_url, options, option_images, hints, order_index";
+
+// One of a question's progressive hints; cost_percent is the share of the question's worth it costs
+export interface QuestionHint {
+  text: string;
+  cost_percent: number;
+}
+
+export interface DealSettings {
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+}
+
+export const optionTexts = (q: QuestionRow) => (Array.isArray(q.options) ? q.options.map((o) => String(o)) : []);
+
+export const parseHints = (value: unknown): QuestionHint[] =>
+  Array.isArray(value)
+    ? value
+      .filter((h) => h && typeof h.text === "string")
+      .map((h) => ({ text: h.text, cost_percent: Number(h.cost_percent) || 0 }))
+    : [];
+
+// Share of a question's worth (0..1) that its first `used` hints cost
+export const hintPenalty = (hints: QuestionHint[], used: number) =>
+  Math.min(1, hints.slice(0, used).reduce((sum, h) => sum + h.cost_percent, 0) / 100);
+
+// What the student sees: no answers, options in the dealt order
+export const toClientQuestion = (q: QuestionRow, order: number[] | null) => {
+  const options = optionTexts(q);
+  const optionImages = options.map((_, i) =>
+    Array.isArray(q.option_images) && typeof q.option_images[i] === "string" ? q.option_images[i] as string : null
+  );
+
+  return {
+    id: q.id,
+    question_type: q.question_type,
+    question: q.question,
+    image_url: q.image_url,
+    options: applyOrder(options, order),
+    option_images: applyOrder(optionImages, order),
+  };
+};
+
+// Hints in a quiz attempt: what each one costs, and the text of those already revealed
+export const toClientHints = (q: QuestionRow, used: number) => {
+  const hints = parseHints(q.hints);
+  return {
+    hint_costs: hints.map((h) => h.cost_percent),
+    hints: hints.slice(0, used).map((h) => h.text),
+  };
+};
+
+export async function dealQuestions(
+  supabase: SupabaseClient,
+  quizId: string,
+  versionId: string | null,
+  settings: DealSettings,
+): Promise<{ questions: QuestionRow[]; selection: SelectedQuestion[] }> {
+  // Questions authored directly on the quiz are always included; a quiz that was never published
+  // has none to deal
+  const { data: ownQuestions, error: ownError } = versionId
+    ? await supabase
+      .from("quiz_questions")
+      .select(QUESTION_COLUMNS)
+      .eq("version_id", versionId)
+      .order("order_index", { ascending: true })
+    : { data: [], error: null };
+
+  if (ownError) throw ownError;
+
+  const { data: draws, error: drawsError } = await supabase
+    .from("quiz_bank_draws")
+    .select("bank_id, draw_count")
+    .eq("quiz_id", quizId);
+
+  if (drawsError) throw drawsError;
+
+  const drawn: QuestionRow[] = [];
+  for (const draw of draws ?? []) {
+    const { data: bankQuestions, error: bankError } = await supabase
+      .from("quiz_questions")
+      .select(QUESTION_COLUMNS)
+      .eq("bank_id", draw.bank_id)
+      .is("retired_at", null);
+
+    if (bankError) throw bankError;
+    drawn.push(...sample((bankQuestions ?? []) as QuestionRow[], draw.draw_count));
+  }
+
+  const selected = [...((ownQuestions ?? []) as QuestionRow[]), ...drawn];
+  const questions = settings.shuffle_questions ? shuffle(selected) : selected;
+
+  const selection: SelectedQuestion[] = questions.map((q) => ({
+    question_id: q.id,
+    option_order: optionOrderFor(q.question_type, optionTexts(q).length, settings),
+  }));
+
+  return { questions, selection };
+}
@@ -0,0 +1,76 @@
+// Building the answer review, shared by quiz-review (completed attempts) and preview-quiz.
+// Every question is shown as it was dealt, with the answer given, the correct answer and the
+// explanation.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { correctResponse, type GradableQuestion, type QuestionResponse } from "./grading.ts";
+import { applyOrder, toDisplayedResponse, type SelectedQuestion } from "./selection.ts";
+
+export interface ReviewQuestionRow extends GradableQuestion {
+  question: string;
+  image_url: string | null;
+  option_images: unknown;
+  explanation: string | null;
+}
+
+export const REVIEW_QUESTION_COLUMNS =
+  "id, question_type, question, image_url, options, option_images, correct_answer, answer, explanation";
+
+// A graded answer in canonical option positions
+export interface ReviewedAnswer {
+  response: QuestionResponse;
+  is_correct: boolean;
+  credit: number;
+  hints_used: number;
+}
+
+export const toReviewQuestion = (q: ReviewQuestionRow, selected: SelectedQuestion, answer: ReviewedAnswer | undefined) => {
+  const options = Array.isArray(q.options) ? q.options.map((o) => String(o)) : [];
+  const optionImages = options.map((_, i) =>
+    Array.isArray(q.option_images) && typeof q.option_images[i] === "string" ? q.option_images[i] as string : null
+  );
+  const details = (q.answer ?? {}) as Record<string, unknown>;
+
+  return {
+    id: q.id,
+    question_type: q.question_type,
+    question: q.question,
+    image_url: q.image_url,
+    options: applyOrder(options, selected.option_order),
+    option_images: applyOrder(optionImages, selected.option_order),
+    response: toDisplayedResponse(q.question_type, answer?.response ?? null, selected.option_order),
+    correct: toDisplayedResponse(q.question_type, correctResponse(q), selected.option_order),
+    tolerance_percent: typeof details.tolerance_percent === "number" ? details.tolerance_percent : null,
+    is_correct: answer?.is_correct ?? false,
+    credit: answer?.credit ?? 0,
+    hints_used: answer?.hints_used ?? 0,
+    explanation: q.explanation,
+  };
+};
+
+// Records when a student was first shown an attempt's correct answers; later attempts at the
+// quiz earn no XP (see record_quiz_attempt)
+export async function markAnswersSeen(supabase: SupabaseClient, attemptId: string): Promise<void> {
+  const { error } = await supabase
+    .from("quiz_attempts")
+    .update({ answers_seen_at: new Date().toISOString() })
+    .eq("id", attemptId)
+    .is("answers_seen_at", null);
+
+  if (error) throw error;
+}
+
+// Records the first time students were shown a quiz's correct answers outside an attempt's
+// review (practice cards, live reveals); it counts the same way as markAnswersSeen
+export async function markQuizAnswersSeen(supabase: SupabaseClient, userIds: string[], quizId: string): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("quiz_answers_seen")
+    .upsert(userIds.map((userId) => ({ user_id: userId, quiz_id: quizId })), {
+      onConflict: "user_id,quiz_id",
+      ignoreDuplicates: true,
+    });
+
+  if (error) throw error;
+}
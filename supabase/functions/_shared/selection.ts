@@ -0,0 +1,94 @@
+// Per-attempt question selection and option shuffling.
+// An attempt stores, for every drawn question, the permutation it was shown with:
+//   option_order[displayedIndex] = canonicalIndex
+// Responses come back in displayed positions and are mapped to canonical ones before grading.
+
+import type { QuestionResponse, QuestionType } from "./grading.ts";
+
+export interface SelectedQuestion {
+  question_id: string;
+  option_order: number[] | null;
+}
+
+export interface ShuffleSettings {
+  shuffle_options: boolean;
+}
+
+// Fisher-Yates; returns a new array
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function sample<T>(items: T[], count: number): T[] {
+  return shuffle(items).slice(0, Math.min(count, items.length));
+}
+
+// Ordering questions are always scrambled (their options are stored in the correct order);
+// true/false and numeric keep fixed positions.
+export function optionOrderFor(
+  questionType: QuestionType,
+  optionCount: number,
+  settings: ShuffleSettings,
+): number[] | null {
+  const identity = Array.from({ length: optionCount }, (_, i) => i);
+
+  if (questionType === "ordering") return shuffle(identity);
+  if ((questionType === "single_choice" || questionType === "multi_select") && settings.shuffle_options) {
+    return shuffle(identity);
+  }
+  return null;
+}
+
+export function applyOrder<T>(items: T[], order: number[] | null): T[] {
+  return order ? order.map((i) => items[i]) : items;
+}
+
+// Maps a response given against the displayed options back to canonical indices.
+// Ordering responses are option texts, so they need no mapping.
+export function toCanonicalResponse(
+  questionType: QuestionType,
+  response: QuestionResponse,
+  order: number[] | null,
+): QuestionResponse {
+  if (!order || response === null || response === undefined) return response ?? null;
+
+  const toCanonical = (displayed: number) => order[displayed] ?? -1;
+
+  switch (questionType) {
+    case "single_choice":
+    case "true_false":
+      return typeof response === "number" ? toCanonical(response) : null;
+    case "multi_select":
+      return Array.isArray(response)
+        ? (response as number[]).filter((i) => Number.isInteger(i)).map(toCanonical)
+        : null;
+    default:
+      return response;
+  }
+}
+
+// Inverse of toCanonicalResponse, used to report answers in the positions the student saw
+export function toDisplayedResponse(
+  questionType: QuestionType,
+  response: QuestionResponse,
+  order: number[] | null,
+): QuestionResponse {
+  if (!order || response === null || response === undefined) return response ?? null;
+
+  const toDisplayed = (canonical: number) => order.indexOf(canonical);
+
+  switch (questionType) {
+    case "single_choice":
+    case "true_false":
+      return typeof response === "number" ? toDisplayed(response) : null;
+    case "multi_select":
+      return Array.isArray(response) ? (response as number[]).map(toDisplayed).sort((a, b) => a - b) : null;
+    default:
+      return response;
+  }
+}
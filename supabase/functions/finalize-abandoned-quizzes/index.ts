@@ -0,0 +1,82 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ATTEMPT_COLUMNS, finalizeAttempt, isAbandoned, type InProgressAttempt } from "../_shared/attempts.ts";
+import { isPastDeadline } from "../_shared/exams.ts";
+
+// Runs on a schedule (like monthly-xp-reset) and submits every in-progress attempt that has
+// been idle longer than its quiz's resume window or has run past its exam deadline, grading the
+// answers saved so far.
+//
+// JWT verification is off for the scheduler, so callers must send either the
+// CRON_SECRET in an x-cron-secret header or the service role key as their bearer token.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-cron-secret",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const isScheduler = (req: Request, serviceKey: string) => {
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (cronSecret && req.headers.get("x-cron-secret") === cronSecret) return true;
+  return req.headers.get("Authorization") === `Bearer ${serviceKey}`;
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    if (!isScheduler(req, supabaseServiceKey)) {
+      return jsonResponse({ success: false, error: "Not authorized" }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: attempts, error: attemptsError } = await supabase
+      .from("quiz_attempts")
+      .select(`${ATTEMPT_COLUMNS}, quizzes(resume_window_minutes)`)
+      .eq("status", "in_progress")
+      .order("last_activity_at", { ascending: true });
+
+    if (attemptsError) throw attemptsError;
+
+    const abandoned = (attempts ?? []).filter((a) =>
+      isPastDeadline(a.deadline_at) ||
+      isAbandoned(a as unknown as InProgressAttempt, a.quizzes?.resume_window_minutes ?? 30)
+    );
+
+    let finalized = 0;
+    for (const attempt of abandoned) {
+      try {
+        await finalizeAttempt(
+          supabase,
+          attempt as unknown as InProgressAttempt,
+          attempt.answers ?? [],
+          new Date(attempt.deadline_at && attempt.deadline_at < attempt.last_activity_at ? attempt.deadline_at : attempt.last_activity_at),
+        );
+        finalized++;
+      } catch (error) {
+        // A student may have submitted in the meantime; keep going with the rest
+        console.error(`Error finalizing attempt ${attempt.id}:`, error);
+      }
+    }
+
+    console.log(`Finalized ${finalized} of ${abandoned.length} abandoned quiz attempts`);
+
+    return jsonResponse({ success: true, finalized });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in finalize-abandoned-quizzes function:", error);
+    return jsonResponse({ success: false, error: errorMessage }, 500);
+  }
+});
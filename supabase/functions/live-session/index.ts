@@ -0,0 +1,355 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { correctResponse, gradeQuestion, type GradableQuestion, type QuestionResponse } from "../_shared/grading.ts";
+import { toCanonicalResponse, toDisplayedResponse, type SelectedQuestion } from "../_shared/selection.ts";
+import { QUESTION_COLUMNS, dealQuestions, toClientQuestion, type QuestionRow } from "../_shared/questions.ts";
+import { markQuizAnswersSeen } from "../_shared/review.ts";
+import { withSignedMedia } from "../_shared/media.ts";
+
+// Live quiz sessions. The host (an admin) creates a session from a quiz and steps it through
+// lobby -> question -> reveal -> ... -> finished; players join with the code and answer.
+// Every change lands in live_sessions / live_session_players / live_session_answers, which
+// clients follow over realtime.
+//
+// Body: { action: "create", quiz_id, xp_reward } | { action: "join", code }
+//     | { action: "next" | "reveal" | "finish", session_id }
+//     | { action: "answer", session_id, response }
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// No 0/O or 1/I so codes read cleanly off a projector
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const JOIN_CODE_LENGTH = 6;
+
+// A correct answer scores between half and all of this, depending on how fast it came in
+const MAX_POINTS = 1000;
+
+// Slack for answers sent just as the clock ran out
+const ANSWER_GRACE_SECONDS = 2;
+
+interface LiveSession {
+  id: string;
+  quiz_id: string;
+  host_id: string;
+  status: "lobby" | "question" | "reveal" | "finished";
+  question_selection: SelectedQuestion[];
+  current_index: number;
+  current_question: Record<string, unknown> | null;
+  question_started_at: string | null;
+  question_seconds: number;
+}
+
+interface RevealQuestionRow extends GradableQuestion {
+  explanation: string | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const generateJoinCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(JOIN_CODE_LENGTH));
+  return Array.from(bytes, (b) => JOIN_CODE_ALPHABET[b % JOIN_CODE_ALPHABET.length]).join("");
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user }, error: userError } = await authClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const body = await req.json();
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (body.action === "create") {
+      const { data: isAdmin } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+      if (!isAdmin) {
+        return jsonResponse({ error: "Only admins can host live sessions" }, 403);
+      }
+
+      const { data: quiz, error: quizError } = await supabase
+        .from("quizzes")
+        .select("id, title, is_active, published_version_id, timer_per_question, shuffle_questions, shuffle_options, is_exam")
+        .eq("id", body.quiz_id)
+        .maybeSingle();
+
+      if (quizError || !quiz || !quiz.is_active || !quiz.published_version_id) {
+        return jsonResponse({ error: "Quiz not found" }, 404);
+      }
+
+      if (quiz.is_exam) {
+        return jsonResponse({ error: "Exams can't be run as live sessions" }, 400);
+      }
+
+      // Everyone in the room sees the same questions, so options are dealt once for the session
+      const { selection } = await dealQuestions(supabase, quiz.id, quiz.published_version_id, quiz);
+      if (selection.length === 0) {
+        return jsonResponse({ error: "No questions found for this quiz" }, 400);
+      }
+
+      // Codes are unique across all sessions; retry the rare collision
+      for (let tries = 0; tries < 5; tries++) {
+        const { data: session, error: insertError } = await supabase
+          .from("live_sessions")
+          .insert({
+            quiz_id: quiz.id,
+            host_id: user.id,
+            join_code: generateJoinCode(),
+            question_selection: selection,
+            question_seconds: quiz.timer_per_question,
+            xp_reward: Math.max(0, Math.round(Number(body.xp_reward) || 0)),
+          })
+          .select("id, join_code")
+          .single();
+
+        if (!insertError) {
+          console.log(`Live session ${session.id} for quiz ${quiz.id} created by ${user.id}`);
+          return jsonResponse({ session_id: session.id, join_code: session.join_code });
+        }
+        if (insertError.code !== "23505") throw insertError;
+      }
+
+      throw new Error("Could not generate a unique join code");
+    }
+
+    if (body.action === "join") {
+      const code = String(body.code ?? "").trim().toUpperCase();
+
+      const { data: session } = await supabase
+        .from("live_sessions")
+        .select("id, quiz_id, host_id, status")
+        .eq("join_code", code)
+        .maybeSingle();
+
+      if (!session || session.status === "finished") {
+        return jsonResponse({ error: "No live session with that code" }, 404);
+      }
+
+      if (session.host_id === user.id) {
+        return jsonResponse({ error: "You're hosting this session" }, 409);
+      }
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("full_name")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      // Rejoining (a refreshed phone) keeps the existing score
+      const { error: joinError } = await supabase
+        .from("live_session_players")
+        .upsert(
+          { session_id: session.id, user_id: user.id, display_name: profile?.full_name ?? "Player" },
+          { onConflict: "session_id,user_id", ignoreDuplicates: true },
+        );
+
+      if (joinError) throw joinError;
+
+      // Joining during a reveal shows that answer too
+      if (session.status === "reveal") {
+        await markQuizAnswersSeen(supabase, [user.id], session.quiz_id);
+      }
+
+      return jsonResponse({ session_id: session.id });
+    }
+
+    if (!body.session_id) {
+      return jsonResponse({ error: "session_id is required" }, 400);
+    }
+
+    const { data: sessionRow, error: sessionError } = await supabase
+      .from("live_sessions")
+      .select("id, quiz_id, host_id, status, question_selection, current_index, current_question, question_started_at, question_seconds")
+      .eq("id", body.session_id)
+      .maybeSingle();
+
+    if (sessionError || !sessionRow) {
+      return jsonResponse({ error: "Live session not found" }, 404);
+    }
+
+    const session = sessionRow as LiveSession;
+
+    if (session.status === "finished") {
+      return jsonResponse({ error: "This session has finished" }, 409);
+    }
+
+    if (body.action === "answer") {
+      if (session.status !== "question" || !session.question_started_at) {
+        return jsonResponse({ error: "This question is closed" }, 409);
+      }
+
+      const elapsedSeconds = (Date.now() - new Date(session.question_started_at).getTime()) / 1000;
+      if (elapsedSeconds > session.question_seconds + ANSWER_GRACE_SECONDS) {
+        return jsonResponse({ error: "Time is up for this question" }, 409);
+      }
+
+      const { data: player } = await supabase
+        .from("live_session_players")
+        .select("id")
+        .eq("session_id", session.id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (!player) {
+        return jsonResponse({ error: "Join the session before answering" }, 403);
+      }
+
+      const dealt = session.question_selection[session.current_index];
+      const { data: question, error: questionError } = await supabase
+        .from("quiz_questions")
+        .select("id, question_type, options, correct_answer, answer")
+        .eq("id", dealt.question_id)
+        .single();
+
+      if (questionError) throw questionError;
+
+      const gradable = question as GradableQuestion;
+      const response = toCanonicalResponse(gradable.question_type, (body.response ?? null) as QuestionResponse, dealt.option_order);
+      const graded = gradeQuestion(gradable, response);
+
+      const speed = 1 - Math.min(1, elapsedSeconds / session.question_seconds) / 2;
+      const points = Math.round(graded.credit * MAX_POINTS * speed);
+
+      const { data: recorded, error: recordError } = await supabase.rpc("record_live_answer", {
+        _session_id: session.id,
+        _user_id: user.id,
+        _question_index: session.current_index,
+        _question_id: dealt.question_id,
+        _response: response,
+        _credit: graded.credit,
+        _points: points,
+      });
+
+      if (recordError) throw recordError;
+      if (!recorded) {
+        return jsonResponse({ error: "You've already answered this question" }, 409);
+      }
+
+      // Whether it was right is shown when the host reveals the answer
+      return jsonResponse({ accepted: true });
+    }
+
+    if (session.host_id !== user.id) {
+      return jsonResponse({ error: "Only the host can control this session" }, 403);
+    }
+
+    if (body.action === "next") {
+      if (session.status === "question") {
+        return jsonResponse({ error: "Reveal the answer before moving on" }, 409);
+      }
+
+      const index = session.current_index + 1;
+      const dealt = session.question_selection[index];
+      if (!dealt) {
+        return jsonResponse({ error: "There are no more questions" }, 409);
+      }
+
+      const { data: question, error: questionError } = await supabase
+        .from("quiz_questions")
+        .select(QUESTION_COLUMNS)
+        .eq("id", dealt.question_id)
+        .single();
+
+      if (questionError) throw questionError;
+
+      // Live questions are timed for the whole room, so hints aren't offered
+      const [current] = await withSignedMedia(supabase, [toClientQuestion(question as QuestionRow, dealt.option_order)]);
+
+      const { error: updateError } = await supabase
+        .from("live_sessions")
+        .update({
+          status: "question",
+          current_index: index,
+          current_question: { ...current, index, total: session.question_selection.length },
+          question_started_at: new Date().toISOString(),
+        })
+        .eq("id", session.id);
+
+      if (updateError) throw updateError;
+
+      return jsonResponse({ current_index: index });
+    }
+
+    if (body.action === "reveal") {
+      if (session.status !== "question") {
+        return jsonResponse({ error: "There is no open question to reveal" }, 409);
+      }
+
+      const dealt = session.question_selection[session.current_index];
+      const { data: question, error: questionError } = await supabase
+        .from("quiz_questions")
+        .select("id, question_type, options, correct_answer, answer, explanation")
+        .eq("id", dealt.question_id)
+        .single();
+
+      if (questionError) throw questionError;
+
+      const row = question as RevealQuestionRow;
+      const details = (row.answer ?? {}) as Record<string, unknown>;
+
+      const { error: updateError } = await supabase
+        .from("live_sessions")
+        .update({
+          status: "reveal",
+          current_question: {
+            ...session.current_question,
+            correct: toDisplayedResponse(row.question_type, correctResponse(row), dealt.option_order),
+            tolerance_percent: typeof details.tolerance_percent === "number" ? details.tolerance_percent : null,
+            explanation: row.explanation,
+          },
+        })
+        .eq("id", session.id);
+
+      if (updateError) throw updateError;
+
+      // Everyone in the room has now seen this answer, so their own attempts at the quiz no
+      // longer earn XP
+      const { data: players, error: playersError } = await supabase
+        .from("live_session_players")
+        .select("user_id")
+        .eq("session_id", session.id);
+
+      if (playersError) throw playersError;
+
+      await markQuizAnswersSeen(supabase, (players ?? []).map((p) => p.user_id), session.quiz_id);
+
+      return jsonResponse({ current_index: session.current_index });
+    }
+
+    if (body.action === "finish") {
+      const { data: awards, error: finishError } = await supabase.rpc("finish_live_session", {
+        _session_id: session.id,
+      });
+
+      if (finishError) throw finishError;
+
+      console.log(`Live session ${session.id} finished by ${user.id}`);
+
+      return jsonResponse({ awards });
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in live-session function:", error);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,246 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { correctResponse, gradeQuestion, type GradableQuestion, type QuestionResponse } from "../_shared/grading.ts";
+import { optionOrderFor, toCanonicalResponse, toDisplayedResponse } from "../_shared/selection.ts";
+import { QUESTION_COLUMNS, optionTexts, toClientQuestion, type QuestionRow } from "../_shared/questions.ts";
+import { markQuizAnswersSeen } from "../_shared/review.ts";
+import { withSignedMedia } from "../_shared/media.ts";
+
+// A student's spaced-repetition deck of missed questions (see practice_cards).
+// "deal" hands out today's review session; "review" grades one card and schedules it with SM-2.
+//
+// Body: { action: "deal", due_before } | { action: "review", card_id, response }
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SESSION_SIZE = 20;
+
+// "Due today" is the end of the student's local day, which is never more than a day away
+const MAX_LOOKAHEAD_MS = 24 * 60 * 60 * 1000;
+
+const MIN_EASE_FACTOR = 1.3;
+
+interface PracticeCard {
+  id: string;
+  user_id: string;
+  question_id: string;
+  quiz_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  dealt_at: string | null;
+  option_order: number[] | null;
+}
+
+interface ReviewQuestionRow extends GradableQuestion {
+  explanation: string | null;
+}
+
+const CARD_COLUMNS = "id, user_id, question_id, quiz_id, ease_factor, interval_days, repetitions, lapses, due_at, last_reviewed_at, dealt_at, option_order";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// SM-2 recall quality (0-5) from the credit a review earned
+const recallQuality = (credit: number) => (credit === 1 ? 4 : credit >= 0.5 ? 3 : 1);
+
+// The next step of the SM-2 schedule for a card reviewed with the given quality
+function schedule(card: PracticeCard, quality: number, now = new Date()) {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    Number(card.ease_factor) + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02),
+  );
+
+  let repetitions = card.repetitions;
+  let intervalDays: number;
+  let lapses = card.lapses;
+
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+    lapses += 1;
+  } else {
+    repetitions += 1;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval_days * easeFactor);
+  }
+
+  return {
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    lapses,
+    due_at: new Date(now.getTime() + intervalDays * 24 * 60 * 60 * 1000).toISOString(),
+    last_reviewed_at: now.toISOString(),
+  };
+}
+
+// Exam questions only join the practice rotation once the exam's answers are released
+async function releasedQuizIds(supabase: SupabaseClient, quizIds: string[]): Promise<Set<string>> {
+  const released = new Set<string>();
+  for (const quizId of quizIds) {
+    const { data, error } = await supabase.rpc("quiz_answers_released", { _quiz_id: quizId });
+    if (error) throw error;
+    if (data) released.add(quizId);
+  }
+  return released;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user }, error: userError } = await authClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const body = await req.json();
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    if (body.action === "deal") {
+      const latestDue = new Date(Date.now() + MAX_LOOKAHEAD_MS);
+      const requested = body.due_before ? new Date(body.due_before) : new Date();
+      const dueBefore = Number.isNaN(requested.getTime()) || requested > latestDue ? latestDue : requested;
+
+      const { data: dueCards, error: cardsError } = await supabase
+        .from("practice_cards")
+        .select(`${CARD_COLUMNS}, quizzes(title)`)
+        .eq("user_id", user.id)
+        .lte("due_at", dueBefore.toISOString())
+        .order("due_at", { ascending: true });
+
+      if (cardsError) throw cardsError;
+
+      const released = await releasedQuizIds(supabase, [...new Set((dueCards ?? []).map((c) => c.quiz_id as string))]);
+      const releasedCards = (dueCards ?? []).filter((c) => released.has(c.quiz_id));
+      const cards = releasedCards.slice(0, SESSION_SIZE);
+
+      if (cards.length === 0) {
+        return jsonResponse({ cards: [], due_count: 0 });
+      }
+
+      const { data: questionRows, error: questionsError } = await supabase
+        .from("quiz_questions")
+        .select(QUESTION_COLUMNS)
+        .in("id", cards.map((c) => c.question_id));
+
+      if (questionsError) throw questionsError;
+
+      const questionById = new Map(((questionRows ?? []) as QuestionRow[]).map((q) => [q.id, q]));
+
+      // Options are reshuffled on every deal so the position of the answer isn't what's remembered;
+      // the order is kept on the card to grade the review against
+      const dealt = [];
+      for (const card of cards) {
+        const question = questionById.get(card.question_id);
+        if (!question) continue;
+
+        const order = optionOrderFor(question.question_type, optionTexts(question).length, { shuffle_options: true });
+        const { error: updateError } = await supabase
+          .from("practice_cards")
+          .update({ option_order: order, dealt_at: new Date().toISOString() })
+          .eq("id", card.id);
+
+        if (updateError) throw updateError;
+
+        dealt.push({
+          card_id: card.id,
+          quiz_title: (card.quizzes as { title: string } | null)?.title ?? "",
+          repetitions: card.repetitions,
+          lapses: card.lapses,
+          question: toClientQuestion(question, order),
+        });
+      }
+
+      const signed = await withSignedMedia(supabase, dealt.map((d) => d.question));
+
+      return jsonResponse({ cards: dealt.map((d, i) => ({ ...d, question: signed[i] })), due_count: releasedCards.length });
+    }
+
+    if (body.action === "review") {
+      if (!body.card_id) {
+        return jsonResponse({ error: "card_id is required" }, 400);
+      }
+
+      const { data: cardRow, error: cardError } = await supabase
+        .from("practice_cards")
+        .select(CARD_COLUMNS)
+        .eq("id", body.card_id)
+        .maybeSingle();
+
+      if (cardError || !cardRow || cardRow.user_id !== user.id) {
+        return jsonResponse({ error: "Card not found" }, 404);
+      }
+
+      const card = cardRow as PracticeCard;
+
+      if (!card.dealt_at || (card.last_reviewed_at && new Date(card.last_reviewed_at) >= new Date(card.dealt_at))) {
+        return jsonResponse({ error: "This card has already been reviewed" }, 409);
+      }
+
+      const released = await releasedQuizIds(supabase, [card.quiz_id]);
+      if (!released.has(card.quiz_id)) {
+        return jsonResponse({ error: "Card not found" }, 404);
+      }
+
+      const { data: question, error: questionError } = await supabase
+        .from("quiz_questions")
+        .select("id, question_type, options, correct_answer, answer, explanation")
+        .eq("id", card.question_id)
+        .single();
+
+      if (questionError) throw questionError;
+
+      const reviewed = question as ReviewQuestionRow;
+      const response = toCanonicalResponse(reviewed.question_type, (body.response ?? null) as QuestionResponse, card.option_order);
+      const graded = gradeQuestion(reviewed, response);
+      const next = schedule(card, recallQuality(graded.credit));
+
+      const { error: updateError } = await supabase
+        .from("practice_cards")
+        .update(next)
+        .eq("id", card.id);
+
+      if (updateError) throw updateError;
+
+      // The response shows the correct answer, so retakes of the quiz no longer earn XP
+      await markQuizAnswersSeen(supabase, [user.id], card.quiz_id);
+
+      const details = (reviewed.answer ?? {}) as Record<string, unknown>;
+
+      return jsonResponse({
+        is_correct: graded.is_correct,
+        credit: graded.credit,
+        correct: toDisplayedResponse(reviewed.question_type, correctResponse(reviewed), card.option_order),
+        tolerance_percent: typeof details.tolerance_percent === "number" ? details.tolerance_percent : null,
+        explanation: reviewed.explanation,
+        interval_days: next.interval_days,
+        due_at: next.due_at,
+      });
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in practice-deck function:", error);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,182 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SelectedQuestion } from "../_shared/selection.ts";
+import { dealQuestions, parseHints, toClientHints, toClientQuestion } from "../_shared/questions.ts";
+import { gradeSelection, type GradingSettings, type SubmittedAnswer, type XpBreakdown } from "../_shared/attempts.ts";
+import { REVIEW_QUESTION_COLUMNS, toReviewQuestion, type ReviewQuestionRow } from "../_shared/review.ts";
+import { withSignedMedia } from "../_shared/media.ts";
+
+// Lets an admin play a quiz version (usually its draft) exactly as a student would, without
+// recording anything: no quiz_attempts row, no answers, no XP. The dealt selection and the hints
+// revealed are kept by the client and sent back with the answers.
+//
+// Body: { action: "start", quiz_id, version_id }
+//     | { action: "hint", question_id, revealed }
+//     | { action: "submit", quiz_id, selection, answers, hints_used, time_taken_seconds }
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user }, error: userError } = await authClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: isAdmin } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+    if (!isAdmin) {
+      return jsonResponse({ error: "Only admins can preview quizzes" }, 403);
+    }
+
+    const body = await req.json();
+
+    if (body.action === "start") {
+      const { data: quiz, error: quizError } = await supabase
+        .from("quizzes")
+        .select("id, shuffle_questions, shuffle_options")
+        .eq("id", body.quiz_id)
+        .maybeSingle();
+
+      if (quizError || !quiz) {
+        return jsonResponse({ error: "Quiz not found" }, 404);
+      }
+
+      if (body.version_id) {
+        const { data: version } = await supabase
+          .from("quiz_versions")
+          .select("id")
+          .eq("id", body.version_id)
+          .eq("quiz_id", quiz.id)
+          .maybeSingle();
+
+        if (!version) {
+          return jsonResponse({ error: "Version not found" }, 404);
+        }
+      }
+
+      const { questions: ordered, selection } = await dealQuestions(supabase, quiz.id, body.version_id ?? null, quiz);
+
+      if (ordered.length === 0) {
+        return jsonResponse({ error: "No questions found for this quiz" }, 400);
+      }
+
+      return jsonResponse({
+        questions: await withSignedMedia(
+          supabase,
+          ordered.map((q, i) => ({ ...toClientQuestion(q, selection[i].option_order), ...toClientHints(q, 0) })),
+        ),
+        selection,
+      });
+    }
+
+    if (body.action === "hint") {
+      const { data: question, error: questionError } = await supabase
+        .from("quiz_questions")
+        .select("id, hints")
+        .eq("id", body.question_id)
+        .maybeSingle();
+
+      if (questionError || !question) {
+        return jsonResponse({ error: "Question not found" }, 404);
+      }
+
+      const revealed = Math.max(0, Number(body.revealed) || 0);
+      return jsonResponse({ hints: parseHints(question.hints).slice(0, revealed + 1).map((h) => h.text) });
+    }
+
+    if (body.action === "submit") {
+      const selection = (Array.isArray(body.selection) ? body.selection : []) as SelectedQuestion[];
+      const answers = (Array.isArray(body.answers) ? body.answers : []) as SubmittedAnswer[];
+
+      const { data: quiz, error: quizError } = await supabase
+        .from("quizzes")
+        .select("id, title, timer_per_question, hint_penalty_mode")
+        .eq("id", body.quiz_id)
+        .maybeSingle();
+
+      if (quizError || !quiz) {
+        return jsonResponse({ error: "Quiz not found" }, 404);
+      }
+
+      const graded = await gradeSelection(supabase, quiz as GradingSettings, selection, answers, body.hints_used ?? {});
+      const timeTaken = Math.max(0, Math.round(Number(body.time_taken_seconds) || 0));
+
+      const { data: breakdown, error: breakdownError } = await supabase.rpc("quiz_xp_breakdown", {
+        _quiz_id: quiz.id,
+        _score: graded.score,
+        _total_questions: graded.total_questions,
+        _time_taken_seconds: timeTaken,
+        _answers: graded.answer_records,
+      });
+
+      if (breakdownError) throw breakdownError;
+
+      const { data: questionRows, error: questionsError } = await supabase
+        .from("quiz_questions")
+        .select(REVIEW_QUESTION_COLUMNS)
+        .in("id", selection.map((s) => s.question_id));
+
+      if (questionsError) throw questionsError;
+
+      const questionById = new Map(((questionRows ?? []) as ReviewQuestionRow[]).map((q) => [q.id, q]));
+      const recordById = new Map(graded.answer_records.map((a) => [a.question_id, a]));
+      const xp = breakdown as XpBreakdown;
+
+      console.log(`Quiz ${quiz.id} previewed by ${user.id}: ${graded.score}/${graded.total_questions}`);
+
+      // Shaped like submit-quiz's response, with the review quiz-review would give alongside it
+      return jsonResponse({
+        attempt_id: null,
+        score: graded.score,
+        total_questions: graded.total_questions,
+        is_first_attempt: true,
+        xp_earned_before: false,
+        answers_seen_before: false,
+        xp_awarded: xp.base_xp + xp.speed_bonus - xp.hint_penalty,
+        xp_breakdown: xp,
+        results: graded.results,
+        late: false,
+        answers_hidden_until: null,
+        review: {
+          attempt_id: null,
+          quiz_title: quiz.title,
+          score: graded.score,
+          total_questions: graded.total_questions,
+          completed_at: new Date().toISOString(),
+          questions: await withSignedMedia(supabase, selection
+            .filter((s) => questionById.has(s.question_id))
+            .map((s) => toReviewQuestion(questionById.get(s.question_id)!, s, recordById.get(s.question_id)))),
+        },
+      });
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in preview-quiz function:", error);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SelectedQuestion } from "../_shared/selection.ts";
+import { EXAM_COLUMNS, answersHiddenUntil, type ExamSettings } from "../_shared/exams.ts";
+import { REVIEW_QUESTION_COLUMNS, markAnswersSeen, toReviewQuestion, type ReviewQuestionRow, type ReviewedAnswer } from "../_shared/review.ts";
+import { withSignedMedia } from "../_shared/media.ts";
+
+// Review of a completed attempt: every question it was dealt, in the order and option order the
+// student saw, with their answer, the correct answer and the explanation.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface AnswerRow extends ReviewedAnswer {
+  id: string;
+  question_id: string;
+}
+
+interface SnapshotRow {
+  answer_id: string;
+  // The question as it was answered; missing on answers recorded before snapshots were kept
+  question: Omit<ReviewQuestionRow, "id">;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user }, error: userError } = await authClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { attempt_id } = await req.json();
+
+    if (!attempt_id) {
+      return jsonResponse({ error: "attempt_id is required" }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: attempt, error: attemptError } = await supabase
+      .from("quiz_attempts")
+      .select(`id, user_id, quiz_id, status, score, total_questions, completed_at, question_selection, quizzes(title, ${EXAM_COLUMNS})`)
+      .eq("id", attempt_id)
+      .maybeSingle();
+
+    if (attemptError || !attempt || attempt.user_id !== user.id) {
+      return jsonResponse({ error: "Attempt not found" }, 404);
+    }
+
+    // Reviewing an open attempt would reveal the answers to questions still to be answered
+    if (attempt.status !== "completed") {
+      return jsonResponse({ error: "This attempt hasn't been submitted yet" }, 409);
+    }
+
+    const quiz = attempt.quizzes as (ExamSettings & { title: string }) | null;
+
+    const hiddenUntil = quiz ? await answersHiddenUntil(supabase, attempt.quiz_id, quiz) : null;
+    if (hiddenUntil) {
+      return jsonResponse({ error: "Answers are available once the exam closes", answers_hidden_until: hiddenUntil.toISOString() }, 403);
+    }
+
+    await markAnswersSeen(supabase, attempt.id);
+
+    const { data: answerRows, error: answersError } = await supabase
+      .from("quiz_attempt_answers")
+      .select("id, question_id, response, is_correct, credit, hints_used")
+      .eq("attempt_id", attempt.id);
+
+    if (answersError) throw answersError;
+
+    const answers = (answerRows ?? []) as AnswerRow[];
+
+    const { data: snapshotRows, error: snapshotsError } = await supabase
+      .from("quiz_answer_snapshots")
+      .select("answer_id, question")
+      .in("answer_id", answers.map((a) => a.id));
+
+    if (snapshotsError) throw snapshotsError;
+
+    // Attempts from before per-attempt selections only have their recorded answers
+    const selection: SelectedQuestion[] = (attempt.question_selection as SelectedQuestion[] | null) ??
+      answers.map((a) => ({ question_id: a.question_id, option_order: null }));
+
+    const { data: questionRows, error: questionsError } = await supabase
+      .from("quiz_questions")
+      .select(REVIEW_QUESTION_COLUMNS)
+      .in("id", selection.map((s) => s.question_id));
+
+    if (questionsError) throw questionsError;
+
+    const questionById = new Map(((questionRows ?? []) as ReviewQuestionRow[]).map((q) => [q.id, q]));
+    const answerById = new Map(answers.map((a) => [a.question_id, a]));
+    // Show each question as it was answered, even if it has been edited since
+    const questionIdByAnswer = new Map(answers.map((a) => [a.id, a.question_id]));
+    for (const snapshot of (snapshotRows ?? []) as SnapshotRow[]) {
+      const questionId = questionIdByAnswer.get(snapshot.answer_id)!;
+      questionById.set(questionId, { ...snapshot.question, id: questionId });
+    }
+
+    // Stored responses use canonical positions; map them back to what the student saw
+    const questions = await withSignedMedia(supabase, selection
+      .filter((s) => questionById.has(s.question_id))
+      .map((s) => toReviewQuestion(questionById.get(s.question_id)!, s, answerById.get(s.question_id))));
+
+    return jsonResponse({
+      attempt_id: attempt.id,
+      quiz_title: quiz?.title ?? "",
+      score: attempt.score,
+      total_questions: attempt.total_questions,
+      completed_at: attempt.completed_at,
+      questions,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in quiz-review function:", error);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,250 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SelectedQuestion } from "../_shared/selection.ts";
+import { QUESTION_COLUMNS, dealQuestions, toClientHints, toClientQuestion, type QuestionRow } from "../_shared/questions.ts";
+import { ATTEMPT_COLUMNS, finalizeAttempt, isAbandoned, type InProgressAttempt } from "../_shared/attempts.ts";
+import {
+  EXAM_COLUMNS,
+  allowedAttempts,
+  attemptDeadline,
+  attemptsUsedError,
+  examStartError,
+  isPastDeadline,
+  loadExamGrant,
+  type ExamSettings,
+} from "../_shared/exams.ts";
+import { lockedMessage, missingQuizPrerequisites } from "../_shared/prerequisites.ts";
+import { withSignedMedia } from "../_shared/media.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user }, error: userError } = await authClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    // attempt_id resumes an in-progress attempt; without it a fresh attempt is dealt
+    const { quiz_id, attempt_id } = await req.json();
+
+    if (!quiz_id) {
+      return jsonResponse({ error: "quiz_id is required" }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: quiz, error: quizError } = await supabase
+      .from("quizzes")
+      .select(`id, is_active, published_version_id, shuffle_questions, shuffle_options, resume_window_minutes, ${EXAM_COLUMNS}`)
+      .eq("id", quiz_id)
+      .maybeSingle();
+
+    // Quizzes that have never been published are drafts only admins can see (and preview)
+    if (quizError || !quiz || !quiz.is_active || !quiz.published_version_id) {
+      return jsonResponse({ error: "Quiz not found" }, 404);
+    }
+
+    const { data: openAttempts, error: openError } = await supabase
+      .from("quiz_attempts")
+      .select(`${ATTEMPT_COLUMNS}, current_index, time_left_seconds`)
+      .eq("user_id", user.id)
+      .eq("quiz_id", quiz_id)
+      .eq("status", "in_progress");
+
+    if (openError) throw openError;
+
+    const isFirstAttempt = async () => {
+      const { count } = await supabase
+        .from("quiz_attempts")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .eq("quiz_id", quiz_id)
+        .eq("status", "completed");
+      return (count ?? 0) === 0;
+    };
+
+    // XP is earned once per quiz, on the first attempt that reaches the pass mark
+    const xpEarnedBefore = async () => {
+      const { count } = await supabase
+        .from("xp_transactions")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .eq("reference_id", quiz_id)
+        .eq("transaction_type", "quiz_completion");
+      return (count ?? 0) > 0;
+    };
+
+    // ...and only on attempts started before the student saw the quiz's answers
+    const answersSeenBefore = async (startedAt: string) => {
+      const [{ count: reviewed }, { count: shown }] = await Promise.all([
+        supabase
+          .from("quiz_attempts")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", user.id)
+          .eq("quiz_id", quiz_id)
+          .lte("answers_seen_at", startedAt),
+        supabase
+          .from("quiz_answers_seen")
+          .select("quiz_id", { count: "exact", head: true })
+          .eq("user_id", user.id)
+          .eq("quiz_id", quiz_id)
+          .lte("seen_at", startedAt),
+      ]);
+      return (reviewed ?? 0) + (shown ?? 0) > 0;
+    };
+
+    if (attempt_id) {
+      const attempt = (openAttempts ?? []).find((a) => a.id === attempt_id);
+
+      if (!attempt) {
+        return jsonResponse({ error: "This attempt can no longer be resumed" }, 404);
+      }
+
+      if (isPastDeadline(attempt.deadline_at)) {
+        await finalizeAttempt(supabase, attempt as InProgressAttempt, attempt.answers ?? [], new Date(attempt.deadline_at));
+        return jsonResponse({ error: "Time is up for this attempt; it has been submitted with the answers saved so far" }, 410);
+      }
+
+      if (isAbandoned(attempt as InProgressAttempt, quiz.resume_window_minutes)) {
+        await finalizeAttempt(supabase, attempt as InProgressAttempt, attempt.answers ?? [], new Date(attempt.last_activity_at));
+        return jsonResponse({ error: "This attempt expired and has been submitted with the answers saved so far" }, 410);
+      }
+
+      const selection = (attempt.question_selection ?? []) as SelectedQuestion[];
+      const { data: rows, error: rowsError } = await supabase
+        .from("quiz_questions")
+        .select(QUESTION_COLUMNS)
+        .in("id", selection.map((s) => s.question_id));
+
+      if (rowsError) throw rowsError;
+
+      const rowById = new Map(((rows ?? []) as QuestionRow[]).map((q) => [q.id, q]));
+      const hintsUsed = (attempt.hints_used ?? {}) as Record<string, number>;
+      const questions = await withSignedMedia(supabase, selection
+        .filter((s) => rowById.has(s.question_id))
+        .map((s) => {
+          const row = rowById.get(s.question_id)!;
+          return { ...toClientQuestion(row, s.option_order), ...toClientHints(row, hintsUsed[row.id] ?? 0) };
+        }));
+
+      console.log(`Quiz ${quiz_id} resumed by ${user.id}: attempt ${attempt.id} at question ${attempt.current_index + 1}`);
+
+      return jsonResponse({
+        attempt_id: attempt.id,
+        is_first_attempt: await isFirstAttempt(),
+        xp_earned_before: await xpEarnedBefore(),
+        answers_seen_before: await answersSeenBefore(attempt.started_at),
+        questions,
+        answers: attempt.answers ?? [],
+        current_index: attempt.current_index,
+        time_left_seconds: attempt.time_left_seconds,
+        deadline_at: attempt.deadline_at,
+      });
+    }
+
+    // Resuming is always allowed, but a new attempt needs the quiz's prerequisites met. Live
+    // sessions don't go through here: the host decides who plays.
+    const missing = await missingQuizPrerequisites(supabase, quiz_id, user.id);
+    if (missing.length > 0) {
+      return jsonResponse({ error: lockedMessage(missing), missing }, 403);
+    }
+
+    // Exams check the window and the attempt limit (an open attempt being replaced counts as used)
+    const exam = quiz as ExamSettings;
+    const grant = exam.is_exam ? await loadExamGrant(supabase, quiz_id, user.id) : null;
+    if (exam.is_exam) {
+      const { count: attemptsUsed } = await supabase
+        .from("quiz_attempts")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .eq("quiz_id", quiz_id);
+
+      const examError = examStartError(exam, grant!, attemptsUsed ?? 0);
+      if (examError) {
+        return jsonResponse({ error: examError }, 403);
+      }
+    }
+
+    // Starting over submits any open attempt with what was answered, so a fresh draw can't be
+    // used to preview questions for free
+    for (const open of openAttempts ?? []) {
+      await finalizeAttempt(supabase, open as InProgressAttempt, open.answers ?? [], new Date(open.last_activity_at));
+    }
+
+    const { questions: ordered, selection } = await dealQuestions(supabase, quiz_id, quiz.published_version_id, quiz);
+
+    if (ordered.length === 0) {
+      return jsonResponse({ error: "No questions found for this quiz" }, 400);
+    }
+
+    const questions = await withSignedMedia(
+      supabase,
+      ordered.map((q, i) => ({ ...toClientQuestion(q, selection[i].option_order), ...toClientHints(q, 0) })),
+    );
+
+    const deadline = grant ? attemptDeadline(exam, grant) : null;
+
+    // Counted again and inserted under a lock, so concurrent starts can't exceed the limit or
+    // leave two attempts open
+    const allowed = grant ? allowedAttempts(exam, grant) : null;
+    const { data: opened, error: attemptError } = await supabase.rpc("open_quiz_attempt", {
+      _user_id: user.id,
+      _quiz_id: quiz_id,
+      _quiz_version_id: quiz.published_version_id,
+      _question_selection: selection,
+      _deadline_at: deadline?.toISOString() ?? null,
+      _max_attempts: allowed,
+    });
+
+    if (attemptError) throw attemptError;
+
+    const outcome = opened as { attempt_id: string; started_at: string } | { refused: "attempts_used" | "in_progress" };
+    if ("refused" in outcome) {
+      return outcome.refused === "attempts_used"
+        ? jsonResponse({ error: attemptsUsedError(allowed!) }, 403)
+        : jsonResponse({ error: "This quiz was just started somewhere else; resume it from there" }, 409);
+    }
+
+    const attempt = { id: outcome.attempt_id, started_at: outcome.started_at };
+
+    console.log(`Quiz ${quiz_id} started by ${user.id}: attempt ${attempt.id} with ${questions.length} questions`);
+
+    return jsonResponse({
+      attempt_id: attempt.id,
+      is_first_attempt: await isFirstAttempt(),
+      xp_earned_before: await xpEarnedBefore(),
+      answers_seen_before: await answersSeenBefore(attempt.started_at),
+      questions,
+      answers: [],
+      current_index: 0,
+      time_left_seconds: null,
+      deadline_at: deadline?.toISOString() ?? null,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in start-quiz function:", error);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
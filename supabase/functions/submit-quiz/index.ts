@@ -0,0 +1,94 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ATTEMPT_COLUMNS, finalizeAttempt, withSavedAnswers, type InProgressAttempt, type SubmittedAnswer } from "../_shared/attempts.ts";
+import { EXAM_COLUMNS, answersHiddenUntil, isPastDeadline, type ExamSettings } from "../_shared/exams.ts";
+import { markAnswersSeen } from "../_shared/review.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Resolve the caller from their JWT; never trust a user_id in the body
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user }, error: userError } = await authClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { attempt_id, answers } = await req.json();
+
+    if (!attempt_id || !Array.isArray(answers)) {
+      return jsonResponse({ error: "attempt_id and answers are required" }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: attempt, error: attemptError } = await supabase
+      .from("quiz_attempts")
+      .select(ATTEMPT_COLUMNS)
+      .eq("id", attempt_id)
+      .maybeSingle();
+
+    if (attemptError || !attempt || attempt.user_id !== user.id) {
+      return jsonResponse({ error: "Attempt not found" }, 404);
+    }
+
+    if (attempt.status !== "in_progress") {
+      return jsonResponse({ error: "This attempt has already been submitted" }, 409);
+    }
+
+    // Answers sent after the deadline aren't accepted; what was saved in time is graded instead
+    const late = isPastDeadline(attempt.deadline_at);
+    const result = late
+      ? await finalizeAttempt(supabase, attempt as InProgressAttempt, attempt.answers ?? [], new Date(attempt.deadline_at))
+      : await finalizeAttempt(
+        supabase,
+        attempt as InProgressAttempt,
+        withSavedAnswers(attempt.answers ?? [], answers as SubmittedAnswer[]),
+      );
+
+    const { data: quiz, error: quizError } = await supabase
+      .from("quizzes")
+      .select(EXAM_COLUMNS)
+      .eq("id", attempt.quiz_id)
+      .single();
+
+    if (quizError) throw quizError;
+
+    const hiddenUntil = await answersHiddenUntil(supabase, attempt.quiz_id, quiz as ExamSettings);
+
+    console.log(`Quiz ${attempt.quiz_id} submitted by ${user.id}: ${result.score}/${result.total_questions}`);
+
+    if (hiddenUntil) {
+      return jsonResponse({ ...result, results: [], late, answers_hidden_until: hiddenUntil.toISOString() });
+    }
+
+    await markAnswersSeen(supabase, attempt.id);
+
+    return jsonResponse({ ...result, late, answers_hidden_until: null });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in submit-quiz function:", error);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,107 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { lockedMessage, missingVideoPrerequisites } from "../_shared/prerequisites.ts";
+
+// Records a stretch of a video the student actually played, and completes the video (paying its
+// XP through complete_video_watch) once enough of it has been covered. The player only reports
+// continuous playback, so skipping ahead leaves a gap; a stretch can't be longer than the time
+// since the previous report allows, so reports can't be replayed faster than the video plays.
+// A zero-length report just starts the clock when playback begins. Each report also carries the
+// playback position, kept unchecked so the player can resume there. Progress is measured against
+// the length stored on the video, and record_video_progress merges the stretch under a row lock.
+//
+// Body: { video_id, start, end, duration, position? } (seconds)
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// How far the player's idea of the length may be from the stored one: players round differently
+// and some containers report a little more or less than the real length
+const DURATION_TOLERANCE_SECONDS = 2;
+const DURATION_TOLERANCE_RATIO = 0.01;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const durationMatches = (reported: number, stored: number) =>
+  Math.abs(reported - stored) <= Math.max(DURATION_TOLERANCE_SECONDS, stored * DURATION_TOLERANCE_RATIO);
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user }, error: userError } = await authClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { video_id, start, end, duration, position } = await req.json();
+    const from = Number(start);
+    const to = Number(end);
+    const reportedDuration = Number(duration);
+
+    if (!video_id || ![from, to, reportedDuration].every(Number.isFinite) || reportedDuration <= 0 || from < 0 || to < from) {
+      return jsonResponse({ error: "Invalid progress report" }, 400);
+    }
+
+    const { data: video, error: videoError } = await supabase
+      .from("videos")
+      .select("id, duration_seconds")
+      .eq("id", video_id)
+      .maybeSingle();
+
+    if (videoError || !video) {
+      return jsonResponse({ error: "Video not found" }, 404);
+    }
+
+    if (video.duration_seconds === null) {
+      return jsonResponse({ error: "This video's length hasn't been set, so progress can't be tracked yet" }, 409);
+    }
+
+    if (!durationMatches(reportedDuration, Number(video.duration_seconds))) {
+      return jsonResponse({ error: "The reported length doesn't match this video" }, 409);
+    }
+
+    const missing = await missingVideoPrerequisites(supabase, video.id, user.id);
+    if (missing.length > 0) {
+      return jsonResponse({ error: lockedMessage(missing), missing }, 403);
+    }
+
+    const { data: report, error: recordError } = await supabase.rpc("record_video_progress", {
+      _user_id: user.id,
+      _video_id: video.id,
+      _start: from,
+      _end: to,
+      _position: typeof position === "number" && Number.isFinite(position) ? position : null,
+    });
+
+    if (recordError) throw recordError;
+
+    if (report.xp_awarded > 0) {
+      console.log(`Video ${video.id} completed by ${user.id} at ${report.watched_percent}%, ${report.xp_awarded} XP`);
+    }
+
+    return jsonResponse(report);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error in video-progress function:", error);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,92 @@
+-- Quiz submissions are graded by the submit-quiz edge function, so students
+-- must no longer be able to read answers or write attempts/XP themselves.
+
+-- Students read questions through a view that leaves out correct_answer
+CREATE VIEW public.quiz_questions_public AS
+SELECT
+  qq.id,
+  qq.quiz_id,
+  qq.question,
+  qq.options,
+  qq.hint,
+  qq.order_index,
+  qq.created_at
+FROM public.quiz_questions qq
+JOIN public.quizzes q ON q.id = qq.quiz_id
+WHERE q.is_active = true;
+
+GRANT SELECT ON public.quiz_questions_public TO authenticated;
+
+-- Only admins can read the full question rows (covered by the manage policy)
+DROP POLICY "Anyone can view quiz questions" ON public.quiz_questions;
+
+-- Attempts are written by submit-quiz only
+DROP POLICY "Users can create their own quiz attempts" ON public.quiz_attempts;
+
+-- Quiz XP is awarded by submit-quiz only
+DROP POLICY "Users can insert their own quiz/video XP transactions" ON public.xp_transactions;
+
+CREATE POLICY "Users can insert their own video XP transactions"
+ON public.xp_transactions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  transaction_type = 'video_watched'
+);
+
+-- Records a graded attempt and applies the first-attempt XP rule atomically
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  _user_id UUID,
+  _quiz_id UUID,
+  _score INTEGER,
+  _total_questions INTEGER,
+  _time_taken_seconds INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _attempt_id UUID;
+  _is_first_attempt BOOLEAN;
+  _xp_awarded INTEGER := 0;
+BEGIN
+  SELECT id, title, xp_reward INTO _quiz FROM public.quizzes WHERE id = _quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % not found', _quiz_id;
+  END IF;
+
+  -- Lock the profile row so concurrent submissions can't both be "first"
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quiz_attempts WHERE user_id = _user_id AND quiz_id = _quiz_id
+  ) INTO _is_first_attempt;
+
+  INSERT INTO public.quiz_attempts (user_id, quiz_id, score, total_questions, time_taken_seconds)
+  VALUES (_user_id, _quiz_id, _score, _total_questions, _time_taken_seconds)
+  RETURNING id INTO _attempt_id;
+
+  IF _is_first_attempt AND _quiz.xp_reward > 0 THEN
+    _xp_awarded := _quiz.xp_reward;
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_user_id, _xp_awarded, 'quiz_completion', _quiz_id, 'Completed quiz: ' || _quiz.title);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', _attempt_id,
+    'is_first_attempt', _is_first_attempt,
+    'xp_awarded', _xp_awarded
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_quiz_attempt(UUID, UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_quiz_attempt(UUID, UUID, INTEGER, INTEGER, INTEGER) TO service_role;
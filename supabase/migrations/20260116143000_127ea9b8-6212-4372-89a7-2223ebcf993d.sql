@@ -0,0 +1,111 @@
+-- Question types beyond single choice
+CREATE TYPE public.quiz_question_type AS ENUM ('single_choice', 'multi_select', 'true_false', 'numeric', 'ordering');
+
+-- Answer schema per type:
+--   single_choice, true_false: correct_answer = index into options
+--   multi_select:              answer = { "correct": [index, ...] }
+--   numeric:                   answer = { "value": number, "tolerance_percent": number }, options = []
+--   ordering:                  options are stored in the correct order, answer is null
+ALTER TABLE public.quiz_questions
+ADD COLUMN question_type quiz_question_type NOT NULL DEFAULT 'single_choice',
+ADD COLUMN answer JSONB;
+
+ALTER TABLE public.quiz_questions ALTER COLUMN correct_answer DROP NOT NULL;
+
+ALTER TABLE public.quiz_questions
+ADD CONSTRAINT quiz_questions_answer_matches_type CHECK (
+  CASE question_type
+    WHEN 'single_choice' THEN correct_answer IS NOT NULL
+    WHEN 'true_false' THEN correct_answer IN (0, 1)
+    WHEN 'multi_select' THEN jsonb_typeof(answer -> 'correct') = 'array'
+    WHEN 'numeric' THEN jsonb_typeof(answer -> 'value') = 'number'
+    ELSE true
+  END
+);
+
+-- Multi-select questions earn partial credit, so scores are no longer whole numbers
+ALTER TABLE public.quiz_attempts ALTER COLUMN score TYPE NUMERIC(6, 2);
+
+-- Expose the type to students; ordering options are scrambled so the stored order isn't the answer
+DROP VIEW public.quiz_questions_public;
+
+CREATE VIEW public.quiz_questions_public AS
+SELECT
+  qq.id,
+  qq.quiz_id,
+  qq.question_type,
+  qq.question,
+  CASE
+    WHEN qq.question_type = 'ordering' THEN (
+      SELECT jsonb_agg(o.value ORDER BY md5(qq.id::text || o.ordinality::text))
+      FROM jsonb_array_elements(qq.options) WITH ORDINALITY AS o(value, ordinality)
+    )
+    ELSE qq.options
+  END AS options,
+  qq.hint,
+  qq.order_index,
+  qq.created_at
+FROM public.quiz_questions qq
+JOIN public.quizzes q ON q.id = qq.quiz_id
+WHERE q.is_active = true;
+
+GRANT SELECT ON public.quiz_questions_public TO authenticated;
+
+-- Score is now fractional
+DROP FUNCTION public.record_quiz_attempt(UUID, UUID, INTEGER, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  _user_id UUID,
+  _quiz_id UUID,
+  _score NUMERIC,
+  _total_questions INTEGER,
+  _time_taken_seconds INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _attempt_id UUID;
+  _is_first_attempt BOOLEAN;
+  _xp_awarded INTEGER := 0;
+BEGIN
+  SELECT id, title, xp_reward INTO _quiz FROM public.quizzes WHERE id = _quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % not found', _quiz_id;
+  END IF;
+
+  -- Lock the profile row so concurrent submissions can't both be "first"
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quiz_attempts WHERE user_id = _user_id AND quiz_id = _quiz_id
+  ) INTO _is_first_attempt;
+
+  INSERT INTO public.quiz_attempts (user_id, quiz_id, score, total_questions, time_taken_seconds)
+  VALUES (_user_id, _quiz_id, _score, _total_questions, _time_taken_seconds)
+  RETURNING id INTO _attempt_id;
+
+  IF _is_first_attempt AND _quiz.xp_reward > 0 THEN
+    _xp_awarded := _quiz.xp_reward;
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_user_id, _xp_awarded, 'quiz_completion', _quiz_id, 'Completed quiz: ' || _quiz.title);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', _attempt_id,
+    'is_first_attempt', _is_first_attempt,
+    'xp_awarded', _xp_awarded
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_quiz_attempt(UUID, UUID, NUMERIC, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_quiz_attempt(UUID, UUID, NUMERIC, INTEGER, INTEGER) TO service_role;
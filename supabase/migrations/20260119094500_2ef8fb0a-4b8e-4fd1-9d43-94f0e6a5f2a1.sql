@@ -0,0 +1,48 @@
+-- Create storage bucket for quiz images (schematics, breadboard photos)
+INSERT INTO storage.buckets (id, name, public) VALUES ('quiz-media', 'quiz-media', true);
+
+-- Storage policies for quiz-media bucket
+CREATE POLICY "Anyone can view quiz media" ON storage.objects FOR SELECT USING (bucket_id = 'quiz-media');
+CREATE POLICY "Admins can upload quiz media" ON storage.objects FOR INSERT WITH CHECK (bucket_id = 'quiz-media' AND has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete quiz media" ON storage.objects FOR DELETE USING (bucket_id = 'quiz-media' AND has_role(auth.uid(), 'admin'));
+
+-- Image for the question stem, and one optional image per option (null where absent)
+ALTER TABLE public.quiz_questions
+ADD COLUMN image_url TEXT,
+ADD COLUMN option_images JSONB NOT NULL DEFAULT '[]';
+
+-- Expose images to students; ordering option images are scrambled along with their options
+DROP VIEW public.quiz_questions_public;
+
+CREATE VIEW public.quiz_questions_public AS
+SELECT
+  qq.id,
+  qq.quiz_id,
+  qq.question_type,
+  qq.question,
+  qq.image_url,
+  CASE
+    WHEN qq.question_type = 'ordering' THEN (
+      SELECT jsonb_agg(o.value ORDER BY md5(qq.id::text || o.ordinality::text))
+      FROM jsonb_array_elements(qq.options) WITH ORDINALITY AS o(value, ordinality)
+    )
+    ELSE qq.options
+  END AS options,
+  CASE
+    WHEN qq.question_type = 'ordering' THEN (
+      SELECT jsonb_agg(
+        COALESCE(qq.option_images -> (o.ordinality::int - 1), 'null'::jsonb)
+        ORDER BY md5(qq.id::text || o.ordinality::text)
+      )
+      FROM jsonb_array_elements(qq.options) WITH ORDINALITY AS o(value, ordinality)
+    )
+    ELSE qq.option_images
+  END AS option_images,
+  qq.hint,
+  qq.order_index,
+  qq.created_at
+FROM public.quiz_questions qq
+JOIN public.quizzes q ON q.id = qq.quiz_id
+WHERE q.is_active = true;
+
+GRANT SELECT ON public.quiz_questions_public TO authenticated;
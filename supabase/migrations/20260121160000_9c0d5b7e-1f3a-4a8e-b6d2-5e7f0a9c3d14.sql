@@ -0,0 +1,107 @@
+-- Individual responses for each quiz attempt
+CREATE TABLE public.quiz_attempt_answers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attempt_id UUID NOT NULL REFERENCES public.quiz_attempts(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.quiz_questions(id) ON DELETE CASCADE,
+  response JSONB,
+  is_correct BOOLEAN NOT NULL DEFAULT false,
+  credit NUMERIC(4, 2) NOT NULL DEFAULT 0,
+  time_spent_seconds INTEGER,
+  hint_shown BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.quiz_attempt_answers ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the answers of their own attempts
+CREATE POLICY "Users can view their own quiz answers"
+ON public.quiz_attempt_answers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE id = attempt_id AND user_id = auth.uid()
+  )
+);
+
+-- Admins can view all answers for analytics
+CREATE POLICY "Admins can view all quiz answers"
+ON public.quiz_attempt_answers
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Create indexes for per-question analytics
+CREATE INDEX idx_quiz_attempt_answers_attempt_id ON public.quiz_attempt_answers(attempt_id);
+CREATE INDEX idx_quiz_attempt_answers_question_id ON public.quiz_attempt_answers(question_id);
+
+-- Answers are now written in the same transaction as the attempt
+DROP FUNCTION public.record_quiz_attempt(UUID, UUID, NUMERIC, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  _user_id UUID,
+  _quiz_id UUID,
+  _score NUMERIC,
+  _total_questions INTEGER,
+  _time_taken_seconds INTEGER,
+  _answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _attempt_id UUID;
+  _is_first_attempt BOOLEAN;
+  _xp_awarded INTEGER := 0;
+BEGIN
+  SELECT id, title, xp_reward INTO _quiz FROM public.quizzes WHERE id = _quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % not found', _quiz_id;
+  END IF;
+
+  -- Lock the profile row so concurrent submissions can't both be "first"
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quiz_attempts WHERE user_id = _user_id AND quiz_id = _quiz_id
+  ) INTO _is_first_attempt;
+
+  INSERT INTO public.quiz_attempts (user_id, quiz_id, score, total_questions, time_taken_seconds)
+  VALUES (_user_id, _quiz_id, _score, _total_questions, _time_taken_seconds)
+  RETURNING id INTO _attempt_id;
+
+  INSERT INTO public.quiz_attempt_answers (attempt_id, question_id, response, is_correct, credit, time_spent_seconds, hint_shown)
+  SELECT
+    _attempt_id,
+    (a ->> 'question_id')::UUID,
+    a -> 'response',
+    COALESCE((a ->> 'is_correct')::BOOLEAN, false),
+    COALESCE((a ->> 'credit')::NUMERIC, 0),
+    (a ->> 'time_spent_seconds')::INTEGER,
+    COALESCE((a ->> 'hint_shown')::BOOLEAN, false)
+  FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb)) AS a;
+
+  IF _is_first_attempt AND _quiz.xp_reward > 0 THEN
+    _xp_awarded := _quiz.xp_reward;
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_user_id, _xp_awarded, 'quiz_completion', _quiz_id, 'Completed quiz: ' || _quiz.title);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', _attempt_id,
+    'is_first_attempt', _is_first_attempt,
+    'xp_awarded', _xp_awarded
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_quiz_attempt(UUID, UUID, NUMERIC, INTEGER, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_quiz_attempt(UUID, UUID, NUMERIC, INTEGER, INTEGER, JSONB) TO service_role;
@@ -0,0 +1,138 @@
+-- Question banks: tagged pools of questions that quizzes draw from
+CREATE TABLE public.question_banks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.question_banks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage question banks" ON public.question_banks FOR ALL USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_question_banks_updated_at BEFORE UPDATE ON public.question_banks FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A question belongs either to one quiz or to one bank
+ALTER TABLE public.quiz_questions
+ADD COLUMN bank_id UUID REFERENCES public.question_banks(id) ON DELETE CASCADE;
+
+ALTER TABLE public.quiz_questions ALTER COLUMN quiz_id DROP NOT NULL;
+
+ALTER TABLE public.quiz_questions
+ADD CONSTRAINT quiz_questions_single_owner CHECK ((quiz_id IS NULL) <> (bank_id IS NULL));
+
+CREATE INDEX idx_quiz_questions_bank_id ON public.quiz_questions(bank_id);
+
+-- How many questions a quiz draws from each bank on every attempt
+CREATE TABLE public.quiz_bank_draws (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  bank_id UUID NOT NULL REFERENCES public.question_banks(id) ON DELETE CASCADE,
+  draw_count INTEGER NOT NULL CHECK (draw_count > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (quiz_id, bank_id)
+);
+
+ALTER TABLE public.quiz_bank_draws ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage quiz bank draws" ON public.quiz_bank_draws FOR ALL USING (has_role(auth.uid(), 'admin'));
+
+-- Per-quiz shuffling; total_questions now means "questions drawn per attempt"
+ALTER TABLE public.quizzes
+ADD COLUMN shuffle_questions BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN shuffle_options BOOLEAN NOT NULL DEFAULT true;
+
+-- Attempts are created by start-quiz with their question selection, then completed by submit-quiz.
+-- question_selection: [{ "question_id": uuid, "option_order": [canonical index per displayed position] | null }]
+ALTER TABLE public.quiz_attempts
+ADD COLUMN status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('in_progress', 'completed')),
+ADD COLUMN started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+ADD COLUMN question_selection JSONB;
+
+ALTER TABLE public.quiz_attempts ALTER COLUMN completed_at DROP NOT NULL;
+ALTER TABLE public.quiz_attempts ALTER COLUMN completed_at DROP DEFAULT;
+
+CREATE INDEX idx_quiz_attempts_user_quiz ON public.quiz_attempts(user_id, quiz_id);
+
+-- Students now receive their questions from start-quiz only
+DROP VIEW public.quiz_questions_public;
+
+-- Completes an in-progress attempt and applies the first-attempt XP rule atomically
+DROP FUNCTION public.record_quiz_attempt(UUID, UUID, NUMERIC, INTEGER, INTEGER, JSONB);
+
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  _attempt_id UUID,
+  _score NUMERIC,
+  _time_taken_seconds INTEGER,
+  _answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt RECORD;
+  _quiz RECORD;
+  _is_first_attempt BOOLEAN;
+  _xp_awarded INTEGER := 0;
+BEGIN
+  SELECT * INTO _attempt FROM public.quiz_attempts WHERE id = _attempt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', _attempt_id;
+  END IF;
+  IF _attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Attempt % has already been submitted', _attempt_id;
+  END IF;
+
+  SELECT id, title, xp_reward INTO _quiz FROM public.quizzes WHERE id = _attempt.quiz_id;
+
+  -- Lock the profile row so concurrent submissions can't both be "first"
+  PERFORM 1 FROM public.profiles WHERE user_id = _attempt.user_id FOR UPDATE;
+
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE user_id = _attempt.user_id AND quiz_id = _attempt.quiz_id AND status = 'completed'
+  ) INTO _is_first_attempt;
+
+  UPDATE public.quiz_attempts
+  SET status = 'completed',
+      score = _score,
+      time_taken_seconds = _time_taken_seconds,
+      completed_at = now()
+  WHERE id = _attempt_id;
+
+  INSERT INTO public.quiz_attempt_answers (attempt_id, question_id, response, is_correct, credit, time_spent_seconds, hint_shown)
+  SELECT
+    _attempt_id,
+    (a ->> 'question_id')::UUID,
+    a -> 'response',
+    COALESCE((a ->> 'is_correct')::BOOLEAN, false),
+    COALESCE((a ->> 'credit')::NUMERIC, 0),
+    (a ->> 'time_spent_seconds')::INTEGER,
+    COALESCE((a ->> 'hint_shown')::BOOLEAN, false)
+  FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb)) AS a;
+
+  IF _is_first_attempt AND _quiz.xp_reward > 0 THEN
+    _xp_awarded := _quiz.xp_reward;
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_attempt.user_id, _xp_awarded, 'quiz_completion', _quiz.id, 'Completed quiz: ' || _quiz.title);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _attempt.user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', _attempt_id,
+    'is_first_attempt', _is_first_attempt,
+    'xp_awarded', _xp_awarded
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_quiz_attempt(UUID, NUMERIC, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_quiz_attempt(UUID, NUMERIC, INTEGER, JSONB) TO service_role;
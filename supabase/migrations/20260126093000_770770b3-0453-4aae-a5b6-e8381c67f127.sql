@@ -0,0 +1,53 @@
+-- How long an in-progress attempt can sit idle before it is submitted automatically
+ALTER TABLE public.quizzes
+ADD COLUMN resume_window_minutes INTEGER NOT NULL DEFAULT 30 CHECK (resume_window_minutes > 0);
+
+-- Progress of an in-progress attempt, saved as the student plays.
+-- answers: [{ "question_id": uuid, "response": ..., "time_spent_seconds": int, "hint_shown": bool }]
+-- with responses in the positions the student saw them (graded on submit).
+ALTER TABLE public.quiz_attempts
+ADD COLUMN answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN current_index INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN time_left_seconds INTEGER,
+ADD COLUMN last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE INDEX idx_quiz_attempts_in_progress ON public.quiz_attempts(last_activity_at) WHERE status = 'in_progress';
+
+-- Students save their own progress; progress can only move forward and the clock only runs down
+CREATE OR REPLACE FUNCTION public.save_quiz_progress(
+  _attempt_id UUID,
+  _answers JSONB,
+  _current_index INTEGER,
+  _time_left_seconds INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.quiz_attempts qa
+  SET answers = _answers,
+      time_left_seconds = CASE
+        WHEN _current_index = qa.current_index THEN LEAST(qa.time_left_seconds, _time_left_seconds, q.timer_per_question)
+        ELSE LEAST(_time_left_seconds, q.timer_per_question)
+      END,
+      current_index = _current_index,
+      last_activity_at = now()
+  FROM public.quizzes q
+  WHERE qa.id = _attempt_id
+    AND q.id = qa.quiz_id
+    AND qa.user_id = auth.uid()
+    AND qa.status = 'in_progress'
+    AND _current_index >= qa.current_index
+    AND jsonb_typeof(_answers) = 'array'
+    AND jsonb_array_length(_answers) >= jsonb_array_length(qa.answers);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % cannot be updated', _attempt_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_quiz_progress(UUID, JSONB, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_quiz_progress(UUID, JSONB, INTEGER, INTEGER) TO authenticated;
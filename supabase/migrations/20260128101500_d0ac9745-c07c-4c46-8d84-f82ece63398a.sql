@@ -0,0 +1,148 @@
+-- How a quiz's xp_reward is paid out
+CREATE TYPE public.quiz_xp_policy AS ENUM ('fixed', 'proportional');
+
+-- xp_policy: 'fixed' pays the full reward, 'proportional' scales it by the share of correct answers
+-- xp_pass_percent: score (in percent) needed to earn any XP
+-- xp_speed_bonus: extra XP at most, scaled by time left on the clock and by the score
+ALTER TABLE public.quizzes
+ADD COLUMN xp_policy public.quiz_xp_policy NOT NULL DEFAULT 'fixed',
+ADD COLUMN xp_pass_percent INTEGER NOT NULL DEFAULT 0 CHECK (xp_pass_percent BETWEEN 0 AND 100),
+ADD COLUMN xp_speed_bonus INTEGER NOT NULL DEFAULT 0 CHECK (xp_speed_bonus >= 0);
+
+-- XP is now earned once per quiz, on the first completed attempt that reaches the pass mark,
+-- and the amount follows the quiz's policy. The breakdown is returned and written to the reason.
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  _attempt_id UUID,
+  _score NUMERIC,
+  _time_taken_seconds INTEGER,
+  _answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt RECORD;
+  _quiz RECORD;
+  _is_first_attempt BOOLEAN;
+  _xp_earned_before BOOLEAN;
+  _score_percent NUMERIC := 0;
+  _passed BOOLEAN;
+  _time_limit INTEGER;
+  _base_xp INTEGER := 0;
+  _speed_bonus INTEGER := 0;
+  _xp_awarded INTEGER := 0;
+  _reason TEXT;
+BEGIN
+  SELECT * INTO _attempt FROM public.quiz_attempts WHERE id = _attempt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', _attempt_id;
+  END IF;
+  IF _attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Attempt % has already been submitted', _attempt_id;
+  END IF;
+
+  SELECT id, title, xp_reward, xp_policy, xp_pass_percent, xp_speed_bonus, timer_per_question
+  INTO _quiz FROM public.quizzes WHERE id = _attempt.quiz_id;
+
+  -- Lock the profile row so concurrent submissions can't both earn the reward
+  PERFORM 1 FROM public.profiles WHERE user_id = _attempt.user_id FOR UPDATE;
+
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE user_id = _attempt.user_id AND quiz_id = _attempt.quiz_id AND status = 'completed'
+  ) INTO _is_first_attempt;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.xp_transactions
+    WHERE user_id = _attempt.user_id AND reference_id = _quiz.id AND transaction_type = 'quiz_completion'
+  ) INTO _xp_earned_before;
+
+  UPDATE public.quiz_attempts
+  SET status = 'completed',
+      score = _score,
+      time_taken_seconds = _time_taken_seconds,
+      completed_at = now()
+  WHERE id = _attempt_id;
+
+  INSERT INTO public.quiz_attempt_answers (attempt_id, question_id, response, is_correct, credit, time_spent_seconds, hint_shown)
+  SELECT
+    _attempt_id,
+    (a ->> 'question_id')::UUID,
+    a -> 'response',
+    COALESCE((a ->> 'is_correct')::BOOLEAN, false),
+    COALESCE((a ->> 'credit')::NUMERIC, 0),
+    (a ->> 'time_spent_seconds')::INTEGER,
+    COALESCE((a ->> 'hint_shown')::BOOLEAN, false)
+  FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb)) AS a;
+
+  IF _attempt.total_questions > 0 THEN
+    _score_percent := ROUND(_score / _attempt.total_questions * 100, 2);
+  END IF;
+  _passed := _score_percent >= _quiz.xp_pass_percent;
+  _time_limit := _quiz.timer_per_question * _attempt.total_questions;
+
+  IF _passed THEN
+    _base_xp := CASE _quiz.xp_policy
+      WHEN 'proportional' THEN ROUND(_quiz.xp_reward * _score_percent / 100)::INTEGER
+      ELSE _quiz.xp_reward
+    END;
+
+    -- Scaled by the score too, so racing through with blank answers doesn't pay
+    IF _quiz.xp_speed_bonus > 0 AND _time_limit > 0 THEN
+      _speed_bonus := ROUND(
+        _quiz.xp_speed_bonus
+        * GREATEST(0, 1 - _time_taken_seconds::NUMERIC / _time_limit)
+        * _score_percent / 100
+      )::INTEGER;
+    END IF;
+  END IF;
+
+  IF NOT _xp_earned_before THEN
+    _xp_awarded := _base_xp + _speed_bonus;
+  END IF;
+
+  IF _xp_awarded > 0 THEN
+    _reason := format(
+      'Completed quiz: %s (%s/%s correct, %s%s)',
+      _quiz.title,
+      trim_scale(_score),
+      _attempt.total_questions,
+      CASE _quiz.xp_policy
+        WHEN 'proportional' THEN format('%s%% of %s XP = %s', trim_scale(_score_percent), _quiz.xp_reward, _base_xp)
+        ELSE format('%s XP', _base_xp)
+      END,
+      CASE WHEN _speed_bonus > 0
+        THEN format(' + %s speed bonus for finishing in %ss of %ss', _speed_bonus, _time_taken_seconds, _time_limit)
+        ELSE ''
+      END
+    );
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_attempt.user_id, _xp_awarded, 'quiz_completion', _quiz.id, _reason);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _attempt.user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', _attempt_id,
+    'is_first_attempt', _is_first_attempt,
+    'xp_earned_before', _xp_earned_before,
+    'xp_awarded', _xp_awarded,
+    'xp_breakdown', jsonb_build_object(
+      'policy', _quiz.xp_policy,
+      'xp_reward', _quiz.xp_reward,
+      'score_percent', _score_percent,
+      'pass_percent', _quiz.xp_pass_percent,
+      'passed', _passed,
+      'base_xp', _base_xp,
+      'speed_bonus', _speed_bonus,
+      'time_taken_seconds', _time_taken_seconds,
+      'time_limit_seconds', _time_limit
+    )
+  );
+END;
+$$;
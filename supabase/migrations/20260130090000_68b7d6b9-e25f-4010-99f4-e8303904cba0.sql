@@ -0,0 +1,2 @@
+-- Shown to students when they review an attempt, alongside their answer and the correct one
+ALTER TABLE public.quiz_questions ADD COLUMN explanation TEXT;
@@ -0,0 +1,104 @@
+-- Exam mode: a quiz that can only be taken between opens_at and closes_at, a limited number of
+-- times, optionally against a clock for the whole quiz. Answers stay hidden until it closes.
+ALTER TABLE public.quizzes
+ADD COLUMN is_exam BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN opens_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN closes_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN max_attempts INTEGER CHECK (max_attempts > 0),
+ADD COLUMN time_limit_minutes INTEGER CHECK (time_limit_minutes > 0),
+ADD CONSTRAINT quizzes_exam_window CHECK (
+  (NOT is_exam OR closes_at IS NOT NULL)
+  AND (opens_at IS NULL OR closes_at IS NULL OR closes_at > opens_at)
+);
+
+-- Per-student exceptions to an exam's limits, granted by admins
+CREATE TABLE public.quiz_exam_grants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  extra_attempts INTEGER NOT NULL DEFAULT 0 CHECK (extra_attempts >= 0),
+  extra_minutes INTEGER NOT NULL DEFAULT 0 CHECK (extra_minutes >= 0),
+  closes_at TIMESTAMP WITH TIME ZONE,
+  note TEXT,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (quiz_id, user_id)
+);
+
+ALTER TABLE public.quiz_exam_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage exam grants" ON public.quiz_exam_grants FOR ALL USING (has_role(auth.uid(), 'admin'));
+CREATE POLICY "Users can view own exam grants" ON public.quiz_exam_grants FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_quiz_exam_grants_updated_at BEFORE UPDATE ON public.quiz_exam_grants FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- When an attempt must be handed in: the whole-quiz time limit or the exam closing, whichever is first.
+-- Set by start-quiz; null for attempts with no deadline.
+ALTER TABLE public.quiz_attempts ADD COLUMN deadline_at TIMESTAMP WITH TIME ZONE;
+
+-- Progress can no longer be saved once the attempt's deadline (plus a little slack for latency) has passed
+CREATE OR REPLACE FUNCTION public.save_quiz_progress(
+  _attempt_id UUID,
+  _answers JSONB,
+  _current_index INTEGER,
+  _time_left_seconds INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.quiz_attempts qa
+  SET answers = _answers,
+      time_left_seconds = CASE
+        WHEN _current_index = qa.current_index THEN LEAST(qa.time_left_seconds, _time_left_seconds, q.timer_per_question)
+        ELSE LEAST(_time_left_seconds, q.timer_per_question)
+      END,
+      current_index = _current_index,
+      last_activity_at = now()
+  FROM public.quizzes q
+  WHERE qa.id = _attempt_id
+    AND q.id = qa.quiz_id
+    AND qa.user_id = auth.uid()
+    AND qa.status = 'in_progress'
+    AND (qa.deadline_at IS NULL OR now() <= qa.deadline_at + interval '30 seconds')
+    AND _current_index >= qa.current_index
+    AND jsonb_typeof(_answers) = 'array'
+    AND jsonb_array_length(_answers) >= jsonb_array_length(qa.answers);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % cannot be updated', _attempt_id;
+  END IF;
+END;
+$$;
+
+-- Whether students may see graded answers for a quiz: always for practice quizzes, and for exams
+-- once they have closed for everyone (including later granted closing times)
+CREATE OR REPLACE FUNCTION public.quiz_answers_released(_quiz_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT q.is_exam OR now() >= GREATEST(
+    q.closes_at,
+    (SELECT MAX(g.closes_at) FROM public.quiz_exam_grants g WHERE g.quiz_id = q.id)
+  )
+  FROM public.quizzes q
+  WHERE q.id = _quiz_id
+$$;
+
+DROP POLICY "Users can view their own quiz answers" ON public.quiz_attempt_answers;
+
+CREATE POLICY "Users can view their own quiz answers"
+ON public.quiz_attempt_answers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE id = attempt_id AND user_id = auth.uid() AND public.quiz_answers_released(quiz_id)
+  )
+);
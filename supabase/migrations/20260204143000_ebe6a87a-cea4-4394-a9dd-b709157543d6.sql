@@ -0,0 +1,169 @@
+-- Live quiz sessions: a host runs a quiz on the projector, players join with a code and answer
+-- from their phones. All writes go through the live-session function; clients only read and
+-- follow changes over realtime.
+CREATE TYPE public.live_session_status AS ENUM ('lobby', 'question', 'reveal', 'finished');
+
+ALTER TYPE public.xp_transaction_type ADD VALUE 'live_session';
+
+-- current_question is what players are shown for the open question (never the answer until
+-- the host reveals it). question_selection is the dealt questions, as on quiz_attempts.
+CREATE TABLE public.live_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  host_id UUID NOT NULL,
+  join_code TEXT NOT NULL UNIQUE,
+  status public.live_session_status NOT NULL DEFAULT 'lobby',
+  question_selection JSONB NOT NULL DEFAULT '[]'::jsonb,
+  current_index INTEGER NOT NULL DEFAULT -1,
+  current_question JSONB,
+  question_started_at TIMESTAMP WITH TIME ZONE,
+  question_seconds INTEGER NOT NULL CHECK (question_seconds > 0),
+  xp_reward INTEGER NOT NULL DEFAULT 0 CHECK (xp_reward >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE public.live_session_players (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.live_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  display_name TEXT NOT NULL,
+  score INTEGER NOT NULL DEFAULT 0,
+  correct_count INTEGER NOT NULL DEFAULT 0,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, user_id)
+);
+
+CREATE TABLE public.live_session_answers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.live_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  question_index INTEGER NOT NULL,
+  question_id UUID NOT NULL,
+  response JSONB,
+  is_correct BOOLEAN NOT NULL DEFAULT false,
+  credit NUMERIC NOT NULL DEFAULT 0,
+  points INTEGER NOT NULL DEFAULT 0,
+  answered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, user_id, question_index)
+);
+
+CREATE INDEX idx_live_sessions_join_code ON public.live_sessions(join_code);
+CREATE INDEX idx_live_session_players_session ON public.live_session_players(session_id);
+CREATE INDEX idx_live_session_answers_session ON public.live_session_answers(session_id, question_index);
+
+ALTER TABLE public.live_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.live_session_players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.live_session_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view live sessions" ON public.live_sessions FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can view live session players" ON public.live_session_players FOR SELECT TO authenticated USING (true);
+
+-- Players see their own answers; the host sees everyone's
+CREATE POLICY "Users can view own live answers" ON public.live_session_answers FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Hosts can view live answers" ON public.live_session_answers FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.live_sessions s WHERE s.id = session_id AND s.host_id = auth.uid())
+);
+CREATE POLICY "Admins can manage live sessions" ON public.live_sessions FOR ALL USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_live_sessions_updated_at BEFORE UPDATE ON public.live_sessions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.live_sessions;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.live_session_players;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.live_session_answers;
+
+-- Records a graded answer and adds its points to the player's score in one step.
+-- Returns false when the player already answered this question.
+CREATE OR REPLACE FUNCTION public.record_live_answer(
+  _session_id UUID,
+  _user_id UUID,
+  _question_index INTEGER,
+  _question_id UUID,
+  _response JSONB,
+  _credit NUMERIC,
+  _points INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.live_session_answers (session_id, user_id, question_index, question_id, response, is_correct, credit, points)
+  VALUES (_session_id, _user_id, _question_index, _question_id, _response, _credit = 1, _credit, _points)
+  ON CONFLICT (session_id, user_id, question_index) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.live_session_players
+  SET score = score + _points,
+      correct_count = correct_count + CASE WHEN _credit = 1 THEN 1 ELSE 0 END
+  WHERE session_id = _session_id AND user_id = _user_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Ends a session and, when it carries an XP reward, pays each player their share of it by
+-- correct answers. Returns the XP awarded per player.
+CREATE OR REPLACE FUNCTION public.finish_live_session(_session_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session RECORD;
+  _quiz_title TEXT;
+  _total INTEGER;
+  _player RECORD;
+  _xp INTEGER;
+  _awards JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO _session FROM public.live_sessions WHERE id = _session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Live session % not found', _session_id;
+  END IF;
+  IF _session.status = 'finished' THEN
+    RAISE EXCEPTION 'Live session % has already finished', _session_id;
+  END IF;
+
+  UPDATE public.live_sessions
+  SET status = 'finished', current_question = NULL, finished_at = now()
+  WHERE id = _session_id;
+
+  _total := jsonb_array_length(_session.question_selection);
+  IF _session.xp_reward = 0 OR _total = 0 THEN
+    RETURN _awards;
+  END IF;
+
+  SELECT title INTO _quiz_title FROM public.quizzes WHERE id = _session.quiz_id;
+
+  FOR _player IN
+    SELECT user_id, correct_count FROM public.live_session_players WHERE session_id = _session_id
+  LOOP
+    _xp := ROUND(_session.xp_reward * _player.correct_count::NUMERIC / _total)::INTEGER;
+    CONTINUE WHEN _xp = 0;
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (
+      _player.user_id, _xp, 'live_session', _session_id,
+      format('Live quiz: %s (%s/%s correct)', _quiz_title, _player.correct_count, _total)
+    );
+
+    UPDATE public.profiles SET xp_points = xp_points + _xp WHERE user_id = _player.user_id;
+
+    _awards := _awards || jsonb_build_object('user_id', _player.user_id, 'xp', _xp);
+  END LOOP;
+
+  RETURN _awards;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_live_answer(UUID, UUID, INTEGER, UUID, JSONB, NUMERIC, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_live_session(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_live_answer(UUID, UUID, INTEGER, UUID, JSONB, NUMERIC, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_live_session(UUID) TO service_role;
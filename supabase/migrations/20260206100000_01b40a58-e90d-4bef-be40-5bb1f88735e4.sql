@@ -0,0 +1,80 @@
+-- Spaced-repetition practice deck: every question a student misses becomes a card in their deck,
+-- scheduled with SM-2 by the practice-deck function
+CREATE TABLE public.practice_cards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  question_id UUID NOT NULL REFERENCES public.quiz_questions(id) ON DELETE CASCADE,
+  -- The quiz it was missed in; cards from an exam stay hidden until its answers are released
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  -- When the card was last dealt and the option order it was shown with (as in
+  -- quiz_attempts.question_selection); each deal can be reviewed once
+  dealt_at TIMESTAMP WITH TIME ZONE,
+  option_order JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, question_id)
+);
+
+ALTER TABLE public.practice_cards ENABLE ROW LEVEL SECURITY;
+
+-- Reviews are graded and scheduled by the practice-deck function; students can only read their
+-- deck and drop cards from it
+CREATE POLICY "Users can view own practice cards"
+ON public.practice_cards
+FOR SELECT
+USING (auth.uid() = user_id AND public.quiz_answers_released(quiz_id));
+
+CREATE POLICY "Users can delete own practice cards"
+ON public.practice_cards
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_practice_cards_user_due ON public.practice_cards(user_id, due_at);
+
+CREATE TRIGGER update_practice_cards_updated_at
+BEFORE UPDATE ON public.practice_cards
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A missed question goes into the deck, or back to the start of it if it was already there
+CREATE OR REPLACE FUNCTION public.add_missed_question_to_deck()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.practice_cards (user_id, question_id, quiz_id)
+  SELECT qa.user_id, NEW.question_id, qa.quiz_id
+  FROM public.quiz_attempts qa
+  WHERE qa.id = NEW.attempt_id
+  ON CONFLICT (user_id, question_id) DO UPDATE
+  SET repetitions = 0,
+      interval_days = 0,
+      lapses = practice_cards.lapses + 1,
+      due_at = LEAST(practice_cards.due_at, now());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_missed_question_to_deck
+AFTER INSERT ON public.quiz_attempt_answers
+FOR EACH ROW
+WHEN (NOT NEW.is_correct)
+EXECUTE FUNCTION public.add_missed_question_to_deck();
+
+-- Start every deck with the questions already missed
+INSERT INTO public.practice_cards (user_id, question_id, quiz_id, created_at)
+SELECT qa.user_id, a.question_id, (array_agg(qa.quiz_id ORDER BY a.created_at DESC))[1], MIN(a.created_at)
+FROM public.quiz_attempt_answers a
+JOIN public.quiz_attempts qa ON qa.id = a.attempt_id
+WHERE NOT a.is_correct
+GROUP BY qa.user_id, a.question_id
+ON CONFLICT (user_id, question_id) DO NOTHING;
@@ -0,0 +1,236 @@
+-- Progressive hints: a question can have several hints, revealed one at a time. Each hint costs a
+-- percentage of the question's worth, which the quiz's hint_penalty_mode takes either out of the
+-- question's credit or out of the XP reward ('none' keeps hints free).
+ALTER TABLE public.quiz_questions ADD COLUMN hints JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE public.quiz_questions
+SET hints = jsonb_build_array(jsonb_build_object('text', hint, 'cost_percent', 0))
+WHERE hint IS NOT NULL AND btrim(hint) <> '';
+
+ALTER TABLE public.quiz_questions DROP COLUMN hint;
+
+CREATE TYPE public.hint_penalty_mode AS ENUM ('none', 'credit', 'xp');
+
+ALTER TABLE public.quizzes ADD COLUMN hint_penalty_mode public.hint_penalty_mode NOT NULL DEFAULT 'none';
+
+-- Hints revealed so far in an attempt, by question id. Only reveal_quiz_hint writes it, so the
+-- hint text never reaches the client before it is paid for.
+ALTER TABLE public.quiz_attempts ADD COLUMN hints_used JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- hints_used: how many hints were revealed; hint_penalty: the share of the question's worth they cost
+ALTER TABLE public.quiz_attempt_answers
+ADD COLUMN hints_used INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN hint_penalty NUMERIC(4, 2) NOT NULL DEFAULT 0;
+
+UPDATE public.quiz_attempt_answers SET hints_used = 1 WHERE hint_shown;
+
+-- Reveals the next hint for a question in the caller's open attempt and returns every hint
+-- revealed for it so far
+CREATE OR REPLACE FUNCTION public.reveal_quiz_hint(_attempt_id UUID, _question_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt RECORD;
+  _hints JSONB;
+  _used INTEGER;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.quiz_attempts
+  WHERE id = _attempt_id
+    AND user_id = auth.uid()
+    AND status = 'in_progress'
+    AND (deadline_at IS NULL OR now() <= deadline_at + interval '30 seconds')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % cannot be updated', _attempt_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(_attempt.question_selection, '[]'::jsonb)) AS s
+    WHERE (s ->> 'question_id')::UUID = _question_id
+  ) THEN
+    RAISE EXCEPTION 'Question % is not part of attempt %', _question_id, _attempt_id;
+  END IF;
+
+  SELECT hints INTO _hints FROM public.quiz_questions WHERE id = _question_id;
+
+  _used := LEAST(
+    COALESCE((_attempt.hints_used ->> _question_id::TEXT)::INTEGER, 0) + 1,
+    jsonb_array_length(COALESCE(_hints, '[]'::jsonb))
+  );
+
+  UPDATE public.quiz_attempts
+  SET hints_used = hints_used || jsonb_build_object(_question_id::TEXT, _used),
+      last_activity_at = now()
+  WHERE id = _attempt_id;
+
+  RETURN (
+    SELECT COALESCE(jsonb_agg(h.value ->> 'text' ORDER BY h.ordinality), '[]'::jsonb)
+    FROM jsonb_array_elements(COALESCE(_hints, '[]'::jsonb)) WITH ORDINALITY AS h
+    WHERE h.ordinality <= _used
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reveal_quiz_hint(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reveal_quiz_hint(UUID, UUID) TO authenticated;
+
+-- Answers now carry the hints used and their penalty. In 'xp' mode the penalties are taken off the
+-- XP earned, each worth its share of the reward for one question.
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  _attempt_id UUID,
+  _score NUMERIC,
+  _time_taken_seconds INTEGER,
+  _answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt RECORD;
+  _quiz RECORD;
+  _is_first_attempt BOOLEAN;
+  _xp_earned_before BOOLEAN;
+  _score_percent NUMERIC := 0;
+  _passed BOOLEAN;
+  _time_limit INTEGER;
+  _base_xp INTEGER := 0;
+  _speed_bonus INTEGER := 0;
+  _hint_penalty INTEGER := 0;
+  _xp_awarded INTEGER := 0;
+  _reason TEXT;
+BEGIN
+  SELECT * INTO _attempt FROM public.quiz_attempts WHERE id = _attempt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', _attempt_id;
+  END IF;
+  IF _attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Attempt % has already been submitted', _attempt_id;
+  END IF;
+
+  SELECT id, title, xp_reward, xp_policy, xp_pass_percent, xp_speed_bonus, timer_per_question, hint_penalty_mode
+  INTO _quiz FROM public.quizzes WHERE id = _attempt.quiz_id;
+
+  -- Lock the profile row so concurrent submissions can't both earn the reward
+  PERFORM 1 FROM public.profiles WHERE user_id = _attempt.user_id FOR UPDATE;
+
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE user_id = _attempt.user_id AND quiz_id = _attempt.quiz_id AND status = 'completed'
+  ) INTO _is_first_attempt;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.xp_transactions
+    WHERE user_id = _attempt.user_id AND reference_id = _quiz.id AND transaction_type = 'quiz_completion'
+  ) INTO _xp_earned_before;
+
+  UPDATE public.quiz_attempts
+  SET status = 'completed',
+      score = _score,
+      time_taken_seconds = _time_taken_seconds,
+      completed_at = now()
+  WHERE id = _attempt_id;
+
+  INSERT INTO public.quiz_attempt_answers (
+    attempt_id, question_id, response, is_correct, credit, time_spent_seconds, hint_shown, hints_used, hint_penalty
+  )
+  SELECT
+    _attempt_id,
+    (a ->> 'question_id')::UUID,
+    a -> 'response',
+    COALESCE((a ->> 'is_correct')::BOOLEAN, false),
+    COALESCE((a ->> 'credit')::NUMERIC, 0),
+    (a ->> 'time_spent_seconds')::INTEGER,
+    COALESCE((a ->> 'hints_used')::INTEGER, 0) > 0,
+    COALESCE((a ->> 'hints_used')::INTEGER, 0),
+    COALESCE((a ->> 'hint_penalty')::NUMERIC, 0)
+  FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb)) AS a;
+
+  IF _attempt.total_questions > 0 THEN
+    _score_percent := ROUND(_score / _attempt.total_questions * 100, 2);
+  END IF;
+  _passed := _score_percent >= _quiz.xp_pass_percent;
+  _time_limit := _quiz.timer_per_question * _attempt.total_questions;
+
+  IF _passed THEN
+    _base_xp := CASE _quiz.xp_policy
+      WHEN 'proportional' THEN ROUND(_quiz.xp_reward * _score_percent / 100)::INTEGER
+      ELSE _quiz.xp_reward
+    END;
+
+    -- Scaled by the score too, so racing through with blank answers doesn't pay
+    IF _quiz.xp_speed_bonus > 0 AND _time_limit > 0 THEN
+      _speed_bonus := ROUND(
+        _quiz.xp_speed_bonus
+        * GREATEST(0, 1 - _time_taken_seconds::NUMERIC / _time_limit)
+        * _score_percent / 100
+      )::INTEGER;
+    END IF;
+
+    IF _quiz.hint_penalty_mode = 'xp' AND _attempt.total_questions > 0 THEN
+      SELECT LEAST(_base_xp + _speed_bonus, ROUND(
+        _quiz.xp_reward * COALESCE(SUM((a ->> 'hint_penalty')::NUMERIC), 0) / _attempt.total_questions
+      )::INTEGER)
+      INTO _hint_penalty
+      FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb)) AS a;
+    END IF;
+  END IF;
+
+  IF NOT _xp_earned_before THEN
+    _xp_awarded := _base_xp + _speed_bonus - _hint_penalty;
+  END IF;
+
+  IF _xp_awarded > 0 THEN
+    _reason := format(
+      'Completed quiz: %s (%s/%s correct, %s%s%s)',
+      _quiz.title,
+      trim_scale(_score),
+      _attempt.total_questions,
+      CASE _quiz.xp_policy
+        WHEN 'proportional' THEN format('%s%% of %s XP = %s', trim_scale(_score_percent), _quiz.xp_reward, _base_xp)
+        ELSE format('%s XP', _base_xp)
+      END,
+      CASE WHEN _speed_bonus > 0
+        THEN format(' + %s speed bonus for finishing in %ss of %ss', _speed_bonus, _time_taken_seconds, _time_limit)
+        ELSE ''
+      END,
+      CASE WHEN _hint_penalty > 0
+        THEN format(' - %s for hints', _hint_penalty)
+        ELSE ''
+      END
+    );
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_attempt.user_id, _xp_awarded, 'quiz_completion', _quiz.id, _reason);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _attempt.user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', _attempt_id,
+    'is_first_attempt', _is_first_attempt,
+    'xp_earned_before', _xp_earned_before,
+    'xp_awarded', _xp_awarded,
+    'xp_breakdown', jsonb_build_object(
+      'policy', _quiz.xp_policy,
+      'xp_reward', _quiz.xp_reward,
+      'score_percent', _score_percent,
+      'pass_percent', _quiz.xp_pass_percent,
+      'passed', _passed,
+      'base_xp', _base_xp,
+      'speed_bonus', _speed_bonus,
+      'hint_penalty', _hint_penalty,
+      'time_taken_seconds', _time_taken_seconds,
+      'time_limit_seconds', _time_limit
+    )
+  );
+END;
+$$;
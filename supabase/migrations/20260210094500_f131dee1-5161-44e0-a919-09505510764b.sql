@@ -0,0 +1,190 @@
+-- Quiz versions: a quiz's own questions belong to a version, and published versions never change.
+-- Admins edit the quiz's one draft version, and publishing it makes it the version new attempts are
+-- dealt from, so every attempt keeps pointing at the questions it was actually taken against.
+-- Settings and bank draws stay on the quiz itself; drawn questions are recorded per attempt already.
+CREATE TABLE public.quiz_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL CHECK (version_number > 0),
+  -- Null while the version is the quiz's draft
+  published_at TIMESTAMP WITH TIME ZONE,
+  published_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (quiz_id, version_number)
+);
+
+CREATE UNIQUE INDEX idx_quiz_versions_one_draft ON public.quiz_versions(quiz_id) WHERE published_at IS NULL;
+
+ALTER TABLE public.quiz_versions ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are started and published through quiz_draft_version / publish_quiz_version; admins can
+-- only read versions and throw a draft away
+CREATE POLICY "Admins can view quiz versions" ON public.quiz_versions FOR SELECT USING (has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can discard quiz drafts" ON public.quiz_versions FOR DELETE USING (has_role(auth.uid(), 'admin') AND published_at IS NULL);
+
+CREATE TRIGGER update_quiz_versions_updated_at BEFORE UPDATE ON public.quiz_versions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The version students are dealt from; null until the quiz is first published
+ALTER TABLE public.quizzes ADD COLUMN published_version_id UUID REFERENCES public.quiz_versions(id);
+
+-- lineage_id follows a question from version to version (it is copied into each new draft), so
+-- versions can be compared question by question
+ALTER TABLE public.quiz_questions
+ADD COLUMN version_id UUID REFERENCES public.quiz_versions(id) ON DELETE CASCADE,
+ADD COLUMN lineage_id UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE INDEX idx_quiz_questions_version_id ON public.quiz_questions(version_id);
+
+ALTER TABLE public.quiz_attempts ADD COLUMN quiz_version_id UUID REFERENCES public.quiz_versions(id) ON DELETE SET NULL;
+
+-- Every existing quiz starts at version 1 with the questions it has now. Earlier attempts keep a
+-- null version: what they were taken against can no longer be told apart.
+INSERT INTO public.quiz_versions (quiz_id, version_number, published_at, published_by, created_at)
+SELECT id, 1, now(), created_by, created_at
+FROM public.quizzes;
+
+UPDATE public.quiz_questions qq
+SET version_id = v.id
+FROM public.quiz_versions v
+WHERE v.quiz_id = qq.quiz_id;
+
+UPDATE public.quizzes q
+SET published_version_id = v.id
+FROM public.quiz_versions v
+WHERE v.quiz_id = q.id;
+
+ALTER TABLE public.quiz_questions
+ADD CONSTRAINT quiz_questions_versioned CHECK ((quiz_id IS NULL) = (version_id IS NULL));
+
+CREATE OR REPLACE FUNCTION public.quiz_version_is_draft(_version_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.quiz_versions WHERE id = _version_id AND published_at IS NULL
+  )
+$$;
+
+-- Questions in a published version are read-only; bank questions have no version and stay editable
+DROP POLICY "Admins can manage quiz questions" ON public.quiz_questions;
+
+CREATE POLICY "Admins can view quiz questions" ON public.quiz_questions FOR SELECT USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can add draft questions"
+ON public.quiz_questions
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin') AND (version_id IS NULL OR public.quiz_version_is_draft(version_id)));
+
+CREATE POLICY "Admins can edit draft questions"
+ON public.quiz_questions
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin') AND (version_id IS NULL OR public.quiz_version_is_draft(version_id)))
+WITH CHECK (has_role(auth.uid(), 'admin') AND (version_id IS NULL OR public.quiz_version_is_draft(version_id)));
+
+CREATE POLICY "Admins can delete draft questions"
+ON public.quiz_questions
+FOR DELETE
+USING (has_role(auth.uid(), 'admin') AND (version_id IS NULL OR public.quiz_version_is_draft(version_id)));
+
+-- Returns the quiz's draft version, starting one from a copy of the published questions if there
+-- isn't one yet
+CREATE OR REPLACE FUNCTION public.quiz_draft_version(_quiz_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _draft_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can edit quizzes';
+  END IF;
+
+  SELECT id, published_version_id INTO _quiz
+  FROM public.quizzes
+  WHERE id = _quiz_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % not found', _quiz_id;
+  END IF;
+
+  SELECT id INTO _draft_id
+  FROM public.quiz_versions
+  WHERE quiz_id = _quiz_id AND published_at IS NULL;
+
+  IF _draft_id IS NOT NULL THEN
+    RETURN _draft_id;
+  END IF;
+
+  INSERT INTO public.quiz_versions (quiz_id, version_number)
+  SELECT _quiz_id, COALESCE(MAX(version_number), 0) + 1
+  FROM public.quiz_versions
+  WHERE quiz_id = _quiz_id
+  RETURNING id INTO _draft_id;
+
+  INSERT INTO public.quiz_questions (
+    quiz_id, version_id, lineage_id, question_type, question, image_url, options, option_images,
+    correct_answer, answer, hints, explanation, order_index
+  )
+  SELECT quiz_id, _draft_id, lineage_id, question_type, question, image_url, options, option_images,
+    correct_answer, answer, hints, explanation, order_index
+  FROM public.quiz_questions
+  WHERE version_id = _quiz.published_version_id;
+
+  RETURN _draft_id;
+END;
+$$;
+
+-- Publishes the quiz's draft as its current version and returns the new version number
+CREATE OR REPLACE FUNCTION public.publish_quiz_version(_quiz_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _draft RECORD;
+  _own_count INTEGER;
+  _drawn_count INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can publish quizzes';
+  END IF;
+
+  PERFORM 1 FROM public.quizzes WHERE id = _quiz_id FOR UPDATE;
+
+  SELECT * INTO _draft
+  FROM public.quiz_versions
+  WHERE quiz_id = _quiz_id AND published_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % has no draft to publish', _quiz_id;
+  END IF;
+
+  SELECT COUNT(*) INTO _own_count FROM public.quiz_questions WHERE version_id = _draft.id;
+  SELECT COALESCE(SUM(draw_count), 0) INTO _drawn_count FROM public.quiz_bank_draws WHERE quiz_id = _quiz_id;
+
+  IF _own_count + _drawn_count = 0 THEN
+    RAISE EXCEPTION 'Quiz % has no questions to publish', _quiz_id;
+  END IF;
+
+  UPDATE public.quiz_versions
+  SET published_at = now(),
+      published_by = auth.uid()
+  WHERE id = _draft.id;
+
+  UPDATE public.quizzes
+  SET published_version_id = _draft.id,
+      total_questions = _own_count + _drawn_count
+  WHERE id = _quiz_id;
+
+  RETURN _draft.version_number;
+END;
+$$;
@@ -0,0 +1,141 @@
+-- Prerequisites: a quiz or video can require other quizzes (with a minimum best score) and videos
+-- (watched) before it unlocks. Each row is one requirement of one piece of content.
+CREATE TABLE public.content_prerequisites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The locked content: exactly one of quiz_id / video_id
+  quiz_id UUID REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  video_id UUID REFERENCES public.videos(id) ON DELETE CASCADE,
+  -- What it requires: exactly one of required_quiz_id / required_video_id
+  required_quiz_id UUID REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  required_video_id UUID REFERENCES public.videos(id) ON DELETE CASCADE,
+  -- Best completed attempt, as a percentage, needed on a required quiz
+  min_score_percent INTEGER NOT NULL DEFAULT 0 CHECK (min_score_percent BETWEEN 0 AND 100),
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT content_prerequisites_single_content CHECK ((quiz_id IS NULL) <> (video_id IS NULL)),
+  CONSTRAINT content_prerequisites_single_requirement CHECK ((required_quiz_id IS NULL) <> (required_video_id IS NULL))
+);
+
+ALTER TABLE public.content_prerequisites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view prerequisites" ON public.content_prerequisites FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins can manage prerequisites" ON public.content_prerequisites FOR ALL USING (has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_content_prerequisites_quiz_id ON public.content_prerequisites(quiz_id);
+CREATE INDEX idx_content_prerequisites_video_id ON public.content_prerequisites(video_id);
+
+-- A requirement may not lead back, directly or through other requirements, to the content it locks
+CREATE OR REPLACE FUNCTION public.check_prerequisite_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _content TEXT := COALESCE('quiz:' || NEW.quiz_id, 'video:' || NEW.video_id);
+  _required TEXT := COALESCE('quiz:' || NEW.required_quiz_id, 'video:' || NEW.required_video_id);
+BEGIN
+  IF _content = _required OR EXISTS (
+    WITH RECURSIVE reachable(node) AS (
+      SELECT _required
+      UNION
+      SELECT COALESCE('quiz:' || p.required_quiz_id, 'video:' || p.required_video_id)
+      FROM public.content_prerequisites p
+      JOIN reachable r ON r.node = COALESCE('quiz:' || p.quiz_id, 'video:' || p.video_id)
+    )
+    SELECT 1 FROM reachable WHERE node = _content
+  ) THEN
+    RAISE EXCEPTION 'This prerequisite would create a cycle';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_prerequisite_cycle
+BEFORE INSERT OR UPDATE ON public.content_prerequisites
+FOR EACH ROW
+EXECUTE FUNCTION public.check_prerequisite_cycle();
+
+-- The requirements of a quiz or video that a user hasn't met yet, with how far they got on each
+CREATE OR REPLACE FUNCTION public.missing_prerequisites(_user_id UUID, _quiz_id UUID, _video_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'required_quiz_id', p.required_quiz_id,
+    'required_video_id', p.required_video_id,
+    'title', COALESCE(q.title, v.title),
+    'min_score_percent', p.min_score_percent,
+    'best_score_percent', best.percent
+  ) ORDER BY p.created_at), '[]'::jsonb)
+  FROM public.content_prerequisites p
+  LEFT JOIN public.quizzes q ON q.id = p.required_quiz_id
+  LEFT JOIN public.videos v ON v.id = p.required_video_id
+  LEFT JOIN LATERAL (
+    SELECT MAX(ROUND(a.score * 100.0 / NULLIF(a.total_questions, 0)))::INTEGER AS percent
+    FROM public.quiz_attempts a
+    WHERE a.user_id = _user_id
+      AND a.quiz_id = p.required_quiz_id
+      AND a.status = 'completed'
+  ) best ON true
+  WHERE (p.quiz_id = _quiz_id OR p.video_id = _video_id)
+    AND CASE
+      WHEN p.required_quiz_id IS NOT NULL THEN best.percent IS NULL OR best.percent < p.min_score_percent
+      ELSE NOT EXISTS (
+        SELECT 1 FROM public.video_watch_history w
+        WHERE w.user_id = _user_id AND w.video_id = p.required_video_id
+      )
+    END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.missing_prerequisites(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.missing_prerequisites(UUID, UUID, UUID) TO service_role;
+
+-- Whether the caller has unlocked a quiz or video, for RLS checks
+CREATE OR REPLACE FUNCTION public.prerequisites_met(_quiz_id UUID, _video_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.missing_prerequisites(auth.uid(), _quiz_id, _video_id) = '[]'::jsonb
+$$;
+
+-- Every quiz and video still locked for the caller, with what is missing for each
+CREATE OR REPLACE FUNCTION public.content_locks()
+RETURNS TABLE (quiz_id UUID, video_id UUID, missing JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT locks.quiz_id, locks.video_id, locks.missing
+  FROM (
+    SELECT c.quiz_id, c.video_id, public.missing_prerequisites(auth.uid(), c.quiz_id, c.video_id) AS missing
+    FROM (SELECT DISTINCT p.quiz_id, p.video_id FROM public.content_prerequisites p) c
+  ) locks
+  WHERE locks.missing <> '[]'::jsonb
+$$;
+
+-- A locked video can't be marked watched or pay out XP (quizzes are checked by start-quiz)
+DROP POLICY "Users can insert their own watch history" ON public.video_watch_history;
+
+CREATE POLICY "Users can insert their own watch history"
+ON public.video_watch_history
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.prerequisites_met(NULL, video_id));
+
+DROP POLICY "Users can insert their own video XP transactions" ON public.xp_transactions;
+
+CREATE POLICY "Users can insert their own video XP transactions"
+ON public.xp_transactions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  transaction_type = 'video_watched' AND
+  public.prerequisites_met(NULL, reference_id)
+);
@@ -0,0 +1,277 @@
+-- Draft quizzes: a quiz that has never been published (no published_version_id) is only visible to
+-- admins, whatever its is_active switch says. Creating a quiz no longer publishes it straight away.
+DROP POLICY "Anyone can view active quizzes" ON public.quizzes;
+
+CREATE POLICY "Anyone can view active published quizzes"
+ON public.quizzes
+FOR SELECT
+USING ((is_active = true AND published_version_id IS NOT NULL) OR has_role(auth.uid(), 'admin'));
+
+-- The XP a score earns under the quiz's policy, before checking whether it was already earned.
+-- Split out of record_quiz_attempt so previews can show the reward without recording anything.
+CREATE OR REPLACE FUNCTION public.quiz_xp_breakdown(
+  _quiz_id UUID,
+  _score NUMERIC,
+  _total_questions INTEGER,
+  _time_taken_seconds INTEGER,
+  _answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quiz RECORD;
+  _score_percent NUMERIC := 0;
+  _passed BOOLEAN;
+  _time_limit INTEGER;
+  _base_xp INTEGER := 0;
+  _speed_bonus INTEGER := 0;
+  _hint_penalty INTEGER := 0;
+BEGIN
+  SELECT id, xp_reward, xp_policy, xp_pass_percent, xp_speed_bonus, timer_per_question, hint_penalty_mode
+  INTO _quiz FROM public.quizzes WHERE id = _quiz_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % not found', _quiz_id;
+  END IF;
+
+  IF _total_questions > 0 THEN
+    _score_percent := ROUND(_score / _total_questions * 100, 2);
+  END IF;
+  _passed := _score_percent >= _quiz.xp_pass_percent;
+  _time_limit := _quiz.timer_per_question * _total_questions;
+
+  IF _passed THEN
+    _base_xp := CASE _quiz.xp_policy
+      WHEN 'proportional' THEN ROUND(_quiz.xp_reward * _score_percent / 100)::INTEGER
+      ELSE _quiz.xp_reward
+    END;
+
+    -- Scaled by the score too, so racing through with blank answers doesn't pay
+    IF _quiz.xp_speed_bonus > 0 AND _time_limit > 0 THEN
+      _speed_bonus := ROUND(
+        _quiz.xp_speed_bonus
+        * GREATEST(0, 1 - _time_taken_seconds::NUMERIC / _time_limit)
+        * _score_percent / 100
+      )::INTEGER;
+    END IF;
+
+    IF _quiz.hint_penalty_mode = 'xp' AND _total_questions > 0 THEN
+      SELECT LEAST(_base_xp + _speed_bonus, ROUND(
+        _quiz.xp_reward * COALESCE(SUM((a ->> 'hint_penalty')::NUMERIC), 0) / _total_questions
+      )::INTEGER)
+      INTO _hint_penalty
+      FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb)) AS a;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'policy', _quiz.xp_policy,
+    'xp_reward', _quiz.xp_reward,
+    'score_percent', _score_percent,
+    'pass_percent', _quiz.xp_pass_percent,
+    'passed', _passed,
+    'base_xp', _base_xp,
+    'speed_bonus', _speed_bonus,
+    'hint_penalty', _hint_penalty,
+    'time_taken_seconds', _time_taken_seconds,
+    'time_limit_seconds', _time_limit
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quiz_xp_breakdown(UUID, NUMERIC, INTEGER, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.quiz_xp_breakdown(UUID, NUMERIC, INTEGER, INTEGER, JSONB) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  _attempt_id UUID,
+  _score NUMERIC,
+  _time_taken_seconds INTEGER,
+  _answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt RECORD;
+  _quiz RECORD;
+  _is_first_attempt BOOLEAN;
+  _xp_earned_before BOOLEAN;
+  _breakdown JSONB;
+  _base_xp INTEGER;
+  _speed_bonus INTEGER;
+  _hint_penalty INTEGER;
+  _xp_awarded INTEGER := 0;
+  _reason TEXT;
+BEGIN
+  SELECT * INTO _attempt FROM public.quiz_attempts WHERE id = _attempt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', _attempt_id;
+  END IF;
+  IF _attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Attempt % has already been submitted', _attempt_id;
+  END IF;
+
+  SELECT id, title, xp_reward, xp_policy INTO _quiz FROM public.quizzes WHERE id = _attempt.quiz_id;
+
+  -- Lock the profile row so concurrent submissions can't both earn the reward
+  PERFORM 1 FROM public.profiles WHERE user_id = _attempt.user_id FOR UPDATE;
+
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE user_id = _attempt.user_id AND quiz_id = _attempt.quiz_id AND status = 'completed'
+  ) INTO _is_first_attempt;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.xp_transactions
+    WHERE user_id = _attempt.user_id AND reference_id = _quiz.id AND transaction_type = 'quiz_completion'
+  ) INTO _xp_earned_before;
+
+  UPDATE public.quiz_attempts
+  SET status = 'completed',
+      score = _score,
+      time_taken_seconds = _time_taken_seconds,
+      completed_at = now()
+  WHERE id = _attempt_id;
+
+  INSERT INTO public.quiz_attempt_answers (
+    attempt_id, question_id, response, is_correct, credit, time_spent_seconds, hint_shown, hints_used, hint_penalty
+  )
+  SELECT
+    _attempt_id,
+    (a ->> 'question_id')::UUID,
+    a -> 'response',
+    COALESCE((a ->> 'is_correct')::BOOLEAN, false),
+    COALESCE((a ->> 'credit')::NUMERIC, 0),
+    (a ->> 'time_spent_seconds')::INTEGER,
+    COALESCE((a ->> 'hints_used')::INTEGER, 0) > 0,
+    COALESCE((a ->> 'hints_used')::INTEGER, 0),
+    COALESCE((a ->> 'hint_penalty')::NUMERIC, 0)
+  FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb)) AS a;
+
+  _breakdown := public.quiz_xp_breakdown(_quiz.id, _score, _attempt.total_questions, _time_taken_seconds, _answers);
+  _base_xp := (_breakdown ->> 'base_xp')::INTEGER;
+  _speed_bonus := (_breakdown ->> 'speed_bonus')::INTEGER;
+  _hint_penalty := (_breakdown ->> 'hint_penalty')::INTEGER;
+
+  IF NOT _xp_earned_before THEN
+    _xp_awarded := _base_xp + _speed_bonus - _hint_penalty;
+  END IF;
+
+  IF _xp_awarded > 0 THEN
+    _reason := format(
+      'Completed quiz: %s (%s/%s correct, %s%s%s)',
+      _quiz.title,
+      trim_scale(_score),
+      _attempt.total_questions,
+      CASE _quiz.xp_policy
+        WHEN 'proportional' THEN format('%s%% of %s XP = %s', trim_scale((_breakdown ->> 'score_percent')::NUMERIC), _quiz.xp_reward, _base_xp)
+        ELSE format('%s XP', _base_xp)
+      END,
+      CASE WHEN _speed_bonus > 0
+        THEN format(' + %s speed bonus for finishing in %ss of %ss', _speed_bonus, _time_taken_seconds, _breakdown ->> 'time_limit_seconds')
+        ELSE ''
+      END,
+      CASE WHEN _hint_penalty > 0
+        THEN format(' - %s for hints', _hint_penalty)
+        ELSE ''
+      END
+    );
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_attempt.user_id, _xp_awarded, 'quiz_completion', _quiz.id, _reason);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _attempt.user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', _attempt_id,
+    'is_first_attempt', _is_first_attempt,
+    'xp_earned_before', _xp_earned_before,
+    'xp_awarded', _xp_awarded,
+    'xp_breakdown', _breakdown
+  );
+END;
+$$;
+
+-- Copies a quiz's settings, bank draws, prerequisites and questions into a new, unpublished quiz.
+-- The questions come from the source's draft if it has one, otherwise its published version, and
+-- start new lineages since the copy has its own history.
+CREATE OR REPLACE FUNCTION public.clone_quiz(_quiz_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source RECORD;
+  _source_version_id UUID;
+  _new_quiz_id UUID;
+  _draft_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can duplicate quizzes';
+  END IF;
+
+  SELECT * INTO _source FROM public.quizzes WHERE id = _quiz_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % not found', _quiz_id;
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT id FROM public.quiz_versions WHERE quiz_id = _quiz_id AND published_at IS NULL),
+    _source.published_version_id
+  ) INTO _source_version_id;
+
+  INSERT INTO public.quizzes (
+    title, description, difficulty, timer_per_question, total_questions, is_active,
+    xp_reward, xp_policy, xp_pass_percent, xp_speed_bonus, hint_penalty_mode,
+    shuffle_questions, shuffle_options, resume_window_minutes,
+    is_exam, opens_at, closes_at, max_attempts, time_limit_minutes, created_by
+  )
+  VALUES (
+    'Copy of ' || _source.title, _source.description, _source.difficulty, _source.timer_per_question,
+    _source.total_questions, false,
+    _source.xp_reward, _source.xp_policy, _source.xp_pass_percent, _source.xp_speed_bonus, _source.hint_penalty_mode,
+    _source.shuffle_questions, _source.shuffle_options, _source.resume_window_minutes,
+    _source.is_exam, _source.opens_at, _source.closes_at, _source.max_attempts, _source.time_limit_minutes, auth.uid()
+  )
+  RETURNING id INTO _new_quiz_id;
+
+  INSERT INTO public.quiz_versions (quiz_id, version_number)
+  VALUES (_new_quiz_id, 1)
+  RETURNING id INTO _draft_id;
+
+  INSERT INTO public.quiz_questions (
+    quiz_id, version_id, question_type, question, image_url, options, option_images,
+    correct_answer, answer, hints, explanation, order_index
+  )
+  SELECT _new_quiz_id, _draft_id, question_type, question, image_url, options, option_images,
+    correct_answer, answer, hints, explanation, order_index
+  FROM public.quiz_questions
+  WHERE version_id = _source_version_id;
+
+  INSERT INTO public.quiz_bank_draws (quiz_id, bank_id, draw_count)
+  SELECT _new_quiz_id, bank_id, draw_count
+  FROM public.quiz_bank_draws
+  WHERE quiz_id = _quiz_id;
+
+  INSERT INTO public.content_prerequisites (quiz_id, required_quiz_id, required_video_id, min_score_percent, created_by)
+  SELECT _new_quiz_id, required_quiz_id, required_video_id, min_score_percent, auth.uid()
+  FROM public.content_prerequisites
+  WHERE quiz_id = _quiz_id;
+
+  RETURN _new_quiz_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.clone_quiz(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.clone_quiz(UUID) TO authenticated;
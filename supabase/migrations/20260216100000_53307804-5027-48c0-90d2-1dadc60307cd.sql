@@ -0,0 +1,100 @@
+-- Verified video completion: the player reports the stretches actually played to the
+-- video-progress function, which merges them here. A video counts as watched, and pays its XP,
+-- once enough of it has been covered. Students can no longer mark videos watched themselves.
+ALTER TABLE public.videos
+  ADD COLUMN required_watch_percent INTEGER NOT NULL DEFAULT 90
+  CHECK (required_watch_percent BETWEEN 1 AND 100);
+
+CREATE TABLE public.video_watch_progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  -- Merged [start, end] second ranges played, e.g. [[0, 42.5], [60, 75]]
+  watched_ranges JSONB NOT NULL DEFAULT '[]'::jsonb,
+  watched_seconds NUMERIC NOT NULL DEFAULT 0,
+  duration_seconds NUMERIC NOT NULL DEFAULT 0,
+  watched_percent NUMERIC NOT NULL DEFAULT 0,
+  last_reported_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, video_id)
+);
+
+ALTER TABLE public.video_watch_progress ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the video-progress function
+CREATE POLICY "Users can view their own watch progress" ON public.video_watch_progress FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all watch progress" ON public.video_watch_progress FOR SELECT USING (has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_video_watch_progress_video_id ON public.video_watch_progress(video_id);
+
+CREATE TRIGGER update_video_watch_progress_updated_at BEFORE UPDATE ON public.video_watch_progress FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP POLICY "Users can insert their own watch history" ON public.video_watch_history;
+DROP POLICY "Users can insert their own video XP transactions" ON public.xp_transactions;
+
+-- Marks a video watched once the recorded progress covers the required share, and pays its XP
+-- the first time. Returns {completed, xp_awarded}.
+CREATE OR REPLACE FUNCTION public.complete_video_watch(_user_id UUID, _video_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _video RECORD;
+  _progress RECORD;
+  _xp_awarded INTEGER := 0;
+BEGIN
+  SELECT id, title, xp_reward, required_watch_percent INTO _video FROM public.videos WHERE id = _video_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Video % not found', _video_id;
+  END IF;
+
+  SELECT * INTO _progress
+  FROM public.video_watch_progress
+  WHERE user_id = _user_id AND video_id = _video_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _progress.watched_percent < _video.required_watch_percent THEN
+    RETURN jsonb_build_object('completed', false, 'xp_awarded', 0);
+  END IF;
+
+  IF _progress.completed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('completed', true, 'xp_awarded', 0);
+  END IF;
+
+  IF public.missing_prerequisites(_user_id, NULL, _video_id) <> '[]'::jsonb THEN
+    RAISE EXCEPTION 'Video % is locked behind prerequisites', _video_id;
+  END IF;
+
+  UPDATE public.video_watch_progress SET completed_at = now() WHERE id = _progress.id;
+
+  -- Lock the profile row so concurrent reports can't both pay out
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  INSERT INTO public.video_watch_history (user_id, video_id)
+  VALUES (_user_id, _video_id)
+  ON CONFLICT (user_id, video_id) DO NOTHING;
+
+  IF _video.xp_reward > 0 AND NOT EXISTS (
+    SELECT 1 FROM public.xp_transactions
+    WHERE user_id = _user_id AND reference_id = _video_id AND transaction_type = 'video_watched'
+  ) THEN
+    _xp_awarded := _video.xp_reward;
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_user_id, _xp_awarded, 'video_watched', _video_id, 'Watched video: ' || _video.title);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _user_id;
+  END IF;
+
+  RETURN jsonb_build_object('completed', true, 'xp_awarded', _xp_awarded);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_video_watch(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_video_watch(UUID, UUID) TO service_role;
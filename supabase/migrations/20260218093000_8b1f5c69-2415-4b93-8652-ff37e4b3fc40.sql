@@ -0,0 +1,18 @@
+-- Uploaded videos: besides YouTube links, a video can be a file in the videos bucket, played
+-- with the browser's own player. storage_path is the object's path so it can be removed along
+-- with the video; video_url holds its public URL either way.
+CREATE TYPE public.video_source AS ENUM ('youtube', 'upload');
+
+ALTER TABLE public.videos
+  ADD COLUMN source public.video_source NOT NULL DEFAULT 'youtube',
+  ADD COLUMN storage_path TEXT,
+  ADD CONSTRAINT videos_upload_has_storage_path CHECK (source = 'youtube' OR storage_path IS NOT NULL);
+
+-- MP4/WebM files plus the JPEG thumbnails captured from them, up to 2 GB each
+UPDATE storage.buckets
+SET file_size_limit = 2147483648,
+    allowed_mime_types = ARRAY['video/mp4', 'video/webm', 'image/jpeg']
+WHERE id = 'videos';
+
+-- Resumable uploads with x-upsert re-write the object, which needs UPDATE on storage.objects
+CREATE POLICY "Admins can update videos" ON storage.objects FOR UPDATE USING (bucket_id = 'videos' AND has_role(auth.uid(), 'admin'));
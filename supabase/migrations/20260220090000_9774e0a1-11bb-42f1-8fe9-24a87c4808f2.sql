@@ -0,0 +1,6 @@
+-- Where each student left off in each video, so players can resume there. Reported by the player
+-- with every progress report; unlike watched_ranges it isn't checked, since it earns nothing.
+ALTER TABLE public.video_watch_progress
+  ADD COLUMN position_seconds NUMERIC NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_video_watch_progress_user_recent ON public.video_watch_progress(user_id, last_reported_at DESC);
@@ -0,0 +1,21 @@
+-- Personal notes pinned to a moment in a video. A note with no text is a bookmark.
+CREATE TABLE public.video_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  timestamp_seconds NUMERIC NOT NULL CHECK (timestamp_seconds >= 0),
+  body TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.video_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own video notes" ON public.video_notes FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add their own video notes" ON public.video_notes FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own video notes" ON public.video_notes FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own video notes" ON public.video_notes FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_video_notes_user_video ON public.video_notes(user_id, video_id, timestamp_seconds);
+
+CREATE TRIGGER update_video_notes_updated_at BEFORE UPDATE ON public.video_notes FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,196 @@
+-- Courses: ordered modules of videos, quizzes and text lessons, so new members have a path to
+-- follow. A student completes a course by watching every video, passing every quiz (its XP pass
+-- mark) and reading every lesson, and earns the course's completion bonus once.
+ALTER TYPE public.xp_transaction_type ADD VALUE 'course_completion';
+
+-- Written material placed in a course between videos and quizzes
+CREATE TABLE public.lessons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL DEFAULT '',
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.lessons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view lessons" ON public.lessons FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins can manage lessons" ON public.lessons FOR ALL USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_lessons_updated_at BEFORE UPDATE ON public.lessons FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.lesson_completions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, lesson_id)
+);
+
+ALTER TABLE public.lesson_completions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own lesson completions" ON public.lesson_completions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can mark lessons complete" ON public.lesson_completions FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Admins can view all lesson completions" ON public.lesson_completions FOR SELECT USING (has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_lesson_completions_lesson_id ON public.lesson_completions(lesson_id);
+
+CREATE TABLE public.courses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  thumbnail_url TEXT,
+  -- Bonus paid once, on top of the XP of the content itself, when every item is done
+  completion_xp INTEGER NOT NULL DEFAULT 0 CHECK (completion_xp >= 0),
+  -- Drafts are only visible to admins while they are being built
+  is_published BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.courses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view published courses" ON public.courses FOR SELECT TO authenticated USING (is_published);
+CREATE POLICY "Admins can manage courses" ON public.courses FOR ALL USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_courses_updated_at BEFORE UPDATE ON public.courses FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.course_modules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.course_modules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view modules of published courses" ON public.course_modules FOR SELECT TO authenticated USING (EXISTS (SELECT 1 FROM public.courses c WHERE c.id = course_id AND c.is_published));
+CREATE POLICY "Admins can manage course modules" ON public.course_modules FOR ALL USING (has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_course_modules_course_id ON public.course_modules(course_id, position);
+
+CREATE TABLE public.course_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  module_id UUID NOT NULL REFERENCES public.course_modules(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  -- The content: exactly one of video_id / quiz_id / lesson_id
+  video_id UUID REFERENCES public.videos(id) ON DELETE CASCADE,
+  quiz_id UUID REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  lesson_id UUID REFERENCES public.lessons(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT course_items_single_content CHECK (num_nonnulls(video_id, quiz_id, lesson_id) = 1)
+);
+
+ALTER TABLE public.course_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view items of published courses" ON public.course_items FOR SELECT TO authenticated USING (EXISTS (SELECT 1 FROM public.course_modules m JOIN public.courses c ON c.id = m.course_id WHERE m.id = module_id AND c.is_published));
+CREATE POLICY "Admins can manage course items" ON public.course_items FOR ALL USING (has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_course_items_module_id ON public.course_items(module_id, position);
+
+-- Written only by complete_course
+CREATE TABLE public.course_completions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  xp_awarded INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, course_id)
+);
+
+ALTER TABLE public.course_completions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own course completions" ON public.course_completions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all course completions" ON public.course_completions FOR SELECT USING (has_role(auth.uid(), 'admin'));
+
+-- Items of a course the user hasn't done yet. A quiz counts once a completed attempt reaches the
+-- quiz's XP pass mark, the same mark that pays its XP.
+CREATE OR REPLACE FUNCTION public.course_items_remaining(_user_id UUID, _course_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.course_items i
+  JOIN public.course_modules m ON m.id = i.module_id
+  WHERE m.course_id = _course_id
+    AND NOT CASE
+      WHEN i.video_id IS NOT NULL THEN EXISTS (
+        SELECT 1 FROM public.video_watch_history w
+        WHERE w.user_id = _user_id AND w.video_id = i.video_id
+      )
+      WHEN i.quiz_id IS NOT NULL THEN EXISTS (
+        SELECT 1 FROM public.quiz_attempts a
+        JOIN public.quizzes q ON q.id = a.quiz_id
+        WHERE a.user_id = _user_id
+          AND a.quiz_id = i.quiz_id
+          AND a.status = 'completed'
+          AND ROUND(a.score * 100.0 / NULLIF(a.total_questions, 0)) >= q.xp_pass_percent
+      )
+      ELSE EXISTS (
+        SELECT 1 FROM public.lesson_completions l
+        WHERE l.user_id = _user_id AND l.lesson_id = i.lesson_id
+      )
+    END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.course_items_remaining(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.course_items_remaining(UUID, UUID) TO service_role;
+
+-- Records that the caller finished a published course and pays its bonus the first time.
+-- Returns {completed, xp_awarded}; completed is false while items remain.
+CREATE OR REPLACE FUNCTION public.complete_course(_course_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _course RECORD;
+  _xp_awarded INTEGER := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, title, completion_xp INTO _course FROM public.courses WHERE id = _course_id AND is_published;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Course % not found', _course_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.course_items i JOIN public.course_modules m ON m.id = i.module_id WHERE m.course_id = _course_id
+  ) OR public.course_items_remaining(_user_id, _course_id) > 0 THEN
+    RETURN jsonb_build_object('completed', false, 'xp_awarded', 0);
+  END IF;
+
+  -- Lock the profile row so concurrent calls can't both pay out
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.course_completions WHERE user_id = _user_id AND course_id = _course_id) THEN
+    RETURN jsonb_build_object('completed', true, 'xp_awarded', 0);
+  END IF;
+
+  _xp_awarded := _course.completion_xp;
+
+  INSERT INTO public.course_completions (user_id, course_id, xp_awarded)
+  VALUES (_user_id, _course_id, _xp_awarded);
+
+  IF _xp_awarded > 0 THEN
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_user_id, _xp_awarded, 'course_completion', _course_id, 'Completed course: ' || _course.title);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _user_id;
+  END IF;
+
+  RETURN jsonb_build_object('completed', true, 'xp_awarded', _xp_awarded);
+END;
+$$;
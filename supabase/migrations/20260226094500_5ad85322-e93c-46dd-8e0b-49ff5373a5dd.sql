@@ -0,0 +1,79 @@
+-- Completion certificates. One per student per course, issued once the course is complete. The
+-- name and course title are copied in at issue time so a certificate keeps saying what it said
+-- when it was handed out. Anyone can check a certificate by its code through verify_certificate,
+-- which reveals nothing else about the student.
+CREATE TABLE public.certificates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The certificate ID printed on the PDF and used in /verify/:code
+  code TEXT NOT NULL UNIQUE DEFAULT ('RC-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12))),
+  user_id UUID NOT NULL,
+  course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL,
+  recipient_name TEXT NOT NULL,
+  course_title TEXT NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID,
+  revoke_reason TEXT,
+  UNIQUE (user_id, course_id)
+);
+
+ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+
+-- Issued only by issue_certificate; admins revoke and restore them
+CREATE POLICY "Users can view their own certificates" ON public.certificates FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all certificates" ON public.certificates FOR SELECT USING (has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can update certificates" ON public.certificates FOR UPDATE USING (has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_certificates_issued_at ON public.certificates(issued_at DESC);
+
+-- The caller's certificate for a course they have completed, issuing it the first time
+CREATE OR REPLACE FUNCTION public.issue_certificate(_course_id UUID)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _certificate public.certificates;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _certificate FROM public.certificates WHERE user_id = _user_id AND course_id = _course_id;
+  IF FOUND THEN
+    RETURN _certificate;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.course_completions WHERE user_id = _user_id AND course_id = _course_id) THEN
+    RAISE EXCEPTION 'Course % has not been completed', _course_id;
+  END IF;
+
+  INSERT INTO public.certificates (user_id, course_id, recipient_name, course_title)
+  SELECT _user_id, c.id, p.full_name, c.title
+  FROM public.courses c
+  JOIN public.profiles p ON p.user_id = _user_id
+  WHERE c.id = _course_id
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+
+  SELECT * INTO _certificate FROM public.certificates WHERE user_id = _user_id AND course_id = _course_id;
+  RETURN _certificate;
+END;
+$$;
+
+-- Public check of a certificate code: only what is printed on the certificate, plus whether it
+-- has been revoked
+CREATE OR REPLACE FUNCTION public.verify_certificate(_code TEXT)
+RETURNS TABLE (code TEXT, recipient_name TEXT, course_title TEXT, issued_at TIMESTAMP WITH TIME ZONE, revoked_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.code, c.recipient_name, c.course_title, c.issued_at, c.revoked_at
+  FROM public.certificates c
+  WHERE c.code = upper(trim(_code))
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_certificate(TEXT) TO anon, authenticated;
@@ -0,0 +1,232 @@
+-- Hands-on assignments: an admin posts a task with a rubric and a due date, students hand in
+-- files and a write-up, and admins grade each submission against the rubric. The grade is paid
+-- out as a share of the assignment's XP, less any late penalty.
+ALTER TYPE public.xp_transaction_type ADD VALUE 'assignment_graded';
+
+CREATE TYPE public.submission_status AS ENUM ('submitted', 'graded');
+
+CREATE TABLE public.assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  -- [{ id, title, description, points }]
+  rubric JSONB NOT NULL DEFAULT '[]'::jsonb,
+  due_at TIMESTAMP WITH TIME ZONE,
+  xp_reward INTEGER NOT NULL DEFAULT 0 CHECK (xp_reward >= 0),
+  -- How many times a student may hand in, counting the first submission
+  max_submissions INTEGER NOT NULL DEFAULT 1 CHECK (max_submissions >= 1),
+  -- Percent of the grade taken off per day (or part day) past due_at
+  late_penalty_percent INTEGER NOT NULL DEFAULT 0 CHECK (late_penalty_percent BETWEEN 0 AND 100),
+  -- Days after due_at that submissions are still accepted; NULL accepts them any time, 0 never
+  late_cutoff_days INTEGER CHECK (late_cutoff_days >= 0),
+  is_published BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view published assignments" ON public.assignments FOR SELECT TO authenticated USING (is_published);
+CREATE POLICY "Admins can manage assignments" ON public.assignments FOR ALL USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_assignments_updated_at
+BEFORE UPDATE ON public.assignments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.assignment_submissions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID NOT NULL REFERENCES public.assignments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  attempt_number INTEGER NOT NULL,
+  write_up TEXT NOT NULL DEFAULT '',
+  -- [{ path, name, size, type }] in the assignment-submissions bucket
+  files JSONB NOT NULL DEFAULT '[]'::jsonb,
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  days_late INTEGER NOT NULL DEFAULT 0,
+  status public.submission_status NOT NULL DEFAULT 'submitted',
+  -- [{ criterion_id, points, comment }]
+  scores JSONB,
+  feedback TEXT,
+  -- Rubric score after the late penalty
+  score_percent INTEGER,
+  xp_awarded INTEGER NOT NULL DEFAULT 0,
+  graded_by UUID,
+  graded_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (assignment_id, user_id, attempt_number)
+);
+
+ALTER TABLE public.assignment_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Handed in through submit_assignment and graded through grade_submission
+CREATE POLICY "Users can view their own submissions" ON public.assignment_submissions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all submissions" ON public.assignment_submissions FOR SELECT USING (has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete submissions" ON public.assignment_submissions FOR DELETE USING (has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_assignment_submissions_queue ON public.assignment_submissions(status, submitted_at);
+CREATE INDEX idx_assignment_submissions_user ON public.assignment_submissions(user_id, assignment_id);
+
+-- Private bucket for submitted files, one folder per student: <user_id>/<assignment_id>/<file>
+INSERT INTO storage.buckets (id, name, public) VALUES ('assignment-submissions', 'assignment-submissions', false);
+
+UPDATE storage.buckets
+SET file_size_limit = 52428800
+WHERE id = 'assignment-submissions';
+
+CREATE POLICY "Users can upload their own submission files" ON storage.objects FOR INSERT WITH CHECK (bucket_id = 'assignment-submissions' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can view their own submission files" ON storage.objects FOR SELECT USING (bucket_id = 'assignment-submissions' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Admins can view submission files" ON storage.objects FOR SELECT USING (bucket_id = 'assignment-submissions' AND has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete submission files" ON storage.objects FOR DELETE USING (bucket_id = 'assignment-submissions' AND has_role(auth.uid(), 'admin'));
+
+-- Hands in the caller's work for a published assignment. Refused while an earlier submission
+-- is still waiting to be graded, once max_submissions is used up, or after the late cutoff.
+CREATE OR REPLACE FUNCTION public.submit_assignment(_assignment_id UUID, _write_up TEXT, _files JSONB)
+RETURNS public.assignment_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _assignment public.assignments;
+  _previous INTEGER;
+  _days_late INTEGER := 0;
+  _submission public.assignment_submissions;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _assignment FROM public.assignments WHERE id = _assignment_id AND is_published;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment % not found', _assignment_id;
+  END IF;
+
+  IF trim(coalesce(_write_up, '')) = '' AND jsonb_array_length(coalesce(_files, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A submission needs a write-up or at least one file';
+  END IF;
+
+  -- Files must be ones the caller uploaded to their own folder
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(coalesce(_files, '[]'::jsonb)) f
+    WHERE NOT (f->>'path') LIKE _user_id::text || '/%'
+  ) THEN
+    RAISE EXCEPTION 'Invalid submission file';
+  END IF;
+
+  -- Lock the profile row so two submissions can't take the same attempt number
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.assignment_submissions
+    WHERE assignment_id = _assignment_id AND user_id = _user_id AND status = 'submitted'
+  ) THEN
+    RAISE EXCEPTION 'Your previous submission has not been graded yet';
+  END IF;
+
+  SELECT count(*) INTO _previous
+  FROM public.assignment_submissions
+  WHERE assignment_id = _assignment_id AND user_id = _user_id;
+
+  IF _previous >= _assignment.max_submissions THEN
+    RAISE EXCEPTION 'No submissions left for this assignment';
+  END IF;
+
+  IF _assignment.due_at IS NOT NULL AND now() > _assignment.due_at THEN
+    _days_late := ceil(extract(epoch FROM now() - _assignment.due_at) / 86400);
+    IF _assignment.late_cutoff_days IS NOT NULL AND _days_late > _assignment.late_cutoff_days THEN
+      RAISE EXCEPTION 'The deadline for this assignment has passed';
+    END IF;
+  END IF;
+
+  INSERT INTO public.assignment_submissions (assignment_id, user_id, attempt_number, write_up, files, days_late)
+  VALUES (_assignment_id, _user_id, _previous + 1, coalesce(_write_up, ''), coalesce(_files, '[]'::jsonb), _days_late)
+  RETURNING * INTO _submission;
+
+  RETURN _submission;
+END;
+$$;
+
+-- Grades a submission against its assignment's rubric. Points are clamped to each criterion's
+-- maximum, the late penalty comes off the total, and the result is paid as that share of the
+-- assignment's XP. A student's best graded submission is what counts: a regrade or resubmission
+-- pays only the difference above XP already earned on the assignment and never takes XP back.
+CREATE OR REPLACE FUNCTION public.grade_submission(_submission_id UUID, _scores JSONB, _feedback TEXT)
+RETURNS public.assignment_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _submission public.assignment_submissions;
+  _assignment public.assignments;
+  _scores_clamped JSONB;
+  _earned NUMERIC;
+  _possible NUMERIC;
+  _score_percent INTEGER;
+  _xp INTEGER;
+  _xp_paid INTEGER;
+  _xp_awarded INTEGER := 0;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can grade submissions';
+  END IF;
+
+  SELECT * INTO _submission FROM public.assignment_submissions WHERE id = _submission_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', _submission_id;
+  END IF;
+
+  SELECT * INTO _assignment FROM public.assignments WHERE id = _submission.assignment_id;
+
+  SELECT
+    coalesce(jsonb_agg(jsonb_build_object(
+      'criterion_id', c->>'id',
+      'points', LEAST(GREATEST(coalesce((s->>'points')::numeric, 0), 0), (c->>'points')::numeric),
+      'comment', coalesce(s->>'comment', '')
+    )), '[]'::jsonb),
+    coalesce(sum(LEAST(GREATEST(coalesce((s->>'points')::numeric, 0), 0), (c->>'points')::numeric)), 0),
+    coalesce(sum((c->>'points')::numeric), 0)
+  INTO _scores_clamped, _earned, _possible
+  FROM jsonb_array_elements(_assignment.rubric) c
+  LEFT JOIN LATERAL (
+    SELECT e FROM jsonb_array_elements(coalesce(_scores, '[]'::jsonb)) e WHERE e->>'criterion_id' = c->>'id' LIMIT 1
+  ) x(s) ON true;
+
+  _score_percent := CASE WHEN _possible > 0 THEN floor(_earned * 100 / _possible) ELSE 100 END;
+  _score_percent := GREATEST(0, _score_percent - LEAST(100, _submission.days_late * _assignment.late_penalty_percent));
+  _xp := floor(_assignment.xp_reward * _score_percent / 100.0);
+
+  -- Lock the profile row so concurrent grades can't both pay out
+  PERFORM 1 FROM public.profiles WHERE user_id = _submission.user_id FOR UPDATE;
+
+  SELECT coalesce(sum(xp_awarded), 0) INTO _xp_paid
+  FROM public.assignment_submissions
+  WHERE assignment_id = _submission.assignment_id AND user_id = _submission.user_id;
+
+  _xp_awarded := GREATEST(0, _xp - _xp_paid);
+
+  UPDATE public.assignment_submissions
+  SET status = 'graded',
+      scores = _scores_clamped,
+      feedback = nullif(trim(coalesce(_feedback, '')), ''),
+      score_percent = _score_percent,
+      xp_awarded = xp_awarded + _xp_awarded,
+      graded_by = auth.uid(),
+      graded_at = now()
+  WHERE id = _submission_id
+  RETURNING * INTO _submission;
+
+  IF _xp_awarded > 0 THEN
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason, created_by)
+    VALUES (_submission.user_id, _xp_awarded, 'assignment_graded', _assignment.id, 'Graded assignment: ' || _assignment.title, auth.uid());
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _submission.user_id;
+  END IF;
+
+  RETURN _submission;
+END;
+$$;
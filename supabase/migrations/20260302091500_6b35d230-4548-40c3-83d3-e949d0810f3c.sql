@@ -0,0 +1,69 @@
+-- Lessons become content of their own: Markdown text with images and code blocks, listed in the
+-- Learning Hub and paying XP the first time they are completed, the way videos do. Completion
+-- now goes through complete_lesson so the XP can't be claimed twice.
+ALTER TYPE public.xp_transaction_type ADD VALUE 'lesson_completed';
+
+ALTER TABLE public.lessons
+  ADD COLUMN xp_reward INTEGER NOT NULL DEFAULT 5 CHECK (xp_reward >= 0);
+
+DROP POLICY "Users can mark lessons complete" ON public.lesson_completions;
+
+-- Marks a lesson read by the caller and pays its XP the first time. Returns {completed, xp_awarded}.
+CREATE OR REPLACE FUNCTION public.complete_lesson(_lesson_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _lesson RECORD;
+  _xp_awarded INTEGER := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, title, xp_reward INTO _lesson FROM public.lessons WHERE id = _lesson_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson % not found', _lesson_id;
+  END IF;
+
+  -- Lock the profile row so concurrent calls can't both pay out
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.lesson_completions WHERE user_id = _user_id AND lesson_id = _lesson_id) THEN
+    RETURN jsonb_build_object('completed', true, 'xp_awarded', 0);
+  END IF;
+
+  INSERT INTO public.lesson_completions (user_id, lesson_id) VALUES (_user_id, _lesson_id);
+
+  IF _lesson.xp_reward > 0 AND NOT EXISTS (
+    SELECT 1 FROM public.xp_transactions
+    WHERE user_id = _user_id AND reference_id = _lesson_id AND transaction_type = 'lesson_completed'
+  ) THEN
+    _xp_awarded := _lesson.xp_reward;
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_user_id, _xp_awarded, 'lesson_completed', _lesson_id, 'Read lesson: ' || _lesson.title);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _user_id;
+  END IF;
+
+  RETURN jsonb_build_object('completed', true, 'xp_awarded', _xp_awarded);
+END;
+$$;
+
+-- Images embedded in lesson text
+INSERT INTO storage.buckets (id, name, public) VALUES ('lesson-media', 'lesson-media', true);
+
+UPDATE storage.buckets
+SET file_size_limit = 5242880,
+    allowed_mime_types = ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml']
+WHERE id = 'lesson-media';
+
+CREATE POLICY "Anyone can view lesson media" ON storage.objects FOR SELECT USING (bucket_id = 'lesson-media');
+CREATE POLICY "Admins can upload lesson media" ON storage.objects FOR INSERT WITH CHECK (bucket_id = 'lesson-media' AND has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete lesson media" ON storage.objects FOR DELETE USING (bucket_id = 'lesson-media' AND has_role(auth.uid(), 'admin'));
@@ -0,0 +1,30 @@
+-- XP is paid by SECURITY DEFINER functions and edge functions, but the profile
+-- update policy still let students write their own xp_points directly.
+-- Only admins (XP adjustments), the service role and definer functions, which
+-- run as the table owner, may change it.
+CREATE OR REPLACE FUNCTION public.protect_profile_xp()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Profiles created at sign-up start from nothing
+    NEW.xp_points := 0;
+  ELSIF NEW.xp_points IS DISTINCT FROM OLD.xp_points THEN
+    RAISE EXCEPTION 'XP can only be changed by the platform'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_xp
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_xp();
@@ -0,0 +1,45 @@
+-- Saved answers are final once the student moves past the question: a save may only
+-- append answers for questions already left behind, never rewrite earlier ones
+CREATE OR REPLACE FUNCTION public.save_quiz_progress(
+  _attempt_id UUID,
+  _answers JSONB,
+  _current_index INTEGER,
+  _time_left_seconds INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.quiz_attempts qa
+  SET answers = _answers,
+      time_left_seconds = CASE
+        WHEN _current_index = qa.current_index THEN LEAST(qa.time_left_seconds, _time_left_seconds, q.timer_per_question)
+        ELSE LEAST(_time_left_seconds, q.timer_per_question)
+      END,
+      current_index = _current_index,
+      last_activity_at = now()
+  FROM public.quizzes q
+  WHERE qa.id = _attempt_id
+    AND q.id = qa.quiz_id
+    AND qa.user_id = auth.uid()
+    AND qa.status = 'in_progress'
+    AND (qa.deadline_at IS NULL OR now() <= qa.deadline_at + interval '30 seconds')
+    AND _current_index >= qa.current_index
+    AND jsonb_typeof(_answers) = 'array'
+    AND jsonb_array_length(_answers) >= jsonb_array_length(qa.answers)
+    -- Only questions the student has moved past can have an answer
+    AND jsonb_array_length(_answers) <= _current_index
+    -- Everything saved before is carried over unchanged
+    AND qa.answers = COALESCE((
+      SELECT jsonb_agg(a.answer ORDER BY a.position)
+      FROM jsonb_array_elements(_answers) WITH ORDINALITY AS a(answer, position)
+      WHERE a.position <= jsonb_array_length(qa.answers)
+    ), '[]'::jsonb);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % cannot be updated', _attempt_id;
+  END IF;
+END;
+$$;
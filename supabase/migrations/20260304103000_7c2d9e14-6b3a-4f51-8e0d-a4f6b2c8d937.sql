@@ -0,0 +1,356 @@
+-- Bank questions have no version, so editing or deleting one after attempts had drawn it changed
+-- or removed what those attempts were answered against. Bank questions that have been dealt are
+-- now read-only: saving a bank retires a changed question and adds the edited copy under the same
+-- lineage, and removing one retires it. Each answer also keeps a snapshot of the question as it
+-- was answered.
+
+-- Retired questions are kept for the attempts that answered them but are no longer drawn
+ALTER TABLE public.quiz_questions ADD COLUMN retired_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_quiz_questions_active_bank ON public.quiz_questions(bank_id) WHERE retired_at IS NULL;
+
+-- A bank whose questions have been answered is archived instead of deleted
+ALTER TABLE public.question_banks ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.question_banks DROP CONSTRAINT question_banks_name_key;
+CREATE UNIQUE INDEX idx_question_banks_active_name ON public.question_banks(name) WHERE archived_at IS NULL;
+
+-- The question as it was answered: what quiz-review shows, whatever happens to the question later.
+-- It carries the answer key, so it lives apart from the answers students can read and only
+-- admins (and the service role) can see it.
+CREATE TABLE public.quiz_answer_snapshots (
+  answer_id UUID NOT NULL PRIMARY KEY REFERENCES public.quiz_attempt_answers(id) ON DELETE CASCADE,
+  question JSONB NOT NULL
+);
+
+ALTER TABLE public.quiz_answer_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view question snapshots" ON public.quiz_answer_snapshots FOR SELECT USING (has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.quiz_question_snapshot(_question_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'question_type', question_type,
+    'question', question,
+    'image_url', image_url,
+    'options', options,
+    'option_images', option_images,
+    'correct_answer', correct_answer,
+    'answer', answer,
+    'explanation', explanation
+  )
+  FROM public.quiz_questions
+  WHERE id = _question_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quiz_question_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+
+INSERT INTO public.quiz_answer_snapshots (answer_id, question)
+SELECT id, public.quiz_question_snapshot(question_id)
+FROM public.quiz_attempt_answers
+WHERE public.quiz_question_snapshot(question_id) IS NOT NULL;
+
+-- Answered questions can't be deleted out from under their answers. Checked at the end of the
+-- statement, so deleting a whole quiz together with its attempts still goes through.
+ALTER TABLE public.quiz_attempt_answers DROP CONSTRAINT quiz_attempt_answers_question_id_fkey;
+ALTER TABLE public.quiz_attempt_answers
+ADD CONSTRAINT quiz_attempt_answers_question_id_fkey
+FOREIGN KEY (question_id) REFERENCES public.quiz_questions(id) ON DELETE NO ACTION;
+
+-- Whether a question has been dealt to a student: answered in a completed attempt, or part of the
+-- selection of one still in progress
+CREATE OR REPLACE FUNCTION public.quiz_question_in_use(_question_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.quiz_attempt_answers WHERE question_id = _question_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE status = 'in_progress'
+      AND question_selection @> jsonb_build_array(jsonb_build_object('question_id', _question_id))
+  )
+$$;
+
+DROP POLICY "Admins can edit draft questions" ON public.quiz_questions;
+DROP POLICY "Admins can delete draft questions" ON public.quiz_questions;
+
+CREATE POLICY "Admins can edit draft questions"
+ON public.quiz_questions
+FOR UPDATE
+USING (
+  has_role(auth.uid(), 'admin') AND (
+    public.quiz_version_is_draft(version_id) OR
+    (version_id IS NULL AND retired_at IS NULL AND NOT public.quiz_question_in_use(id))
+  )
+)
+WITH CHECK (
+  has_role(auth.uid(), 'admin') AND (version_id IS NULL OR public.quiz_version_is_draft(version_id))
+);
+
+CREATE POLICY "Admins can delete draft questions"
+ON public.quiz_questions
+FOR DELETE
+USING (
+  has_role(auth.uid(), 'admin') AND (
+    public.quiz_version_is_draft(version_id) OR
+    (version_id IS NULL AND NOT public.quiz_question_in_use(id))
+  )
+);
+
+-- Saves a bank's questions as edited: _questions holds the question columns plus order_index,
+-- matched to the bank's current questions by lineage_id. Unused questions are updated or deleted
+-- in place; dealt ones are retired and, when edited, replaced by a copy in the same lineage.
+CREATE OR REPLACE FUNCTION public.save_bank_questions(_bank_id UUID, _questions JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _existing public.quiz_questions%ROWTYPE;
+  _incoming public.quiz_questions%ROWTYPE;
+  _kept UUID[] := '{}';
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can edit question banks';
+  END IF;
+
+  PERFORM 1 FROM public.question_banks WHERE id = _bank_id AND archived_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question bank % not found', _bank_id;
+  END IF;
+
+  FOR _existing IN
+    SELECT * FROM public.quiz_questions WHERE bank_id = _bank_id AND retired_at IS NULL
+  LOOP
+    SELECT * INTO _incoming
+    FROM jsonb_populate_recordset(NULL::public.quiz_questions, _questions)
+    WHERE lineage_id = _existing.lineage_id
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      IF public.quiz_question_in_use(_existing.id) THEN
+        UPDATE public.quiz_questions SET retired_at = now() WHERE id = _existing.id;
+      ELSE
+        DELETE FROM public.quiz_questions WHERE id = _existing.id;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF (_incoming.question_type, _incoming.question, _incoming.image_url, _incoming.options, _incoming.option_images,
+        _incoming.correct_answer, _incoming.answer, _incoming.hints, _incoming.explanation)
+       IS NOT DISTINCT FROM
+       (_existing.question_type, _existing.question, _existing.image_url, _existing.options, _existing.option_images,
+        _existing.correct_answer, _existing.answer, _existing.hints, _existing.explanation)
+    THEN
+      UPDATE public.quiz_questions SET order_index = _incoming.order_index WHERE id = _existing.id;
+      _kept := _kept || _existing.lineage_id;
+    ELSIF NOT public.quiz_question_in_use(_existing.id) THEN
+      UPDATE public.quiz_questions
+      SET question_type = _incoming.question_type,
+          question = _incoming.question,
+          image_url = _incoming.image_url,
+          options = _incoming.options,
+          option_images = _incoming.option_images,
+          correct_answer = _incoming.correct_answer,
+          answer = _incoming.answer,
+          hints = _incoming.hints,
+          explanation = _incoming.explanation,
+          order_index = _incoming.order_index
+      WHERE id = _existing.id;
+      _kept := _kept || _existing.lineage_id;
+    ELSE
+      -- Inserted below as a new question in the same lineage
+      UPDATE public.quiz_questions SET retired_at = now() WHERE id = _existing.id;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.quiz_questions (
+    bank_id, lineage_id, question_type, question, image_url, options, option_images,
+    correct_answer, answer, hints, explanation, order_index
+  )
+  SELECT _bank_id, COALESCE(q.lineage_id, gen_random_uuid()), q.question_type, q.question, q.image_url,
+    COALESCE(q.options, '[]'::jsonb), COALESCE(q.option_images, '[]'::jsonb), q.correct_answer, q.answer,
+    COALESCE(q.hints, '[]'::jsonb), q.explanation, q.order_index
+  FROM jsonb_populate_recordset(NULL::public.quiz_questions, _questions) AS q
+  WHERE q.lineage_id IS NULL OR NOT q.lineage_id = ANY(_kept);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_bank_questions(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_bank_questions(UUID, JSONB) TO authenticated;
+
+-- Deletes a bank and its quiz draws; a bank with dealt questions is archived with them retired
+CREATE OR REPLACE FUNCTION public.delete_question_bank(_bank_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can delete question banks';
+  END IF;
+
+  PERFORM 1 FROM public.question_banks WHERE id = _bank_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question bank % not found', _bank_id;
+  END IF;
+
+  DELETE FROM public.quiz_bank_draws WHERE bank_id = _bank_id;
+
+  DELETE FROM public.quiz_questions
+  WHERE bank_id = _bank_id AND NOT public.quiz_question_in_use(id);
+
+  IF EXISTS (SELECT 1 FROM public.quiz_questions WHERE bank_id = _bank_id) THEN
+    UPDATE public.quiz_questions SET retired_at = COALESCE(retired_at, now()) WHERE bank_id = _bank_id;
+    UPDATE public.question_banks SET archived_at = now() WHERE id = _bank_id;
+  ELSE
+    DELETE FROM public.question_banks WHERE id = _bank_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_question_bank(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_question_bank(UUID) TO authenticated;
+
+-- Answers now carry a snapshot of their question
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  _attempt_id UUID,
+  _score NUMERIC,
+  _time_taken_seconds INTEGER,
+  _answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt RECORD;
+  _quiz RECORD;
+  _is_first_attempt BOOLEAN;
+  _xp_earned_before BOOLEAN;
+  _answers_seen_before BOOLEAN;
+  _breakdown JSONB;
+  _base_xp INTEGER;
+  _speed_bonus INTEGER;
+  _hint_penalty INTEGER;
+  _xp_awarded INTEGER := 0;
+  _reason TEXT;
+BEGIN
+  SELECT * INTO _attempt FROM public.quiz_attempts WHERE id = _attempt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', _attempt_id;
+  END IF;
+  IF _attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Attempt % has already been submitted', _attempt_id;
+  END IF;
+
+  SELECT id, title, xp_reward, xp_policy INTO _quiz FROM public.quizzes WHERE id = _attempt.quiz_id;
+
+  -- Lock the profile row so concurrent submissions can't both earn the reward
+  PERFORM 1 FROM public.profiles WHERE user_id = _attempt.user_id FOR UPDATE;
+
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE user_id = _attempt.user_id AND quiz_id = _attempt.quiz_id AND status = 'completed'
+  ) INTO _is_first_attempt;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.xp_transactions
+    WHERE user_id = _attempt.user_id AND reference_id = _quiz.id AND transaction_type = 'quiz_completion'
+  ) INTO _xp_earned_before;
+
+  -- Answers shown for an earlier attempt would make a retake a lookup, so only attempts
+  -- started before the student first saw them can earn XP
+  SELECT EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE user_id = _attempt.user_id AND quiz_id = _attempt.quiz_id AND answers_seen_at <= _attempt.started_at
+  ) INTO _answers_seen_before;
+
+  UPDATE public.quiz_attempts
+  SET status = 'completed',
+      score = _score,
+      time_taken_seconds = _time_taken_seconds,
+      completed_at = now()
+  WHERE id = _attempt_id;
+
+  WITH inserted AS (
+    INSERT INTO public.quiz_attempt_answers (
+      attempt_id, question_id, response, is_correct, credit, time_spent_seconds, hint_shown, hints_used, hint_penalty
+    )
+    SELECT
+      _attempt_id,
+      (a ->> 'question_id')::UUID,
+      a -> 'response',
+      COALESCE((a ->> 'is_correct')::BOOLEAN, false),
+      COALESCE((a ->> 'credit')::NUMERIC, 0),
+      (a ->> 'time_spent_seconds')::INTEGER,
+      COALESCE((a ->> 'hints_used')::INTEGER, 0) > 0,
+      COALESCE((a ->> 'hints_used')::INTEGER, 0),
+      COALESCE((a ->> 'hint_penalty')::NUMERIC, 0)
+    FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb)) AS a
+    RETURNING id, question_id
+  )
+  INSERT INTO public.quiz_answer_snapshots (answer_id, question)
+  SELECT id, public.quiz_question_snapshot(question_id)
+  FROM inserted
+  WHERE public.quiz_question_snapshot(question_id) IS NOT NULL;
+
+  _breakdown := public.quiz_xp_breakdown(_quiz.id, _score, _attempt.total_questions, _time_taken_seconds, _answers);
+  _base_xp := (_breakdown ->> 'base_xp')::INTEGER;
+  _speed_bonus := (_breakdown ->> 'speed_bonus')::INTEGER;
+  _hint_penalty := (_breakdown ->> 'hint_penalty')::INTEGER;
+
+  IF NOT _xp_earned_before AND NOT _answers_seen_before THEN
+    _xp_awarded := _base_xp + _speed_bonus - _hint_penalty;
+  END IF;
+
+  IF _xp_awarded > 0 THEN
+    _reason := format(
+      'Completed quiz: %s (%s/%s correct, %s%s%s)',
+      _quiz.title,
+      trim_scale(_score),
+      _attempt.total_questions,
+      CASE _quiz.xp_policy
+        WHEN 'proportional' THEN format('%s%% of %s XP = %s', trim_scale((_breakdown ->> 'score_percent')::NUMERIC), _quiz.xp_reward, _base_xp)
+        ELSE format('%s XP', _base_xp)
+      END,
+      CASE WHEN _speed_bonus > 0
+        THEN format(' + %s speed bonus for finishing in %ss of %ss', _speed_bonus, _time_taken_seconds, _breakdown ->> 'time_limit_seconds')
+        ELSE ''
+      END,
+      CASE WHEN _hint_penalty > 0
+        THEN format(' - %s for hints', _hint_penalty)
+        ELSE ''
+      END
+    );
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_attempt.user_id, _xp_awarded, 'quiz_completion', _quiz.id, _reason);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _attempt.user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', _attempt_id,
+    'is_first_attempt', _is_first_attempt,
+    'xp_earned_before', _xp_earned_before,
+    'answers_seen_before', _answers_seen_before,
+    'xp_awarded', _xp_awarded,
+    'xp_breakdown', _breakdown
+  );
+END;
+$$;
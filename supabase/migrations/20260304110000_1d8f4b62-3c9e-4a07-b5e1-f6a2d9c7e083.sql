@@ -0,0 +1,137 @@
+-- Watch progress used to be measured against the duration the player reported, so a short
+-- reported duration made a few seconds count as the whole video. The real length is now kept on
+-- the video (captured when it is added, or entered by an admin) and progress is measured against
+-- it. Videos added before this have no length until an admin sets one, and can't be tracked
+-- until then.
+ALTER TABLE public.videos
+  ADD COLUMN duration_seconds NUMERIC CHECK (duration_seconds > 0);
+
+-- When the student started watching. All the time credited can't exceed what could have been
+-- played since then, so the per-report leeway can't be collected over and over by reporting often.
+ALTER TABLE public.video_watch_progress
+  ADD COLUMN first_reported_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.video_watch_progress
+SET first_reported_at = created_at
+WHERE last_reported_at IS NOT NULL;
+
+-- Merges a reported stretch into the student's progress and completes the video once enough has
+-- been covered. Reports were merged by video-progress without a lock, so concurrent reports could
+-- overwrite each other and each claim the time since the last report; the progress row is now
+-- locked for the whole merge. Returns the same shape video-progress responds with.
+CREATE OR REPLACE FUNCTION public.record_video_progress(
+  _user_id UUID,
+  _video_id UUID,
+  _start NUMERIC,
+  _end NUMERIC,
+  _position NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Fastest playback speed players offer, and leeway for network jitter
+  _max_playback_rate CONSTANT NUMERIC := 2;
+  _slack_seconds CONSTANT NUMERIC := 3;
+  _video RECORD;
+  _progress RECORD;
+  _allowed NUMERIC := 0;
+  _from NUMERIC;
+  _to NUMERIC;
+  _ranges JSONB;
+  _watched NUMERIC;
+  _percent NUMERIC;
+  _position_seconds NUMERIC;
+  _outcome JSONB := jsonb_build_object('completed', false, 'xp_awarded', 0);
+BEGIN
+  SELECT id, duration_seconds, required_watch_percent INTO _video FROM public.videos WHERE id = _video_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Video % not found', _video_id;
+  END IF;
+  IF _video.duration_seconds IS NULL THEN
+    RAISE EXCEPTION 'Video % has no length set', _video_id;
+  END IF;
+
+  INSERT INTO public.video_watch_progress (user_id, video_id)
+  VALUES (_user_id, _video_id)
+  ON CONFLICT (user_id, video_id) DO NOTHING;
+
+  SELECT * INTO _progress
+  FROM public.video_watch_progress
+  WHERE user_id = _user_id AND video_id = _video_id
+  FOR UPDATE;
+
+  -- Trim the stretch to what could really have been played since the last report, and to what
+  -- is left of what could have been played since the first one; the first report only starts
+  -- the clock
+  IF _progress.last_reported_at IS NOT NULL THEN
+    _allowed := GREATEST(0, LEAST(
+      EXTRACT(EPOCH FROM now() - _progress.last_reported_at) * _max_playback_rate + _slack_seconds,
+      EXTRACT(EPOCH FROM now() - COALESCE(_progress.first_reported_at, _progress.last_reported_at)) * _max_playback_rate
+        + _slack_seconds - _progress.watched_seconds
+    ));
+  END IF;
+  _from := LEAST(_start, _video.duration_seconds);
+  _to := LEAST(_end, _video.duration_seconds, _from + _allowed);
+
+  -- Sorted, non-overlapping ranges covering the stored ones and the new stretch
+  WITH reported AS (
+    SELECT LEAST((r ->> 0)::NUMERIC, _video.duration_seconds) AS range_start,
+           LEAST((r ->> 1)::NUMERIC, _video.duration_seconds) AS range_end
+    FROM jsonb_array_elements(_progress.watched_ranges || jsonb_build_array(jsonb_build_array(_from, _to))) AS r
+  ),
+  ordered AS (
+    SELECT range_start, range_end,
+      MAX(range_end) OVER (ORDER BY range_start, range_end ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING) AS reached
+    FROM reported
+    WHERE range_end > range_start
+  ),
+  grouped AS (
+    SELECT range_start, range_end,
+      SUM(CASE WHEN range_start <= reached THEN 0 ELSE 1 END) OVER (ORDER BY range_start, range_end) AS island
+    FROM ordered
+  ),
+  merged AS (
+    SELECT ROUND(MIN(range_start), 2) AS range_start, ROUND(MAX(range_end), 2) AS range_end
+    FROM grouped
+    GROUP BY island
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_array(range_start, range_end) ORDER BY range_start), '[]'::jsonb),
+         COALESCE(SUM(range_end - range_start), 0)
+  INTO _ranges, _watched
+  FROM merged;
+
+  _percent := LEAST(100, ROUND(_watched / _video.duration_seconds * 100, 2));
+  _position_seconds := ROUND(LEAST(GREATEST(COALESCE(_position, _end), 0), _video.duration_seconds), 2);
+
+  UPDATE public.video_watch_progress
+  SET watched_ranges = _ranges,
+      watched_seconds = ROUND(_watched, 2),
+      duration_seconds = _video.duration_seconds,
+      watched_percent = _percent,
+      position_seconds = _position_seconds,
+      first_reported_at = COALESCE(first_reported_at, now()),
+      last_reported_at = now()
+  WHERE id = _progress.id;
+
+  IF _progress.completed_at IS NOT NULL THEN
+    _outcome := jsonb_build_object('completed', true, 'xp_awarded', 0);
+  ELSIF _percent >= _video.required_watch_percent THEN
+    _outcome := public.complete_video_watch(_user_id, _video_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'watched_percent', _percent,
+    'position_seconds', _position_seconds,
+    'duration_seconds', _video.duration_seconds,
+    'required_percent', _video.required_watch_percent,
+    'completed', _outcome -> 'completed',
+    'xp_awarded', _outcome -> 'xp_awarded'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_video_progress(UUID, UUID, NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_video_progress(UUID, UUID, NUMERIC, NUMERIC, NUMERIC) TO service_role;
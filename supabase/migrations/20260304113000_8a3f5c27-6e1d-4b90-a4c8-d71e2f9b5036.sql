@@ -0,0 +1,84 @@
+-- Lessons get a publish switch like courses and assignments. Students can read a lesson once it
+-- is published, or while it sits in a published course, and only those lessons can be completed
+-- for XP. Lessons already listed in the hub stay published; lessons that only belong to draft
+-- courses start out as drafts.
+ALTER TABLE public.lessons
+  ADD COLUMN is_published BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.lessons l
+SET is_published = true
+WHERE NOT EXISTS (SELECT 1 FROM public.course_items i WHERE i.lesson_id = l.id)
+   OR EXISTS (
+     SELECT 1 FROM public.course_items i
+     JOIN public.course_modules m ON m.id = i.module_id
+     JOIN public.courses c ON c.id = m.course_id
+     WHERE i.lesson_id = l.id AND c.is_published
+   );
+
+-- Whether students can read and complete the lesson
+CREATE OR REPLACE FUNCTION public.lesson_is_available(_lesson_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.lessons WHERE id = _lesson_id AND is_published)
+    OR EXISTS (
+      SELECT 1 FROM public.course_items i
+      JOIN public.course_modules m ON m.id = i.module_id
+      JOIN public.courses c ON c.id = m.course_id
+      WHERE i.lesson_id = _lesson_id AND c.is_published
+    );
+$$;
+
+DROP POLICY "Authenticated users can view lessons" ON public.lessons;
+CREATE POLICY "Authenticated users can view available lessons" ON public.lessons FOR SELECT TO authenticated USING (public.lesson_is_available(id));
+
+-- Marks a lesson read by the caller and pays its XP the first time. Returns {completed, xp_awarded}.
+CREATE OR REPLACE FUNCTION public.complete_lesson(_lesson_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _lesson RECORD;
+  _xp_awarded INTEGER := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, title, xp_reward INTO _lesson FROM public.lessons WHERE id = _lesson_id AND public.lesson_is_available(id);
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson % not found', _lesson_id;
+  END IF;
+
+  -- Lock the profile row so concurrent calls can't both pay out
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.lesson_completions WHERE user_id = _user_id AND lesson_id = _lesson_id) THEN
+    RETURN jsonb_build_object('completed', true, 'xp_awarded', 0);
+  END IF;
+
+  INSERT INTO public.lesson_completions (user_id, lesson_id) VALUES (_user_id, _lesson_id);
+
+  IF _lesson.xp_reward > 0 AND NOT EXISTS (
+    SELECT 1 FROM public.xp_transactions
+    WHERE user_id = _user_id AND reference_id = _lesson_id AND transaction_type = 'lesson_completed'
+  ) THEN
+    _xp_awarded := _lesson.xp_reward;
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_user_id, _xp_awarded, 'lesson_completed', _lesson_id, 'Read lesson: ' || _lesson.title);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _user_id;
+  END IF;
+
+  RETURN jsonb_build_object('completed', true, 'xp_awarded', _xp_awarded);
+END;
+$$;
@@ -0,0 +1,61 @@
+-- Admins could update any column of a certificate, including who it was issued to and for what.
+-- Revoking and restoring now go through functions that only touch the revocation columns.
+DROP POLICY "Admins can update certificates" ON public.certificates;
+
+-- Revokes a certificate, so verifying it shows it as revoked. Returns the updated certificate.
+CREATE OR REPLACE FUNCTION public.revoke_certificate(_certificate_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _certificate public.certificates;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can revoke certificates';
+  END IF;
+
+  UPDATE public.certificates
+  SET revoked_at = COALESCE(revoked_at, now()),
+      revoked_by = auth.uid(),
+      revoke_reason = NULLIF(btrim(_reason), '')
+  WHERE id = _certificate_id
+  RETURNING * INTO _certificate;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate % not found', _certificate_id;
+  END IF;
+
+  RETURN _certificate;
+END;
+$$;
+
+-- Undoes a revocation. Returns the updated certificate.
+CREATE OR REPLACE FUNCTION public.restore_certificate(_certificate_id UUID)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _certificate public.certificates;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can restore certificates';
+  END IF;
+
+  UPDATE public.certificates
+  SET revoked_at = NULL,
+      revoked_by = NULL,
+      revoke_reason = NULL
+  WHERE id = _certificate_id
+  RETURNING * INTO _certificate;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate % not found', _certificate_id;
+  END IF;
+
+  RETURN _certificate;
+END;
+$$;
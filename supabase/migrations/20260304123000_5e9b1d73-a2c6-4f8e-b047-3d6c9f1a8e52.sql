@@ -0,0 +1,80 @@
+-- submit_assignment only checked that file paths started with the student's id, so a submission
+-- could carry a missing path, a path under another assignment or with .. segments, or a file that
+-- was never uploaded. Each path now has to sit in the student's folder for this assignment and
+-- exist in the bucket.
+
+-- Hands in the caller's work for a published assignment. Refused while an earlier submission
+-- is still waiting to be graded, once max_submissions is used up, or after the late cutoff.
+CREATE OR REPLACE FUNCTION public.submit_assignment(_assignment_id UUID, _write_up TEXT, _files JSONB)
+RETURNS public.assignment_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _assignment public.assignments;
+  _previous INTEGER;
+  _days_late INTEGER := 0;
+  _submission public.assignment_submissions;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _assignment FROM public.assignments WHERE id = _assignment_id AND is_published;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment % not found', _assignment_id;
+  END IF;
+
+  IF trim(coalesce(_write_up, '')) = '' AND jsonb_array_length(coalesce(_files, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A submission needs a write-up or at least one file';
+  END IF;
+
+  -- Files must be ones the caller uploaded for this assignment: a path in their folder for it,
+  -- with no .. segments, that is actually in the bucket
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(coalesce(_files, '[]'::jsonb)) f
+    WHERE f->>'path' IS NULL
+       OR NOT (f->>'path') LIKE _user_id::text || '/' || _assignment_id::text || '/%'
+       OR '..' = ANY (string_to_array(f->>'path', '/'))
+       OR NOT EXISTS (
+         SELECT 1 FROM storage.objects o
+         WHERE o.bucket_id = 'assignment-submissions' AND o.name = f->>'path'
+       )
+  ) THEN
+    RAISE EXCEPTION 'Invalid submission file';
+  END IF;
+
+  -- Lock the profile row so two submissions can't take the same attempt number
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.assignment_submissions
+    WHERE assignment_id = _assignment_id AND user_id = _user_id AND status = 'submitted'
+  ) THEN
+    RAISE EXCEPTION 'Your previous submission has not been graded yet';
+  END IF;
+
+  SELECT count(*) INTO _previous
+  FROM public.assignment_submissions
+  WHERE assignment_id = _assignment_id AND user_id = _user_id;
+
+  IF _previous >= _assignment.max_submissions THEN
+    RAISE EXCEPTION 'No submissions left for this assignment';
+  END IF;
+
+  IF _assignment.due_at IS NOT NULL AND now() > _assignment.due_at THEN
+    _days_late := ceil(extract(epoch FROM now() - _assignment.due_at) / 86400);
+    IF _assignment.late_cutoff_days IS NOT NULL AND _days_late > _assignment.late_cutoff_days THEN
+      RAISE EXCEPTION 'The deadline for this assignment has passed';
+    END IF;
+  END IF;
+
+  INSERT INTO public.assignment_submissions (assignment_id, user_id, attempt_number, write_up, files, days_late)
+  VALUES (_assignment_id, _user_id, _previous + 1, coalesce(_write_up, ''), coalesce(_files, '[]'::jsonb), _days_late)
+  RETURNING * INTO _submission;
+
+  RETURN _submission;
+END;
+$$;
@@ -0,0 +1,148 @@
+-- Correct answers also reach students outside quiz-review: practice cards show them once
+-- reviewed, and live sessions reveal them to the room. Those cards come from attempts that never
+-- went through quiz-review (started over, abandoned or timed out), so a student could read a
+-- quiz's answers in practice and retake it for full XP. The first time a student is shown a
+-- quiz's answers that way is recorded here, and counts like answers_seen_at on an attempt.
+CREATE TABLE public.quiz_answers_seen (
+  user_id UUID NOT NULL,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, quiz_id)
+);
+
+-- Written and read by the edge functions only
+ALTER TABLE public.quiz_answers_seen ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  _attempt_id UUID,
+  _score NUMERIC,
+  _time_taken_seconds INTEGER,
+  _answers JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt RECORD;
+  _quiz RECORD;
+  _is_first_attempt BOOLEAN;
+  _xp_earned_before BOOLEAN;
+  _answers_seen_before BOOLEAN;
+  _breakdown JSONB;
+  _base_xp INTEGER;
+  _speed_bonus INTEGER;
+  _hint_penalty INTEGER;
+  _xp_awarded INTEGER := 0;
+  _reason TEXT;
+BEGIN
+  SELECT * INTO _attempt FROM public.quiz_attempts WHERE id = _attempt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', _attempt_id;
+  END IF;
+  IF _attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Attempt % has already been submitted', _attempt_id;
+  END IF;
+
+  SELECT id, title, xp_reward, xp_policy INTO _quiz FROM public.quizzes WHERE id = _attempt.quiz_id;
+
+  -- Lock the profile row so concurrent submissions can't both earn the reward
+  PERFORM 1 FROM public.profiles WHERE user_id = _attempt.user_id FOR UPDATE;
+
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE user_id = _attempt.user_id AND quiz_id = _attempt.quiz_id AND status = 'completed'
+  ) INTO _is_first_attempt;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.xp_transactions
+    WHERE user_id = _attempt.user_id AND reference_id = _quiz.id AND transaction_type = 'quiz_completion'
+  ) INTO _xp_earned_before;
+
+  -- Answers shown for an earlier attempt, or anywhere else, would make a retake a lookup, so
+  -- only attempts started before the student first saw them can earn XP
+  SELECT EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE user_id = _attempt.user_id AND quiz_id = _attempt.quiz_id AND answers_seen_at <= _attempt.started_at
+  ) OR EXISTS (
+    SELECT 1 FROM public.quiz_answers_seen
+    WHERE user_id = _attempt.user_id AND quiz_id = _attempt.quiz_id AND seen_at <= _attempt.started_at
+  ) INTO _answers_seen_before;
+
+  UPDATE public.quiz_attempts
+  SET status = 'completed',
+      score = _score,
+      time_taken_seconds = _time_taken_seconds,
+      completed_at = now()
+  WHERE id = _attempt_id;
+
+  WITH inserted AS (
+    INSERT INTO public.quiz_attempt_answers (
+      attempt_id, question_id, response, is_correct, credit, time_spent_seconds, hint_shown, hints_used, hint_penalty
+    )
+    SELECT
+      _attempt_id,
+      (a ->> 'question_id')::UUID,
+      a -> 'response',
+      COALESCE((a ->> 'is_correct')::BOOLEAN, false),
+      COALESCE((a ->> 'credit')::NUMERIC, 0),
+      (a ->> 'time_spent_seconds')::INTEGER,
+      COALESCE((a ->> 'hints_used')::INTEGER, 0) > 0,
+      COALESCE((a ->> 'hints_used')::INTEGER, 0),
+      COALESCE((a ->> 'hint_penalty')::NUMERIC, 0)
+    FROM jsonb_array_elements(COALESCE(_answers, '[]'::jsonb)) AS a
+    RETURNING id, question_id
+  )
+  INSERT INTO public.quiz_answer_snapshots (answer_id, question)
+  SELECT id, public.quiz_question_snapshot(question_id)
+  FROM inserted
+  WHERE public.quiz_question_snapshot(question_id) IS NOT NULL;
+
+  _breakdown := public.quiz_xp_breakdown(_quiz.id, _score, _attempt.total_questions, _time_taken_seconds, _answers);
+  _base_xp := (_breakdown ->> 'base_xp')::INTEGER;
+  _speed_bonus := (_breakdown ->> 'speed_bonus')::INTEGER;
+  _hint_penalty := (_breakdown ->> 'hint_penalty')::INTEGER;
+
+  IF NOT _xp_earned_before AND NOT _answers_seen_before THEN
+    _xp_awarded := _base_xp + _speed_bonus - _hint_penalty;
+  END IF;
+
+  IF _xp_awarded > 0 THEN
+    _reason := format(
+      'Completed quiz: %s (%s/%s correct, %s%s%s)',
+      _quiz.title,
+      trim_scale(_score),
+      _attempt.total_questions,
+      CASE _quiz.xp_policy
+        WHEN 'proportional' THEN format('%s%% of %s XP = %s', trim_scale((_breakdown ->> 'score_percent')::NUMERIC), _quiz.xp_reward, _base_xp)
+        ELSE format('%s XP', _base_xp)
+      END,
+      CASE WHEN _speed_bonus > 0
+        THEN format(' + %s speed bonus for finishing in %ss of %ss', _speed_bonus, _time_taken_seconds, _breakdown ->> 'time_limit_seconds')
+        ELSE ''
+      END,
+      CASE WHEN _hint_penalty > 0
+        THEN format(' - %s for hints', _hint_penalty)
+        ELSE ''
+      END
+    );
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_attempt.user_id, _xp_awarded, 'quiz_completion', _quiz.id, _reason);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _attempt.user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', _attempt_id,
+    'is_first_attempt', _is_first_attempt,
+    'xp_earned_before', _xp_earned_before,
+    'answers_seen_before', _answers_seen_before,
+    'xp_awarded', _xp_awarded,
+    'xp_breakdown', _breakdown
+  );
+END;
+$$;
@@ -0,0 +1,33 @@
+-- The admin replaced a quiz's or video's prerequisites by deleting its rules and inserting the
+-- new ones as two requests. When the insert failed (a cycle found by check_prerequisite_cycle,
+-- say) the content was left with no rules at all, silently unlocked. The rules are now replaced
+-- in one transaction, so a failure keeps the old ones.
+
+-- Replaces the rules on one quiz or video (exactly one of _quiz_id / _video_id) with _rules:
+-- [{ required_quiz_id, required_video_id, min_score_percent }]
+CREATE OR REPLACE FUNCTION public.save_content_prerequisites(_rules JSONB, _quiz_id UUID DEFAULT NULL, _video_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can edit prerequisites';
+  END IF;
+
+  IF (_quiz_id IS NULL) = (_video_id IS NULL) THEN
+    RAISE EXCEPTION 'Prerequisites belong to exactly one quiz or video';
+  END IF;
+
+  DELETE FROM public.content_prerequisites
+  WHERE quiz_id IS NOT DISTINCT FROM _quiz_id AND video_id IS NOT DISTINCT FROM _video_id;
+
+  INSERT INTO public.content_prerequisites (quiz_id, video_id, required_quiz_id, required_video_id, min_score_percent, created_by)
+  SELECT _quiz_id, _video_id, r.required_quiz_id, r.required_video_id, COALESCE(r.min_score_percent, 0), auth.uid()
+  FROM jsonb_populate_recordset(NULL::public.content_prerequisites, COALESCE(_rules, '[]'::jsonb)) AS r;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_content_prerequisites(JSONB, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_content_prerequisites(JSONB, UUID, UUID) TO authenticated;
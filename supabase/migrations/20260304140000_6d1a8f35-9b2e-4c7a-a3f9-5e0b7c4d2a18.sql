@@ -0,0 +1,61 @@
+-- Saving a quiz deleted its bank draws and draft questions and inserted the new ones as separate
+-- requests, ignoring a failed delete; a failed insert left the quiz with no draws or an empty
+-- draft. Both are now replaced in one transaction, so a failure keeps what was there.
+
+-- Replaces the quiz's bank draws with _draws: [{ bank_id, draw_count }]
+CREATE OR REPLACE FUNCTION public.save_quiz_bank_draws(_quiz_id UUID, _draws JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can edit quizzes';
+  END IF;
+
+  DELETE FROM public.quiz_bank_draws WHERE quiz_id = _quiz_id;
+
+  INSERT INTO public.quiz_bank_draws (quiz_id, bank_id, draw_count)
+  SELECT _quiz_id, d.bank_id, d.draw_count
+  FROM jsonb_populate_recordset(NULL::public.quiz_bank_draws, COALESCE(_draws, '[]'::jsonb)) AS d;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_quiz_bank_draws(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_quiz_bank_draws(UUID, JSONB) TO authenticated;
+
+-- Replaces the questions of the quiz's draft version (started if there isn't one) with
+-- _questions, which hold the question columns plus order_index. Returns the draft version.
+CREATE OR REPLACE FUNCTION public.save_draft_questions(_quiz_id UUID, _questions JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _draft_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can edit quizzes';
+  END IF;
+
+  _draft_id := public.quiz_draft_version(_quiz_id);
+
+  DELETE FROM public.quiz_questions WHERE version_id = _draft_id;
+
+  INSERT INTO public.quiz_questions (
+    quiz_id, version_id, lineage_id, question_type, question, image_url, options, option_images,
+    correct_answer, answer, hints, explanation, order_index
+  )
+  SELECT _quiz_id, _draft_id, COALESCE(q.lineage_id, gen_random_uuid()), q.question_type, q.question, q.image_url,
+    COALESCE(q.options, '[]'::jsonb), COALESCE(q.option_images, '[]'::jsonb), q.correct_answer, q.answer,
+    COALESCE(q.hints, '[]'::jsonb), q.explanation, q.order_index
+  FROM jsonb_populate_recordset(NULL::public.quiz_questions, COALESCE(_questions, '[]'::jsonb)) AS q;
+
+  RETURN _draft_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_draft_questions(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_draft_questions(UUID, JSONB) TO authenticated;
@@ -0,0 +1,55 @@
+-- start-quiz counted a student's exam attempts and inserted the new one as separate statements,
+-- so concurrent starts could go over max_attempts and leave two attempts open at once: one could
+-- be submitted and reviewed to answer the other. The count and the insert now happen under a
+-- lock on the student's profile row, and a new attempt is refused while another is still open.
+
+-- Opens an attempt once start-quiz has submitted the student's previous open one. _max_attempts
+-- is the exam's limit including any grant, NULL for none. Returns {attempt_id, started_at}, or
+-- {refused: 'attempts_used' | 'in_progress'}.
+CREATE OR REPLACE FUNCTION public.open_quiz_attempt(
+  _user_id UUID,
+  _quiz_id UUID,
+  _quiz_version_id UUID,
+  _question_selection JSONB,
+  _deadline_at TIMESTAMP WITH TIME ZONE,
+  _max_attempts INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt RECORD;
+BEGIN
+  -- Lock the profile row so concurrent starts are counted one after the other
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE user_id = _user_id AND quiz_id = _quiz_id AND status = 'in_progress'
+  ) THEN
+    RETURN jsonb_build_object('refused', 'in_progress');
+  END IF;
+
+  IF _max_attempts IS NOT NULL AND (
+    SELECT count(*) FROM public.quiz_attempts WHERE user_id = _user_id AND quiz_id = _quiz_id
+  ) >= _max_attempts THEN
+    RETURN jsonb_build_object('refused', 'attempts_used');
+  END IF;
+
+  INSERT INTO public.quiz_attempts (
+    user_id, quiz_id, quiz_version_id, status, score, total_questions, question_selection, deadline_at
+  )
+  VALUES (
+    _user_id, _quiz_id, _quiz_version_id, 'in_progress', 0, jsonb_array_length(_question_selection),
+    _question_selection, _deadline_at
+  )
+  RETURNING id, started_at INTO _attempt;
+
+  RETURN jsonb_build_object('attempt_id', _attempt.id, 'started_at', _attempt.started_at);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.open_quiz_attempt(UUID, UUID, UUID, JSONB, TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.open_quiz_attempt(UUID, UUID, UUID, JSONB, TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
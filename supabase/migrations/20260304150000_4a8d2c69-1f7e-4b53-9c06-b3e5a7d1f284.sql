@@ -0,0 +1,104 @@
+-- complete_lesson paid a lesson's XP on a single call, with nothing to show the lesson had been
+-- read. Opening a lesson now records when, server-side, and it can only be completed once it
+-- has been open for half its estimated reading time (at 200 words a minute, as readingMinutes
+-- in src/lib/markdown.ts), and never less than 30 seconds.
+CREATE TABLE public.lesson_reads (
+  user_id UUID NOT NULL,
+  lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  -- The first time the student opened the lesson
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, lesson_id)
+);
+
+-- Written and read through open_lesson / complete_lesson only
+ALTER TABLE public.lesson_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.lesson_min_read_seconds(_body TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT GREATEST(30, coalesce(array_length(regexp_split_to_array(btrim(_body), '\s+'), 1), 0) / 200.0 * 60 / 2);
+$$;
+
+-- Records that the caller opened a lesson, which starts its reading clock
+CREATE OR REPLACE FUNCTION public.open_lesson(_lesson_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.lesson_is_available(_lesson_id) THEN
+    RAISE EXCEPTION 'Lesson % not found', _lesson_id;
+  END IF;
+
+  INSERT INTO public.lesson_reads (user_id, lesson_id)
+  VALUES (_user_id, _lesson_id)
+  ON CONFLICT (user_id, lesson_id) DO NOTHING;
+END;
+$$;
+
+-- Marks a lesson read by the caller and pays its XP the first time, once it has been open long
+-- enough. Returns {completed, xp_awarded}, with seconds_left when it is too soon.
+CREATE OR REPLACE FUNCTION public.complete_lesson(_lesson_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _lesson RECORD;
+  _opened_at TIMESTAMP WITH TIME ZONE;
+  _seconds_left NUMERIC;
+  _xp_awarded INTEGER := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, title, body, xp_reward INTO _lesson FROM public.lessons WHERE id = _lesson_id AND public.lesson_is_available(id);
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson % not found', _lesson_id;
+  END IF;
+
+  -- Lock the profile row so concurrent calls can't both pay out
+  PERFORM 1 FROM public.profiles WHERE user_id = _user_id FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.lesson_completions WHERE user_id = _user_id AND lesson_id = _lesson_id) THEN
+    RETURN jsonb_build_object('completed', true, 'xp_awarded', 0);
+  END IF;
+
+  SELECT opened_at INTO _opened_at FROM public.lesson_reads WHERE user_id = _user_id AND lesson_id = _lesson_id;
+  _seconds_left := public.lesson_min_read_seconds(_lesson.body) - COALESCE(EXTRACT(EPOCH FROM now() - _opened_at), 0);
+  IF _opened_at IS NULL OR _seconds_left > 0 THEN
+    RETURN jsonb_build_object('completed', false, 'xp_awarded', 0, 'seconds_left', ceil(GREATEST(_seconds_left, 0)));
+  END IF;
+
+  INSERT INTO public.lesson_completions (user_id, lesson_id) VALUES (_user_id, _lesson_id);
+
+  IF _lesson.xp_reward > 0 AND NOT EXISTS (
+    SELECT 1 FROM public.xp_transactions
+    WHERE user_id = _user_id AND reference_id = _lesson_id AND transaction_type = 'lesson_completed'
+  ) THEN
+    _xp_awarded := _lesson.xp_reward;
+
+    INSERT INTO public.xp_transactions (user_id, amount, transaction_type, reference_id, reason)
+    VALUES (_user_id, _xp_awarded, 'lesson_completed', _lesson_id, 'Read lesson: ' || _lesson.title);
+
+    UPDATE public.profiles
+    SET xp_points = xp_points + _xp_awarded
+    WHERE user_id = _user_id;
+  END IF;
+
+  RETURN jsonb_build_object('completed', true, 'xp_awarded', _xp_awarded);
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Quiz images are only handed to students as signed URLs alongside the questions they belong to,
+-- so an exam's images can't be fetched before it is dealt. Admins keep direct read access for
+-- the editor.
+UPDATE storage.buckets SET public = false WHERE id = 'quiz-media';
+
+DROP POLICY "Anyone can view quiz media" ON storage.objects;
+
+CREATE POLICY "Admins can view quiz media" ON storage.objects FOR SELECT USING (bucket_id = 'quiz-media' AND has_role(auth.uid(), 'admin'));